@@ -7,6 +7,7 @@
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import multipart from '@fastify/multipart';
+import { authenticate } from '@/core/middleware/authenticate';
 import { uploadFishSprite, uploadTankSprite, uploadDecorationSprite, uploadPlayerAvatar } from '@/controllers/asset.controller';
 
 /**
@@ -28,16 +29,16 @@ export async function assetRoutes(
     }
   });
 
-  // POST /asset/fish/:id/sprite - Upload sprite/3D asset for a fish
-  app.post('/asset/fish/:id/sprite', uploadFishSprite);
+  // POST /asset/fish/:id/sprite - Upload sprite/3D asset for a fish (authenticated)
+  app.post('/asset/fish/:id/sprite', { preHandler: authenticate, handler: uploadFishSprite });
 
-  // POST /asset/tank/:id/sprite - Upload sprite for a tank
-  app.post('/asset/tank/:id/sprite', uploadTankSprite);
+  // POST /asset/tank/:id/sprite - Upload sprite for a tank (authenticated)
+  app.post('/asset/tank/:id/sprite', { preHandler: authenticate, handler: uploadTankSprite });
 
-  // POST /asset/decoration/:id/sprite - Upload sprite for a decoration
-  app.post('/asset/decoration/:id/sprite', uploadDecorationSprite);
+  // POST /asset/decoration/:id/sprite - Upload sprite for a decoration (authenticated)
+  app.post('/asset/decoration/:id/sprite', { preHandler: authenticate, handler: uploadDecorationSprite });
 
-  // POST /asset/player/:address/avatar - Upload avatar for a player
-  app.post('/asset/player/:address/avatar', uploadPlayerAvatar);
+  // POST /asset/player/:address/avatar - Upload avatar for a player (authenticated)
+  app.post('/asset/player/:address/avatar', { preHandler: authenticate, handler: uploadPlayerAvatar });
 }
 
@@ -5,7 +5,7 @@
  */
 
 import type { FastifyInstance } from 'fastify';
-import { login } from '@/controllers/auth.controller';
+import { requestNonce, login } from '@/controllers/auth.controller';
 
 /**
  * Registers authentication routes with the Fastify instance.
@@ -13,5 +13,6 @@ import { login } from '@/controllers/auth.controller';
  * @param app - Fastify instance
  */
 export async function authRoutes(app: FastifyInstance): Promise<void> {
+  app.post('/auth/nonce', requestNonce);
   app.post('/auth/login', login);
 }
@@ -5,7 +5,16 @@
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import { getDecorationById, getDecorationsByOwner, activateDecoration, deactivateDecoration } from '@/controllers/decoration.controller';
+import { authenticate } from '@/core/middleware/authenticate';
+import {
+  getDecorationById,
+  getDecorationsByOwner,
+  activateDecoration,
+  deactivateDecoration,
+  placeDecoration,
+  unplaceDecoration,
+  mintDecoration,
+} from '@/controllers/decoration.controller';
 
 /**
  * Registers decoration routes with the Fastify instance.
@@ -23,9 +32,18 @@ export async function decorationRoutes(
   // GET /player/:address/decorations - Get all decorations owned by a player
   app.get('/player/:address/decorations', getDecorationsByOwner);
 
-  // POST /decoration/:id/activate - Activate a decoration
-  app.post('/decoration/:id/activate', activateDecoration);
+  // POST /decoration - Buy (mint) a new decoration (authenticated)
+  app.post('/decoration', { preHandler: authenticate, handler: mintDecoration });
 
-  // POST /decoration/:id/deactivate - Deactivate a decoration
-  app.post('/decoration/:id/deactivate', deactivateDecoration);
+  // POST /decoration/:id/activate - Activate a decoration (authenticated)
+  app.post('/decoration/:id/activate', { preHandler: authenticate, handler: activateDecoration });
+
+  // POST /decoration/:id/deactivate - Deactivate a decoration (authenticated)
+  app.post('/decoration/:id/deactivate', { preHandler: authenticate, handler: deactivateDecoration });
+
+  // POST /decoration/:id/place - Place a decoration in a tank (authenticated)
+  app.post('/decoration/:id/place', { preHandler: authenticate, handler: placeDecoration });
+
+  // POST /decoration/:id/unplace - Remove a decoration from its tank (authenticated)
+  app.post('/decoration/:id/unplace', { preHandler: authenticate, handler: unplaceDecoration });
 }
@@ -5,7 +5,19 @@
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import { getFishById, getFishByOwner, getFishFamily, feedFish, breedFish } from '@/controllers/fish.controller';
+import { authenticate } from '@/core/middleware/authenticate';
+import {
+  getFishById,
+  getFishByOwner,
+  getFishFamily,
+  getFishKinship,
+  getFishFeedings,
+  feedFish,
+  breedFish,
+  moveFish,
+  moveFishBatch,
+  transferFish,
+} from '@/controllers/fish.controller';
 
 /**
  * Registers fish routes with the Fastify instance.
@@ -21,16 +33,31 @@ export async function fishRoutes(
   // Must be registered before /fish/:id to avoid route conflicts
   app.get('/fish/:id/family', getFishFamily);
 
+  // GET /fish/:id/kinship/:otherId - Get how closely two fish are related
+  app.get('/fish/:id/kinship/:otherId', getFishKinship);
+
+  // GET /fish/:id/feedings - Get feeding history of a fish (newest first)
+  app.get('/fish/:id/feedings', getFishFeedings);
+
   // GET /fish/:id - Get fish details by ID
   app.get('/fish/:id', getFishById);
 
   // GET /player/:address/fish - Get all fish owned by a player
   app.get('/player/:address/fish', getFishByOwner);
 
-  // POST /fish/feed - Feed multiple fish in a batch operation
-  app.post('/fish/feed', feedFish);
+  // POST /fish/feed - Feed multiple fish in a batch operation (authenticated)
+  app.post('/fish/feed', { preHandler: authenticate, handler: feedFish });
+
+  // POST /fish/breed - Breed two fish together to create offspring (authenticated)
+  app.post('/fish/breed', { preHandler: authenticate, handler: breedFish });
+
+  // POST /fish/move - Move several fish between tanks atomically (authenticated)
+  app.post('/fish/move', { preHandler: authenticate, handler: moveFishBatch });
+
+  // POST /fish/:id/move - Move a fish to another tank (authenticated)
+  app.post('/fish/:id/move', { preHandler: authenticate, handler: moveFish });
 
-  // POST /fish/breed - Breed two fish together to create offspring
-  app.post('/fish/breed', breedFish);
+  // POST /fish/:id/transfer - Give a fish to another player (authenticated)
+  app.post('/fish/:id/transfer', { preHandler: authenticate, handler: transferFish });
 }
 
@@ -12,6 +12,8 @@ import { fishRoutes } from '@/api/fish.routes';
 import { tankRoutes } from '@/api/tank.routes';
 import { decorationRoutes } from '@/api/decoration.routes';
 import { assetRoutes } from '@/api/asset.routes';
+import { syncRoutes } from '@/api/sync.routes';
+import { marketplaceRoutes } from '@/api/marketplace.routes';
 import { healthRoutes } from '@/api/health.routes';
 
 /**
@@ -28,6 +30,8 @@ export async function registerRoutes(app: FastifyInstance): Promise<void> {
   await app.register(tankRoutes, { prefix: '/api' });
   await app.register(decorationRoutes, { prefix: '/api' });
   await app.register(assetRoutes, { prefix: '/api' });
+  await app.register(syncRoutes, { prefix: '/api' });
+  await app.register(marketplaceRoutes, { prefix: '/api' });
 
   // Placeholder route for testing
   app.get('/api', async () => {
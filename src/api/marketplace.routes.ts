@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Marketplace Routes
+ *
+ * Route definitions for marketplace listing endpoints.
+ */
+
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { authenticate } from '@/core/middleware/authenticate';
+import {
+  listListings,
+  getListingById,
+  createListing,
+  cancelListing,
+  buyListing,
+} from '@/controllers/marketplace.controller';
+
+/**
+ * Registers marketplace routes with the Fastify instance.
+ *
+ * @param app - Fastify instance
+ * @param options - Route options
+ */
+export async function marketplaceRoutes(
+  app: FastifyInstance,
+  _options: FastifyPluginOptions
+): Promise<void> {
+  // GET /marketplace/listings - List listings (filters: asset_type, seller, status; pagination: page, limit)
+  app.get('/marketplace/listings', listListings);
+
+  // GET /marketplace/listings/:id - Get a listing by ID
+  app.get('/marketplace/listings/:id', getListingById);
+
+  // POST /marketplace/listings - List a fish or decoration for sale (authenticated)
+  app.post('/marketplace/listings', { preHandler: authenticate, handler: createListing });
+
+  // POST /marketplace/listings/:id/cancel - Cancel an active listing (authenticated)
+  app.post('/marketplace/listings/:id/cancel', { preHandler: authenticate, handler: cancelListing });
+
+  // POST /marketplace/listings/:id/buy - Buy an active listing (authenticated)
+  app.post('/marketplace/listings/:id/buy', { preHandler: authenticate, handler: buyListing });
+}
@@ -5,7 +5,15 @@
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import { getPlayerByAddress } from '@/controllers/player.controller';
+import { authenticate, requireAdmin } from '@/core/middleware/authenticate';
+import {
+  getPlayerByAddress,
+  getPlayerInventory,
+  purchaseFood,
+  getPlayerBalance,
+  getPlayerTransactions,
+  rewardTournamentWin,
+} from '@/controllers/player.controller';
 
 /**
  * Registers player routes with the Fastify instance.
@@ -19,5 +27,23 @@ export async function playerRoutes(
 ): Promise<void> {
   // GET /player/:address - Get player by address
   app.get('/player/:address', getPlayerByAddress);
+
+  // GET /player/:address/inventory - Get player food inventory
+  app.get('/player/:address/inventory', getPlayerInventory);
+
+  // POST /player/inventory/purchase - Buy food with coins (authenticated)
+  app.post('/player/inventory/purchase', { preHandler: authenticate, handler: purchaseFood });
+
+  // GET /player/:address/balance - Get player coin balance
+  app.get('/player/:address/balance', getPlayerBalance);
+
+  // GET /player/:address/transactions - List player coin transactions (pagination: page, limit)
+  app.get('/player/:address/transactions', getPlayerTransactions);
+
+  // POST /player/:address/rewards/tournament - Credit a tournament win reward (admin)
+  app.post('/player/:address/rewards/tournament', {
+    preHandler: [authenticate, requireAdmin],
+    handler: rewardTournamentWin,
+  });
 }
 
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Sync Routes
+ * 
+ * Route definitions for sync queue endpoints.
+ */
+
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { authenticate, requireAdmin } from '@/core/middleware/authenticate';
+import { listSyncs, getSyncByTxHash, retrySync, cancelSync } from '@/controllers/sync.controller';
+
+/**
+ * Registers sync queue routes with the Fastify instance.
+ * 
+ * @param app - Fastify instance
+ * @param options - Route options
+ */
+export async function syncRoutes(
+  app: FastifyInstance,
+  _options: FastifyPluginOptions
+): Promise<void> {
+  // GET /sync - List sync queue entries (filters: status, entity_type, needs_review, from, to; pagination: page, limit)
+  app.get('/sync', listSyncs);
+
+  // GET /sync/:txHash - Get a sync queue entry by transaction hash
+  app.get('/sync/:txHash', getSyncByTxHash);
+
+  // POST /sync/:txHash/retry - Requeue a pending or failed entry (admin)
+  app.post('/sync/:txHash/retry', { preHandler: [authenticate, requireAdmin], handler: retrySync });
+
+  // POST /sync/:txHash/cancel - Cancel a pending entry (admin)
+  app.post('/sync/:txHash/cancel', { preHandler: [authenticate, requireAdmin], handler: cancelSync });
+}
@@ -5,7 +5,15 @@
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import { getTankById, getTanksByOwner } from '@/controllers/tank.controller';
+import { authenticate } from '@/core/middleware/authenticate';
+import {
+  getTankById,
+  getTanksByOwner,
+  mintTank,
+  renameTank,
+  getTankLayout,
+  updateTankLayout,
+} from '@/controllers/tank.controller';
 
 /**
  * Registers tank routes with the Fastify instance.
@@ -22,5 +30,17 @@ export async function tankRoutes(
 
   // GET /player/:address/tanks - Get all tanks owned by a player
   app.get('/player/:address/tanks', getTanksByOwner);
+
+  // POST /tank - Mint an additional tank (authenticated)
+  app.post('/tank', { preHandler: authenticate, handler: mintTank });
+
+  // PATCH /tank/:id - Rename a tank (authenticated, owner only)
+  app.patch('/tank/:id', { preHandler: authenticate, handler: renameTank });
+
+  // GET /tank/:id/layout - Get the tank layout document
+  app.get('/tank/:id/layout', getTankLayout);
+
+  // PUT /tank/:id/layout - Save the tank layout document (authenticated, owner only)
+  app.put('/tank/:id/layout', { preHandler: authenticate, handler: updateTankLayout });
 }
 
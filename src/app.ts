@@ -8,16 +8,35 @@
 import Fastify, { type FastifyInstance } from 'fastify';
 import { errorHandler } from './core/middleware/error-handler';
 import { registerRoutes } from './api';
-import { PORT, NODE_ENV } from './core/config';
+import {
+  PORT,
+  NODE_ENV,
+  AUTH_SIGNATURE_VERIFIER,
+  SYNC_RECONCILER_ENABLED,
+  EVENT_INGESTION_ENABLED,
+  EVENT_REPLAY_FILE,
+} from './core/config';
 import { displayServerBanner } from './core/utils/server-banner';
 import { initializeLogger } from './core/utils/logger';
+import { FileEventSource } from './core/utils/file-event-source';
+import { SyncReconcilerService } from './services/sync-reconciler.service';
+import { EventIngestionService } from './services/event-ingestion.service';
 
 /**
  * Creates and configures the Fastify application instance.
  * 
  * @returns Configured Fastify instance
+ * @throws {Error} If the stub signature verifier is configured outside local development
  */
 export async function createApp(): Promise<FastifyInstance> {
+  // The stub verifier accepts any signature, so anyone could log in as any player
+  if (AUTH_SIGNATURE_VERIFIER === 'stub' && NODE_ENV !== 'development') {
+    throw new Error(
+      `AUTH_SIGNATURE_VERIFIER=stub accepts any login signature and is only allowed with ` +
+      `NODE_ENV=development (NODE_ENV=${NODE_ENV}). Use 'starknet' instead.`
+    );
+  }
+
   const app = Fastify({
     logger: {
       level: NODE_ENV === 'production' ? 'info' : 'debug',
@@ -30,12 +49,41 @@ export async function createApp(): Promise<FastifyInstance> {
   // Decorate app with start time for uptime calculation
   app.decorate('startTime', Date.now());
 
+  // Decorate requests with the authenticated player (set by the authenticate preHandler)
+  app.decorateRequest('player', null);
+
   // Register global error handler
   app.setErrorHandler(errorHandler);
 
   // Register routes
   await registerRoutes(app);
 
+  // Reconcile pending sync_queue entries in the background while the server runs
+  if (SYNC_RECONCILER_ENABLED) {
+    const syncReconciler = new SyncReconcilerService();
+    app.addHook('onReady', async () => {
+      syncReconciler.start();
+    });
+    app.addHook('onClose', async () => {
+      await syncReconciler.stop();
+    });
+  }
+
+  // Ingest world events done directly on-chain into Supabase
+  if (EVENT_INGESTION_ENABLED) {
+    if (EVENT_REPLAY_FILE) {
+      const eventIngestion = new EventIngestionService(new FileEventSource(EVENT_REPLAY_FILE));
+      app.addHook('onReady', async () => {
+        eventIngestion.start();
+      });
+      app.addHook('onClose', async () => {
+        await eventIngestion.stop();
+      });
+    } else {
+      app.log.warn('Event ingestion enabled but no event source configured (set EVENT_REPLAY_FILE)');
+    }
+  }
+
   return app;
 }
 
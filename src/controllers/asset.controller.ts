@@ -8,6 +8,7 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
 import { AssetService } from '@/services/asset.service';
 
 const assetService = new AssetService();
@@ -18,7 +19,7 @@ const assetService = new AssetService();
  * Uploads a sprite or 3D asset for a specific fish.
  * Supports multipart/form-data.
  * 
- * @param request - Fastify request with file and id parameter
+ * @param request - Authenticated Fastify request with file and id parameter
  * @param reply - Fastify reply
  * @returns Uploaded asset URL or error response
  */
@@ -28,6 +29,7 @@ export async function uploadFishSprite(
 ): Promise<ControllerResponse<{ sprite_url: string }>> {
   try {
     const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
     const fishId = parseInt(id, 10);
     
     if (isNaN(fishId)) {
@@ -56,7 +58,7 @@ export async function uploadFishSprite(
       mimetype: data.mimetype,
       encoding: data.encoding,
       file: buffer
-    }, fishId);
+    }, fishId, owner);
 
     return createSuccessResponse(
       { sprite_url: spriteUrl },
@@ -73,7 +75,7 @@ export async function uploadFishSprite(
  * Uploads a sprite for a specific tank.
  * Supports multipart/form-data.
  * 
- * @param request - Fastify request with file and id parameter
+ * @param request - Authenticated Fastify request with file and id parameter
  * @param reply - Fastify reply
  * @returns Uploaded asset URL or error response
  */
@@ -83,6 +85,7 @@ export async function uploadTankSprite(
 ): Promise<ControllerResponse<{ sprite_url: string }>> {
   try {
     const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
     const tankId = parseInt(id, 10);
     
     if (isNaN(tankId)) {
@@ -111,7 +114,7 @@ export async function uploadTankSprite(
       mimetype: data.mimetype,
       encoding: data.encoding,
       file: buffer
-    }, tankId);
+    }, tankId, owner);
 
     return createSuccessResponse(
       { sprite_url: spriteUrl },
@@ -128,7 +131,7 @@ export async function uploadTankSprite(
  * Uploads a sprite for a specific decoration.
  * Supports multipart/form-data.
  * 
- * @param request - Fastify request with file and id parameter
+ * @param request - Authenticated Fastify request with file and id parameter
  * @param reply - Fastify reply
  * @returns Uploaded asset URL or error response
  */
@@ -138,6 +141,7 @@ export async function uploadDecorationSprite(
 ): Promise<ControllerResponse<{ sprite_url: string }>> {
   try {
     const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
     const decorationId = parseInt(id, 10);
     
     if (isNaN(decorationId)) {
@@ -166,7 +170,7 @@ export async function uploadDecorationSprite(
       mimetype: data.mimetype,
       encoding: data.encoding,
       file: buffer
-    }, decorationId);
+    }, decorationId, owner);
 
     return createSuccessResponse(
       { sprite_url: spriteUrl },
@@ -183,7 +187,7 @@ export async function uploadDecorationSprite(
  * Uploads an avatar for a specific player.
  * Supports multipart/form-data.
  * 
- * @param request - Fastify request with file and address parameter
+ * @param request - Authenticated Fastify request with file and address parameter
  * @param reply - Fastify reply
  * @returns Uploaded avatar URL or error response
  */
@@ -193,6 +197,7 @@ export async function uploadPlayerAvatar(
 ): Promise<ControllerResponse<{ avatar_url: string }>> {
   try {
     const { address } = request.params;
+    const owner = getAuthenticatedAddress(request);
     
     if (!address || address.trim().length === 0) {
       throw new Error('Invalid player address format');
@@ -220,7 +225,7 @@ export async function uploadPlayerAvatar(
       mimetype: data.mimetype,
       encoding: data.encoding,
       file: buffer
-    }, address);
+    }, address, owner);
 
     return createSuccessResponse(
       { avatar_url: avatarUrl },
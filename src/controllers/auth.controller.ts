@@ -1,7 +1,7 @@
 /**
  * @fileoverview Auth Controller
  * 
- * Handles authentication endpoints for player login.
+ * Handles authentication endpoints for the signed-message login flow.
  * 
  * ⚠️ IMPORTANT: All controllers MUST:
  * - Return ControllerResponse<T> or Promise<ControllerResponse<T>>
@@ -13,46 +13,79 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
 import { ValidationError } from '@/core/errors';
-import { PlayerService } from '@/services/player.service';
-import type { Player } from '@/models/player.model';
+import { AuthService } from '@/services/auth.service';
+import type { AuthChallenge, LoginDto, LoginResult, RequestNonceDto } from '@/models/auth.model';
 
-const playerService = new PlayerService();
+const authService = new AuthService();
 
 /**
- * Request body type for login endpoint.
+ * POST /auth/nonce endpoint.
+ * 
+ * Issues a single-use login challenge for an address.
+ * The client signs the returned typed data with its Starknet account
+ * and sends the signature to POST /auth/login.
+ * 
+ * @param request - Fastify request with address in body
+ * @param reply - Fastify reply (unused, but required by Fastify)
+ * @returns ControllerResponse<AuthChallenge> with nonce and typed data
  */
-interface LoginDto {
-  address: string;
+export async function requestNonce(
+  request: FastifyRequest<{ Body: RequestNonceDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<AuthChallenge>> {
+  try {
+    const { address } = request.body;
+
+    // Validate that address is provided
+    if (!address) {
+      return createErrorResponse(new ValidationError('Address is required in request body'));
+    }
+
+    const challenge = await authService.createNonce(address);
+
+    return createSuccessResponse(
+      challenge,
+      'Login challenge issued successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
 }
 
 /**
  * POST /auth/login endpoint.
  * 
- * Handles player login/registration via Cartridge.
+ * Verifies a signed login challenge and returns a session token.
  * If the player doesn't exist, creates a new player record.
  * 
- * @param request - Fastify request with address in body
+ * @param request - Fastify request with address, nonce and signature in body
  * @param reply - Fastify reply (unused, but required by Fastify)
- * @returns ControllerResponse<Player> with player data
+ * @returns ControllerResponse<LoginResult> with player data and session token
  */
 export async function login(
   request: FastifyRequest<{ Body: LoginDto }>,
   _reply: FastifyReply
-): Promise<ControllerResponse<Player>> {
+): Promise<ControllerResponse<LoginResult>> {
   try {
-    const { address } = request.body;
+    const { address, nonce, signature } = request.body;
 
-    // Validate that address is provided
+    // Validate that all fields are provided
     if (!address) {
       return createErrorResponse(new ValidationError('Address is required in request body'));
     }
 
-    // Register or retrieve player
-    const player = await playerService.registerPlayer(address);
+    if (!nonce) {
+      return createErrorResponse(new ValidationError('Nonce is required in request body'));
+    }
+
+    if (!signature) {
+      return createErrorResponse(new ValidationError('Signature is required in request body'));
+    }
+
+    const result = await authService.login(address, nonce, signature);
 
-    // Return success response with player data
     return createSuccessResponse(
-      player,
+      result,
       'Player logged in successfully'
     );
   } catch (error) {
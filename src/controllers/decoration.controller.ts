@@ -8,8 +8,9 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
 import { ValidationError } from '@/core/errors';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
 import { DecorationService } from '@/services/decoration.service';
-import type { Decoration } from '@/models/decoration.model';
+import type { Decoration, PlaceDecorationDto, MintDecorationDto } from '@/models/decoration.model';
 
 const decorationService = new DecorationService();
 
@@ -76,22 +77,19 @@ export async function getDecorationsByOwner(
  * POST /decoration/:id/activate
  * 
  * Activates a decoration, making its XP multiplier apply to fish XP gains
- * in the associated tank.
+ * in the tank it is placed in.
  * 
- * @param request - Fastify request with id parameter and owner in body
+ * @param request - Authenticated Fastify request with id parameter
  * @param reply - Fastify reply
  * @returns Updated Decoration data or error response
  */
 export async function activateDecoration(
-  request: FastifyRequest<{ 
-    Params: { id: string }, 
-    Body: { owner: string } 
-  }>,
+  request: FastifyRequest<{ Params: { id: string } }>,
   _reply: FastifyReply
 ): Promise<ControllerResponse<Decoration>> {
   try {
     const { id } = request.params;
-    const { owner } = request.body;
+    const owner = getAuthenticatedAddress(request);
 
     const decorationId = parseInt(id, 10);
     
@@ -100,10 +98,6 @@ export async function activateDecoration(
       throw new ValidationError('Invalid decoration ID format');
     }
 
-    if (!owner) {
-      throw new ValidationError('Owner address is required in request body');
-    }
-
     const decoration = await decorationService.activateDecoration(decorationId, owner);
 
     return createSuccessResponse(
@@ -121,20 +115,17 @@ export async function activateDecoration(
  * Deactivates a decoration, removing its XP multiplier from fish XP gains
  * in the associated tank.
  * 
- * @param request - Fastify request with id parameter and owner in body
+ * @param request - Authenticated Fastify request with id parameter
  * @param reply - Fastify reply
  * @returns Updated Decoration data or error response
  */
 export async function deactivateDecoration(
-  request: FastifyRequest<{ 
-    Params: { id: string }, 
-    Body: { owner: string } 
-  }>,
+  request: FastifyRequest<{ Params: { id: string } }>,
   _reply: FastifyReply
 ): Promise<ControllerResponse<Decoration>> {
   try {
     const { id } = request.params;
-    const { owner } = request.body;
+    const owner = getAuthenticatedAddress(request);
 
     const decorationId = parseInt(id, 10);
     
@@ -143,10 +134,6 @@ export async function deactivateDecoration(
       throw new ValidationError('Invalid decoration ID format');
     }
 
-    if (!owner) {
-      throw new ValidationError('Owner address is required in request body');
-    }
-
     const decoration = await decorationService.deactivateDecoration(decorationId, owner);
 
     return createSuccessResponse(
@@ -156,4 +143,121 @@ export async function deactivateDecoration(
   } catch (error) {
     return createErrorResponse(error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * POST /decoration/:id/place
+ * 
+ * Places a decoration in one of the authenticated player's tanks.
+ * Only active decorations placed in a tank boost that tank's fish XP.
+ * 
+ * @param request - Authenticated Fastify request with id parameter and PlaceDecorationDto in body
+ * @param reply - Fastify reply
+ * @returns Updated Decoration data or error response
+ */
+export async function placeDecoration(
+  request: FastifyRequest<{ Params: { id: string }; Body: PlaceDecorationDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Decoration>> {
+  try {
+    const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
+
+    const decorationId = parseInt(id, 10);
+    
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(decorationId)) {
+      throw new ValidationError('Invalid decoration ID format');
+    }
+
+    const tankId = request.body?.tank_id;
+    if (!tankId || typeof tankId !== 'number') {
+      throw new ValidationError('tank_id is required and must be a number');
+    }
+
+    const decoration = await decorationService.placeDecoration(decorationId, tankId, owner);
+
+    return createSuccessResponse(
+      decoration,
+      'Decoration placed successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /decoration/:id/unplace
+ * 
+ * Removes a decoration from the tank it is placed in.
+ * 
+ * @param request - Authenticated Fastify request with id parameter
+ * @param reply - Fastify reply
+ * @returns Updated Decoration data or error response
+ */
+export async function unplaceDecoration(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Decoration>> {
+  try {
+    const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
+
+    const decorationId = parseInt(id, 10);
+    
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(decorationId)) {
+      throw new ValidationError('Invalid decoration ID format');
+    }
+
+    const decoration = await decorationService.unplaceDecoration(decorationId, owner);
+
+    return createSuccessResponse(
+      decoration,
+      'Decoration removed from tank successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /decoration
+ * 
+ * Buys a new decoration of the given kind for the authenticated player.
+ * The catalog price is charged from the player's coin balance.
+ * An optional Idempotency-Key header makes retries of the same purchase safe:
+ * they return the decoration bought by the first request.
+ * 
+ * @param request - Authenticated Fastify request with MintDecorationDto in body
+ * @param reply - Fastify reply
+ * @returns Newly minted Decoration or error response
+ */
+export async function mintDecoration(
+  request: FastifyRequest<{ Body: MintDecorationDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Decoration>> {
+  try {
+    const owner = getAuthenticatedAddress(request);
+
+    // Basic validation before service call (service does stricter validation)
+    const kind = request.body?.kind;
+    if (!kind || typeof kind !== 'string') {
+      throw new ValidationError('kind is required and must be a string');
+    }
+
+    const idempotencyKey = request.headers['idempotency-key'];
+    if (idempotencyKey !== undefined && typeof idempotencyKey !== 'string') {
+      throw new ValidationError('Idempotency-Key header must be a single value');
+    }
+
+    const decoration = await decorationService.mintDecoration(owner, kind, idempotencyKey);
+
+    return createSuccessResponse(
+      decoration,
+      'Decoration minted successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
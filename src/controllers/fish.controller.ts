@@ -8,8 +8,19 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
 import { ValidationError } from '@/core/errors';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
 import { FishService } from '@/services/fish.service';
-import type { Fish, FeedFishBatchDto, BreedFishDto } from '@/models/fish.model';
+import type {
+  Fish,
+  FeedFishBatchDto,
+  BreedFishDto,
+  FeedEvent,
+  MoveFishDto,
+  MoveFishBatchDto,
+  FishMoveResult,
+  TransferFishDto,
+  FishKinship,
+} from '@/models/fish.model';
 import type { FishFamilyTree } from '@/core/types/dojo-types';
 
 const fishService = new FishService();
@@ -81,6 +92,81 @@ export async function getFishFamily(
   }
 }
 
+/**
+ * GET /fish/:id/kinship/:otherId
+ * 
+ * Retrieves how closely two fish are related: coefficient of relationship,
+ * inbreeding coefficient of a potential offspring and whether they may breed.
+ * 
+ * @param request - Fastify request with id and otherId parameters
+ * @param reply - Fastify reply
+ * @returns FishKinship data or error response
+ */
+export async function getFishKinship(
+  request: FastifyRequest<{ Params: { id: string; otherId: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<FishKinship>> {
+  try {
+    const { id, otherId } = request.params;
+    const fishId = parseInt(id, 10);
+    const otherFishId = parseInt(otherId, 10);
+
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(fishId) || isNaN(otherFishId)) {
+      throw new ValidationError('Invalid fish ID format');
+    }
+
+    const kinship = await fishService.getFishKinship(fishId, otherFishId);
+
+    return createSuccessResponse(
+      kinship,
+      'Fish kinship retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /fish/:id/feedings
+ * 
+ * Retrieves the feeding history of a fish, newest first.
+ * Accepts an optional `limit` query parameter (1-100, default 50).
+ * 
+ * @param request - Fastify request with id parameter and optional limit query
+ * @param reply - Fastify reply
+ * @returns Array of FeedEvent data or error response
+ */
+export async function getFishFeedings(
+  request: FastifyRequest<{ Params: { id: string }; Querystring: { limit?: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<FeedEvent[]>> {
+  try {
+    const { id } = request.params;
+    const { limit } = request.query;
+    const fishId = parseInt(id, 10);
+    
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(fishId)) {
+      throw new ValidationError('Invalid fish ID format');
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && isNaN(parsedLimit)) {
+      throw new ValidationError('Invalid limit format');
+    }
+
+    const feedings = await fishService.getFeedHistory(fishId, parsedLimit);
+
+    return createSuccessResponse(
+      feedings,
+      'Fish feeding history retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
 /**
  * GET /player/:address/fish
  * 
@@ -111,10 +197,11 @@ export async function getFishByOwner(
  * POST /fish/feed
  * 
  * Feeds multiple fish in a batch operation.
- * Validates ownership and calls the on-chain feed_fish_batch function.
+ * Validates ownership against the authenticated player and calls the on-chain feed_fish_batch function.
+ * The optional food_type (default Basic) is deducted from the player's food inventory.
  * All state updates (XP, last_fed_at, multipliers) happen on-chain.
  * 
- * @param request - Fastify request with FeedFishBatchDto in body
+ * @param request - Authenticated Fastify request with FeedFishBatchDto in body
  * @param reply - Fastify reply
  * @returns Transaction hash or error response
  */
@@ -123,18 +210,15 @@ export async function feedFish(
   _reply: FastifyReply
 ): Promise<ControllerResponse<{ tx_hash: string }>> {
   try {
-    const { fish_ids, owner } = request.body;
+    const { fish_ids, food_type } = request.body;
+    const owner = getAuthenticatedAddress(request);
 
     // Basic validation before service call (service does stricter validation)
     if (!fish_ids || !Array.isArray(fish_ids)) {
       throw new Error('fish_ids must be an array');
     }
 
-    if (!owner) {
-      throw new Error('owner is required');
-    }
-
-    const txHash = await fishService.feedFishBatch(fish_ids, owner);
+    const txHash = await fishService.feedFishBatch(fish_ids, owner, food_type);
 
     return createSuccessResponse(
       { tx_hash: txHash },
@@ -153,7 +237,7 @@ export async function feedFish(
  * creates a new fish on-chain, saves it to Supabase with parent references,
  * and updates player statistics.
  * 
- * @param request - Fastify request with BreedFishDto in body
+ * @param request - Authenticated Fastify request with BreedFishDto in body
  * @param reply - Fastify reply
  * @returns Newly created Fish or error response
  */
@@ -162,7 +246,8 @@ export async function breedFish(
   _reply: FastifyReply
 ): Promise<ControllerResponse<Fish>> {
   try {
-    const { fish1_id, fish2_id, owner } = request.body;
+    const { fish1_id, fish2_id } = request.body;
+    const owner = getAuthenticatedAddress(request);
 
     // Basic validation before service call (service does stricter validation)
     if (!fish1_id || typeof fish1_id !== 'number') {
@@ -173,10 +258,6 @@ export async function breedFish(
       throw new Error('fish2_id must be a number');
     }
 
-    if (!owner) {
-      throw new Error('owner is required');
-    }
-
     const newFish = await fishService.breedFish(fish1_id, fish2_id, owner);
 
     return createSuccessResponse(
@@ -188,3 +269,116 @@ export async function breedFish(
   }
 }
 
+/**
+ * POST /fish/:id/move
+ * 
+ * Moves a fish to another tank owned by the authenticated player.
+ * The target tank must have room for the fish.
+ * 
+ * @param request - Authenticated Fastify request with id parameter and MoveFishDto in body
+ * @param reply - Fastify reply
+ * @returns Outcome of the move or error response
+ */
+export async function moveFish(
+  request: FastifyRequest<{ Params: { id: string }; Body: MoveFishDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<FishMoveResult>> {
+  try {
+    const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
+    const fishId = parseInt(id, 10);
+
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(fishId)) {
+      throw new ValidationError('Invalid fish ID format');
+    }
+
+    const tankId = request.body?.tank_id;
+    if (!tankId || typeof tankId !== 'number') {
+      throw new ValidationError('tank_id is required and must be a number');
+    }
+
+    const result = await fishService.moveFish(fishId, tankId, owner);
+
+    return createSuccessResponse(
+      result,
+      'Fish moved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /fish/move
+ * 
+ * Moves several fish between the authenticated player's tanks in one atomic
+ * operation (either all fish are moved or none is).
+ * 
+ * @param request - Authenticated Fastify request with MoveFishBatchDto in body
+ * @param reply - Fastify reply
+ * @returns Outcome of each move or error response
+ */
+export async function moveFishBatch(
+  request: FastifyRequest<{ Body: MoveFishBatchDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<FishMoveResult[]>> {
+  try {
+    const owner = getAuthenticatedAddress(request);
+    const moves = request.body?.moves;
+
+    // Basic validation before service call (service does stricter validation)
+    if (!moves || !Array.isArray(moves)) {
+      throw new ValidationError('moves must be an array');
+    }
+
+    const results = await fishService.moveFishBatch(moves, owner);
+
+    return createSuccessResponse(
+      results,
+      'Fish moved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /fish/:id/transfer
+ * 
+ * Gives a fish owned by the authenticated player to another registered player.
+ * The fish is placed in the recipient's first tank, which must have room for it.
+ * 
+ * @param request - Authenticated Fastify request with id parameter and TransferFishDto in body
+ * @param reply - Fastify reply
+ * @returns The transferred fish or error response
+ */
+export async function transferFish(
+  request: FastifyRequest<{ Params: { id: string }; Body: TransferFishDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Fish>> {
+  try {
+    const { id } = request.params;
+    const from = getAuthenticatedAddress(request);
+    const fishId = parseInt(id, 10);
+
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(fishId)) {
+      throw new ValidationError('Invalid fish ID format');
+    }
+
+    const to = request.body?.to;
+    if (!to || typeof to !== 'string') {
+      throw new ValidationError('to is required and must be a string');
+    }
+
+    const fish = await fishService.transferFish(fishId, from, to);
+
+    return createSuccessResponse(
+      fish,
+      'Fish transferred successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Marketplace Controller
+ *
+ * Request handlers for marketplace listing endpoints.
+ */
+
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { ControllerResponse } from '@/core/types/controller-response';
+import { createSuccessResponse, createErrorResponse } from '@/core/responses';
+import { ValidationError } from '@/core/errors';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
+import { MarketplaceService } from '@/services/marketplace.service';
+import type {
+  Listing,
+  ListingPage,
+  ListingFilters,
+  ListingAssetType,
+  ListingStatus,
+  CreateListingDto,
+} from '@/models/marketplace.model';
+
+const marketplaceService = new MarketplaceService();
+
+/**
+ * Query string accepted by GET /marketplace/listings.
+ */
+type ListListingsQuery = {
+  asset_type?: string;
+  seller?: string;
+  status?: string;
+  page?: string;
+  limit?: string;
+};
+
+/**
+ * GET /marketplace/listings
+ *
+ * Lists marketplace listings, newest first. Returns active listings unless
+ * another status is requested. Supports filtering by asset_type and seller,
+ * and pagination (page/limit).
+ *
+ * @param request - Fastify request with filter query parameters
+ * @param reply - Fastify reply
+ * @returns Page of listings or error response
+ */
+export async function listListings(
+  request: FastifyRequest<{ Querystring: ListListingsQuery }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<ListingPage>> {
+  try {
+    const { asset_type, seller, status, page, limit } = request.query;
+    const filters: ListingFilters = {};
+
+    // Basic parsing before service call (service does stricter validation)
+    if (asset_type) {
+      filters.asset_type = asset_type as ListingAssetType;
+    }
+    if (seller) {
+      filters.seller = seller;
+    }
+    if (status) {
+      filters.status = status as ListingStatus;
+    }
+    if (page) {
+      filters.page = parseInteger(page, 'page');
+    }
+    if (limit) {
+      filters.limit = parseInteger(limit, 'limit');
+    }
+
+    const result = await marketplaceService.listListings(filters);
+
+    return createSuccessResponse(
+      result,
+      'Listings retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /marketplace/listings/:id
+ *
+ * Retrieves a listing by its ID.
+ *
+ * @param request - Fastify request with id parameter
+ * @param reply - Fastify reply
+ * @returns Listing or error response
+ */
+export async function getListingById(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Listing>> {
+  try {
+    const listingId = parseListingId(request.params.id);
+    const listing = await marketplaceService.getListingById(listingId);
+
+    return createSuccessResponse(
+      listing,
+      'Listing retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /marketplace/listings
+ *
+ * Lists a fish or decoration owned by the authenticated player for sale.
+ *
+ * @param request - Fastify request with CreateListingDto body
+ * @param reply - Fastify reply
+ * @returns The new listing or error response
+ */
+export async function createListing(
+  request: FastifyRequest<{ Body: CreateListingDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Listing>> {
+  try {
+    const seller = getAuthenticatedAddress(request);
+    const { asset_type, asset_id, price } = request.body || {};
+
+    // Basic validation before service call (service does stricter validation)
+    if (!asset_type || typeof asset_type !== 'string') {
+      throw new ValidationError('asset_type is required and must be a string');
+    }
+
+    if (!asset_id || typeof asset_id !== 'number') {
+      throw new ValidationError('asset_id is required and must be a number');
+    }
+
+    if (!price || typeof price !== 'number') {
+      throw new ValidationError('price is required and must be a number');
+    }
+
+    const listing = await marketplaceService.createListing(seller, { asset_type, asset_id, price });
+
+    return createSuccessResponse(
+      listing,
+      'Listing created successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /marketplace/listings/:id/cancel
+ *
+ * Cancels an active listing of the authenticated player.
+ *
+ * @param request - Fastify request with id parameter
+ * @param reply - Fastify reply
+ * @returns The cancelled listing or error response
+ */
+export async function cancelListing(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Listing>> {
+  try {
+    const seller = getAuthenticatedAddress(request);
+    const listingId = parseListingId(request.params.id);
+
+    const listing = await marketplaceService.cancelListing(listingId, seller);
+
+    return createSuccessResponse(
+      listing,
+      'Listing cancelled successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /marketplace/listings/:id/buy
+ *
+ * Buys an active listing for the authenticated player.
+ *
+ * @param request - Fastify request with id parameter
+ * @param reply - Fastify reply
+ * @returns The sold listing or error response
+ */
+export async function buyListing(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Listing>> {
+  try {
+    const buyer = getAuthenticatedAddress(request);
+    const listingId = parseListingId(request.params.id);
+
+    const listing = await marketplaceService.buyListing(listingId, buyer);
+
+    return createSuccessResponse(
+      listing,
+      'Listing bought successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+function parseListingId(id: string): number {
+  const listingId = parseInt(id, 10);
+  if (isNaN(listingId)) {
+    throw new ValidationError('Invalid listing ID format');
+  }
+  return listingId;
+}
+
+function parseInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new ValidationError(`Invalid "${name}" value: ${value}`);
+  }
+  return parsed;
+}
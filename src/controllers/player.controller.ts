@@ -12,10 +12,23 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
+import { ValidationError } from '@/core/errors';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
 import { PlayerService } from '@/services/player.service';
+import { FoodService } from '@/services/food.service';
+import { LedgerService } from '@/services/ledger.service';
 import type { PlayerProfile } from '@/models/player.model';
+import type { PlayerInventory, PurchaseFoodDto } from '@/models/food.model';
+import type { PlayerBalance, LedgerHistoryPage, TournamentRewardDto } from '@/models/ledger.model';
 
 const playerService = new PlayerService();
+const foodService = new FoodService();
+const ledgerService = new LedgerService();
+
+interface TransactionHistoryQuery {
+  page?: string;
+  limit?: string;
+}
 
 /**
  * GET /player/:address
@@ -45,3 +58,168 @@ export async function getPlayerByAddress(
   }
 }
 
+/**
+ * GET /player/:address/inventory
+ * 
+ * Retrieves the food inventory of a player.
+ * Lists every food type in the catalog with its effects and the player's stock
+ * (null quantity for unlimited food).
+ * 
+ * @param request - Fastify request with address parameter
+ * @param reply - Fastify reply
+ * @returns PlayerInventory or error response
+ */
+export async function getPlayerInventory(
+  request: FastifyRequest<{ Params: { address: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<PlayerInventory>> {
+  try {
+    const { address } = request.params;
+    const inventory = await foodService.getInventory(address);
+
+    return createSuccessResponse(
+      inventory,
+      'Player inventory retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /player/:address/balance
+ * 
+ * Retrieves the coin balance of a player.
+ * 
+ * @param request - Fastify request with address parameter
+ * @param reply - Fastify reply
+ * @returns PlayerBalance or error response
+ */
+export async function getPlayerBalance(
+  request: FastifyRequest<{ Params: { address: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<PlayerBalance>> {
+  try {
+    const { address } = request.params;
+    const balance = await ledgerService.getBalance(address);
+
+    return createSuccessResponse(
+      balance,
+      'Player balance retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /player/:address/transactions
+ * 
+ * Lists the coin transactions of a player, newest first.
+ * Supports pagination through the page and limit query parameters.
+ * 
+ * @param request - Fastify request with address parameter and pagination query
+ * @param reply - Fastify reply
+ * @returns LedgerHistoryPage or error response
+ */
+export async function getPlayerTransactions(
+  request: FastifyRequest<{ Params: { address: string }; Querystring: TransactionHistoryQuery }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<LedgerHistoryPage>> {
+  try {
+    const { address } = request.params;
+    const { page, limit } = request.query;
+
+    const history = await ledgerService.getTransactionHistory(
+      address,
+      page ? parseInteger(page, 'page') : undefined,
+      limit ? parseInteger(limit, 'limit') : undefined
+    );
+
+    return createSuccessResponse(
+      history,
+      'Player transactions retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /player/inventory/purchase
+ * 
+ * Buys food for the authenticated player.
+ * The catalog price of each item is charged from the player's coin balance.
+ * 
+ * @param request - Authenticated Fastify request with PurchaseFoodDto in body
+ * @param reply - Fastify reply
+ * @returns The player's PlayerInventory after the purchase or error response
+ */
+export async function purchaseFood(
+  request: FastifyRequest<{ Body: PurchaseFoodDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<PlayerInventory>> {
+  try {
+    const address = getAuthenticatedAddress(request);
+    const { food_type, quantity } = request.body || {};
+
+    // Basic validation before service call (service does stricter validation)
+    if (!food_type || typeof food_type !== 'string') {
+      throw new ValidationError('food_type is required and must be a string');
+    }
+
+    if (typeof quantity !== 'number') {
+      throw new ValidationError('quantity is required and must be a number');
+    }
+
+    const inventory = await foodService.purchaseFood(address, food_type, quantity);
+
+    return createSuccessResponse(
+      inventory,
+      'Food purchased successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /player/:address/rewards/tournament
+ * 
+ * Credits the tournament win reward to a player (admin only).
+ * Rewarding the same player twice for the same tournament has no effect.
+ * 
+ * @param request - Fastify request with address parameter and TournamentRewardDto body
+ * @param reply - Fastify reply
+ * @returns The player's balance after the reward or error response
+ */
+export async function rewardTournamentWin(
+  request: FastifyRequest<{ Params: { address: string }; Body: TournamentRewardDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<PlayerBalance>> {
+  try {
+    const { address } = request.params;
+    const { tournament_id } = request.body || {};
+
+    if (!tournament_id || typeof tournament_id !== 'string') {
+      throw new ValidationError('tournament_id is required and must be a string');
+    }
+
+    const balance = await ledgerService.rewardTournamentWin(address, tournament_id);
+
+    return createSuccessResponse(
+      balance,
+      'Tournament reward credited successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+function parseInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new ValidationError(`Invalid "${name}" value: ${value}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Sync Controller
+ *
+ * Request handlers for sync queue endpoints. Used by ops to inspect and
+ * unblock on-chain transactions tracked in the sync queue.
+ */
+
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { ControllerResponse } from '@/core/types/controller-response';
+import { createSuccessResponse, createErrorResponse } from '@/core/responses';
+import { ValidationError, NotFoundError } from '@/core/errors';
+import {
+  SyncService,
+  type SyncQueueFilters,
+  type SyncQueueItem,
+  type SyncQueuePage,
+  type SyncEntityType,
+  type SyncStatus,
+} from '@/services/sync.service';
+
+const syncService = new SyncService();
+
+/**
+ * Query string accepted by GET /sync.
+ */
+type ListSyncsQuery = {
+  status?: string;
+  entity_type?: string;
+  needs_review?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+  limit?: string;
+};
+
+/**
+ * GET /sync
+ *
+ * Lists sync queue entries, newest first. Supports filtering by status,
+ * entity_type, needs_review (true/false) and created_at range (from/to, ISO 8601),
+ * and pagination (page/limit).
+ *
+ * @param request - Fastify request with filter query parameters
+ * @param reply - Fastify reply
+ * @returns Page of sync queue entries or error response
+ */
+export async function listSyncs(
+  request: FastifyRequest<{ Querystring: ListSyncsQuery }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<SyncQueuePage>> {
+  try {
+    const { status, entity_type, needs_review, from, to, page, limit } = request.query;
+    const filters: SyncQueueFilters = {};
+
+    // Basic parsing before service call (service does stricter validation)
+    if (status) {
+      filters.status = status as SyncStatus;
+    }
+    if (entity_type) {
+      filters.entity_type = entity_type as SyncEntityType;
+    }
+    if (needs_review) {
+      filters.needs_review = parseBoolean(needs_review, 'needs_review');
+    }
+    if (from) {
+      filters.from = parseDate(from, 'from');
+    }
+    if (to) {
+      filters.to = parseDate(to, 'to');
+    }
+    if (page) {
+      filters.page = parseInteger(page, 'page');
+    }
+    if (limit) {
+      filters.limit = parseInteger(limit, 'limit');
+    }
+
+    const result = await syncService.listSyncs(filters);
+
+    return createSuccessResponse(
+      result,
+      'Sync queue entries retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /sync/:txHash
+ *
+ * Retrieves a single sync queue entry by transaction hash.
+ *
+ * @param request - Fastify request with txHash parameter
+ * @param reply - Fastify reply
+ * @returns Sync queue entry or error response
+ */
+export async function getSyncByTxHash(
+  request: FastifyRequest<{ Params: { txHash: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<SyncQueueItem>> {
+  try {
+    const { txHash } = request.params;
+    const item = await syncService.getSyncByTxHash(txHash);
+
+    if (!item) {
+      throw new NotFoundError(`Sync queue entry with tx_hash ${txHash} not found`);
+    }
+
+    return createSuccessResponse(
+      item,
+      'Sync queue entry retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /sync/:txHash/retry
+ *
+ * Puts a pending or failed entry back in the reconciler queue (admin only).
+ *
+ * @param request - Admin-authenticated Fastify request with txHash parameter
+ * @param reply - Fastify reply
+ * @returns Updated sync queue entry or error response
+ */
+export async function retrySync(
+  request: FastifyRequest<{ Params: { txHash: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<SyncQueueItem>> {
+  try {
+    const { txHash } = request.params;
+    const item = await syncService.retrySync(txHash);
+
+    return createSuccessResponse(
+      item,
+      'Sync queue entry requeued successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /sync/:txHash/cancel
+ *
+ * Cancels a pending entry so the reconciler stops tracking it (admin only).
+ *
+ * @param request - Admin-authenticated Fastify request with txHash parameter
+ * @param reply - Fastify reply
+ * @returns Updated sync queue entry or error response
+ */
+export async function cancelSync(
+  request: FastifyRequest<{ Params: { txHash: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<SyncQueueItem>> {
+  try {
+    const { txHash } = request.params;
+    const item = await syncService.cancelSync(txHash);
+
+    return createSuccessResponse(
+      item,
+      'Sync queue entry cancelled successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid "${name}" date: ${value}`);
+  }
+  return date;
+}
+
+function parseInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new ValidationError(`Invalid "${name}" value: ${value}`);
+  }
+  return parsed;
+}
+
+function parseBoolean(value: string, name: string): boolean {
+  if (value !== 'true' && value !== 'false') {
+    throw new ValidationError(`Invalid "${name}" value: ${value}. Must be true or false`);
+  }
+  return value === 'true';
+}
@@ -7,8 +7,10 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { ControllerResponse } from '@/core/types/controller-response';
 import { createSuccessResponse, createErrorResponse } from '@/core/responses';
+import { ValidationError } from '@/core/errors';
+import { getAuthenticatedAddress } from '@/core/middleware/authenticate';
 import { TankService } from '@/services/tank.service';
-import type { Tank } from '@/models/tank.model';
+import type { Tank, MintTankDto, RenameTankDto, TankLayout, UpdateTankLayoutDto } from '@/models/tank.model';
 import type { FishSummary } from '@/models/fish.model';
 
 const tankService = new TankService();
@@ -75,3 +77,168 @@ export async function getTanksByOwner(
   }
 }
 
+/**
+ * POST /tank
+ * 
+ * Mints an additional tank for the authenticated player.
+ * Fails if the player already owns the maximum number of tanks.
+ * 
+ * @param request - Authenticated Fastify request with optional MintTankDto in body
+ * @param reply - Fastify reply
+ * @returns Newly minted Tank or error response
+ */
+export async function mintTank(
+  request: FastifyRequest<{ Body: MintTankDto | undefined }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Tank>> {
+  try {
+    const owner = getAuthenticatedAddress(request);
+    const name = request.body?.name;
+
+    // Basic validation before service call (service does stricter validation)
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ValidationError('name must be a string');
+    }
+
+    const tank = await tankService.mintTank(owner, name);
+
+    return createSuccessResponse(
+      tank,
+      'Tank minted successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /tank/:id
+ * 
+ * Renames a tank owned by the authenticated player.
+ * 
+ * @param request - Authenticated Fastify request with id parameter and RenameTankDto in body
+ * @param reply - Fastify reply
+ * @returns Updated Tank data with fish summary list or error response
+ */
+export async function renameTank(
+  request: FastifyRequest<{ Params: { id: string }; Body: RenameTankDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<Tank & { fish: FishSummary[] }>> {
+  try {
+    const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
+    const tankId = parseInt(id, 10);
+
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(tankId)) {
+      throw new ValidationError('Invalid tank ID format');
+    }
+
+    const name = request.body?.name;
+    if (typeof name !== 'string') {
+      throw new ValidationError('name is required and must be a string');
+    }
+
+    const tank = await tankService.renameTank(tankId, owner, name);
+
+    return createSuccessResponse(
+      tank,
+      'Tank renamed successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * GET /tank/:id/layout
+ * 
+ * Retrieves the layout document of a tank: background, decoration
+ * transforms and fish spawn zones, plus the size of the tank's tier.
+ * 
+ * @param request - Fastify request with id parameter
+ * @param reply - Fastify reply
+ * @returns Tank layout or error response
+ */
+export async function getTankLayout(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<TankLayout>> {
+  try {
+    const { id } = request.params;
+    const tankId = parseInt(id, 10);
+
+    // Basic validation before service call
+    if (isNaN(tankId)) {
+      throw new ValidationError('Invalid tank ID format');
+    }
+
+    const layout = await tankService.getTankLayout(tankId);
+
+    return createSuccessResponse(
+      layout,
+      'Tank layout retrieved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PUT /tank/:id/layout
+ * 
+ * Replaces the layout document of a tank owned by the authenticated player.
+ * The body must carry the version it was based on; saving over a newer
+ * version fails with a conflict.
+ * 
+ * @param request - Authenticated Fastify request with id parameter and UpdateTankLayoutDto in body
+ * @param reply - Fastify reply
+ * @returns Saved tank layout or error response
+ */
+export async function updateTankLayout(
+  request: FastifyRequest<{ Params: { id: string }; Body: UpdateTankLayoutDto }>,
+  _reply: FastifyReply
+): Promise<ControllerResponse<TankLayout>> {
+  try {
+    const { id } = request.params;
+    const owner = getAuthenticatedAddress(request);
+    const tankId = parseInt(id, 10);
+
+    // Basic validation before service call (service does stricter validation)
+    if (isNaN(tankId)) {
+      throw new ValidationError('Invalid tank ID format');
+    }
+
+    const body = request.body;
+    if (!body || typeof body.version !== 'number') {
+      throw new ValidationError('version is required and must be a number');
+    }
+
+    if (
+      !body.background ||
+      (body.background.decoration_id !== null && typeof body.background.decoration_id !== 'number')
+    ) {
+      throw new ValidationError('background.decoration_id is required and must be a number or null');
+    }
+
+    if (
+      !Array.isArray(body.decorations) ||
+      body.decorations.some((entry) => !entry || typeof entry.decoration_id !== 'number')
+    ) {
+      throw new ValidationError('decorations must be an array of objects with a numeric decoration_id');
+    }
+
+    if (!Array.isArray(body.spawn_zones)) {
+      throw new ValidationError('spawn_zones must be an array');
+    }
+
+    const layout = await tankService.updateTankLayout(tankId, owner, body);
+
+    return createSuccessResponse(
+      layout,
+      'Tank layout saved successfully'
+    );
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -40,6 +40,18 @@ export const STARKNET_CHAIN_ID = getEnv('STARKNET_CHAIN_ID', 'SN_MAIN');
 // Cartridge Authentication
 export const CARTRIDGE_AUTH_URL = requireEnv('CARTRIDGE_AUTH_URL');
 
+// Session Authentication
+export const SESSION_SECRET = requireEnv('SESSION_SECRET');
+export const SESSION_TTL_SECONDS = parseInt(getEnv('SESSION_TTL_SECONDS', '86400'), 10);
+export const AUTH_NONCE_TTL_SECONDS = parseInt(getEnv('AUTH_NONCE_TTL_SECONDS', '300'), 10);
+// 'starknet' verifies signatures against the account contract, 'stub' accepts any signature (local only)
+export const AUTH_SIGNATURE_VERIFIER = getEnv('AUTH_SIGNATURE_VERIFIER', 'starknet');
+// Comma-separated wallet addresses allowed to use admin routes (e.g. sync queue operations)
+export const ADMIN_ADDRESSES = getEnv('ADMIN_ADDRESSES', '')
+  .split(',')
+  .map((address) => address.trim().toLowerCase())
+  .filter((address) => address.length > 0);
+
 // Server Configuration
 export const PORT = parseInt(getEnv('PORT', '3000'), 10);
 export const NODE_ENV = getEnv('NODE_ENV', 'development');
@@ -47,8 +59,56 @@ export const NODE_ENV = getEnv('NODE_ENV', 'development');
 // Dojo Configuration (optional)
 export const DOJO_ACCOUNT_ADDRESS = process.env.DOJO_ACCOUNT_ADDRESS;
 export const DOJO_PRIVATE_KEY = process.env.DOJO_PRIVATE_KEY;
+// Addresses of the world's system contracts (required when the account above is set)
+export const DOJO_PLAYER_SYSTEM_ADDRESS = getEnv('DOJO_PLAYER_SYSTEM_ADDRESS', '');
+export const DOJO_FISH_SYSTEM_ADDRESS = getEnv('DOJO_FISH_SYSTEM_ADDRESS', '');
+export const DOJO_TANK_SYSTEM_ADDRESS = getEnv('DOJO_TANK_SYSTEM_ADDRESS', '');
+export const DOJO_DECORATION_SYSTEM_ADDRESS = getEnv('DOJO_DECORATION_SYSTEM_ADDRESS', '');
+// JSON file keeping the simulated chain state of the Dojo stubs across restarts (memory only if empty)
+export const SIMULATED_CHAIN_FILE = getEnv('SIMULATED_CHAIN_FILE', '');
+
+// Sync Queue Reconciler
+export const SYNC_RECONCILER_ENABLED = getEnv('SYNC_RECONCILER_ENABLED', 'true') === 'true';
+export const SYNC_RECONCILER_INTERVAL_MS = parseInt(getEnv('SYNC_RECONCILER_INTERVAL_MS', '15000'), 10);
+export const SYNC_MAX_RETRIES = parseInt(getEnv('SYNC_MAX_RETRIES', '8'), 10);
+export const SYNC_BACKOFF_BASE_MS = parseInt(getEnv('SYNC_BACKOFF_BASE_MS', '5000'), 10);
+
+// World Event Ingestion
+export const EVENT_INGESTION_ENABLED = getEnv('EVENT_INGESTION_ENABLED', 'false') === 'true';
+export const EVENT_INGESTION_INTERVAL_MS = parseInt(getEnv('EVENT_INGESTION_INTERVAL_MS', '5000'), 10);
+export const EVENT_INGESTION_BATCH_SIZE = parseInt(getEnv('EVENT_INGESTION_BATCH_SIZE', '100'), 10);
+// Passes an event may fail in a row before it is dead-lettered and skipped
+export const EVENT_INGESTION_MAX_ATTEMPTS = parseInt(getEnv('EVENT_INGESTION_MAX_ATTEMPTS', '5'), 10);
+// JSON Lines file replayed as the event source (see file-event-source)
+export const EVENT_REPLAY_FILE = getEnv('EVENT_REPLAY_FILE', '');
+
+// Fish Hunger & Feeding
+// Hunger points (0-100) a fish gains per hour since its last feed
+export const HUNGER_RATE_PER_HOUR = parseFloat(getEnv('HUNGER_RATE_PER_HOUR', '5'));
+// Minimum time between two feeds of the same fish
+export const FEED_COOLDOWN_SECONDS = parseInt(getEnv('FEED_COOLDOWN_SECONDS', '600'), 10);
+
+// Breeding
+// Highest coefficient of relationship allowed between two breeding fish
+// (0.5 parent/offspring and full siblings, 0.25 half siblings, 0.125 first cousins)
+export const MAX_BREEDING_RELATIONSHIP = parseFloat(getEnv('MAX_BREEDING_RELATIONSHIP', '0.125'));
+// Probability of each inherited DNA allele mutating into a random one
+export const BREED_MUTATION_RATE = parseFloat(getEnv('BREED_MUTATION_RATE', '0.01'));
+
+// Currency
+// 'supabase' keeps the double-entry ledger in Supabase, 'memory' keeps balances in process (local only)
+export const CURRENCY_LEDGER = getEnv('CURRENCY_LEDGER', 'supabase');
+// Coins granted to every player when they register
+export const STARTING_COIN_BALANCE = parseInt(getEnv('STARTING_COIN_BALANCE', '1000'), 10);
+// Coins rewarded per fish fed, per offspring bred and per tournament won
+export const FEED_COIN_REWARD = parseInt(getEnv('FEED_COIN_REWARD', '2'), 10);
+export const BREED_COIN_REWARD = parseInt(getEnv('BREED_COIN_REWARD', '25'), 10);
+export const TOURNAMENT_WIN_COIN_REWARD = parseInt(getEnv('TOURNAMENT_WIN_COIN_REWARD', '200'), 10);
 
 // Game Constants
 export const MAX_TANK_CAPACITY = 50;
+export const MAX_TANKS_PER_PLAYER = 3;
+export const MAX_DECORATIONS_PER_TANK = 5;
+export const MAX_FOOD_PURCHASE_QUANTITY = 100;
 export const XP_MULTIPLIER = 1.0;
 
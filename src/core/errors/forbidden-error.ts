@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Forbidden Error
+ * 
+ * Error thrown when an authenticated caller is not allowed to perform an action.
+ * Use this for admin-only routes and other permission checks.
+ */
+
+import { BaseError } from './base-error';
+
+export class ForbiddenError extends BaseError {
+  constructor(message: string) {
+    super(message, 403, 'ForbiddenError');
+  }
+}
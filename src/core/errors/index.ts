@@ -10,4 +10,5 @@ export { ValidationError } from './validation-error';
 export { NotFoundError } from './not-found-error';
 export { OnChainError } from './on-chain-error';
 export { ConflictError } from './conflict-error';
-
+export { UnauthorizedError } from './unauthorized-error';
+export { ForbiddenError } from './forbidden-error';
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Unauthorized Error
+ * 
+ * Error thrown when a request cannot be authenticated.
+ * Use this for invalid signatures, expired nonces, missing or invalid session tokens, etc.
+ */
+
+import { BaseError } from './base-error';
+
+export class UnauthorizedError extends BaseError {
+  constructor(message: string) {
+    super(message, 401, 'UnauthorizedError');
+  }
+}
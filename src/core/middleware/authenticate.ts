@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Authentication Middleware
+ *
+ * Fastify preHandler that verifies the session token issued by POST /auth/login
+ * and decorates the request with the authenticated player.
+ *
+ * Mutating routes MUST derive ownership from `request.player` instead of
+ * trusting an `owner` field sent in the request body.
+ *
+ * Admin-only routes chain `requireAdmin` after `authenticate`.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ADMIN_ADDRESSES } from '../config';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+import { verifySessionToken } from '../utils/session-token';
+
+/**
+ * Identity attached to authenticated requests.
+ */
+export interface AuthenticatedPlayer {
+  address: string;
+}
+
+/**
+ * Extended FastifyRequest with the authenticated player
+ */
+declare module 'fastify' {
+  interface FastifyRequest {
+    player: AuthenticatedPlayer | null;
+  }
+}
+
+/**
+ * Authentication preHandler.
+ *
+ * Expects an `Authorization: Bearer <token>` header. Errors bubble to the
+ * global error handler, which responds with 401.
+ *
+ * @param request - Fastify request object
+ * @param _reply - Fastify reply object
+ * @throws {UnauthorizedError} If the token is missing, invalid or expired
+ */
+export async function authenticate(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const header = request.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    throw new UnauthorizedError('Missing bearer token');
+  }
+
+  const token = header.slice('Bearer '.length).trim();
+  const claims = verifySessionToken(token);
+
+  request.player = { address: claims.sub };
+}
+
+/**
+ * Gets the address of the authenticated player.
+ *
+ * @param request - Request that went through the authenticate preHandler
+ * @returns Authenticated player address
+ * @throws {UnauthorizedError} If the request is not authenticated
+ */
+export function getAuthenticatedAddress(request: FastifyRequest): string {
+  if (!request.player) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  return request.player.address;
+}
+
+/**
+ * Admin authorization preHandler.
+ *
+ * Must run after `authenticate`. Admins are the addresses listed in
+ * ADMIN_ADDRESSES (compared case-insensitively).
+ *
+ * @param request - Fastify request object
+ * @param _reply - Fastify reply object
+ * @throws {UnauthorizedError} If the request is not authenticated
+ * @throws {ForbiddenError} If the authenticated player is not an admin
+ */
+export async function requireAdmin(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const address = getAuthenticatedAddress(request);
+
+  if (!ADMIN_ADDRESSES.includes(address.toLowerCase())) {
+    throw new ForbiddenError('Admin privileges required');
+  }
+}
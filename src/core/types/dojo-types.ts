@@ -1,14 +1,19 @@
 /**
  * @fileoverview Dojo Types - TypeScript types for Dojo contract interactions
  * 
- * These types define the structure for all on-chain contract interactions.
- * Currently used with stub implementations that will be replaced with real
- * Dojo contract calls.
+ * These types define the structure for all on-chain contract interactions,
+ * shared by every DojoClient implementation (mock and Starknet), and the
+ * world events read back by event ingestion.
  * 
  * This file re-exports all on-chain data types from models and provides
  * additional types specific to Dojo contract operations.
  */
 
+import type { TankOnChain } from '../../models/tank.model';
+import type { FishOnChain } from '../../models/fish.model';
+import type { DecorationOnChain, DecorationKind } from '../../models/decoration.model';
+import type { FoodType } from '../../models/food.model';
+
 // Re-export all on-chain model types
 export type { PlayerOnChain } from '../../models/player.model';
 export type { TankOnChain } from '../../models/tank.model';
@@ -66,3 +71,154 @@ export interface MintFishResult {
   tx_hash: string;
   fish_id: number;
 }
+
+/**
+ * Result of breeding two fish on-chain.
+ * Includes the offspring's DNA, inherited from both parents.
+ */
+export interface BreedFishResult extends MintFishResult {
+  dna: string;
+}
+
+/**
+ * Result of minting a decoration on-chain.
+ * Contains the transaction hash and the generated decoration ID.
+ */
+export interface MintDecorationResult {
+  tx_hash: string;
+  decoration_id: number;
+}
+
+/**
+ * Status of an on-chain transaction as seen by the reconciler.
+ * - pending: received by the sequencer but not yet accepted
+ * - accepted: accepted on L2/L1 and executed successfully
+ * - rejected: rejected by the sequencer or reverted during execution
+ * - not_found: unknown to the node (not yet propagated or dropped)
+ */
+export type TransactionReceiptStatus = 'pending' | 'accepted' | 'rejected' | 'not_found';
+
+/**
+ * Receipt lookup result for a transaction hash.
+ */
+export interface TransactionReceipt {
+  tx_hash: string;
+  status: TransactionReceiptStatus;
+  revert_reason?: string;
+}
+
+/**
+ * On-chain operations of the Aqua Stark world contracts.
+ * 
+ * Write operations return the transaction hash once the transaction is
+ * submitted (mints also wait for it to be accepted, to read the new ID).
+ * Services receive a DojoClient through their constructor; see
+ * core/utils/dojo-client for the implementations.
+ */
+export interface DojoClient {
+  /**
+   * Checks that the chain can be reached.
+   */
+  validateConnection(timeoutMs: number): Promise<boolean>;
+
+  // Player
+  registerPlayer(address: string): Promise<string>;
+  gainPlayerXp(address: string, amount: number): Promise<string>;
+
+  // Fish
+  mintFish(address: string, species: string, dna: string): Promise<MintFishResult>;
+  feedFishBatch(fishIds: number[], foodType?: FoodType, xpValues?: number[]): Promise<string>;
+  gainFishXp(fishId: number, amount: number): Promise<string>;
+  breedFish(fish1Id: number, fish2Id: number, seed?: number): Promise<BreedFishResult>;
+  transferFish(fishId: number, from: string, to: string): Promise<string>;
+  getFishFamilyTree(fishId: number): Promise<FishFamilyTree>;
+  getFishOnChain(fishId: number): Promise<FishOnChain>;
+
+  // Tank
+  mintTank(address: string, capacity?: number): Promise<MintTankResult>;
+  getTankOnChain(tankId: number): Promise<TankOnChain>;
+  getXpMultiplier(tankId: number): Promise<number>;
+
+  // Decoration
+  mintDecoration(address: string, kind: DecorationKind): Promise<MintDecorationResult>;
+  activateDecoration(id: number): Promise<string>;
+  deactivateDecoration(id: number): Promise<string>;
+  transferDecoration(decorationId: number, from: string, to: string): Promise<string>;
+  getDecorationOnChain(decorationId: number): Promise<DecorationOnChain>;
+
+  // Transactions
+  getTransactionReceipt(txHash: string): Promise<TransactionReceipt>;
+}
+
+/**
+ * Fields shared by every world event.
+ * cursor is the position of the event in its source, opaque to consumers:
+ * reading "after" a cursor returns the events that follow it.
+ */
+interface WorldEventBase {
+  cursor: string;
+  tx_hash: string;
+  timestamp: Date;
+}
+
+export interface FishMintedEvent extends WorldEventBase {
+  type: 'FishMinted';
+  fish_id: number;
+  owner: string;
+  species: string;
+}
+
+export interface FishFedEvent extends WorldEventBase {
+  type: 'FishFed';
+  fish_id: number;
+  owner: string;
+  food_type: FoodType;
+  xp_granted: number;
+}
+
+export interface FishBredEvent extends WorldEventBase {
+  type: 'FishBred';
+  fish_id: number;
+  owner: string;
+  species: string;
+  parent1_id: number;
+  parent2_id: number;
+}
+
+export interface TankMintedEvent extends WorldEventBase {
+  type: 'TankMinted';
+  tank_id: number;
+  owner: string;
+}
+
+export interface DecorationToggledEvent extends WorldEventBase {
+  type: 'DecorationToggled';
+  decoration_id: number;
+  active: boolean;
+}
+
+/**
+ * Event emitted by the Aqua Stark world contracts.
+ */
+export type WorldEvent =
+  | FishMintedEvent
+  | FishFedEvent
+  | FishBredEvent
+  | TankMintedEvent
+  | DecorationToggledEvent;
+
+/**
+ * Ordered stream of world events (e.g. a Torii indexer or a replay file).
+ * See services/event-ingestion for the consumer.
+ */
+export interface EventSource {
+  /**
+   * Name of the source, used as the key of its checkpoint.
+   */
+  readonly name: string;
+
+  /**
+   * Reads up to limit events after the cursor (from the first event when null), oldest first.
+   */
+  fetchEvents(after: string | null, limit: number): Promise<WorldEvent[]>;
+}
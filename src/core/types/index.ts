@@ -24,6 +24,18 @@ export type {
   DecorationOnChain,
   MintTankResult,
   MintFishResult,
+  BreedFishResult,
+  MintDecorationResult,
+  TransactionReceipt,
+  TransactionReceiptStatus,
+  DojoClient,
+  WorldEvent,
+  FishMintedEvent,
+  FishFedEvent,
+  FishBredEvent,
+  TankMintedEvent,
+  DecorationToggledEvent,
+  EventSource,
 } from './dojo-types';
 
 export { DecorationKind } from './dojo-types';
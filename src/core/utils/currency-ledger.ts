@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Currency Ledger Utility
+ *
+ * Double-entry ledger for in-game coins. Every movement is a transfer between
+ * two accounts: player accounts (keyed by address) and system accounts
+ * (SYSTEM_REWARDS_ACCOUNT funds rewards, SYSTEM_SHOP_ACCOUNT receives purchases,
+ * SYSTEM_MARKETPLACE_ACCOUNT holds marketplace payments until the sale completes).
+ * Player balances never go negative. Each movement carries an idempotency key,
+ * so posting it twice only applies it once.
+ *
+ * Callers only depend on the CurrencyLedger interface. The active ledger is
+ * selected by CURRENCY_LEDGER:
+ * - 'supabase': ledger_accounts/ledger_transactions/ledger_entries tables, posted
+ *   atomically by the post_ledger_transfer RPC
+ * - 'memory': balances kept in process memory (local development only)
+ *
+ * Tests and local tooling can swap the ledger with setCurrencyLedger().
+ */
+
+import { ConflictError, ValidationError } from '@/core/errors';
+import { CURRENCY_LEDGER } from '@/core/config';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import type { LedgerEntry, LedgerMovement, LedgerTransactionType } from '@/models/ledger.model';
+
+export const SYSTEM_REWARDS_ACCOUNT = 'system:rewards';
+export const SYSTEM_SHOP_ACCOUNT = 'system:shop';
+export const SYSTEM_MARKETPLACE_ACCOUNT = 'system:marketplace';
+
+/**
+ * Coin balances and their history.
+ * Accounts are player addresses or 'system:' codes; amounts are positive integers.
+ */
+export interface CurrencyLedger {
+  /**
+   * Current balance of an account (0 if it never received coins).
+   */
+  getBalance(account: string): Promise<number>;
+
+  /**
+   * Moves coins from one account to another.
+   * @throws {ConflictError} If a player account would go below zero
+   */
+  transfer(from: string, to: string, amount: number, movement: LedgerMovement): Promise<void>;
+
+  /**
+   * Pays a player from the rewards account.
+   */
+  credit(address: string, amount: number, movement: LedgerMovement): Promise<void>;
+
+  /**
+   * Charges a player into the shop account.
+   * @throws {ConflictError} If the balance is lower than amount
+   */
+  debit(address: string, amount: number, movement: LedgerMovement): Promise<void>;
+
+  /**
+   * Entries of an account, newest first, with the total number of entries.
+   */
+  getHistory(account: string, page: number, limit: number): Promise<{ entries: LedgerEntry[]; total: number }>;
+}
+
+/**
+ * Validates a ledger amount (positive integer number of coins).
+ */
+export function validateCurrencyAmount(amount: number): void {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new ValidationError(`Invalid coin amount: ${amount}`);
+  }
+}
+
+function isSystemAccount(account: string): boolean {
+  return account.startsWith('system:');
+}
+
+function insufficientFunds(balance: number, amount: number): ConflictError {
+  return new ConflictError(`Not enough coins: ${balance} available, ${amount} required`);
+}
+
+// ============================================================================
+// SUPABASE LEDGER
+// ============================================================================
+
+/**
+ * Ledger stored in Supabase.
+ * Transfers go through the post_ledger_transfer RPC, which writes the
+ * transaction and both entries in one database transaction.
+ */
+export class SupabaseCurrencyLedger implements CurrencyLedger {
+  async getBalance(account: string): Promise<number> {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('ledger_accounts')
+      .select('balance')
+      .eq('code', account)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return 0;
+      }
+      throw new Error(`Database error when retrieving balance: ${error.message}`);
+    }
+
+    return Number(data?.balance ?? 0);
+  }
+
+  async transfer(from: string, to: string, amount: number, movement: LedgerMovement): Promise<void> {
+    validateCurrencyAmount(amount);
+
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc('post_ledger_transfer', {
+      p_idempotency_key: movement.idempotencyKey,
+      p_type: movement.type,
+      p_description: movement.description ?? null,
+      p_from_account: from,
+      p_to_account: to,
+      p_amount: amount,
+    });
+
+    if (error) {
+      // 23514: ledger_accounts_balance_check (player balance would go negative)
+      if (error.code === '23514') {
+        throw insufficientFunds(await this.getBalance(from), amount);
+      }
+      throw new Error(`Failed to post ledger transaction: ${error.message}`);
+    }
+  }
+
+  async credit(address: string, amount: number, movement: LedgerMovement): Promise<void> {
+    await this.transfer(SYSTEM_REWARDS_ACCOUNT, address, amount, movement);
+  }
+
+  async debit(address: string, amount: number, movement: LedgerMovement): Promise<void> {
+    await this.transfer(address, SYSTEM_SHOP_ACCOUNT, amount, movement);
+  }
+
+  async getHistory(
+    account: string,
+    page: number,
+    limit: number
+  ): Promise<{ entries: LedgerEntry[]; total: number }> {
+    const supabase = getSupabaseClient();
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await supabase
+      .from('ledger_entries')
+      .select(
+        'transaction_id, amount, balance_after, created_at, ledger_transactions(idempotency_key, type, description)',
+        { count: 'exact' }
+      )
+      .eq('account_code', account)
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database error when retrieving ledger history: ${error.message}`);
+    }
+
+    type EntryRow = {
+      transaction_id: number;
+      amount: number;
+      balance_after: number;
+      created_at: string;
+      ledger_transactions: {
+        idempotency_key: string;
+        type: LedgerTransactionType;
+        description: string | null;
+      } | null;
+    };
+
+    const entries = (data ?? []).map((row: EntryRow) => ({
+      transaction_id: Number(row.transaction_id),
+      idempotency_key: row.ledger_transactions?.idempotency_key ?? '',
+      type: row.ledger_transactions?.type as LedgerTransactionType,
+      description: row.ledger_transactions?.description ?? null,
+      amount: Number(row.amount),
+      balance_after: Number(row.balance_after),
+      created_at: new Date(row.created_at),
+    }));
+
+    return { entries, total: count ?? 0 };
+  }
+}
+
+// ============================================================================
+// IN-MEMORY LEDGER
+// ============================================================================
+
+/**
+ * Ledger kept in process memory.
+ * Player accounts not seen before start with startingBalance (0 by default).
+ * Balances are lost when the server restarts.
+ */
+export class InMemoryCurrencyLedger implements CurrencyLedger {
+  private readonly balances = new Map<string, number>();
+  private readonly entries = new Map<string, LedgerEntry[]>();
+  private readonly postedKeys = new Set<string>();
+  private nextTransactionId = 1;
+
+  constructor(private readonly startingBalance: number = 0) {}
+
+  async getBalance(account: string): Promise<number> {
+    return this.balances.get(account) ?? (isSystemAccount(account) ? 0 : this.startingBalance);
+  }
+
+  async transfer(from: string, to: string, amount: number, movement: LedgerMovement): Promise<void> {
+    validateCurrencyAmount(amount);
+
+    if (this.postedKeys.has(movement.idempotencyKey)) {
+      return;
+    }
+
+    const fromBalance = await this.getBalance(from);
+    if (!isSystemAccount(from) && fromBalance < amount) {
+      throw insufficientFunds(fromBalance, amount);
+    }
+
+    const toBalance = await this.getBalance(to);
+    const transactionId = this.nextTransactionId++;
+    const createdAt = new Date();
+
+    this.postedKeys.add(movement.idempotencyKey);
+    this.balances.set(from, fromBalance - amount);
+    this.balances.set(to, toBalance + amount);
+    this.addEntry(from, transactionId, movement, -amount, fromBalance - amount, createdAt);
+    this.addEntry(to, transactionId, movement, amount, toBalance + amount, createdAt);
+  }
+
+  async credit(address: string, amount: number, movement: LedgerMovement): Promise<void> {
+    await this.transfer(SYSTEM_REWARDS_ACCOUNT, address, amount, movement);
+  }
+
+  async debit(address: string, amount: number, movement: LedgerMovement): Promise<void> {
+    await this.transfer(address, SYSTEM_SHOP_ACCOUNT, amount, movement);
+  }
+
+  async getHistory(
+    account: string,
+    page: number,
+    limit: number
+  ): Promise<{ entries: LedgerEntry[]; total: number }> {
+    const all = this.entries.get(account) ?? [];
+    const offset = (page - 1) * limit;
+    return { entries: all.slice(offset, offset + limit), total: all.length };
+  }
+
+  private addEntry(
+    account: string,
+    transactionId: number,
+    movement: LedgerMovement,
+    amount: number,
+    balanceAfter: number,
+    createdAt: Date
+  ): void {
+    const accountEntries = this.entries.get(account) ?? [];
+    // Newest first, like the Supabase history
+    accountEntries.unshift({
+      transaction_id: transactionId,
+      idempotency_key: movement.idempotencyKey,
+      type: movement.type,
+      description: movement.description ?? null,
+      amount,
+      balance_after: balanceAfter,
+      created_at: createdAt,
+    });
+    this.entries.set(account, accountEntries);
+  }
+}
+
+// ============================================================================
+// ACTIVE LEDGER
+// ============================================================================
+
+// Currently active ledger (resolved lazily from configuration)
+let activeLedger: CurrencyLedger | null = null;
+
+/**
+ * Gets the currency ledger selected by CURRENCY_LEDGER.
+ *
+ * @returns Active CurrencyLedger
+ */
+export function getCurrencyLedger(): CurrencyLedger {
+  if (!activeLedger) {
+    activeLedger = CURRENCY_LEDGER === 'memory' ? new InMemoryCurrencyLedger() : new SupabaseCurrencyLedger();
+  }
+  return activeLedger;
+}
+
+/**
+ * Overrides the active currency ledger.
+ * Pass null to go back to the configured ledger.
+ *
+ * @param ledger - Ledger to use, or null to reset
+ */
+export function setCurrencyLedger(ledger: CurrencyLedger | null): void {
+  activeLedger = ledger;
+}
@@ -0,0 +1,41 @@
+/**
+ * Decoration shop catalog: every decoration kind with its price in coins.
+ *
+ * | Kind       | Price |
+ * |------------|-------|
+ * | Plant      | 100   |
+ * | Ornament   | 150   |
+ * | Statue     | 300   |
+ * | Background | 500   |
+ *
+ * Prices are charged through the currency ledger by POST /api/decoration.
+ */
+
+import { DecorationKind } from '@/models/decoration.model';
+
+export interface DecorationCatalogItem {
+  kind: DecorationKind;
+  name: string;
+  price: number;
+}
+
+export const DECORATION_CATALOG: Record<DecorationKind, DecorationCatalogItem> = {
+  [DecorationKind.Plant]: { kind: DecorationKind.Plant, name: 'Sea Plant', price: 100 },
+  [DecorationKind.Ornament]: { kind: DecorationKind.Ornament, name: 'Ornament', price: 150 },
+  [DecorationKind.Statue]: { kind: DecorationKind.Statue, name: 'Statue', price: 300 },
+  [DecorationKind.Background]: { kind: DecorationKind.Background, name: 'Background', price: 500 },
+};
+
+/**
+ * Whether a value is a known decoration kind.
+ */
+export function isDecorationKind(value: unknown): value is DecorationKind {
+  return typeof value === 'string' && Object.values(DecorationKind).includes(value as DecorationKind);
+}
+
+/**
+ * Gets the catalog entry for a decoration kind.
+ */
+export function getDecorationCatalogItem(kind: DecorationKind): DecorationCatalogItem {
+  return DECORATION_CATALOG[kind];
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview File Event Source
+ *
+ * EventSource that replays world events from a JSON Lines file, one event per
+ * line, for local testing of event ingestion without an indexer:
+ *
+ *   {"type":"FishMinted","tx_hash":"0x1","timestamp":"2026-01-01T00:00:00Z","fish_id":1,"owner":"0x...","species":"Goldfish"}
+ *
+ * The cursor of an event is its line number. The file is read again on every
+ * fetch, so lines appended while the server runs are picked up.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { isFoodType } from './food-catalog';
+import type { EventSource, WorldEvent } from '../types';
+
+// Fields each event type requires besides type, tx_hash and timestamp
+const REQUIRED_FIELDS: Record<WorldEvent['type'], Record<string, 'number' | 'string' | 'boolean'>> = {
+  FishMinted: { fish_id: 'number', owner: 'string', species: 'string' },
+  FishFed: { fish_id: 'number', owner: 'string', food_type: 'string', xp_granted: 'number' },
+  FishBred: { fish_id: 'number', owner: 'string', species: 'string', parent1_id: 'number', parent2_id: 'number' },
+  TankMinted: { tank_id: 'number', owner: 'string' },
+  DecorationToggled: { decoration_id: 'number', active: 'boolean' },
+};
+
+export class FileEventSource implements EventSource {
+  readonly name: string;
+
+  /**
+   * @param filePath Path of the JSON Lines file to replay
+   */
+  constructor(private readonly filePath: string) {
+    this.name = `file:${basename(filePath)}`;
+  }
+
+  /**
+   * Reads up to limit events after the given line number.
+   * A missing file has no events yet.
+   *
+   * @throws {Error} If the cursor is not a line number or an event line is invalid
+   */
+  async fetchEvents(after: string | null, limit: number): Promise<WorldEvent[]> {
+    const afterLine = after === null ? 0 : Number(after);
+    if (!Number.isInteger(afterLine) || afterLine < 0) {
+      throw new Error(`Invalid cursor for ${this.name}: ${after}`);
+    }
+
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    const events: WorldEvent[] = [];
+
+    for (let index = afterLine; index < lines.length && events.length < limit; index++) {
+      const line = (lines[index] as string).trim();
+      if (line.length === 0) {
+        continue;
+      }
+      events.push(this.parseLine(line, index + 1));
+    }
+
+    return events;
+  }
+
+  private parseLine(line: string, lineNumber: number): WorldEvent {
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new Error(`${this.filePath}:${lineNumber}: invalid JSON`);
+    }
+
+    const type = raw.type as WorldEvent['type'];
+    const fields = REQUIRED_FIELDS[type];
+    if (!fields) {
+      throw new Error(`${this.filePath}:${lineNumber}: unknown event type ${String(raw.type)}`);
+    }
+
+    if (typeof raw.tx_hash !== 'string' || typeof raw.timestamp !== 'string' || isNaN(Date.parse(raw.timestamp))) {
+      throw new Error(`${this.filePath}:${lineNumber}: ${type} requires tx_hash and an ISO timestamp`);
+    }
+
+    for (const [field, fieldType] of Object.entries(fields)) {
+      if (typeof raw[field] !== fieldType) {
+        throw new Error(`${this.filePath}:${lineNumber}: ${type} requires ${field} (${fieldType})`);
+      }
+    }
+
+    if (type === 'FishFed' && !isFoodType(raw.food_type)) {
+      throw new Error(`${this.filePath}:${lineNumber}: unknown food type ${String(raw.food_type)}`);
+    }
+
+    return {
+      ...raw,
+      cursor: String(lineNumber),
+      timestamp: new Date(raw.timestamp),
+    } as WorldEvent;
+  }
+}
@@ -9,19 +9,33 @@ import { getSupabaseClient } from './supabase-client';
 import { NotFoundError, ValidationError } from '../errors';
 import { FishFamilyMember, FishFamilyTree } from '../types';
 
-// Maximum depth to prevent infinite recursion and performance issues
+// Maximum depth to prevent infinite loops and performance issues
 const MAX_GENERATION_DEPTH = 50;
 
+// Columns needed to place a fish in the family tree
+const FAMILY_MEMBER_COLUMNS = 'id, parent1_id, parent2_id';
+
+type FamilyMemberRow = {
+  id: number;
+  parent1_id: number | null;
+  parent2_id: number | null;
+};
+
 /**
- * Builds the complete family tree for a given fish ID.
- * Includes both ancestors (upwards) and descendants (downwards).
+ * Builds the ancestry of a given fish: the fish itself (generation 0) and all
+ * of its known ancestors.
  * 
- * @param fishId - ID of the fish to build the tree for
- * @returns Complete FishFamilyTree
+ * Ancestors are loaded one generation at a time: one query for the fish and
+ * one per ancestor generation. An ancestor reachable through several paths is
+ * listed once, at its closest generation; its parent ids still describe the
+ * whole pedigree.
+ * 
+ * @param fishId - ID of the fish to build the ancestry for
+ * @returns Fish and ancestors, sorted by generation
  * @throws {NotFoundError} If the fish doesn't exist
  * @throws {ValidationError} If generation depth limit is exceeded
  */
-export async function buildFishFamilyTree(fishId: number): Promise<FishFamilyTree> {
+export async function buildFishAncestry(fishId: number): Promise<FishFamilyMember[]> {
   // Validate input
   if (!fishId || fishId <= 0 || !Number.isInteger(fishId)) {
     throw new ValidationError('Invalid fish ID');
@@ -32,7 +46,7 @@ export async function buildFishFamilyTree(fishId: number): Promise<FishFamilyTre
   // 1. Verify the root fish exists and get its parents
   const { data: rootFish, error } = await supabase
     .from('fish')
-    .select('id, parent1_id, parent2_id')
+    .select(FAMILY_MEMBER_COLUMNS)
     .eq('id', fishId)
     .single();
 
@@ -40,142 +54,122 @@ export async function buildFishFamilyTree(fishId: number): Promise<FishFamilyTre
     throw new NotFoundError(`Fish with ID ${fishId} not found`);
   }
 
-  // Initialize collections
-  const ancestors: FishFamilyMember[] = [];
-  const descendants: FishFamilyMember[] = [];
-  const visitedIds = new Set<number>();
-  
-  // Add root fish to visited to prevent cycles
-  visitedIds.add(fishId);
-
-  // Add root fish to ancestors list as generation 0
-  ancestors.push({
-    id: rootFish.id,
-    parent1_id: rootFish.parent1_id,
-    parent2_id: rootFish.parent2_id,
-    generation: 0
-  });
-
-  // 2. Build ancestors tree (Upwards)
-  let maxAncestorGeneration = 0;
-  
-  // Recursive function to fetch ancestors
-  async function fetchAncestors(
-    p1Id: number | null, 
-    p2Id: number | null, 
-    generation: number
-  ): Promise<void> {
+  // Root fish is generation 0 and is marked visited to prevent cycles
+  const root = toFamilyMember(rootFish as FamilyMemberRow, 0);
+  const ancestors: FishFamilyMember[] = [root];
+  const visitedIds = new Set<number>([fishId]);
+
+  // 2. Walk upwards, one generation per query
+  let ancestorFrontier: FishFamilyMember[] = [root];
+
+  for (let generation = 1; ancestorFrontier.length > 0; generation++) {
+    // Parents of the previous generation that haven't been loaded yet
+    const parentIds: number[] = [];
+    for (const member of ancestorFrontier) {
+      for (const parentId of [member.parent1_id, member.parent2_id]) {
+        if (parentId !== null && !visitedIds.has(parentId)) {
+          visitedIds.add(parentId);
+          parentIds.push(parentId);
+        }
+      }
+    }
+
+    if (parentIds.length === 0) {
+      break;
+    }
+
     if (generation > MAX_GENERATION_DEPTH) {
       throw new ValidationError(`Max ancestor depth exceeded at generation ${generation}`);
     }
 
-    // Process parent 1
-    if (p1Id !== null && !visitedIds.has(p1Id)) {
-      visitedIds.add(p1Id);
-      
-      const { data: p1, error: p1Error } = await supabase
-        .from('fish')
-        .select('id, parent1_id, parent2_id')
-        .eq('id', p1Id)
-        .single();
-        
-      if (!p1Error && p1) {
-        if (generation > maxAncestorGeneration) {
-          maxAncestorGeneration = generation;
-        }
+    const { data: parents, error: parentsError } = await supabase
+      .from('fish')
+      .select(FAMILY_MEMBER_COLUMNS)
+      .in('id', parentIds);
 
-        ancestors.push({
-          id: p1.id,
-          parent1_id: p1.parent1_id,
-          parent2_id: p1.parent2_id,
-          generation: generation
-        });
-        
-        await fetchAncestors(p1.parent1_id, p1.parent2_id, generation + 1);
-      }
+    if (parentsError || !parents || parents.length === 0) {
+      break;
     }
 
-    // Process parent 2
-    if (p2Id !== null && !visitedIds.has(p2Id)) {
-      visitedIds.add(p2Id);
-      
-      const { data: p2, error: p2Error } = await supabase
-        .from('fish')
-        .select('id, parent1_id, parent2_id')
-        .eq('id', p2Id)
-        .single();
-        
-      if (!p2Error && p2) {
-        if (generation > maxAncestorGeneration) {
-          maxAncestorGeneration = generation;
-        }
-
-        ancestors.push({
-          id: p2.id,
-          parent1_id: p2.parent1_id,
-          parent2_id: p2.parent2_id,
-          generation: generation
-        });
-        
-        await fetchAncestors(p2.parent1_id, p2.parent2_id, generation + 1);
+    // Keep parent1-before-parent2 order regardless of the row order returned
+    const parentsById = new Map<number, FamilyMemberRow>(
+      (parents as FamilyMemberRow[]).map((parent) => [parent.id, parent])
+    );
+    ancestorFrontier = [];
+    for (const parentId of parentIds) {
+      const parent = parentsById.get(parentId);
+      if (parent) {
+        ancestorFrontier.push(toFamilyMember(parent, generation));
       }
     }
+
+    ancestors.push(...ancestorFrontier);
   }
 
-  // Start ancestor recursion from generation 1 (parents)
-  await fetchAncestors(rootFish.parent1_id, rootFish.parent2_id, 1);
+  return ancestors;
+}
 
-  // 3. Build descendants tree (Downwards)
-  // Clear visited set for descendants traversal (except root) to act independently
-  // or keep it to show full connectivity? Usually family trees treat ancestors and descendants separately.
-  // We'll reset visited for descendants but keep root marked.
-  visitedIds.clear();
-  visitedIds.add(fishId);
+/**
+ * Builds the complete family tree for a given fish ID.
+ * Includes both ancestors (upwards) and descendants (downwards).
+ * 
+ * The tree is loaded one generation at a time: one query for the root fish,
+ * one per ancestor generation and one per descendant generation (the last
+ * one finding no children). A fish reachable through several paths is listed
+ * once, at its closest generation.
+ * 
+ * @param fishId - ID of the fish to build the tree for
+ * @returns Complete FishFamilyTree
+ * @throws {NotFoundError} If the fish doesn't exist
+ * @throws {ValidationError} If generation depth limit is exceeded
+ */
+export async function buildFishFamilyTree(fishId: number): Promise<FishFamilyTree> {
+  // 1-2. Root fish and ancestors (validates the ID and that the fish exists)
+  const ancestors = await buildFishAncestry(fishId);
+  const maxAncestorGeneration = Math.max(...ancestors.map((member) => member.generation));
 
-  let maxDescendantGeneration = 0;
+  const supabase = getSupabaseClient();
+  const descendants: FishFamilyMember[] = [];
 
-  // Recursive function to fetch descendants
-  async function fetchDescendants(parentId: number, generation: number): Promise<void> {
-    if (generation > MAX_GENERATION_DEPTH) {
-      throw new ValidationError(`Max descendant depth exceeded at generation ${generation}`);
-    }
+  // 3. Build descendants tree (Downwards), one generation per query
+  // Ancestors and descendants are traversed independently; only the root is
+  // marked visited here.
+  const visitedIds = new Set<number>([fishId]);
+
+  let maxDescendantGeneration = 0;
+  let descendantFrontierIds: number[] = [fishId];
 
-    // Find all fish where parentId is either parent1_id or parent2_id
+  for (let generation = 1; descendantFrontierIds.length > 0; generation++) {
+    // Find all fish whose parent1_id or parent2_id is in the previous generation
+    const idList = descendantFrontierIds.join(',');
     const { data: children, error: childrenError } = await supabase
       .from('fish')
-      .select('id, parent1_id, parent2_id')
-      .or(`parent1_id.eq.${parentId},parent2_id.eq.${parentId}`);
+      .select(FAMILY_MEMBER_COLUMNS)
+      .or(`parent1_id.in.(${idList}),parent2_id.in.(${idList})`);
 
     if (childrenError || !children || children.length === 0) {
-      return;
+      break;
     }
 
-    for (const child of children) {
-      if (!visitedIds.has(child.id)) {
-        visitedIds.add(child.id);
-        
-        if (generation > maxDescendantGeneration) {
-          maxDescendantGeneration = generation;
-        }
+    const newChildren = (children as FamilyMemberRow[]).filter((child) => !visitedIds.has(child.id));
+    if (newChildren.length === 0) {
+      break;
+    }
 
-        descendants.push({
-          id: child.id,
-          parent1_id: child.parent1_id,
-          parent2_id: child.parent2_id,
-          generation: generation
-        });
-        
-        // Recurse for grandchildren
-        await fetchDescendants(child.id, generation + 1);
-      }
+    if (generation > MAX_GENERATION_DEPTH) {
+      throw new ValidationError(`Max descendant depth exceeded at generation ${generation}`);
     }
-  }
 
-  // Start descendant recursion from generation 1 (children)
-  await fetchDescendants(fishId, 1);
+    descendantFrontierIds = [];
+    for (const child of newChildren) {
+      visitedIds.add(child.id);
+      descendantFrontierIds.push(child.id);
+      descendants.push(toFamilyMember(child, generation));
+    }
+    maxDescendantGeneration = generation;
+  }
 
-  // Sort lists by generation for cleaner output
-  ancestors.sort((a, b) => a.generation - b.generation);
+  // Sort descendants by generation for cleaner output (ancestors already are)
   descendants.sort((a, b) => a.generation - b.generation);
 
   return {
@@ -186,3 +180,12 @@ export async function buildFishFamilyTree(fishId: number): Promise<FishFamilyTre
     descendant_generation_count: maxDescendantGeneration
   };
 }
+
+function toFamilyMember(row: FamilyMemberRow, generation: number): FishFamilyMember {
+  return {
+    id: row.id,
+    parent1_id: row.parent1_id,
+    parent2_id: row.parent2_id,
+    generation
+  };
+}
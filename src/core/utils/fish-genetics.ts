@@ -0,0 +1,118 @@
+/**
+ * Mendelian-style inheritance of fish DNA.
+ *
+ * DNA follows the layout decoded by fish-traits: 8 genes of two allele bytes
+ * each (5 trait genes and 3 reserved). A fish therefore carries two
+ * chromosomes: the first allele of every gene, and the second allele of every gene.
+ *
+ * Offspring DNA is built from one gamete per parent:
+ *
+ * 1. The gamete starts on a random chromosome of the parent
+ * 2. Crossover: at each gene boundary it switches chromosome with probability
+ *    CROSSOVER_RATE, so genes from both chromosomes can be passed on together
+ * 3. Mutation: each allele is replaced by a random byte with the mutation rate
+ *    (BREED_MUTATION_RATE in config, DEFAULT_MUTATION_RATE when none is passed)
+ *
+ * Gene i of the offspring holds parent 1's allele followed by parent 2's
+ * allele. Which allele shows is decided at decode time: the more dominant
+ * variant wins, so recessive traits can skip generations.
+ *
+ * All randomness comes from the `random` source, so passing
+ * createSeededRandom(seed) makes an outcome reproducible.
+ */
+
+import { normalizeDna, DNA_HEX_LENGTH } from './fish-traits';
+
+// Genes in a DNA string (two hex characters per allele, two alleles per gene)
+export const DNA_GENE_COUNT = DNA_HEX_LENGTH / 4;
+
+// Probability of switching chromosome between two consecutive genes
+export const CROSSOVER_RATE = 0.2;
+
+// Probability of each allele mutating into a random one
+export const DEFAULT_MUTATION_RATE = 0.01;
+
+/**
+ * Source of random numbers in [0, 1), like Math.random.
+ */
+export type RandomSource = () => number;
+
+export interface InheritanceOptions {
+  random?: RandomSource;
+  mutationRate?: number;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32) from a seed.
+ *
+ * @param seed Any integer; the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Builds the gamete a parent passes on: one allele byte per gene.
+ *
+ * @param dna Parent DNA
+ * @param random Random source
+ * @param mutationRate Probability of each allele mutating
+ */
+export function createGamete(dna: string, random: RandomSource, mutationRate: number): number[] {
+  const hex = normalizeDna(dna);
+  const gamete: number[] = [];
+  let chromosome = random() < 0.5 ? 0 : 1;
+
+  for (let gene = 0; gene < DNA_GENE_COUNT; gene++) {
+    if (gene > 0 && random() < CROSSOVER_RATE) {
+      chromosome = 1 - chromosome;
+    }
+
+    const offset = gene * 4 + chromosome * 2;
+    let allele = parseInt(hex.slice(offset, offset + 2), 16);
+
+    if (random() < mutationRate) {
+      allele = Math.floor(random() * 256);
+    }
+
+    gamete.push(allele);
+  }
+
+  return gamete;
+}
+
+/**
+ * Produces offspring DNA from both parents' DNA.
+ *
+ * @param parent1Dna DNA of the first parent
+ * @param parent2Dna DNA of the second parent
+ * @param options Random source (defaults to Math.random) and mutation rate
+ *                (defaults to DEFAULT_MUTATION_RATE)
+ * @returns Offspring DNA as 0x-prefixed hex string
+ * @throws {ValidationError} If a parent's DNA is not a hex string
+ */
+export function inheritDna(
+  parent1Dna: string,
+  parent2Dna: string,
+  options: InheritanceOptions = {}
+): string {
+  const random = options.random ?? Math.random;
+  const mutationRate = options.mutationRate ?? DEFAULT_MUTATION_RATE;
+
+  const gamete1 = createGamete(parent1Dna, random, mutationRate);
+  const gamete2 = createGamete(parent2Dna, random, mutationRate);
+
+  const toHex = (allele: number) => allele.toString(16).padStart(2, '0');
+  let dna = '0x';
+  for (let gene = 0; gene < DNA_GENE_COUNT; gene++) {
+    dna += toHex(gamete1[gene] as number) + toHex(gamete2[gene] as number);
+  }
+  return dna;
+}
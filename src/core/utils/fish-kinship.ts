@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Fish Kinship Utility
+ *
+ * Computes how closely two fish are related from their pedigrees (the
+ * ancestry built by fish-genealogy), using the tabular method:
+ *
+ * - Coancestry f(A, B) is the probability that a gene picked at random from A
+ *   and one picked from B are identical by descent. It is also the inbreeding
+ *   coefficient of an offspring of A and B.
+ * - f(A, A) = ½ (1 + F(A)), where F(A) = f(parent1, parent2) is A's own inbreeding
+ * - f(A, B) = ½ (f(A, parent1 of B) + f(A, parent2 of B)) when B is not an
+ *   ancestor of A; unknown parents contribute 0
+ * - The coefficient of relationship is r = 2 f(A, B) / √((1 + F(A)) (1 + F(B)))
+ */
+
+import { buildFishAncestry } from './fish-genealogy';
+import { FishFamilyMember } from '../types';
+import type { FishKinship } from '@/models/fish.model';
+
+// Highest coefficient of relationship allowed between two breeding fish (first cousins)
+export const DEFAULT_MAX_BREEDING_RELATIONSHIP = 0.125;
+
+/**
+ * Pedigree lookup: fish ID to its family member entry (parent ids).
+ * Fish missing from the pedigree are treated as founders with unknown parents.
+ */
+export type Pedigree = Map<number, FishFamilyMember>;
+
+/**
+ * Builds a pedigree lookup from one or more ancestries.
+ *
+ * @param ancestries - Ancestry lists (as returned by buildFishAncestry)
+ * @returns Pedigree lookup
+ */
+export function createPedigree(...ancestries: FishFamilyMember[][]): Pedigree {
+  const pedigree: Pedigree = new Map();
+  for (const ancestry of ancestries) {
+    for (const member of ancestry) {
+      pedigree.set(member.id, member);
+    }
+  }
+  return pedigree;
+}
+
+/**
+ * Calculates the coancestry (kinship) coefficient of two fish.
+ * Equals the inbreeding coefficient of an offspring of the pair.
+ *
+ * @param pedigree - Pedigree containing both fish and their ancestors
+ * @param fishId - First fish
+ * @param otherId - Second fish
+ * @returns Coancestry coefficient between 0 and 1
+ */
+export function calculateCoancestry(pedigree: Pedigree, fishId: number, otherId: number): number {
+  const memo = new Map<string, number>();
+  const inProgress = new Set<string>();
+  const ancestorSets = new Map<number, Set<number>>();
+
+  const parentsOf = (id: number): number[] => {
+    const member = pedigree.get(id);
+    if (!member) {
+      return [];
+    }
+    return [member.parent1_id, member.parent2_id].filter((parentId): parentId is number => parentId !== null);
+  };
+
+  // All known ancestors of a fish (excluding itself)
+  const ancestorsOf = (id: number): Set<number> => {
+    let ancestors = ancestorSets.get(id);
+    if (!ancestors) {
+      ancestors = new Set<number>();
+      const pending = parentsOf(id);
+      while (pending.length > 0) {
+        const ancestorId = pending.pop() as number;
+        if (!ancestors.has(ancestorId)) {
+          ancestors.add(ancestorId);
+          pending.push(...parentsOf(ancestorId));
+        }
+      }
+      ancestorSets.set(id, ancestors);
+    }
+    return ancestors;
+  };
+
+  const coancestry = (a: number, b: number): number => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Guards against corrupted pedigrees where a fish is its own ancestor
+    if (inProgress.has(key)) {
+      return 0;
+    }
+    inProgress.add(key);
+
+    let result: number;
+    if (a === b) {
+      const member = pedigree.get(a);
+      const ownInbreeding = member && member.parent1_id !== null && member.parent2_id !== null
+        ? coancestry(member.parent1_id, member.parent2_id)
+        : 0;
+      result = 0.5 * (1 + ownInbreeding);
+    } else {
+      // Expand the fish that is not an ancestor of the other
+      const [younger, older] = ancestorsOf(a).has(b) ? [a, b] : [b, a];
+      const member = pedigree.get(younger);
+      const parent1 = member?.parent1_id ?? null;
+      const parent2 = member?.parent2_id ?? null;
+      result = 0.5 * (
+        (parent1 !== null ? coancestry(parent1, older) : 0) +
+        (parent2 !== null ? coancestry(parent2, older) : 0)
+      );
+    }
+
+    inProgress.delete(key);
+    memo.set(key, result);
+    return result;
+  };
+
+  return coancestry(fishId, otherId);
+}
+
+/**
+ * Calculates the inbreeding coefficient of a fish (coancestry of its parents).
+ *
+ * @param pedigree - Pedigree containing the fish and its ancestors
+ * @param fishId - Fish ID
+ * @returns Inbreeding coefficient between 0 and 1 (0 if a parent is unknown)
+ */
+export function calculateInbreeding(pedigree: Pedigree, fishId: number): number {
+  const member = pedigree.get(fishId);
+  if (!member || member.parent1_id === null || member.parent2_id === null) {
+    return 0;
+  }
+  return calculateCoancestry(pedigree, member.parent1_id, member.parent2_id);
+}
+
+/**
+ * Calculates the coefficient of relationship of two fish.
+ *
+ * @param pedigree - Pedigree containing both fish and their ancestors
+ * @param fishId - First fish
+ * @param otherId - Second fish
+ * @returns Coefficient of relationship between 0 and 1
+ */
+export function calculateRelationship(pedigree: Pedigree, fishId: number, otherId: number): number {
+  const coancestry = calculateCoancestry(pedigree, fishId, otherId);
+  const inbreeding = calculateInbreeding(pedigree, fishId);
+  const otherInbreeding = calculateInbreeding(pedigree, otherId);
+
+  return (2 * coancestry) / Math.sqrt((1 + inbreeding) * (1 + otherInbreeding));
+}
+
+/**
+ * Builds the kinship between two fish from their ancestries.
+ *
+ * @param fishId - First fish ID
+ * @param otherId - Second fish ID
+ * @param maxRelationship - Highest coefficient of relationship that can still breed
+ * @returns FishKinship of the pair
+ * @throws {NotFoundError} If either fish doesn't exist
+ * @throws {ValidationError} If an ID is invalid or generation depth limit is exceeded
+ */
+export async function buildFishKinship(
+  fishId: number,
+  otherId: number,
+  maxRelationship: number = DEFAULT_MAX_BREEDING_RELATIONSHIP
+): Promise<FishKinship> {
+  const ancestry = await buildFishAncestry(fishId);
+  const otherAncestry = fishId === otherId ? ancestry : await buildFishAncestry(otherId);
+  const pedigree = createPedigree(ancestry, otherAncestry);
+
+  const otherAncestryIds = new Set(otherAncestry.map((member) => member.id));
+  const commonAncestorIds = ancestry
+    .map((member) => member.id)
+    .filter((id) => otherAncestryIds.has(id))
+    .sort((a, b) => a - b);
+
+  const relationship = roundCoefficient(calculateRelationship(pedigree, fishId, otherId));
+
+  return {
+    fish_id: fishId,
+    other_fish_id: otherId,
+    relationship_coefficient: relationship,
+    inbreeding_coefficient: roundCoefficient(calculateCoancestry(pedigree, fishId, otherId)),
+    common_ancestor_ids: commonAncestorIds,
+    can_breed: fishId !== otherId && relationship <= maxRelationship,
+  };
+}
+
+function roundCoefficient(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,110 @@
+/**
+ * Decodes a fish's DNA into its visible traits.
+ *
+ * DNA is 16 bytes written as 32 hex characters (optionally prefixed with 0x).
+ * Shorter values are left-padded with zeros; longer values keep their last 32
+ * characters. Every trait is a gene made of two consecutive bytes, one allele
+ * each:
+ *
+ * | Bytes | Hex chars | Gene      | Variants (most dominant first)                     |
+ * |-------|-----------|-----------|----------------------------------------------------|
+ * | 0-1   | 0-3       | color     | Orange, Gold, Red, Blue, Green, Purple, Black, White |
+ * | 2-3   | 4-7       | pattern   | Solid, Striped, Spotted, Marbled                   |
+ * | 4-5   | 8-11      | finShape  | Round, Fan, Forked, Veil                           |
+ * | 6-7   | 12-15     | size      | Medium, Small, Large, Giant                        |
+ * | 8-9   | 16-19     | rarity    | Common, Rare, Epic, Legendary                      |
+ * | 10-15 | 20-31     | reserved  | -                                                  |
+ *
+ * An allele byte selects the variant at index (byte % number of variants).
+ * The expressed trait is the more dominant of the two alleles, so recessive
+ * variants (e.g. Legendary, 1 in 16 random fish) only show when both alleles
+ * carry them.
+ *
+ * The Unity client must decode DNA with the same rules.
+ */
+
+import { ValidationError } from '@/core/errors';
+import {
+  FishColor,
+  FishPattern,
+  FishFinShape,
+  FishSize,
+  FishRarity,
+  type FishTraits,
+} from '@/models/fish.model';
+
+export const DNA_HEX_LENGTH = 32;
+
+/**
+ * Genes in DNA order, each with its variants from most dominant to most recessive.
+ */
+export const FISH_GENES = [
+  { trait: 'color', variants: Object.values(FishColor) },
+  { trait: 'pattern', variants: Object.values(FishPattern) },
+  { trait: 'finShape', variants: Object.values(FishFinShape) },
+  { trait: 'size', variants: Object.values(FishSize) },
+  { trait: 'rarity', variants: Object.values(FishRarity) },
+] as const;
+
+/**
+ * Normalizes a DNA string to exactly DNA_HEX_LENGTH lowercase hex characters.
+ *
+ * @param dna DNA as a hex string, with or without 0x prefix
+ * @throws {ValidationError} If dna is not a hex string
+ */
+export function normalizeDna(dna: string): string {
+  const hex = dna.trim().replace(/^0x/i, '').toLowerCase();
+  if (hex.length === 0 || !/^[0-9a-f]+$/.test(hex)) {
+    throw new ValidationError(`Invalid DNA: ${dna}`);
+  }
+  return hex.padStart(DNA_HEX_LENGTH, '0').slice(-DNA_HEX_LENGTH);
+}
+
+/**
+ * Reads the two allele bytes of a gene.
+ *
+ * @param hex Normalized DNA (see normalizeDna)
+ * @param geneIndex Position of the gene in FISH_GENES
+ */
+export function getGeneAlleles(hex: string, geneIndex: number): [number, number] {
+  const offset = geneIndex * 4;
+  return [
+    parseInt(hex.slice(offset, offset + 2), 16),
+    parseInt(hex.slice(offset + 2, offset + 4), 16),
+  ];
+}
+
+/**
+ * Variant index (0 = most dominant) selected by an allele byte.
+ */
+export function getAlleleVariantIndex(allele: number, variantCount: number): number {
+  return allele % variantCount;
+}
+
+/**
+ * Decodes the visible traits of a fish from its DNA.
+ *
+ * @param dna DNA as a hex string, with or without 0x prefix
+ * @returns Expressed traits
+ * @throws {ValidationError} If dna is not a hex string
+ */
+export function decodeFishTraits(dna: string): FishTraits {
+  const hex = normalizeDna(dna);
+
+  const expressed = FISH_GENES.map((gene, geneIndex) => {
+    const [allele1, allele2] = getGeneAlleles(hex, geneIndex);
+    const index = Math.min(
+      getAlleleVariantIndex(allele1, gene.variants.length),
+      getAlleleVariantIndex(allele2, gene.variants.length)
+    );
+    return gene.variants[index];
+  });
+
+  return {
+    color: expressed[0] as FishColor,
+    pattern: expressed[1] as FishPattern,
+    finShape: expressed[2] as FishFinShape,
+    size: expressed[3] as FishSize,
+    rarity: expressed[4] as FishRarity,
+  };
+}
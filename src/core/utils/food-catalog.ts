@@ -0,0 +1,48 @@
+/**
+ * Food catalog: every food type with its XP and hunger effects and shop price.
+ *
+ * | Food    | Base XP | Hunger reduction | Inventory | Price |
+ * |---------|---------|------------------|-----------|-------|
+ * | Basic   | 10      | 40               | unlimited | -     |
+ * | Premium | 20      | 60               | consumed  | 20    |
+ * | Special | 30      | 80               | consumed  | 50    |
+ *
+ * XP values come from FOOD_TYPE_BASE_XP and hunger values from
+ * FOOD_TYPE_HUNGER_REDUCTION, so each tuning knob stays in its own module.
+ * Consumed food is bought with coins through POST /api/player/inventory/purchase.
+ */
+
+import { FoodType, type FoodItem } from '@/models/food.model';
+import { FOOD_TYPE_BASE_XP } from '@/core/utils/xp-calculator';
+import { FOOD_TYPE_HUNGER_REDUCTION } from '@/core/utils/hunger';
+
+function catalogEntry(type: FoodType, name: string, unlimited: boolean, price: number | null): FoodItem {
+  return {
+    type,
+    name,
+    base_xp: FOOD_TYPE_BASE_XP[type],
+    hunger_reduction: FOOD_TYPE_HUNGER_REDUCTION[type],
+    unlimited,
+    price,
+  };
+}
+
+export const FOOD_CATALOG: Record<FoodType, FoodItem> = {
+  [FoodType.Basic]: catalogEntry(FoodType.Basic, 'Basic Flakes', true, null),
+  [FoodType.Premium]: catalogEntry(FoodType.Premium, 'Premium Pellets', false, 20),
+  [FoodType.Special]: catalogEntry(FoodType.Special, 'Special Feast', false, 50),
+};
+
+/**
+ * Whether a value is a known food type.
+ */
+export function isFoodType(value: unknown): value is FoodType {
+  return typeof value === 'string' && Object.values(FoodType).includes(value as FoodType);
+}
+
+/**
+ * Gets the catalog entry for a food type.
+ */
+export function getFoodItem(foodType: FoodType): FoodItem {
+  return FOOD_CATALOG[foodType];
+}
@@ -0,0 +1,86 @@
+/**
+ * Utilities for the time-based fish hunger model.
+ *
+ * Hunger goes from 0 (just fed) to 100 (starving):
+ *
+ * - Rises linearly by a rate per hour since the last feed (HUNGER_RATE_PER_HOUR
+ *   in config, DEFAULT_HUNGER_RATE_PER_HOUR when none is passed)
+ * - A fish is hungry from HUNGRY_THRESHOLD onwards
+ * - Feeding lowers hunger by FEED_HUNGER_REDUCTION (more for richer food types)
+ * - Fish below OVERFEED_THRESHOLD are full and cannot be fed
+ *
+ * The on-chain model stores hunger as of the last feed together with its
+ * timestamp; current hunger is always derived from those two values.
+ */
+
+import { FoodType } from '@/models/food.model';
+
+export const MAX_HUNGER = 100;
+export const DEFAULT_HUNGER_RATE_PER_HOUR = 5;
+export const HUNGRY_THRESHOLD = 60;
+export const OVERFEED_THRESHOLD = 10;
+export const FEED_HUNGER_REDUCTION = 40;
+
+/**
+ * Hunger points removed by one feed, per food type.
+ */
+export const FOOD_TYPE_HUNGER_REDUCTION: Record<FoodType, number> = {
+  [FoodType.Basic]: FEED_HUNGER_REDUCTION,
+  [FoodType.Premium]: 60,
+  [FoodType.Special]: 80,
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Calculates current hunger from the hunger recorded at the last feed.
+ *
+ * @param hungerAtLastFeed Hunger right after the last feed (0-100)
+ * @param lastFedAt When the fish was last fed
+ * @param now Reference time (defaults to current time)
+ * @param ratePerHour Hunger points gained per hour
+ */
+export function calculateHunger(
+  hungerAtLastFeed: number,
+  lastFedAt: Date,
+  now: Date = new Date(),
+  ratePerHour: number = DEFAULT_HUNGER_RATE_PER_HOUR,
+): number {
+  const elapsedHours = Math.max(0, now.getTime() - lastFedAt.getTime()) / MS_PER_HOUR;
+  const hunger = hungerAtLastFeed + elapsedHours * ratePerHour;
+
+  return Math.min(MAX_HUNGER, Math.max(0, Math.round(hunger * 100) / 100));
+}
+
+/**
+ * Seconds until a fish reaches HUNGRY_THRESHOLD.
+ * Returns 0 if it is already hungry, or null if hunger never rises (rate <= 0).
+ */
+export function getSecondsUntilHungry(
+  currentHunger: number,
+  ratePerHour: number = DEFAULT_HUNGER_RATE_PER_HOUR,
+): number | null {
+  if (currentHunger >= HUNGRY_THRESHOLD) {
+    return 0;
+  }
+
+  if (ratePerHour <= 0) {
+    return null;
+  }
+
+  return Math.ceil(((HUNGRY_THRESHOLD - currentHunger) / ratePerHour) * 3600);
+}
+
+/**
+ * Whether a fish is too full to be fed.
+ */
+export function isOverfed(currentHunger: number): boolean {
+  return currentHunger < OVERFEED_THRESHOLD;
+}
+
+/**
+ * Hunger right after a feed with the given food type.
+ */
+export function applyFeed(currentHunger: number, foodType: FoodType = FoodType.Basic): number {
+  return Math.max(0, currentHunger - FOOD_TYPE_HUNGER_REDUCTION[foodType]);
+}
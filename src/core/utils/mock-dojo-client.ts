@@ -0,0 +1,542 @@
+/**
+ * @fileoverview Mock Dojo Client
+ * 
+ * DojoClient used when DOJO_ACCOUNT_ADDRESS/DOJO_PRIVATE_KEY are not set.
+ * Returns mock transaction hashes and keeps on-chain state in the simulated
+ * chain (see simulated-chain), so local play and tests need no network.
+ * New IDs come from database counters that simulate the on-chain
+ * FishCounter, TankCounter and DecorationCounter and are shared by all
+ * API instances.
+ * 
+ * @see docs/dojo-stubs.md
+ */
+
+import { BREED_MUTATION_RATE } from '../config';
+import { logDebug, logInfo } from './logger';
+import { getSupabaseClient } from './supabase-client';
+import { inheritDna, createSeededRandom } from './fish-genetics';
+import { SimulatedChain, getSimulatedChain } from './simulated-chain';
+import { FoodType } from '../../models/food.model';
+import {
+  DojoClient,
+  DojoTransactionResult,
+  FishFamilyTree,
+  FishFamilyMember,
+  DecorationKind,
+  MintTankResult,
+  MintFishResult,
+  BreedFishResult,
+  MintDecorationResult,
+  FishOnChain,
+  TankOnChain,
+  DecorationOnChain,
+  TransactionReceipt,
+} from '../types';
+
+export class MockDojoClient implements DojoClient {
+  /**
+   * @param chain Simulated chain holding the on-chain state (shared one by default)
+   */
+  constructor(private readonly chain: SimulatedChain = getSimulatedChain()) {}
+
+  /**
+   * Stub mode needs no connection, so it is always healthy.
+   */
+  async validateConnection(_timeoutMs: number): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Generates a mock transaction hash.
+   * Format: 0x + 64 hex characters (simulates Starknet tx hash)
+   * 
+   * @returns Mock transaction hash string
+   */
+  private generateMockTxHash(): string {
+    const chars = '0123456789abcdef';
+    let hash = '0x';
+    for (let i = 0; i < 64; i++) {
+      hash += chars[Math.floor(Math.random() * chars.length)];
+    }
+    return hash;
+  }
+
+  /**
+   * Allocates the next ID for an entity (simulates the on-chain FishCounter,
+   * TankCounter and DecorationCounter).
+   * IDs come from the allocate_entity_id database function, which locks the
+   * counter row, so concurrent mints from any API instance never share an ID.
+   * 
+   * @param entity - Entity to allocate an ID for
+   * @returns Next available ID
+   * @throws {Error} If the ID cannot be allocated
+   */
+  private async allocateId(entity: 'fish' | 'tank' | 'decoration'): Promise<number> {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('allocate_entity_id', { p_entity: entity });
+
+    if (error || data === null) {
+      throw new Error(`Failed to allocate ${entity} ID: ${error?.message ?? 'no ID returned'}`);
+    }
+
+    return Number(data);
+  }
+
+  /**
+   * Creates a successful transaction result with mock tx_hash.
+   * 
+   * @returns DojoTransactionResult with success=true
+   */
+  private createMockTransactionResult(): DojoTransactionResult {
+    return {
+      tx_hash: this.generateMockTxHash(),
+      success: true,
+    };
+  }
+
+  // ============================================================================
+  // PLAYER FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Registers a new player on-chain.
+   * STUB: Returns mock transaction hash.
+   * 
+   * @param address - Player's wallet address
+   * @returns Transaction hash
+   */
+  async registerPlayer(address: string): Promise<string> {
+    logDebug(`[STUB] registerPlayer called with address: ${address}`);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Player registered (stub): ${address}, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Grants XP to a player.
+   * STUB: Returns mock transaction hash.
+   * 
+   * @param address - Player's wallet address
+   * @param amount - Amount of XP to grant
+   * @returns Transaction hash
+   */
+  async gainPlayerXp(address: string, amount: number): Promise<string> {
+    logDebug(`[STUB] gainPlayerXp called - address: ${address}, amount: ${amount}`);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Player XP granted (stub): ${address} +${amount}xp, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  // ============================================================================
+  // FISH FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Mints a new fish NFT for a player.
+   * STUB: Returns mock transaction hash and generated fish ID.
+   * 
+   * The contract creates a Fish with:
+   * - id = fish_id (from global FishCounter)
+   * - owner = address
+   * - state = "Baby"
+   * - xp = 0
+   * - is_ready_to_breed = false
+   * - species and dna as provided
+   * 
+   * @param address - Owner's wallet address
+   * @param species - Fish species identifier
+   * @param dna - Fish DNA string (felt252 hex)
+   * @returns MintFishResult with tx_hash and fish_id
+   */
+  async mintFish(
+    address: string,
+    species: string,
+    dna: string
+  ): Promise<MintFishResult> {
+    logDebug(`[STUB] mintFish called - address: ${address}, species: ${species}, dna: ${dna}`);
+
+    // Generate next fish ID (simulates on-chain counter)
+    const fishId = await this.allocateId('fish');
+    const txHash = this.generateMockTxHash();
+
+    this.chain.mintFish(fishId, address, species, dna);
+
+    logInfo(`Fish minted (stub): owner=${address}, fish_id=${fishId}, species=${species}, tx: ${txHash}`);
+
+    return {
+      tx_hash: txHash,
+      fish_id: fishId,
+    };
+  }
+
+  /**
+   * Feeds multiple fish in a batch operation.
+   * STUB: Returns mock transaction hash and lowers the simulated hunger of each fish
+   * (granting xpValues to the simulated XP when provided).
+   * 
+   * The contract lowers each fish's hunger by the food type's hunger reduction
+   * (see FOOD_TYPE_HUNGER_REDUCTION) and records the feed timestamp, from which
+   * hunger starts rising again.
+   * 
+   * @param fishIds - Array of fish IDs to feed
+   * @param foodType - Food given to every fish in the batch (defaults to FoodType.Basic)
+   * @param xpValues - Optional array of XP values to grant to each fish (with multipliers already applied)
+   *                   If provided, must have the same length as fishIds
+   * @returns Transaction hash
+   */
+  async feedFishBatch(
+    fishIds: number[],
+    foodType: FoodType = FoodType.Basic,
+    xpValues?: number[]
+  ): Promise<string> {
+    logDebug(`[STUB] feedFishBatch called with fishIds: [${fishIds.join(', ')}], foodType: ${foodType}`);
+
+    if (xpValues) {
+      logDebug(`[STUB] feedFishBatch with XP values: [${xpValues.join(', ')}]`);
+    }
+
+    this.chain.feedFish(fishIds, foodType, xpValues);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Fish fed (stub): ${fishIds.length} fish, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Grants XP to a specific fish.
+   * STUB: Returns mock transaction hash and adds the XP to the simulated fish,
+   * whose state follows its XP (see determineFishState).
+   * 
+   * @param fishId - ID of the fish
+   * @param amount - Amount of XP to grant
+   * @returns Transaction hash
+   */
+  async gainFishXp(fishId: number, amount: number): Promise<string> {
+    logDebug(`[STUB] gainFishXp called - fishId: ${fishId}, amount: ${amount}`);
+
+    this.chain.gainFishXp(fishId, amount);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Fish XP granted (stub): fish=${fishId} +${amount}xp, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Breeds two fish to create offspring.
+   * STUB: Returns mock transaction hash, generated fish ID and the offspring DNA.
+   * 
+   * The contract creates a new Fish with:
+   * - id = fish_id (from global FishCounter)
+   * - owner = owner of parent fish
+   * - state = "Baby"
+   * - xp = 0
+   * - is_ready_to_breed = false
+   * - dna inherited from both parents (see fish-genetics: one allele per gene
+   *   from each parent, with crossover and mutation)
+   * 
+   * Both parents then can't breed for BREEDING_COOLDOWN_SECONDS.
+   * 
+   * The stub applies the same inheritance to the simulated DNA of the parents.
+   * Passing a seed makes the offspring DNA reproducible (local/tests only; the
+   * contract uses its own randomness).
+   * 
+   * @param fish1Id - ID of first parent fish
+   * @param fish2Id - ID of second parent fish
+   * @param seed - Optional seed for the stub's random source
+   * @returns BreedFishResult with tx_hash, fish_id and dna
+   */
+  async breedFish(fish1Id: number, fish2Id: number, seed?: number): Promise<BreedFishResult> {
+    logDebug(`[STUB] breedFish called - fish1: ${fish1Id}, fish2: ${fish2Id}`);
+
+    const dna = inheritDna(this.chain.getFish(fish1Id).dna, this.chain.getFish(fish2Id).dna, {
+      random: seed !== undefined ? createSeededRandom(seed) : Math.random,
+      mutationRate: BREED_MUTATION_RATE,
+    });
+
+    // Generate next fish ID (simulates on-chain counter)
+    const fishId = await this.allocateId('fish');
+    const txHash = this.generateMockTxHash();
+
+    this.chain.breedFish(fishId, fish1Id, fish2Id, dna);
+
+    logInfo(`Fish bred (stub): parents=${fish1Id},${fish2Id}, offspring_id=${fishId}, dna=${dna}, tx: ${txHash}`);
+
+    return {
+      tx_hash: txHash,
+      fish_id: fishId,
+      dna,
+    };
+  }
+
+  /**
+   * Transfers a fish to another player.
+   * STUB: Returns mock transaction hash and changes the simulated owner.
+   * 
+   * The contract checks that `from` owns the fish and sets its owner to `to`.
+   * DNA, XP and parents are unchanged.
+   * 
+   * @param fishId - ID of the fish to transfer
+   * @param from - Current owner's wallet address
+   * @param to - New owner's wallet address
+   * @returns Transaction hash
+   */
+  async transferFish(fishId: number, from: string, to: string): Promise<string> {
+    logDebug(`[STUB] transferFish called - fish: ${fishId}, from: ${from}, to: ${to}`);
+
+    this.chain.transferFish(fishId, to);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Fish transferred (stub): fish=${fishId}, ${from} -> ${to}, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Gets the family tree (ancestry) of a fish.
+   * STUB: Returns mock family tree data.
+   * 
+   * @param fishId - ID of the fish
+   * @returns FishFamilyTree with ancestors
+   */
+  async getFishFamilyTree(fishId: number): Promise<FishFamilyTree> {
+    logDebug(`[STUB] getFishFamilyTree called with fishId: ${fishId}`);
+
+    // Mock family tree with 2 generations
+    const ancestors: FishFamilyMember[] = [
+      { id: fishId, parent1_id: fishId + 100, parent2_id: fishId + 101, generation: 0 },
+      { id: fishId + 100, parent1_id: null, parent2_id: null, generation: 1 },
+      { id: fishId + 101, parent1_id: null, parent2_id: null, generation: 1 },
+    ];
+
+    const descendants: FishFamilyMember[] = [];
+
+    const familyTree: FishFamilyTree = {
+      fish_id: fishId,
+      ancestors,
+      descendants,
+      generation_count: 2,
+      descendant_generation_count: 0,
+    };
+
+    logInfo(`Fish family tree retrieved (stub): fish=${fishId}, generations=${familyTree.generation_count}`);
+    return familyTree;
+  }
+
+  /**
+   * Gets fish data from on-chain.
+   * STUB: Returns the simulated fish (see simulated-chain): XP and state grow
+   * with gainFishXp, hunger rises over time and drops after feedFishBatch,
+   * readiness to breed needs the Adult state and no breeding cooldown, and DNA
+   * is the one given at mint or inherited at breeding.
+   * 
+   * @param fishId - ID of the fish
+   * @returns FishOnChain data
+   */
+  async getFishOnChain(fishId: number): Promise<FishOnChain> {
+    logDebug(`[STUB] getFishOnChain called with fishId: ${fishId}`);
+
+    const fishOnChain: FishOnChain = this.chain.getFishOnChain(fishId);
+
+    logInfo(`Fish on-chain data retrieved (stub): fish=${fishId}`);
+    return fishOnChain;
+  }
+
+  // ============================================================================
+  // TANK FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Mints a new tank NFT for a player.
+   * STUB: Returns mock transaction hash and generated tank ID.
+   * 
+   * The contract creates a Tank with:
+   * - id = tank_id (from global TankCounter)
+   * - owner = address
+   * - capacity = provided capacity (default 10)
+   * 
+   * @param address - Owner's wallet address
+   * @param capacity - Tank capacity (default: 10)
+   * @returns MintTankResult with tx_hash and tank_id
+   */
+  async mintTank(
+    address: string,
+    capacity: number = 10
+  ): Promise<MintTankResult> {
+    logDebug(`[STUB] mintTank called - address: ${address}, capacity: ${capacity}`);
+
+    // Generate next tank ID (simulates on-chain counter)
+    const tankId = await this.allocateId('tank');
+    const txHash = this.generateMockTxHash();
+
+    this.chain.mintTank(tankId, address, capacity);
+
+    logInfo(`Tank minted (stub): owner=${address}, tank_id=${tankId}, capacity=${capacity}, tx: ${txHash}`);
+
+    return {
+      tx_hash: txHash,
+      tank_id: tankId,
+    };
+  }
+
+  /**
+   * Gets tank data from on-chain.
+   * STUB: Returns the simulated tank (owner 0x0 and capacity 10 for tanks never
+   * minted through the stubs).
+   * 
+   * @param tankId - ID of the tank
+   * @returns TankOnChain data
+   */
+  async getTankOnChain(tankId: number): Promise<TankOnChain> {
+    logDebug(`[STUB] getTankOnChain called with tankId: ${tankId}`);
+
+    const tankOnChain: TankOnChain = this.chain.getTankOnChain(tankId);
+
+    logInfo(`Tank on-chain data retrieved (stub): tank=${tankId}`);
+    return tankOnChain;
+  }
+
+  /**
+   * Gets the total XP multiplier for a tank based on active decorations.
+   * STUB: Returns mock multiplier value.
+   * 
+   * @param tankId - ID of the tank
+   * @returns XP multiplier value
+   */
+  async getXpMultiplier(tankId: number): Promise<number> {
+    logDebug(`[STUB] getXpMultiplier called with tankId: ${tankId}`);
+
+    // Mock multiplier (1.0 = no bonus, 1.5 = 50% bonus, etc.)
+    const mockMultiplier = 1.25;
+
+    logInfo(`XP multiplier retrieved (stub): tank=${tankId}, multiplier=${mockMultiplier}`);
+    return mockMultiplier;
+  }
+
+  // ============================================================================
+  // DECORATION FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Mints a new decoration NFT for a player.
+   * STUB: Returns mock transaction hash and generated decoration ID.
+   * 
+   * The contract creates a Decoration with:
+   * - id = decoration_id (from global DecorationCounter)
+   * - owner = address
+   * - kind = provided kind
+   * 
+   * @param address - Owner's wallet address
+   * @param kind - Type of decoration to mint
+   * @returns MintDecorationResult with tx_hash and decoration_id
+   */
+  async mintDecoration(
+    address: string,
+    kind: DecorationKind
+  ): Promise<MintDecorationResult> {
+    logDebug(`[STUB] mintDecoration called - address: ${address}, kind: ${kind}`);
+
+    // Generate next decoration ID (simulates on-chain counter)
+    const decorationId = await this.allocateId('decoration');
+    const txHash = this.generateMockTxHash();
+
+    this.chain.mintDecoration(decorationId, address, kind);
+
+    logInfo(`Decoration minted (stub): owner=${address}, kind=${kind}, decoration_id=${decorationId}, tx: ${txHash}`);
+
+    return {
+      tx_hash: txHash,
+      decoration_id: decorationId,
+    };
+  }
+
+  /**
+   * Activates a decoration (places it in a tank).
+   * STUB: Returns mock transaction hash and marks the simulated decoration active.
+   * 
+   * @param id - Decoration ID to activate
+   * @returns Transaction hash
+   */
+  async activateDecoration(id: number): Promise<string> {
+    logDebug(`[STUB] activateDecoration called with id: ${id}`);
+
+    this.chain.setDecorationActive(id, true);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Decoration activated (stub): id=${id}, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Deactivates a decoration (removes it from a tank).
+   * STUB: Returns mock transaction hash and marks the simulated decoration inactive.
+   * 
+   * @param id - Decoration ID to deactivate
+   * @returns Transaction hash
+   */
+  async deactivateDecoration(id: number): Promise<string> {
+    logDebug(`[STUB] deactivateDecoration called with id: ${id}`);
+
+    this.chain.setDecorationActive(id, false);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Decoration deactivated (stub): id=${id}, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Transfers a decoration to another player.
+   * STUB: Returns mock transaction hash and moves the simulated decoration.
+   * 
+   * The contract checks that `from` owns the decoration, sets its owner to `to`
+   * and deactivates it.
+   * 
+   * @param decorationId - ID of the decoration to transfer
+   * @param from - Current owner's wallet address
+   * @param to - New owner's wallet address
+   * @returns Transaction hash
+   */
+  async transferDecoration(decorationId: number, from: string, to: string): Promise<string> {
+    logDebug(`[STUB] transferDecoration called - decoration: ${decorationId}, from: ${from}, to: ${to}`);
+
+    this.chain.transferDecoration(decorationId, to);
+
+    const result = this.createMockTransactionResult();
+    logInfo(`Decoration transferred (stub): decoration=${decorationId}, ${from} -> ${to}, tx: ${result.tx_hash}`);
+    return result.tx_hash;
+  }
+
+  /**
+   * Gets decoration data from on-chain.
+   * STUB: Returns the simulated decoration, with the XP multiplier of its kind
+   * (see DECORATION_XP_MULTIPLIERS).
+   * 
+   * @param decorationId - ID of the decoration
+   * @returns DecorationOnChain data
+   */
+  async getDecorationOnChain(decorationId: number): Promise<DecorationOnChain> {
+    logDebug(`[STUB] getDecorationOnChain called with decorationId: ${decorationId}`);
+
+    const decorationOnChain: DecorationOnChain = this.chain.getDecorationOnChain(decorationId);
+
+    logInfo(`Decoration on-chain data retrieved (stub): decoration=${decorationId}`);
+    return decorationOnChain;
+  }
+
+
+  // ============================================================================
+  // TRANSACTION FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Looks up the receipt of a transaction.
+   * STUB: Every transaction is reported as accepted, since stub calls never fail.
+   * 
+   * @param txHash - Transaction hash to look up
+   * @returns TransactionReceipt with status accepted
+   */
+  async getTransactionReceipt(txHash: string): Promise<TransactionReceipt> {
+    logDebug(`[STUB] getTransactionReceipt called with txHash: ${txHash}`);
+    return { tx_hash: txHash, status: 'accepted' };
+  }
+}
@@ -48,33 +48,63 @@ export async function displayServerBanner(): Promise<void> {
    • GET  /api                           API info
    
    Authentication:
-   • POST /api/auth/login                Player login/registration
+   • POST /api/auth/nonce                Request login challenge
+   • POST /api/auth/login                Player login with signed challenge
    
    Players:
    • GET  /api/player/:address           Get player by address
+   • GET  /api/player/:address/inventory Get player food inventory
+   • GET  /api/player/:address/balance   Get player coin balance
+   • GET  /api/player/:address/transactions Get player coin transactions
+   • POST /api/player/:address/rewards/tournament Credit tournament win (admin)
    
    Fish:
    • GET  /api/fish/:id                  Get fish details by ID
    • GET  /api/fish/:id/family           Get complete family tree of a fish
+   • GET  /api/fish/:id/kinship/:otherId Get kinship between two fish
+   • GET  /api/fish/:id/feedings         Get feeding history of a fish
    • GET  /api/player/:address/fish      Get all fish owned by a player
    • POST /api/fish/feed                 Feed multiple fish in batch
    • POST /api/fish/breed                Breed two fish together
+   • POST /api/fish/:id/move             Move a fish to another tank
+   • POST /api/fish/move                 Move several fish between tanks
+   • POST /api/fish/:id/transfer         Give a fish to another player
    
    Tanks:
    • GET  /api/tank/:id                  Get tank details by ID
    • GET  /api/player/:address/tanks     Get all tanks owned by a player
+   • POST /api/tank                      Mint an additional tank
+   • PATCH /api/tank/:id                 Rename a tank
+   • GET  /api/tank/:id/layout           Get the tank layout (scene document)
+   • PUT  /api/tank/:id/layout           Save the tank layout
    
    Decorations:
    • GET  /api/decoration/:id            Get decoration details by ID
    • GET  /api/player/:address/decorations Get all decorations owned by a player
+   • POST /api/decoration                Buy (mint) a new decoration
    • POST /api/decoration/:id/activate   Activate a decoration
    • POST /api/decoration/:id/deactivate Deactivate a decoration
+   • POST /api/decoration/:id/place      Place a decoration in a tank
+   • POST /api/decoration/:id/unplace    Remove a decoration from its tank
    
    Assets:
    • POST /api/asset/fish/:id/sprite     Upload fish sprite/3D asset
    • POST /api/asset/tank/:id/sprite     Upload tank sprite
    • POST /api/asset/decoration/:id/sprite Upload decoration sprite
    • POST /api/asset/player/:address/avatar Upload player avatar
+   
+   Sync Queue:
+   • GET  /api/sync                      List sync queue entries (filters + pagination)
+   • GET  /api/sync/:txHash              Get sync queue entry by tx hash
+   • POST /api/sync/:txHash/retry        Requeue a stuck or failed entry (admin)
+   • POST /api/sync/:txHash/cancel       Cancel a pending entry (admin)
+   
+   Marketplace:
+   • GET  /api/marketplace/listings      List listings (filters + pagination)
+   • GET  /api/marketplace/listings/:id  Get listing by ID
+   • POST /api/marketplace/listings      List a fish or decoration for sale
+   • POST /api/marketplace/listings/:id/cancel Cancel a listing
+   • POST /api/marketplace/listings/:id/buy Buy a listing
 
 ⏰  Started at:        ${startTime}
   `;
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Session Token Utility
+ *
+ * Issues and verifies HS256 JWT session tokens for authenticated players.
+ * Tokens carry the player address as `sub` and expire after SESSION_TTL_SECONDS.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SESSION_SECRET, SESSION_TTL_SECONDS } from '../config';
+import { UnauthorizedError } from '../errors';
+
+/**
+ * Claims stored in a session token.
+ */
+export interface SessionClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Issued session token with its expiration.
+ */
+export interface SessionToken {
+  token: string;
+  expiresAt: Date;
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url');
+}
+
+/**
+ * Issues a session token for a player address.
+ *
+ * @param address - Authenticated player address
+ * @param now - Issue time (defaults to current time)
+ * @returns Signed token and expiration date
+ */
+export function issueSessionToken(address: string, now: Date = new Date()): SessionToken {
+  const iat = Math.floor(now.getTime() / 1000);
+  const exp = iat + SESSION_TTL_SECONDS;
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const claims: SessionClaims = { sub: address, iat, exp };
+  const body = base64UrlEncode(JSON.stringify(claims));
+  const signature = sign(`${header}.${body}`);
+
+  return {
+    token: `${header}.${body}.${signature}`,
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Verifies a session token and returns its claims.
+ *
+ * @param token - Session token from the Authorization header
+ * @param now - Verification time (defaults to current time)
+ * @returns Decoded claims
+ * @throws {UnauthorizedError} If the token is malformed, tampered with or expired
+ */
+export function verifySessionToken(token: string, now: Date = new Date()): SessionClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new UnauthorizedError('Malformed session token');
+  }
+
+  const [header, body, signature] = parts as [string, string, string];
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new UnauthorizedError('Invalid session token');
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as SessionClaims;
+  } catch {
+    throw new UnauthorizedError('Malformed session token');
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new UnauthorizedError('Malformed session token');
+  }
+
+  if (claims.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new UnauthorizedError('Session token has expired');
+  }
+
+  return claims;
+}
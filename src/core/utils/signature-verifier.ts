@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Signature Verifier Utility
+ *
+ * Verifies Starknet typed-data signatures for the login flow.
+ * The active verifier is selected by AUTH_SIGNATURE_VERIFIER:
+ * - 'starknet': asks the account contract itself (is_valid_signature) through STARKNET_RPC
+ * - 'stub': accepts any non-empty signature (local development only)
+ *
+ * Tests and local tooling can swap the verifier with setSignatureVerifier().
+ */
+
+import { RpcProvider, CallData, num, shortString, typedData as starknetTypedData } from 'starknet';
+import type { TypedData } from 'starknet';
+import { AUTH_SIGNATURE_VERIFIER, STARKNET_RPC } from '../config';
+import { logDebug, logWarn } from './logger';
+
+/**
+ * Verifies that `signature` over `typedData` was produced by the account at `address`.
+ * Resolves to false for invalid signatures; only throws on unexpected failures.
+ */
+export type SignatureVerifier = (
+  address: string,
+  typedData: TypedData,
+  signature: string[]
+) => Promise<boolean>;
+
+// Value returned by SNIP-6 accounts for a valid signature ('VALID' as short string)
+const SNIP6_VALID = num.toBigInt(shortString.encodeShortString('VALID'));
+
+/**
+ * Verifies a signature by calling the account contract.
+ *
+ * Tries the SNIP-6 `is_valid_signature` entrypoint first (Cartridge controller and
+ * Cairo 1 accounts) and falls back to the legacy `isValidSignature`, which asserts
+ * instead of returning a value.
+ *
+ * @param address - Account contract address
+ * @param typedData - Typed data that was signed
+ * @param signature - Signature felts
+ * @returns True if the account accepts the signature
+ */
+export const verifyStarknetSignature: SignatureVerifier = async (address, typedData, signature) => {
+  const provider = new RpcProvider({ nodeUrl: STARKNET_RPC });
+  const messageHash = starknetTypedData.getMessageHash(typedData, address);
+  const calldata = CallData.compile({
+    hash: num.toBigInt(messageHash).toString(),
+    signature,
+  });
+
+  try {
+    const { result } = await provider.callContract({
+      contractAddress: address,
+      entrypoint: 'is_valid_signature',
+      calldata,
+    });
+    const value = num.toBigInt(result[0] ?? 0);
+    return value === SNIP6_VALID || value === 1n;
+  } catch (error) {
+    logDebug(`is_valid_signature failed for ${address}, trying isValidSignature`, error);
+  }
+
+  try {
+    await provider.callContract({
+      contractAddress: address,
+      entrypoint: 'isValidSignature',
+      calldata,
+    });
+    return true;
+  } catch (error) {
+    logDebug(`isValidSignature rejected signature for ${address}`, error);
+    return false;
+  }
+};
+
+/**
+ * Stub verifier for local development.
+ * Accepts any non-empty signature without contacting the chain.
+ */
+export const verifyStubSignature: SignatureVerifier = async (address, _typedData, signature) => {
+  logWarn(`[STUB] Accepting signature for ${address} without verification`);
+  return signature.length > 0 && signature.every((part) => part.trim().length > 0);
+};
+
+// Currently active verifier (resolved lazily from configuration)
+let activeVerifier: SignatureVerifier | null = null;
+
+/**
+ * Gets the signature verifier selected by AUTH_SIGNATURE_VERIFIER.
+ *
+ * @returns Active SignatureVerifier
+ */
+export function getSignatureVerifier(): SignatureVerifier {
+  if (!activeVerifier) {
+    activeVerifier = AUTH_SIGNATURE_VERIFIER === 'stub' ? verifyStubSignature : verifyStarknetSignature;
+  }
+  return activeVerifier;
+}
+
+/**
+ * Overrides the active signature verifier.
+ * Pass null to go back to the configured verifier.
+ *
+ * @param verifier - Verifier to use, or null to reset
+ */
+export function setSignatureVerifier(verifier: SignatureVerifier | null): void {
+  activeVerifier = verifier;
+}
@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Simulated Chain
+ *
+ * Local world state behind the Dojo client stubs, so development and
+ * integration tests see consistent, evolving on-chain data without a network:
+ *
+ * - Fish keep their owner, DNA and XP; state follows XP (see xp-calculator),
+ *   hunger rises over time and drops when fed (see hunger), and parents enter
+ *   a breeding cooldown after breeding
+ * - Tanks keep their owner and capacity
+ * - Decorations keep their owner, kind and active flag
+ *
+ * State is kept in memory. When SIMULATED_CHAIN_FILE is set it is also loaded
+ * from and saved to that JSON file, so it survives server restarts.
+ *
+ * Entities never minted through the stubs (e.g. created before the file
+ * existed) are read as freshly minted ones.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { SIMULATED_CHAIN_FILE, HUNGER_RATE_PER_HOUR } from '../config';
+import { logWarn } from './logger';
+import { calculateHunger, applyFeed } from './hunger';
+import { determineFishState, DECORATION_XP_MULTIPLIERS } from './xp-calculator';
+import { FoodType } from '../../models/food.model';
+import { FishState } from '../../models/fish.model';
+import { DecorationKind, FishOnChain, TankOnChain, DecorationOnChain } from '../types';
+
+// Seconds a fish can't breed again after breeding (mirrors the contract)
+export const BREEDING_COOLDOWN_SECONDS = 60 * 60;
+
+// Capacity reported for tanks never minted through the stubs
+export const DEFAULT_TANK_CAPACITY = 10;
+
+// Owner reported for entities never minted through the stubs
+const UNKNOWN_OWNER = '0x0';
+
+export interface SimulatedFish {
+  id: number;
+  owner: string;
+  species: string;
+  dna: string;
+  xp: number;
+  hunger: number; // Hunger as of hungerSince
+  hungerSince: string;
+  lastFedAt: string | null;
+  breedingCooldownUntil: string | null;
+}
+
+export interface SimulatedTank {
+  id: number;
+  owner: string;
+  capacity: number;
+}
+
+export interface SimulatedDecoration {
+  id: number;
+  owner: string;
+  kind: DecorationKind;
+  isActive: boolean;
+}
+
+export interface SimulatedChainState {
+  fish: Record<number, SimulatedFish>;
+  tanks: Record<number, SimulatedTank>;
+  decorations: Record<number, SimulatedDecoration>;
+}
+
+/**
+ * Per-entity simulated on-chain state.
+ */
+export class SimulatedChain {
+  private state: SimulatedChainState = { fish: {}, tanks: {}, decorations: {} };
+
+  /**
+   * @param filePath JSON file to load state from and save it to (memory only if null)
+   * @param generateDna DNA given to fish seen for the first time (random by default)
+   */
+  constructor(
+    private readonly filePath: string | null = null,
+    private readonly generateDna: () => string = () => `0x${randomBytes(16).toString('hex')}`
+  ) {
+    if (filePath && existsSync(filePath)) {
+      try {
+        this.state = JSON.parse(readFileSync(filePath, 'utf8')) as SimulatedChainState;
+      } catch (error) {
+        logWarn(`Failed to load simulated chain state from ${filePath}, starting empty`, error);
+      }
+    }
+  }
+
+  // ============================================================================
+  // FISH
+  // ============================================================================
+
+  mintFish(id: number, owner: string, species: string, dna: string): SimulatedFish {
+    const now = new Date().toISOString();
+    const fish: SimulatedFish = {
+      id,
+      owner,
+      species,
+      dna,
+      xp: 0,
+      hunger: 0,
+      hungerSince: now,
+      lastFedAt: null,
+      breedingCooldownUntil: null,
+    };
+    this.state.fish[id] = fish;
+    this.save();
+    return fish;
+  }
+
+  /**
+   * Gets a fish, minting it as a new fish with random DNA the first time it is seen.
+   */
+  getFish(id: number): SimulatedFish {
+    return this.state.fish[id] ?? this.mintFish(id, UNKNOWN_OWNER, 'unknown', this.generateDna());
+  }
+
+  /**
+   * Lowers the hunger of every fish by the food's hunger reduction and
+   * optionally grants XP (same order as fishIds).
+   */
+  feedFish(fishIds: number[], foodType: FoodType, xpValues?: number[]): void {
+    const now = new Date();
+    fishIds.forEach((fishId, index) => {
+      const fish = this.getFish(fishId);
+      const currentHunger = calculateHunger(fish.hunger, new Date(fish.hungerSince), now, HUNGER_RATE_PER_HOUR);
+      fish.hunger = applyFeed(currentHunger, foodType);
+      fish.hungerSince = now.toISOString();
+      fish.lastFedAt = now.toISOString();
+      fish.xp += xpValues?.[index] ?? 0;
+    });
+    this.save();
+  }
+
+  gainFishXp(fishId: number, amount: number): void {
+    this.getFish(fishId).xp += amount;
+    this.save();
+  }
+
+  /**
+   * Creates the offspring of two fish (owned by the first parent's owner) and
+   * starts both parents' breeding cooldown.
+   */
+  breedFish(offspringId: number, parent1Id: number, parent2Id: number, dna: string): SimulatedFish {
+    const parent1 = this.getFish(parent1Id);
+    const parent2 = this.getFish(parent2Id);
+
+    const cooldownUntil = new Date(Date.now() + BREEDING_COOLDOWN_SECONDS * 1000).toISOString();
+    parent1.breedingCooldownUntil = cooldownUntil;
+    parent2.breedingCooldownUntil = cooldownUntil;
+
+    return this.mintFish(offspringId, parent1.owner, parent1.species, dna);
+  }
+
+  transferFish(fishId: number, to: string): void {
+    this.getFish(fishId).owner = to;
+    this.save();
+  }
+
+  /**
+   * Reads a fish the way the contract reports it: state derived from XP,
+   * hunger computed at read time.
+   */
+  getFishOnChain(fishId: number): FishOnChain {
+    const fish = this.getFish(fishId);
+    const now = new Date();
+    const state = determineFishState(fish.xp);
+    const inCooldown = fish.breedingCooldownUntil !== null && new Date(fish.breedingCooldownUntil) > now;
+
+    return {
+      id: fish.id,
+      xp: fish.xp,
+      state,
+      hunger: calculateHunger(fish.hunger, new Date(fish.hungerSince), now, HUNGER_RATE_PER_HOUR),
+      lastFedAt: fish.lastFedAt ? new Date(fish.lastFedAt) : null,
+      isReadyToBreed: state === FishState.Adult && !inCooldown,
+      dna: fish.dna,
+    };
+  }
+
+  // ============================================================================
+  // TANKS
+  // ============================================================================
+
+  mintTank(id: number, owner: string, capacity: number): void {
+    this.state.tanks[id] = { id, owner, capacity };
+    this.save();
+  }
+
+  getTankOnChain(tankId: number): TankOnChain {
+    const tank = this.state.tanks[tankId];
+    return tank
+      ? { id: tank.id, owner: tank.owner, capacity: tank.capacity }
+      : { id: tankId, owner: UNKNOWN_OWNER, capacity: DEFAULT_TANK_CAPACITY };
+  }
+
+  // ============================================================================
+  // DECORATIONS
+  // ============================================================================
+
+  mintDecoration(id: number, owner: string, kind: DecorationKind): void {
+    this.state.decorations[id] = { id, owner, kind, isActive: false };
+    this.save();
+  }
+
+  setDecorationActive(decorationId: number, isActive: boolean): void {
+    this.getDecoration(decorationId).isActive = isActive;
+    this.save();
+  }
+
+  /**
+   * Moves a decoration to another owner, deactivating it.
+   */
+  transferDecoration(decorationId: number, to: string): void {
+    const decoration = this.getDecoration(decorationId);
+    decoration.owner = to;
+    decoration.isActive = false;
+    this.save();
+  }
+
+  getDecorationOnChain(decorationId: number): DecorationOnChain {
+    const decoration = this.getDecoration(decorationId);
+    return {
+      id: decoration.id,
+      owner: decoration.owner,
+      kind: decoration.kind,
+      xp_multiplier: 1 + (DECORATION_XP_MULTIPLIERS[decoration.kind] ?? 0) / 100,
+    };
+  }
+
+  /**
+   * Whether a decoration is active (false for decorations never minted through the stubs).
+   */
+  isDecorationActive(decorationId: number): boolean {
+    return this.state.decorations[decorationId]?.isActive ?? false;
+  }
+
+  /**
+   * Gets a decoration, registering it as an inactive Plant the first time it is seen.
+   */
+  private getDecoration(decorationId: number): SimulatedDecoration {
+    let decoration = this.state.decorations[decorationId];
+    if (!decoration) {
+      decoration = { id: decorationId, owner: UNKNOWN_OWNER, kind: DecorationKind.Plant, isActive: false };
+      this.state.decorations[decorationId] = decoration;
+    }
+    return decoration;
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      writeFileSync(this.filePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      logWarn(`Failed to save simulated chain state to ${this.filePath}`, error);
+    }
+  }
+}
+
+let simulatedChain: SimulatedChain | null = null;
+
+/**
+ * Gets the simulated chain used by the Dojo client stubs.
+ * Created on first use, backed by SIMULATED_CHAIN_FILE when set.
+ */
+export function getSimulatedChain(): SimulatedChain {
+  if (!simulatedChain) {
+    simulatedChain = new SimulatedChain(SIMULATED_CHAIN_FILE || null);
+  }
+  return simulatedChain;
+}
+
+/**
+ * Replaces the simulated chain (tests). Pass null to go back to the default one.
+ */
+export function setSimulatedChain(chain: SimulatedChain | null): void {
+  simulatedChain = chain;
+}
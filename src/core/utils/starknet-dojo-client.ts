@@ -0,0 +1,490 @@
+/**
+ * @fileoverview Starknet Dojo Client
+ *
+ * DojoClient that calls the Aqua Stark world contracts through starknet.js.
+ * Writes are signed by the DOJO_ACCOUNT_ADDRESS/DOJO_PRIVATE_KEY account and
+ * sent to the system contract of each domain (player, fish, tank, decoration);
+ * reads are contract calls on the same systems.
+ *
+ * Encoding (felts):
+ * - Addresses and DNA are passed as-is, species as a short string
+ * - Arrays are passed as length followed by their items
+ * - Enums (FoodType, DecorationKind, FishState) are passed as variant index
+ *
+ * Mints wait for the transaction to be accepted and read the new ID from the
+ * event emitted by the system (FishMinted, FishBred, TankMinted,
+ * DecorationMinted), whose keys are [event selector, id].
+ *
+ * @see docs/dojo-stubs.md
+ */
+
+import { Account, RpcProvider, constants, hash, num, shortString, addAddressPadding } from 'starknet';
+import { OnChainError } from '../errors';
+import { logDebug, logInfo } from './logger';
+import { FoodType } from '../../models/food.model';
+import { FishState } from '../../models/fish.model';
+import {
+  DojoClient,
+  DecorationKind,
+  FishFamilyMember,
+  FishFamilyTree,
+  MintFishResult,
+  BreedFishResult,
+  MintTankResult,
+  MintDecorationResult,
+  FishOnChain,
+  TankOnChain,
+  DecorationOnChain,
+  TransactionReceipt,
+} from '../types';
+
+/**
+ * Addresses of the world's system contracts.
+ */
+export interface DojoSystemAddresses {
+  player: string;
+  fish: string;
+  tank: string;
+  decoration: string;
+}
+
+export interface StarknetDojoClientOptions {
+  nodeUrl: string;
+  chainId: string; // Short string, e.g. SN_MAIN
+  accountAddress: string;
+  privateKey: string;
+  systems: DojoSystemAddresses;
+  pollIntervalMs?: number;
+  maxPollAttempts?: number;
+}
+
+// Time between two receipt lookups while waiting for a mint to be accepted
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+const DEFAULT_MAX_POLL_ATTEMPTS = 40;
+
+type RawReceipt = Record<string, unknown>;
+
+interface RawEvent {
+  from_address?: string;
+  keys?: string[];
+  data?: string[];
+}
+
+/**
+ * Converts a number, bigint or hex string into a hex felt.
+ */
+function toFelt(value: number | bigint | string): string {
+  return num.toHex(value);
+}
+
+/**
+ * Converts a felt returned by the node into a number.
+ */
+function fromFelt(value: string | undefined): number {
+  return Number(BigInt(value ?? '0x0'));
+}
+
+/**
+ * Gets the starknet.js chain ID of a chain short string (e.g. SN_MAIN).
+ *
+ * @returns The chain ID, or undefined if starknet.js doesn't know the chain
+ */
+function toStarknetChainId(chainId: string): constants.StarknetChainId | undefined {
+  const encoded = shortString.encodeShortString(chainId);
+  return Object.values(constants.StarknetChainId).find((known) => known === encoded);
+}
+
+/**
+ * Gets the variant index of an enum value, as Cairo serializes enums.
+ */
+function enumIndex<T extends string>(values: readonly T[], value: T): string {
+  return toFelt(values.indexOf(value));
+}
+
+/**
+ * Gets the enum value of a variant index.
+ */
+function enumValue<T extends string>(values: readonly T[], felt: string | undefined, name: string): T {
+  const value = values[fromFelt(felt)];
+  if (value === undefined) {
+    throw new OnChainError(`Unknown ${name} variant ${felt}`);
+  }
+  return value;
+}
+
+export class StarknetDojoClient implements DojoClient {
+  private readonly provider: RpcProvider;
+  private readonly account: Account;
+  private readonly systems: DojoSystemAddresses;
+  private readonly pollIntervalMs: number;
+  private readonly maxPollAttempts: number;
+
+  constructor(options: StarknetDojoClientOptions) {
+    // Known chain ID: signing needs no starknet_chainId round trip.
+    // Other chains are left to the provider, which asks the node.
+    const chainId = toStarknetChainId(options.chainId);
+    this.provider = new RpcProvider({
+      nodeUrl: options.nodeUrl,
+      ...(chainId ? { chainId } : {}),
+    });
+    this.account = new Account(this.provider, options.accountAddress, options.privateKey, '1');
+    this.systems = options.systems;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxPollAttempts = options.maxPollAttempts ?? DEFAULT_MAX_POLL_ATTEMPTS;
+  }
+
+  /**
+   * Checks the node answers within timeoutMs, by reading the latest block number.
+   */
+  async validateConnection(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.provider.getBlockNumber().then(() => true, () => false),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // ============================================================================
+  // PLAYER FUNCTIONS
+  // ============================================================================
+
+  async registerPlayer(address: string): Promise<string> {
+    return this.invoke('player', 'register_player', [address]);
+  }
+
+  async gainPlayerXp(address: string, amount: number): Promise<string> {
+    return this.invoke('player', 'gain_player_xp', [address, toFelt(amount)]);
+  }
+
+  // ============================================================================
+  // FISH FUNCTIONS
+  // ============================================================================
+
+  async mintFish(address: string, species: string, dna: string): Promise<MintFishResult> {
+    const txHash = await this.invoke('fish', 'mint_fish', [
+      address,
+      shortString.encodeShortString(species),
+      dna,
+    ]);
+    const fishId = await this.waitForMintedId(txHash, 'fish', 'FishMinted');
+
+    logInfo(`Fish minted: owner=${address}, fish_id=${fishId}, tx: ${txHash}`);
+    return { tx_hash: txHash, fish_id: fishId };
+  }
+
+  /**
+   * Feeds fish in one transaction. Without xpValues an empty array is sent
+   * and the contract computes the XP of each fish itself.
+   */
+  async feedFishBatch(
+    fishIds: number[],
+    foodType: FoodType = FoodType.Basic,
+    xpValues: number[] = []
+  ): Promise<string> {
+    return this.invoke('fish', 'feed_fish_batch', [
+      toFelt(fishIds.length),
+      ...fishIds.map(toFelt),
+      enumIndex(Object.values(FoodType), foodType),
+      toFelt(xpValues.length),
+      ...xpValues.map(toFelt),
+    ]);
+  }
+
+  async gainFishXp(fishId: number, amount: number): Promise<string> {
+    return this.invoke('fish', 'gain_fish_xp', [toFelt(fishId), toFelt(amount)]);
+  }
+
+  /**
+   * Breeds two fish. The contract picks its own randomness, so the seed used
+   * by the mock client is ignored; the offspring DNA is read back after minting.
+   */
+  async breedFish(fish1Id: number, fish2Id: number): Promise<BreedFishResult> {
+    const txHash = await this.invoke('fish', 'breed_fish', [toFelt(fish1Id), toFelt(fish2Id)]);
+    const fishId = await this.waitForMintedId(txHash, 'fish', 'FishBred');
+    const { dna } = await this.getFishOnChain(fishId);
+
+    logInfo(`Fish bred: parents=${fish1Id},${fish2Id}, offspring_id=${fishId}, tx: ${txHash}`);
+    return { tx_hash: txHash, fish_id: fishId, dna };
+  }
+
+  async transferFish(fishId: number, from: string, to: string): Promise<string> {
+    return this.invoke('fish', 'transfer_fish', [toFelt(fishId), from, to]);
+  }
+
+  /**
+   * Reads the family tree: ancestors then descendants, each as a length
+   * followed by (id, parent1_id, parent2_id, generation) tuples (0 = no parent).
+   */
+  async getFishFamilyTree(fishId: number): Promise<FishFamilyTree> {
+    const result = await this.call('fish', 'get_fish_family_tree', [toFelt(fishId)]);
+
+    let offset = 0;
+    const readMembers = (): FishFamilyMember[] => {
+      const count = fromFelt(result[offset++]);
+      const members: FishFamilyMember[] = [];
+      for (let i = 0; i < count; i++) {
+        const [id, parent1, parent2, generation] = result.slice(offset, offset + 4).map(fromFelt);
+        offset += 4;
+        members.push({
+          id: id ?? 0,
+          parent1_id: parent1 || null,
+          parent2_id: parent2 || null,
+          generation: generation ?? 0,
+        });
+      }
+      return members;
+    };
+
+    const ancestors = readMembers();
+    const descendants = readMembers();
+    const generationCount = (members: FishFamilyMember[]) =>
+      new Set(members.map((member) => member.generation).filter((generation) => generation > 0)).size;
+
+    return {
+      fish_id: fishId,
+      ancestors,
+      descendants,
+      generation_count: generationCount(ancestors) + 1,
+      descendant_generation_count: generationCount(descendants),
+    };
+  }
+
+  /**
+   * Reads a fish: (id, owner, xp, state, hunger, last_fed_at, is_ready_to_breed, dna),
+   * with last_fed_at in seconds (0 if never fed).
+   */
+  async getFishOnChain(fishId: number): Promise<FishOnChain> {
+    const [id, , xp, state, hunger, lastFedAt, isReadyToBreed, dna] = await this.call('fish', 'get_fish', [
+      toFelt(fishId),
+    ]);
+    const lastFedSeconds = fromFelt(lastFedAt);
+
+    return {
+      id: fromFelt(id),
+      xp: fromFelt(xp),
+      state: enumValue(Object.values(FishState), state, 'FishState'),
+      hunger: fromFelt(hunger),
+      lastFedAt: lastFedSeconds > 0 ? new Date(lastFedSeconds * 1000) : null,
+      isReadyToBreed: fromFelt(isReadyToBreed) === 1,
+      dna: toFelt(dna ?? '0x0'),
+    };
+  }
+
+  // ============================================================================
+  // TANK FUNCTIONS
+  // ============================================================================
+
+  async mintTank(address: string, capacity: number = 10): Promise<MintTankResult> {
+    const txHash = await this.invoke('tank', 'mint_tank', [address, toFelt(capacity)]);
+    const tankId = await this.waitForMintedId(txHash, 'tank', 'TankMinted');
+
+    logInfo(`Tank minted: owner=${address}, tank_id=${tankId}, tx: ${txHash}`);
+    return { tx_hash: txHash, tank_id: tankId };
+  }
+
+  /**
+   * Reads a tank: (id, owner, capacity).
+   */
+  async getTankOnChain(tankId: number): Promise<TankOnChain> {
+    const [id, owner, capacity] = await this.call('tank', 'get_tank', [toFelt(tankId)]);
+    return { id: fromFelt(id), owner: this.toAddress(owner), capacity: fromFelt(capacity) };
+  }
+
+  /**
+   * Reads the XP bonus of a tank's active decorations, in percent.
+   */
+  async getXpMultiplier(tankId: number): Promise<number> {
+    const [bonusPercent] = await this.call('tank', 'get_xp_multiplier', [toFelt(tankId)]);
+    return 1 + fromFelt(bonusPercent) / 100;
+  }
+
+  // ============================================================================
+  // DECORATION FUNCTIONS
+  // ============================================================================
+
+  async mintDecoration(address: string, kind: DecorationKind): Promise<MintDecorationResult> {
+    const txHash = await this.invoke('decoration', 'mint_decoration', [
+      address,
+      enumIndex(Object.values(DecorationKind), kind),
+    ]);
+    const decorationId = await this.waitForMintedId(txHash, 'decoration', 'DecorationMinted');
+
+    logInfo(`Decoration minted: owner=${address}, decoration_id=${decorationId}, tx: ${txHash}`);
+    return { tx_hash: txHash, decoration_id: decorationId };
+  }
+
+  async activateDecoration(id: number): Promise<string> {
+    return this.invoke('decoration', 'activate_decoration', [toFelt(id)]);
+  }
+
+  async deactivateDecoration(id: number): Promise<string> {
+    return this.invoke('decoration', 'deactivate_decoration', [toFelt(id)]);
+  }
+
+  async transferDecoration(decorationId: number, from: string, to: string): Promise<string> {
+    return this.invoke('decoration', 'transfer_decoration', [toFelt(decorationId), from, to]);
+  }
+
+  /**
+   * Reads a decoration: (id, owner, kind, xp bonus in percent).
+   */
+  async getDecorationOnChain(decorationId: number): Promise<DecorationOnChain> {
+    const [id, owner, kind, bonusPercent] = await this.call('decoration', 'get_decoration', [
+      toFelt(decorationId),
+    ]);
+
+    return {
+      id: fromFelt(id),
+      owner: this.toAddress(owner),
+      kind: enumValue(Object.values(DecorationKind), kind, 'DecorationKind'),
+      xp_multiplier: 1 + fromFelt(bonusPercent) / 100,
+    };
+  }
+
+  // ============================================================================
+  // TRANSACTION FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Looks up the receipt of a transaction and normalizes its status.
+   *
+   * Handles both receipt formats returned by Starknet nodes:
+   * - Legacy `status` (RECEIVED, PENDING, ACCEPTED_ON_L2, ACCEPTED_ON_L1, REJECTED)
+   * - RPC 0.4+ `finality_status` + `execution_status` (SUCCEEDED, REVERTED)
+   */
+  async getTransactionReceipt(txHash: string): Promise<TransactionReceipt> {
+    return (await this.fetchReceipt(txHash)).receipt;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private getSystemAddress(system: keyof DojoSystemAddresses): string {
+    const address = this.systems[system];
+    if (!address) {
+      throw new OnChainError(`Dojo ${system} system address is not configured`);
+    }
+    return address;
+  }
+
+  /**
+   * Signs and submits a call to a system, returning the transaction hash.
+   */
+  private async invoke(system: keyof DojoSystemAddresses, entrypoint: string, calldata: string[]): Promise<string> {
+    logDebug(`Invoking ${system}.${entrypoint} with [${calldata.join(', ')}]`);
+
+    const { transaction_hash } = await this.account.execute({
+      contractAddress: this.getSystemAddress(system),
+      entrypoint,
+      calldata,
+    });
+    return transaction_hash;
+  }
+
+  /**
+   * Calls a system view and returns the raw result felts.
+   */
+  private async call(system: keyof DojoSystemAddresses, entrypoint: string, calldata: string[]): Promise<string[]> {
+    const { result } = await this.provider.callContract({
+      contractAddress: this.getSystemAddress(system),
+      entrypoint,
+      calldata,
+    });
+    return result;
+  }
+
+  private toAddress(felt: string | undefined): string {
+    return addAddressPadding(felt ?? '0x0').toLowerCase();
+  }
+
+  private async fetchReceipt(txHash: string): Promise<{ receipt: TransactionReceipt; raw: RawReceipt | null }> {
+    let raw: RawReceipt;
+    try {
+      raw = (await this.provider.getTransactionReceipt(txHash)) as unknown as RawReceipt;
+    } catch (error) {
+      // Nodes answer TXN_HASH_NOT_FOUND for transactions they have not seen (yet)
+      const message = error instanceof Error ? error.message : String(error);
+      if (/not found/i.test(message)) {
+        return { receipt: { tx_hash: txHash, status: 'not_found' }, raw: null };
+      }
+      throw error;
+    }
+
+    const executionStatus = raw.execution_status as string | undefined;
+    const finalityStatus = (raw.finality_status ?? raw.status) as string | undefined;
+    const revertReason = (raw.revert_reason ?? raw.status_data) as string | undefined;
+
+    if (executionStatus === 'REVERTED' || finalityStatus === 'REJECTED') {
+      return {
+        receipt: {
+          tx_hash: txHash,
+          status: 'rejected',
+          ...(revertReason ? { revert_reason: revertReason } : {}),
+        },
+        raw,
+      };
+    }
+
+    if (finalityStatus === 'ACCEPTED_ON_L2' || finalityStatus === 'ACCEPTED_ON_L1') {
+      return { receipt: { tx_hash: txHash, status: 'accepted' }, raw };
+    }
+
+    if (finalityStatus === 'NOT_RECEIVED') {
+      return { receipt: { tx_hash: txHash, status: 'not_found' }, raw };
+    }
+
+    return { receipt: { tx_hash: txHash, status: 'pending' }, raw };
+  }
+
+  /**
+   * Waits for a mint transaction to be accepted and reads the new entity ID
+   * from the event the system emitted.
+   *
+   * @throws {OnChainError} If the transaction is rejected, never accepted or emits no such event
+   */
+  private async waitForMintedId(
+    txHash: string,
+    system: keyof DojoSystemAddresses,
+    eventName: string
+  ): Promise<number> {
+    for (let attempt = 0; attempt < this.maxPollAttempts; attempt++) {
+      const { receipt, raw } = await this.fetchReceipt(txHash);
+
+      if (receipt.status === 'rejected') {
+        throw new OnChainError(
+          `Transaction ${txHash} was rejected${receipt.revert_reason ? `: ${receipt.revert_reason}` : ''}`,
+          txHash
+        );
+      }
+
+      if (receipt.status === 'accepted' && raw) {
+        const selector = BigInt(hash.getSelectorFromName(eventName));
+        const systemAddress = BigInt(this.getSystemAddress(system));
+        const event = ((raw.events ?? []) as RawEvent[]).find(
+          (candidate) =>
+            candidate.keys?.[0] !== undefined &&
+            BigInt(candidate.keys[0]) === selector &&
+            (!candidate.from_address || BigInt(candidate.from_address) === systemAddress)
+        );
+
+        if (!event?.keys?.[1]) {
+          throw new OnChainError(`Transaction ${txHash} emitted no ${eventName} event`, txHash);
+        }
+        return fromFelt(event.keys[1]);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new OnChainError(`Transaction ${txHash} was not accepted in time`, txHash);
+  }
+}
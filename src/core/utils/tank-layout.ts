@@ -0,0 +1,179 @@
+/**
+ * Geometry rules for tank layouts.
+ *
+ * Every tank is a 2D scene whose size depends on its capacity tier:
+ *
+ * | Tier   | Capacity | Size (layout units) |
+ * |--------|----------|---------------------|
+ * | Small  | 1-10     | 1280 x 720          |
+ * | Medium | 11-25    | 1600 x 900          |
+ * | Large  | 26-50    | 1920 x 1080         |
+ *
+ * Decorations are positioned by their center and occupy a footprint that
+ * depends on their kind, scaled by `scale` and rotated by `rotation`.
+ * Backgrounds fill the whole tank and are never positioned.
+ *
+ * A layout is valid when every decoration's (rotated) bounding box stays inside
+ * the tank and does not overlap another decoration on the same z-layer.
+ */
+
+import { DecorationKind, type DecorationTransform } from '@/models/decoration.model';
+import { TankTier, type SpawnZone } from '@/models/tank.model';
+
+export const MIN_DECORATION_SCALE = 0.5;
+export const MAX_DECORATION_SCALE = 2;
+export const MAX_Z_LAYER = 9;
+export const MAX_SPAWN_ZONES = 5;
+
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Axis-aligned box in layout units.
+ */
+export interface LayoutBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Upper capacity bound of each tier, smallest first.
+ */
+const TIER_MAX_CAPACITY: [TankTier, number][] = [
+  [TankTier.Small, 10],
+  [TankTier.Medium, 25],
+];
+
+export const TANK_TIER_SIZES: Record<TankTier, LayoutSize> = {
+  [TankTier.Small]: { width: 1280, height: 720 },
+  [TankTier.Medium]: { width: 1600, height: 900 },
+  [TankTier.Large]: { width: 1920, height: 1080 },
+};
+
+/**
+ * Unscaled footprint of each decoration kind (null for kinds that are not positioned).
+ */
+export const DECORATION_FOOTPRINTS: Record<DecorationKind, LayoutSize | null> = {
+  [DecorationKind.Plant]: { width: 120, height: 200 },
+  [DecorationKind.Statue]: { width: 160, height: 220 },
+  [DecorationKind.Ornament]: { width: 80, height: 80 },
+  [DecorationKind.Background]: null,
+};
+
+/**
+ * Gets the layout tier of a tank from its capacity.
+ */
+export function getTankTier(capacity: number): TankTier {
+  for (const [tier, maxCapacity] of TIER_MAX_CAPACITY) {
+    if (capacity <= maxCapacity) {
+      return tier;
+    }
+  }
+  return TankTier.Large;
+}
+
+/**
+ * Bounding box of a positioned decoration, taking scale and rotation into account.
+ *
+ * @param footprint Unscaled footprint of the decoration kind
+ * @param transform Position, rotation and scale of the decoration
+ */
+export function getDecorationBounds(footprint: LayoutSize, transform: DecorationTransform): LayoutBox {
+  const radians = (transform.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const width = footprint.width * transform.scale;
+  const height = footprint.height * transform.scale;
+
+  const halfWidth = (width * cos + height * sin) / 2;
+  const halfHeight = (width * sin + height * cos) / 2;
+
+  return {
+    left: transform.x - halfWidth,
+    top: transform.y - halfHeight,
+    right: transform.x + halfWidth,
+    bottom: transform.y + halfHeight,
+  };
+}
+
+/**
+ * Box covered by a spawn zone.
+ */
+export function getSpawnZoneBounds(zone: SpawnZone): LayoutBox {
+  return {
+    left: zone.x,
+    top: zone.y,
+    right: zone.x + zone.width,
+    bottom: zone.y + zone.height,
+  };
+}
+
+/**
+ * Whether two boxes overlap. Boxes that only touch along an edge do not overlap.
+ */
+export function boxesOverlap(a: LayoutBox, b: LayoutBox): boolean {
+  return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+/**
+ * Whether a box lies completely inside a tank of the given size.
+ */
+export function isBoxInside(box: LayoutBox, size: LayoutSize): boolean {
+  return box.left >= 0 && box.top >= 0 && box.right <= size.width && box.bottom <= size.height;
+}
+
+/**
+ * Whether a layout value is a finite number (rejects NaN, Infinity and non-numbers).
+ */
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Transform columns of a decorations row.
+ */
+export interface DecorationTransformRow {
+  position_x?: number | null;
+  position_y?: number | null;
+  rotation?: number | null;
+  scale?: number | null;
+  z_layer?: number | null;
+}
+
+/**
+ * Columns that clear a decoration's transform (used whenever it leaves its tank).
+ */
+export const CLEARED_DECORATION_TRANSFORM = {
+  position_x: null,
+  position_y: null,
+  rotation: null,
+  scale: null,
+  z_layer: null,
+};
+
+/**
+ * Builds a decoration transform from its row (null if the decoration is not positioned).
+ */
+export function decorationTransformFromRow(row: DecorationTransformRow): DecorationTransform | null {
+  if (
+    row.position_x === null || row.position_x === undefined ||
+    row.position_y === null || row.position_y === undefined ||
+    row.rotation === null || row.rotation === undefined ||
+    row.scale === null || row.scale === undefined ||
+    row.z_layer === null || row.z_layer === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    x: row.position_x,
+    y: row.position_y,
+    rotation: row.rotation,
+    scale: row.scale,
+    z_layer: row.z_layer,
+  };
+}
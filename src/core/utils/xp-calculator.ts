@@ -15,6 +15,7 @@
 
 import { FishState } from '@/models/fish.model';
 import { DecorationKind } from '@/models/decoration.model';
+import { FoodType } from '@/models/food.model';
 import { ValidationError, NotFoundError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError } from '@/core/utils/logger';
@@ -23,16 +24,8 @@ export const BABY_MAX_XP = 50;
 export const JUVENILE_MAX_XP = 150;
 export const YOUNG_ADULT_MAX_XP = 350;
 
-/**
- * Types of food that can be given to fish.
- * This enum can be extended in the future to support different food types.
- */
-export enum FoodType {
-  Basic = 'Basic',
-  // Future food types can be added here:
-  // Premium = 'Premium',
-  // Special = 'Special',
-}
+// Food types live in the food model; re-exported here for XP callers
+export { FoodType };
 
 /**
  * Default XP base value when feeding a fish.
@@ -45,16 +38,16 @@ export const DEFAULT_FEED_BASE_XP = 10;
  * 
  * This mapping allows different food types to grant different base XP amounts.
  * To add a new food type:
- * 1. Add it to the FoodType enum
+ * 1. Add it to the FoodType enum (models/food.model.ts)
  * 2. Add an entry here with the desired XP value
+ * 3. Add its hunger effect and catalog entry (see core/utils/food-catalog.ts)
  * 
  * Values represent base XP before multipliers are applied.
  */
 export const FOOD_TYPE_BASE_XP: Record<FoodType, number> = {
   [FoodType.Basic]: DEFAULT_FEED_BASE_XP,
-  // Future food types:
-  // [FoodType.Premium]: 20,
-  // [FoodType.Special]: 30,
+  [FoodType.Premium]: 20,
+  [FoodType.Special]: 30,
 };
 
 /**
@@ -130,9 +123,12 @@ export function determineFishState(xp: number): FishState {
  * Calculates the total XP multiplier from active decorations for a tank.
  *
  * Expected responsibilities:
- * - Read decorations associated to tankId.
+ * - Read decorations placed in tankId (decorations.tank_id).
  * - Filter only active decorations.
  * - Sum their percentages (10 + 5 = 15) and return 0.15.
+ *
+ * Decorations the owner keeps in other tanks, or has not placed at all,
+ * do not count.
  */
 export async function getActiveDecorationsMultiplier(
   tankId: number,
@@ -145,10 +141,10 @@ export async function getActiveDecorationsMultiplier(
   try {
     const supabase = getSupabaseClient();
 
-    // 1. Resolve tank owner from tank ID (off-chain)
+    // 1. Verify the tank exists (off-chain)
     const { data: tankRow, error: tankError } = await supabase
       .from('tanks')
-      .select('owner')
+      .select('id')
       .eq('id', tankId)
       .single();
 
@@ -159,17 +155,15 @@ export async function getActiveDecorationsMultiplier(
       throw new Error(`Database error when reading tank: ${tankError.message}`);
     }
 
-    if (!tankRow?.owner) {
+    if (!tankRow) {
       throw new NotFoundError(`Tank with ID ${tankId} not found`);
     }
 
-    const owner: string = tankRow.owner;
-
-    // 2. Get active decorations for this owner
+    // 2. Get active decorations placed in this tank
     const { data: decorations, error: decorationsError } = await supabase
       .from('decorations')
-      .select('kind, is_active, owner')
-      .eq('owner', owner)
+      .select('kind, is_active, tank_id')
+      .eq('tank_id', tankId)
       .eq('is_active', true);
 
     if (decorationsError) {
@@ -186,7 +180,7 @@ export async function getActiveDecorationsMultiplier(
     type DecorationRow = {
       kind: string;
       is_active: boolean;
-      owner: string;
+      tank_id: number;
     };
 
     const totalPercentage = (decorations as DecorationRow[]).reduce(
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Auth Model
+ *
+ * Represents the challenge/response login flow.
+ * A player requests a nonce, signs the returned Starknet typed data with
+ * their account, and exchanges the signature for a session token.
+ */
+
+import type { TypedData } from 'starknet';
+import type { Player } from './player.model';
+
+// Off-chain fields (from Supabase)
+export interface AuthNonce {
+  nonce: string;
+  address: string;
+  issued_at: Date;
+  expires_at: Date;
+  consumed_at: Date | null;
+}
+
+/**
+ * Challenge returned by POST /auth/nonce.
+ * `typed_data` is the exact payload the client must sign.
+ */
+export interface AuthChallenge {
+  address: string;
+  nonce: string;
+  typed_data: TypedData;
+  expires_at: Date;
+}
+
+/**
+ * DTO for requesting a login challenge.
+ * Used in POST /auth/nonce endpoint.
+ */
+export interface RequestNonceDto {
+  address: string;
+}
+
+/**
+ * DTO for exchanging a signed challenge for a session.
+ * Used in POST /auth/login endpoint.
+ */
+export interface LoginDto {
+  address: string;
+  nonce: string;
+  signature: string[];
+}
+
+/**
+ * Result of a successful login.
+ */
+export interface LoginResult {
+  player: Player;
+  token: string;
+  expires_at: Date;
+}
@@ -14,6 +14,19 @@ export enum DecorationKind {
   Ornament = 'Ornament',
 }
 
+/**
+ * Where a placed decoration sits in its tank's layout.
+ * x/y are the decoration's center in layout units (origin at the top-left corner
+ * of the tank), rotation is in degrees and z_layer orders rendering (higher is in front).
+ */
+export interface DecorationTransform {
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+  z_layer: number;
+}
+
 // On-chain fields (from Dojo/Starknet)
 export interface DecorationOnChain {
   id: number;
@@ -28,6 +41,8 @@ export interface DecorationOffChain {
   owner: string;
   kind: DecorationKind;
   is_active: boolean;
+  tankId: number | null; // Tank the decoration is placed in (null if not placed)
+  transform: DecorationTransform | null; // Position in the tank layout (null until the layout positions it)
   imageUrl?: string;
   sprite_url?: string | null; // URL to sprite/asset for the decoration, always included (null if not set)
   createdAt: Date;
@@ -54,3 +69,20 @@ export interface ToggleDecorationDto {
   decoration_id: number;
   is_active: boolean;
 }
+
+/**
+ * DTO for placing a decoration in a tank.
+ * Used in POST /decoration/:id/place endpoint.
+ */
+export interface PlaceDecorationDto {
+  tank_id: number;
+}
+
+/**
+ * DTO for buying (minting) a new decoration.
+ * Used in POST /decoration endpoint.
+ * The owner is the authenticated player, never a body field.
+ */
+export interface MintDecorationDto {
+  kind: DecorationKind;
+}
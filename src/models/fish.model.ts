@@ -1,3 +1,5 @@
+import type { FoodType } from './food.model';
+
 export enum FishState {
   Baby = 'Baby',
   Juvenile = 'Juvenile',
@@ -5,12 +7,62 @@ export enum FishState {
   Adult = 'Adult',
 }
 
+// Visible traits decoded from a fish's DNA (see core/utils/fish-traits.ts).
+// Variants are listed from most dominant to most recessive.
+export enum FishColor {
+  Orange = 'Orange',
+  Gold = 'Gold',
+  Red = 'Red',
+  Blue = 'Blue',
+  Green = 'Green',
+  Purple = 'Purple',
+  Black = 'Black',
+  White = 'White',
+}
+
+export enum FishPattern {
+  Solid = 'Solid',
+  Striped = 'Striped',
+  Spotted = 'Spotted',
+  Marbled = 'Marbled',
+}
+
+export enum FishFinShape {
+  Round = 'Round',
+  Fan = 'Fan',
+  Forked = 'Forked',
+  Veil = 'Veil',
+}
+
+export enum FishSize {
+  Medium = 'Medium',
+  Small = 'Small',
+  Large = 'Large',
+  Giant = 'Giant',
+}
+
+export enum FishRarity {
+  Common = 'Common',
+  Rare = 'Rare',
+  Epic = 'Epic',
+  Legendary = 'Legendary',
+}
+
+export interface FishTraits {
+  color: FishColor;
+  pattern: FishPattern;
+  finShape: FishFinShape;
+  size: FishSize;
+  rarity: FishRarity;
+}
+
 // On-chain fields (from Dojo/Starknet)
 export interface FishOnChain {
   id: number;
   xp: number;
   state: FishState | string;
-  hunger: number;
+  hunger: number; // 0 (just fed) - 100 (starving), computed at read time
+  lastFedAt: Date | null; // null if the fish was never fed
   isReadyToBreed: boolean;
   dna: string;
 }
@@ -28,6 +80,8 @@ export interface FishOffChain {
 
 export interface Fish extends FishOnChain, Omit<FishOffChain, 'id'> {
   id: number;
+  secondsUntilHungry: number | null; // 0 if already hungry, null if hunger never rises
+  traits: FishTraits; // Decoded from dna
 }
 
 /**
@@ -55,18 +109,95 @@ export interface UpdateFishDto {
 /**
  * DTO for feeding multiple fish in a batch operation.
  * Used in POST /fish/feed endpoint.
+ * The owner is the authenticated player, never a body field.
  */
 export interface FeedFishBatchDto {
   fish_ids: number[];
+  food_type?: FoodType; // Defaults to FoodType.Basic
+}
+
+/**
+ * A single fish feed recorded in the feed_events table.
+ * Returned by GET /fish/:id/feedings (newest first).
+ */
+export interface FeedEvent {
+  id: number;
+  fish_id: number;
   owner: string;
+  food_type: string;
+  xp_granted: number;
+  multiplier: number; // Decoration XP bonus as a percentage (15 = +15%)
+  tx_hash: string | null;
+  created_at: Date;
 }
 
 /**
  * DTO for breeding two fish together.
  * Used in POST /fish/breed endpoint.
+ * The owner is the authenticated player, never a body field.
  */
 export interface BreedFishDto {
   fish1_id: number;
   fish2_id: number;
-  owner: string;
-}
\ No newline at end of file
+}
+
+/**
+ * DTO for moving a single fish to another tank.
+ * Used in POST /fish/:id/move endpoint.
+ */
+export interface MoveFishDto {
+  tank_id: number;
+}
+
+/**
+ * A single fish-to-tank assignment within a batch move.
+ */
+export interface FishMove {
+  fish_id: number;
+  tank_id: number;
+}
+
+/**
+ * DTO for moving several fish between tanks in one atomic operation.
+ * Used in POST /fish/move endpoint.
+ * The owner is the authenticated player, never a body field.
+ */
+export interface MoveFishBatchDto {
+  moves: FishMove[];
+}
+
+/**
+ * Outcome of a fish move (from_tank_id is null if the fish had no tank).
+ */
+export interface FishMoveResult {
+  fish_id: number;
+  from_tank_id: number | null;
+  to_tank_id: number;
+}
+/**
+ * DTO for gifting a fish to another registered player.
+ * Used in POST /fish/:id/transfer endpoint.
+ * The sender is the authenticated player, never a body field.
+ */
+export interface TransferFishDto {
+  to: string;
+}
+
+/**
+ * Kinship between two fish, computed from their pedigrees.
+ * Returned by GET /fish/:id/kinship/:otherId.
+ * 
+ * - relationship_coefficient: share of genes the two fish have in common by
+ *   descent (1 for the same fish, 0.5 parent/offspring and full siblings,
+ *   0.25 half siblings, 0.125 first cousins, 0 unrelated)
+ * - inbreeding_coefficient: inbreeding of an offspring of the pair
+ * - can_breed: whether the pair is within MAX_BREEDING_RELATIONSHIP
+ */
+export interface FishKinship {
+  fish_id: number;
+  other_fish_id: number;
+  relationship_coefficient: number;
+  inbreeding_coefficient: number;
+  common_ancestor_ids: number[];
+  can_breed: boolean;
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Food Model
+ *
+ * Represents the food items players can give to their fish.
+ * Each food type grants a different amount of XP and satisfies a different
+ * amount of hunger. Basic food is unlimited; other food types are consumed
+ * from the player's inventory (player_food_inventory table).
+ */
+
+// Food types available in the game
+export enum FoodType {
+  Basic = 'Basic',
+  Premium = 'Premium',
+  Special = 'Special',
+}
+
+/**
+ * Catalog entry describing the effects of a food type.
+ */
+export interface FoodItem {
+  type: FoodType;
+  name: string;
+  base_xp: number; // XP granted per fish, before decoration multipliers
+  hunger_reduction: number; // Hunger points removed per fish (0-100 scale)
+  unlimited: boolean; // true if the food is not tracked in the inventory
+  price: number | null; // Coins per item in the shop (null for unlimited food, which isn't sold)
+}
+
+/**
+ * A single row of the player_food_inventory table.
+ */
+export interface PlayerFoodStock {
+  player_address: string;
+  food_type: FoodType;
+  quantity: number;
+  updated_at: Date;
+}
+
+/**
+ * Inventory entry combining a catalog item with the player's stock.
+ * quantity is null for unlimited food types.
+ */
+export interface InventoryItem extends FoodItem {
+  quantity: number | null;
+}
+
+/**
+ * Food inventory of a player, one entry per food type in the catalog.
+ * Used in GET /player/:address/inventory endpoint.
+ */
+export interface PlayerInventory {
+  address: string;
+  food: InventoryItem[];
+}
+
+/**
+ * DTO for buying food with coins.
+ * Used in POST /player/inventory/purchase endpoint.
+ * The buyer is the authenticated player, never a body field.
+ */
+export interface PurchaseFoodDto {
+  food_type: FoodType;
+  quantity: number;
+}
@@ -13,18 +13,68 @@ export type {
   FishSummary,
   CreateFishDto,
   UpdateFishDto,
+  FeedEvent,
+  FishMove,
+  FishMoveResult,
+  FishKinship,
+  FishTraits,
 } from './fish.model';
+export { FishColor, FishPattern, FishFinShape, FishSize, FishRarity } from './fish.model';
 
 export type {
   Tank,
   CreateTankDto,
   UpdateTankDto,
+  MintTankDto,
+  RenameTankDto,
+  SpawnZone,
+  TankLayoutDecoration,
+  TankLayout,
+  UpdateTankLayoutDto,
 } from './tank.model';
+export { TankTier } from './tank.model';
 
 export type {
   Decoration,
   CreateDecorationDto,
   UpdateDecorationDto,
   ToggleDecorationDto,
+  PlaceDecorationDto,
+  DecorationTransform,
+  MintDecorationDto,
 } from './decoration.model';
 export { DecorationKind } from './decoration.model';
+
+export type {
+  FoodItem,
+  PlayerFoodStock,
+  InventoryItem,
+  PlayerInventory,
+} from './food.model';
+export { FoodType } from './food.model';
+
+export type {
+  AuthNonce,
+  AuthChallenge,
+  RequestNonceDto,
+  LoginDto,
+  LoginResult,
+} from './auth.model';
+
+export type {
+  LedgerTransactionType,
+  LedgerMovement,
+  LedgerEntry,
+  PlayerBalance,
+  LedgerHistoryPage,
+  TournamentRewardDto,
+} from './ledger.model';
+
+export type {
+  ListingAssetType,
+  ListingStatus,
+  Listing,
+  CreateListingDto,
+  ListingFilters,
+  ListingPage,
+} from './marketplace.model';
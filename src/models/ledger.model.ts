@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Ledger Model
+ *
+ * Represents the in-game coin economy as a double-entry ledger.
+ * Every movement of coins is a transaction with two entries that sum to zero:
+ * one debiting an account and one crediting another. Accounts are player
+ * addresses or system accounts (rewards pool, shop) identified by a 'system:' code.
+ */
+
+/**
+ * What produced a ledger transaction.
+ */
+export type LedgerTransactionType =
+  | 'starting_grant'
+  | 'feed_reward'
+  | 'breed_reward'
+  | 'tournament_reward'
+  | 'decoration_purchase'
+  | 'decoration_refund'
+  | 'food_purchase'
+  | 'food_refund'
+  | 'marketplace_purchase'
+  | 'marketplace_refund'
+  | 'marketplace_payout';
+
+/**
+ * Describes a coin movement being posted.
+ * A second post with the same idempotencyKey is ignored, so callers can retry safely.
+ */
+export interface LedgerMovement {
+  type: LedgerTransactionType;
+  idempotencyKey: string;
+  description?: string;
+}
+
+/**
+ * A ledger entry as seen from one account (a row of the transaction history).
+ * amount is positive for coins received and negative for coins spent.
+ */
+export interface LedgerEntry {
+  transaction_id: number;
+  idempotency_key: string;
+  type: LedgerTransactionType;
+  description: string | null;
+  amount: number;
+  balance_after: number;
+  created_at: Date;
+}
+
+/**
+ * Coin balance of a player.
+ * Used in GET /player/:address/balance endpoint.
+ */
+export interface PlayerBalance {
+  address: string;
+  balance: number;
+}
+
+/**
+ * A page of a player's ledger entries, newest first.
+ * Used in GET /player/:address/transactions endpoint.
+ */
+export interface LedgerHistoryPage {
+  address: string;
+  entries: LedgerEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * DTO for crediting a tournament win.
+ * Used in POST /player/:address/rewards/tournament endpoint (admin only).
+ */
+export interface TournamentRewardDto {
+  tournament_id: string;
+}
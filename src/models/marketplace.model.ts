@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Marketplace Model
+ *
+ * Represents player-to-player sales of fish and decorations.
+ * A seller lists an asset they own for a price in coins; another player buys it,
+ * which moves the coins through the currency ledger and the asset's ownership
+ * both in Supabase and on-chain. Each asset can have at most one active listing.
+ */
+
+/**
+ * Kind of asset a listing sells.
+ */
+export type ListingAssetType = 'fish' | 'decoration';
+
+/**
+ * Lifecycle of a listing: active until it is bought (sold) or withdrawn (cancelled).
+ * A listing is reserved for its buyer while a purchase is in progress.
+ */
+export type ListingStatus = 'active' | 'reserved' | 'sold' | 'cancelled';
+
+/**
+ * A marketplace listing from the marketplace_listings table.
+ */
+export interface Listing {
+  id: number;
+  seller: string;
+  asset_type: ListingAssetType;
+  asset_id: number;
+  price: number;
+  status: ListingStatus;
+  buyer: string | null; // Set when the listing is reserved or sold
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null; // When the listing was sold or cancelled
+}
+
+/**
+ * DTO for listing an asset for sale.
+ * Used in POST /marketplace/listings endpoint.
+ * The seller is the authenticated player, never a body field.
+ */
+export interface CreateListingDto {
+  asset_type: ListingAssetType;
+  asset_id: number;
+  price: number;
+}
+
+/**
+ * Filters and pagination for browsing listings.
+ * Used in GET /marketplace/listings endpoint (status defaults to 'active').
+ */
+export interface ListingFilters {
+  asset_type?: ListingAssetType;
+  seller?: string;
+  status?: ListingStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A page of listings, newest first.
+ */
+export interface ListingPage {
+  items: Listing[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -5,6 +5,8 @@
  * Split into on-chain (Dojo/Starknet) and off-chain (Supabase) fields.
  */
 
+import type { DecorationKind, DecorationTransform } from './decoration.model';
+
 // On-chain fields (from Dojo/Starknet)
 export interface TankOnChain {
   id: number;
@@ -35,3 +37,87 @@ export interface UpdateTankDto {
   capacity?: number;
   name?: string;
 }
+
+/**
+ * DTO for minting an additional tank.
+ * Used in POST /tank endpoint.
+ * The owner is the authenticated player, never a body field.
+ */
+export interface MintTankDto {
+  name?: string;
+}
+
+/**
+ * DTO for renaming a tank.
+ * Used in PATCH /tank/:id endpoint.
+ */
+export interface RenameTankDto {
+  name: string;
+}
+
+// Layout size tiers, derived from the tank's on-chain capacity
+export enum TankTier {
+  Small = 'Small',
+  Medium = 'Medium',
+  Large = 'Large',
+}
+
+/**
+ * Rectangular area where fish may spawn, in layout units.
+ */
+export interface SpawnZone {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+}
+
+/**
+ * A decoration placed in the tank, as it appears in the layout document.
+ */
+export interface TankLayoutDecoration {
+  decoration_id: number;
+  kind: DecorationKind;
+  sprite_url: string | null;
+  transform: DecorationTransform | null; // null if placed but not positioned yet
+}
+
+/**
+ * The whole scene of a tank as rendered by the client.
+ * Used in GET /tank/:id/layout and returned by PUT /tank/:id/layout.
+ *
+ * version starts at 0 (never saved) and increases by one on every save.
+ */
+export interface TankLayout {
+  tank_id: number;
+  version: number;
+  tier: TankTier;
+  width: number;
+  height: number;
+  background: {
+    decoration_id: number | null;
+    sprite_url: string | null;
+  };
+  decorations: TankLayoutDecoration[];
+  spawn_zones: SpawnZone[];
+  updated_at: Date | null;
+}
+
+/**
+ * DTO for saving a tank layout.
+ * Used in PUT /tank/:id/layout endpoint.
+ *
+ * version must match the stored version (optimistic concurrency).
+ * Decorations placed in the tank but missing from the list lose their position.
+ */
+export interface UpdateTankLayoutDto {
+  version: number;
+  background: {
+    decoration_id: number | null;
+  };
+  decorations: {
+    decoration_id: number;
+    transform: DecorationTransform;
+  }[];
+  spawn_zones: SpawnZone[];
+}
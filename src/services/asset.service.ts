@@ -68,11 +68,12 @@ export class AssetService {
    * 
    * @param file - File object containing buffer and metadata
    * @param fishId - ID of the fish to associate the asset with
+   * @param owner - Authenticated player address (must own the fish)
    * @returns Public URL of the uploaded asset
-   * @throws {ValidationError} If file is invalid
+   * @throws {ValidationError} If file is invalid or the asset belongs to another player
    * @throws {NotFoundError} If fish doesn't exist
    */
-  async uploadFishSprite(file: UploadFile, fishId: number): Promise<string> {
+  async uploadFishSprite(file: UploadFile, fishId: number, owner: string): Promise<string> {
     // 1. Validate inputs
     if (!file || !file.file) {
       throw new ValidationError('No file provided');
@@ -120,6 +121,10 @@ export class AssetService {
       throw new NotFoundError(`Fish with ID ${fishId} not found`);
     }
 
+    if (fish.owner !== owner) {
+      throw new ValidationError(`Fish with ID ${fishId} does not belong to owner ${owner}`);
+    }
+
     // 3. Prepare file for upload
     // Generate unique filename to avoid collisions: fish-{id}-{uuid}.{ext}
     const uuid = crypto.randomUUID();
@@ -171,11 +176,12 @@ export class AssetService {
    * 
    * @param file - File object containing buffer and metadata
    * @param tankId - ID of the tank to associate the asset with
+   * @param owner - Authenticated player address (must own the tank)
    * @returns Public URL of the uploaded asset
-   * @throws {ValidationError} If file is invalid
+   * @throws {ValidationError} If file is invalid or the asset belongs to another player
    * @throws {NotFoundError} If tank doesn't exist
    */
-  async uploadTankSprite(file: UploadFile, tankId: number): Promise<string> {
+  async uploadTankSprite(file: UploadFile, tankId: number, owner: string): Promise<string> {
     // 1. Validate inputs
     if (!file || !file.file) {
       throw new ValidationError('No file provided');
@@ -218,6 +224,10 @@ export class AssetService {
       throw new NotFoundError(`Tank with ID ${tankId} not found`);
     }
 
+    if (tank.owner !== owner) {
+      throw new ValidationError(`Tank with ID ${tankId} does not belong to owner ${owner}`);
+    }
+
     // 3. Prepare file for upload
     // Filename format: tank-{tankId}.{ext}
     const storageFilename = `tank-${tankId}${extension}`;
@@ -268,11 +278,12 @@ export class AssetService {
    * 
    * @param file - File object containing buffer and metadata
    * @param decorationId - ID of the decoration to associate the asset with
+   * @param owner - Authenticated player address (must own the decoration)
    * @returns Public URL of the uploaded asset
-   * @throws {ValidationError} If file is invalid
+   * @throws {ValidationError} If file is invalid or the asset belongs to another player
    * @throws {NotFoundError} If decoration doesn't exist
    */
-  async uploadDecorationSprite(file: UploadFile, decorationId: number): Promise<string> {
+  async uploadDecorationSprite(file: UploadFile, decorationId: number, owner: string): Promise<string> {
     // 1. Validate inputs
     if (!file || !file.file) {
       throw new ValidationError('No file provided');
@@ -315,6 +326,10 @@ export class AssetService {
       throw new NotFoundError(`Decoration with ID ${decorationId} not found`);
     }
 
+    if (decoration.owner !== owner) {
+      throw new ValidationError(`Decoration with ID ${decorationId} does not belong to owner ${owner}`);
+    }
+
     // 3. Prepare file for upload
     // Filename format: decoration-{decorationId}.{ext}
     const storageFilename = `decoration-${decorationId}${extension}`;
@@ -365,11 +380,12 @@ export class AssetService {
    * 
    * @param file - File object containing buffer and metadata
    * @param playerAddress - Starknet address of the player
+   * @param owner - Authenticated player address (must match playerAddress)
    * @returns Public URL of the uploaded avatar
-   * @throws {ValidationError} If file is invalid
+   * @throws {ValidationError} If file is invalid or the asset belongs to another player
    * @throws {NotFoundError} If player doesn't exist
    */
-  async uploadAvatar(file: UploadFile, playerAddress: string): Promise<string> {
+  async uploadAvatar(file: UploadFile, playerAddress: string, owner: string): Promise<string> {
     // 1. Validate inputs
     if (!file || !file.file) {
       throw new ValidationError('No file provided');
@@ -379,6 +395,10 @@ export class AssetService {
       throw new ValidationError('Invalid player address');
     }
 
+    if (playerAddress.trim() !== owner) {
+      throw new ValidationError(`Player ${playerAddress.trim()} does not match authenticated player ${owner}`);
+    }
+
     // Validate file size
     if (file.file.length > MAX_FILE_SIZE) {
       throw new ValidationError(`File size exceeds limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`);
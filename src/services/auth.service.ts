@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Auth Service
+ *
+ * Handles the signed-message login flow: issuing single-use nonces,
+ * verifying Starknet typed-data signatures and issuing session tokens.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import { randomBytes } from 'crypto';
+import type { TypedData } from 'starknet';
+import { ValidationError, UnauthorizedError } from '@/core/errors';
+import { AUTH_NONCE_TTL_SECONDS, STARKNET_CHAIN_ID } from '@/core/config';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { getSignatureVerifier } from '@/core/utils/signature-verifier';
+import { issueSessionToken } from '@/core/utils/session-token';
+import { logError } from '@/core/utils/logger';
+import { PlayerService } from '@/services/player.service';
+import type { AuthChallenge, LoginResult } from '@/models/auth.model';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOGIN_DOMAIN_NAME = 'Aqua Stark';
+const LOGIN_DOMAIN_VERSION = '1';
+
+// ============================================================================
+// AUTH SERVICE
+// ============================================================================
+
+/**
+ * Service for authenticating players by signed message.
+ *
+ * Handles:
+ * - Nonce issuance (one per login attempt, short-lived, single-use)
+ * - Signature verification against the player's account contract
+ * - Player registration and session token issuance on success
+ */
+export class AuthService {
+  private playerService = new PlayerService();
+
+  // ============================================================================
+  // CHALLENGE
+  // ============================================================================
+
+  /**
+   * Issues a login challenge for an address.
+   *
+   * Stores a random nonce in Supabase and returns the typed data the
+   * client must sign with its Starknet account.
+   *
+   * @param address - Player's Starknet wallet address
+   * @returns Challenge with nonce, typed data and expiration
+   * @throws {ValidationError} If address is invalid
+   */
+  async createNonce(address: string): Promise<AuthChallenge> {
+    const trimmedAddress = this.validateAddress(address);
+
+    const nonce = `0x${randomBytes(16).toString('hex')}`;
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + AUTH_NONCE_TTL_SECONDS * 1000);
+
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('auth_nonces')
+      .insert({
+        nonce,
+        address: trimmedAddress,
+        issued_at: issuedAt.toISOString(),
+        expires_at: expiresAt.toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to create nonce: ${error.message}`);
+    }
+
+    return {
+      address: trimmedAddress,
+      nonce,
+      typed_data: this.buildLoginTypedData(trimmedAddress, nonce, issuedAt),
+      expires_at: expiresAt,
+    };
+  }
+
+  // ============================================================================
+  // LOGIN
+  // ============================================================================
+
+  /**
+   * Exchanges a signed challenge for a session.
+   *
+   * Steps:
+   * 1. Atomically consume the nonce (rejects unknown, reused or foreign nonces)
+   * 2. Reject expired nonces
+   * 3. Verify the signature over the login typed data
+   * 4. Register or retrieve the player
+   * 5. Issue a session token
+   *
+   * @param address - Player's Starknet wallet address
+   * @param nonce - Nonce returned by createNonce
+   * @param signature - Signature felts produced by the wallet
+   * @returns Player data with session token
+   * @throws {ValidationError} If input is invalid
+   * @throws {UnauthorizedError} If nonce or signature is not valid
+   */
+  async login(address: string, nonce: string, signature: string[]): Promise<LoginResult> {
+    const trimmedAddress = this.validateAddress(address);
+
+    if (!nonce || nonce.trim().length === 0) {
+      throw new ValidationError('Nonce is required');
+    }
+
+    if (!Array.isArray(signature) || signature.length === 0) {
+      throw new ValidationError('Signature is required');
+    }
+
+    if (!signature.every((part) => typeof part === 'string' && part.trim().length > 0)) {
+      throw new ValidationError('Signature must be an array of felt strings');
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Consume the nonce before verifying so it can never be replayed,
+    // even if two requests race with the same signature
+    const { data: consumed, error: consumeError } = await supabase
+      .from('auth_nonces')
+      .update({ consumed_at: new Date().toISOString() })
+      .eq('nonce', nonce.trim())
+      .eq('address', trimmedAddress)
+      .is('consumed_at', null)
+      .select()
+      .single();
+
+    if (consumeError && consumeError.code !== 'PGRST116') {
+      throw new Error(`Failed to consume nonce: ${consumeError.message}`);
+    }
+
+    if (!consumed) {
+      throw new UnauthorizedError('Invalid or already used nonce');
+    }
+
+    if (new Date(consumed.expires_at).getTime() <= Date.now()) {
+      throw new UnauthorizedError('Nonce has expired');
+    }
+
+    const typedData = this.buildLoginTypedData(
+      trimmedAddress,
+      consumed.nonce,
+      new Date(consumed.issued_at)
+    );
+
+    let isValid: boolean;
+    try {
+      isValid = await getSignatureVerifier()(trimmedAddress, typedData, signature);
+    } catch (error) {
+      logError(`Signature verification failed for ${trimmedAddress}`, error);
+      isValid = false;
+    }
+
+    if (!isValid) {
+      throw new UnauthorizedError('Invalid signature');
+    }
+
+    const player = await this.playerService.registerPlayer(trimmedAddress);
+    const session = issueSessionToken(player.address);
+
+    return {
+      player,
+      token: session.token,
+      expires_at: session.expiresAt,
+    };
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Builds the typed data a player signs to log in.
+   * Must stay identical between createNonce and login.
+   *
+   * @param address - Player address
+   * @param nonce - Issued nonce
+   * @param issuedAt - Nonce issue time
+   * @returns Starknet typed data
+   */
+  private buildLoginTypedData(address: string, nonce: string, issuedAt: Date): TypedData {
+    return {
+      types: {
+        StarkNetDomain: [
+          { name: 'name', type: 'felt' },
+          { name: 'version', type: 'felt' },
+          { name: 'chainId', type: 'felt' },
+        ],
+        Login: [
+          { name: 'address', type: 'felt' },
+          { name: 'nonce', type: 'felt' },
+          { name: 'issued_at', type: 'felt' },
+        ],
+      },
+      primaryType: 'Login',
+      domain: {
+        name: LOGIN_DOMAIN_NAME,
+        version: LOGIN_DOMAIN_VERSION,
+        chainId: STARKNET_CHAIN_ID,
+      },
+      message: {
+        address,
+        nonce,
+        issued_at: Math.floor(issuedAt.getTime() / 1000).toString(),
+      },
+    };
+  }
+
+  /**
+   * Validates and normalizes a Starknet address.
+   *
+   * @param address - Address to validate
+   * @returns Trimmed address
+   * @throws {ValidationError} If address is missing or malformed
+   */
+  private validateAddress(address: string): string {
+    if (!address || address.trim().length === 0) {
+      throw new ValidationError('Address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(address.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    return address.trim();
+  }
+}
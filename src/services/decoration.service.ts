@@ -2,20 +2,56 @@
  * @fileoverview Decoration Service
  * 
  * Handles business logic for decoration operations including retrieval,
- * and synchronization between Supabase and on-chain data.
+ * placement in tanks, and synchronization between Supabase and on-chain data.
+ * 
+ * Decoration Shop:
+ * - Players buy decorations with coins via mintDecoration()
+ * - Prices come from the decoration catalog and are charged through the
+ *   currency ledger before the decoration is minted on-chain
+ * - A purchase retried with the same Idempotency-Key returns the decoration of
+ *   the first request instead of charging again (decoration_purchases)
+ * 
+ * Decoration Placement:
+ * - Decorations are placed in a specific tank via decorations.tank_id
+ * - Only active decorations placed in a tank count towards its XP multiplier
+ * - Each tank has MAX_DECORATIONS_PER_TANK decoration slots
+ * - Moving or removing a decoration clears its layout transform; the tank
+ *   layout (TankService) positions it again
  */
 
 // ============================================================================
 // IMPORTS
 // ============================================================================
 
+import { randomUUID } from 'crypto';
 import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError } from '@/core/utils/logger';
-import { getDecorationOnChain, activateDecoration as activateDecorationOnChain, deactivateDecoration as deactivateDecorationOnChain } from '@/core/utils/dojo-client';
+import { getDojoClient } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { getCurrencyLedger } from '@/core/utils/currency-ledger';
+import { getDecorationCatalogItem, isDecorationKind } from '@/core/utils/decoration-catalog';
 import { SyncService } from '@/services/sync.service';
+import { MAX_DECORATIONS_PER_TANK } from '@/core/config';
+import {
+  CLEARED_DECORATION_TRANSFORM,
+  decorationTransformFromRow,
+  type DecorationTransformRow,
+} from '@/core/utils/tank-layout';
 import type { Decoration, DecorationKind } from '@/models/decoration.model';
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Purchase request claimed in decoration_purchases.
+ */
+interface DecorationPurchaseClaim {
+  id: number;
+  kind: string;
+  decoration_id: number | null;
+  is_new: boolean;
+}
+
 // ============================================================================
 // DECORATION SERVICE
 // ============================================================================
@@ -24,7 +60,8 @@ import type { Decoration, DecorationKind } from '@/models/decoration.model';
  * Service for managing decoration data and operations.
  */
 export class DecorationService {
-  
+  constructor(private readonly dojoClient: DojoClient = getDojoClient()) {}
+
   // ============================================================================
   // DECORATION RETRIEVAL
   // ============================================================================
@@ -69,7 +106,7 @@ export class DecorationService {
 
     // 2. Get on-chain data from Dojo
     try {
-      const decorationOnChain = await getDecorationOnChain(id);
+      const decorationOnChain = await this.dojoClient.getDecorationOnChain(id);
 
       // 3. Combine data
       const decoration: Decoration = {
@@ -81,6 +118,8 @@ export class DecorationService {
         
         // Off-chain data
         is_active: decorationOffChain.is_active,
+        tankId: decorationOffChain.tank_id ?? null,
+        transform: decorationTransformFromRow(decorationOffChain),
         imageUrl: decorationOffChain.image_url, 
         sprite_url: decorationOffChain.image_url ?? null, // Map image_url to sprite_url
         createdAt: new Date(decorationOffChain.created_at), 
@@ -158,11 +197,12 @@ export class DecorationService {
     }
 
     // Data type for Supabase decoration row
-    type DecorationRow = {
+    type DecorationRow = DecorationTransformRow & {
       id: number;
       owner: string;
       kind: DecorationKind;
       is_active: boolean;
+      tank_id: number | null;
       image_url: string;
       created_at: string;
     };
@@ -170,7 +210,7 @@ export class DecorationService {
     // 3. Get on-chain data for all decorations in parallel
     try {
       const decorationsOnChainPromises = decorationsOffChainList.map((decoration: DecorationRow) =>
-        getDecorationOnChain(decoration.id)
+        this.dojoClient.getDecorationOnChain(decoration.id)
       );
       const decorationsOnChainList = await Promise.all(decorationsOnChainPromises);
 
@@ -186,6 +226,8 @@ export class DecorationService {
 
           // Off-chain data
           is_active: decorationOffChain.is_active,
+          tankId: decorationOffChain.tank_id ?? null,
+          transform: decorationTransformFromRow(decorationOffChain),
           imageUrl: decorationOffChain.image_url, 
           sprite_url: decorationOffChain.image_url ?? null, // Map image_url to sprite_url
           createdAt: new Date(decorationOffChain.created_at), 
@@ -202,13 +244,254 @@ export class DecorationService {
     }
   }
 
+  // ============================================================================
+  // DECORATION SHOP
+  // ============================================================================
+
+  /**
+   * Buys a new decoration of the given kind for a player.
+   * 
+   * Flow:
+   * 1. Validate owner address, kind and idempotency key, and that the player exists
+   * 2. Claim the purchase under the idempotency key (a completed purchase with the
+   *    same key is returned as is)
+   * 3. Charge the catalog price through the currency ledger
+   * 4. Mint the decoration on-chain (refunding the price if the mint fails)
+   * 5. Save it to Supabase (not placed, not active), refunding the price and flagging
+   *    the mint for review if the save fails
+   * 6. Add the mint transaction to the sync queue
+   * 7. Return the new decoration
+   * 
+   * A failed purchase is refunded and its claim released, so it can be retried with
+   * the same key.
+   * 
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @param kind - Kind of decoration to buy
+   * @param idempotencyKey - Client key of the purchase request (a new purchase if omitted)
+   * @returns The newly minted Decoration
+   * @throws {ValidationError} If address, kind or key is invalid, or the key was used for another kind
+   * @throws {NotFoundError} If player doesn't exist
+   * @throws {ConflictError} If the player can't afford the decoration or a purchase with
+   *   the same key is still in progress
+   * @throws {OnChainError} If the on-chain mint fails
+   * @throws {Error} If the decoration was minted on-chain but saving it failed
+   *   (the price is refunded and the sync queue entry is flagged for manual review)
+   */
+  async mintDecoration(owner: string, kind: DecorationKind, idempotencyKey?: string): Promise<Decoration> {
+    // Validate address
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(owner.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    if (!isDecorationKind(kind)) {
+      throw new ValidationError(`Invalid decoration kind: ${kind}`);
+    }
+
+    const requestKey = idempotencyKey === undefined ? randomUUID() : idempotencyKey.trim();
+    if (requestKey.length === 0 || requestKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new ValidationError(
+        `Idempotency key must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+      );
+    }
+
+    const trimmedOwner = owner.trim();
+    const supabase = getSupabaseClient();
+
+    // 1. Validate that the player exists
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('address')
+      .eq('address', trimmedOwner)
+      .single();
+
+    if (playerError) {
+      if (playerError.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
+      }
+      throw new Error(`Database error: ${playerError.message}`);
+    }
+
+    if (!player) {
+      throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
+    }
+
+    // 2. Claim the purchase (a retried request returns the decoration it bought)
+    const claim = await this.claimPurchase(trimmedOwner, kind, requestKey);
+    if (!claim.is_new) {
+      if (claim.kind !== kind) {
+        throw new ValidationError(`Idempotency key was already used to buy a ${claim.kind} decoration`);
+      }
+      if (claim.decoration_id === null) {
+        throw new ConflictError('A purchase with this idempotency key is still in progress');
+      }
+      return await this.getDecorationById(claim.decoration_id);
+    }
+
+    // 3. Charge the price (throws ConflictError if the balance is too low)
+    const { price } = getDecorationCatalogItem(kind);
+    const ledger = getCurrencyLedger();
+    const purchaseKey = `decoration_purchase:${claim.id}`;
+    try {
+      await ledger.debit(trimmedOwner, price, {
+        type: 'decoration_purchase',
+        idempotencyKey: purchaseKey,
+        description: `Bought ${kind} decoration`,
+      });
+    } catch (error) {
+      await this.releasePurchase(claim.id);
+      throw error;
+    }
+
+    const refund = async (reason: string): Promise<void> => {
+      try {
+        await ledger.credit(trimmedOwner, price, {
+          type: 'decoration_refund',
+          idempotencyKey: `${purchaseKey}:refund`,
+          description: `Refund for ${kind} decoration (${reason})`,
+        });
+      } catch (refundError) {
+        logError('Failed to refund decoration purchase', {
+          error: refundError,
+          owner: trimmedOwner,
+          kind,
+          price,
+          reason,
+        });
+      }
+      await this.releasePurchase(claim.id);
+    };
+
+    // 4. Mint on-chain, refunding the price if it fails
+    let mintResult;
+    try {
+      mintResult = await this.dojoClient.mintDecoration(trimmedOwner, kind);
+    } catch (error) {
+      logError(`Failed to mint ${kind} decoration on-chain for ${trimmedOwner}`, error);
+      await refund('mint failed');
+      throw new OnChainError(
+        `Failed to mint decoration on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // 5. Save to Supabase
+    const { error: insertError } = await supabase
+      .from('decorations')
+      .insert({
+        id: mintResult.decoration_id,
+        owner: trimmedOwner,
+        kind,
+        is_active: false,
+      });
+
+    // 6. Track the mint in the sync queue. The decoration already exists on-chain, so a
+    // failed save is flagged for manual review.
+    const reviewReason = insertError
+      ? `On-chain mint of decoration ${mintResult.decoration_id} for ${trimmedOwner} succeeded but saving it ` +
+        `failed: ${insertError.message}. The price of ${price} was refunded.`
+      : undefined;
+
+    try {
+      const syncService = new SyncService();
+      await syncService.addToSyncQueue(
+        mintResult.tx_hash,
+        'decoration',
+        mintResult.decoration_id.toString(),
+        'mint_decoration',
+        reviewReason
+      );
+    } catch (syncError) {
+      // Log error but don't fail the operation - sync queue is for tracking
+      logError('Failed to add decoration mint to sync queue', {
+        error: syncError,
+        tx_hash: mintResult.tx_hash,
+        decoration_id: mintResult.decoration_id,
+        review_reason: reviewReason,
+      });
+    }
+
+    if (insertError) {
+      logError('Failed to save minted decoration to Supabase', {
+        error: insertError,
+        decoration_id: mintResult.decoration_id,
+        tx_hash: mintResult.tx_hash,
+      });
+      await refund('save failed');
+      throw new Error(
+        `Failed to save decoration ${mintResult.decoration_id}: ${insertError.message}. ` +
+        `On-chain mint was successful (tx: ${mintResult.tx_hash}); the price was refunded and ` +
+        'the mint was flagged for manual review.'
+      );
+    }
+
+    await this.completePurchase(claim.id, mintResult.decoration_id);
+
+    // 7. Return the new decoration
+    return await this.getDecorationById(mintResult.decoration_id);
+  }
+
+  /**
+   * Claims a purchase request in decoration_purchases.
+   *
+   * @returns The new claim, or the claim already made with the same key
+   */
+  private async claimPurchase(owner: string, kind: DecorationKind, idempotencyKey: string): Promise<DecorationPurchaseClaim> {
+    const { data, error } = await getSupabaseClient().rpc('claim_decoration_purchase', {
+      p_owner: owner,
+      p_idempotency_key: idempotencyKey,
+      p_kind: kind,
+    });
+
+    const claim = (data as DecorationPurchaseClaim[] | null)?.[0];
+    if (error || !claim) {
+      throw new Error(`Failed to claim decoration purchase: ${error?.message ?? 'no claim returned'}`);
+    }
+
+    return { ...claim, id: Number(claim.id) };
+  }
+
+  /**
+   * Records the decoration bought by a purchase, so retries with its key return it.
+   * Failures are logged; a retry then reports the purchase as still in progress.
+   */
+  private async completePurchase(purchaseId: number, decorationId: number): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('decoration_purchases')
+      .update({ decoration_id: decorationId })
+      .eq('id', purchaseId);
+
+    if (error) {
+      logError('Failed to complete decoration purchase', { error, purchase_id: purchaseId, decoration_id: decorationId });
+    }
+  }
+
+  /**
+   * Deletes the claim of a failed purchase, so its key can be used again.
+   * Failures are logged.
+   */
+  private async releasePurchase(purchaseId: number): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('decoration_purchases')
+      .delete()
+      .eq('id', purchaseId);
+
+    if (error) {
+      logError('Failed to release decoration purchase', { error, purchase_id: purchaseId });
+    }
+  }
+
   // ============================================================================
   // DECORATION ACTIVATION
   // ============================================================================
 
   /**
    * Activates a decoration, making its XP multiplier apply to fish XP gains
-   * in the associated tank.
+   * in the tank it is placed in (see placeDecoration).
    * 
    * Flow:
    * 1. Validate decoration ID and owner address
@@ -261,7 +544,7 @@ export class DecorationService {
     // Call on-chain activateDecoration function
     let activateTxHash: string;
     try {
-      activateTxHash = await activateDecorationOnChain(id);
+      activateTxHash = await this.dojoClient.activateDecoration(id);
     } catch (error) {
       logError(`Failed to activate decoration ${id} on-chain`, error);
       throw new OnChainError(
@@ -272,7 +555,7 @@ export class DecorationService {
     // Add activation transaction to sync queue
     try {
       const syncService = new SyncService();
-      await syncService.addToSyncQueue(activateTxHash, 'decoration', id.toString());
+      await syncService.addToSyncQueue(activateTxHash, 'decoration', id.toString(), 'activate_decoration');
     } catch (syncError) {
       // Log error but don't fail the operation - sync queue is for tracking
       logError('Failed to add decoration activation to sync queue', {
@@ -304,7 +587,7 @@ export class DecorationService {
 
   /**
    * Deactivates a decoration, removing its XP multiplier from fish XP gains
-   * in the associated tank.
+   * in the tank it is placed in.
    * 
    * Flow:
    * 1. Validate decoration ID and owner address
@@ -357,7 +640,7 @@ export class DecorationService {
     // Call on-chain deactivateDecoration function
     let deactivateTxHash: string;
     try {
-      deactivateTxHash = await deactivateDecorationOnChain(id);
+      deactivateTxHash = await this.dojoClient.deactivateDecoration(id);
     } catch (error) {
       logError(`Failed to deactivate decoration ${id} on-chain`, error);
       throw new OnChainError(
@@ -368,7 +651,7 @@ export class DecorationService {
     // Add deactivation transaction to sync queue
     try {
       const syncService = new SyncService();
-      await syncService.addToSyncQueue(deactivateTxHash, 'decoration', id.toString());
+      await syncService.addToSyncQueue(deactivateTxHash, 'decoration', id.toString(), 'deactivate_decoration');
     } catch (syncError) {
       // Log error but don't fail the operation - sync queue is for tracking
       logError('Failed to add decoration deactivation to sync queue', {
@@ -393,4 +676,175 @@ export class DecorationService {
     // Return updated decoration
     return await this.getDecorationById(id);
   }
+
+  // ============================================================================
+  // DECORATION PLACEMENT
+  // ============================================================================
+
+  /**
+   * Places a decoration in one of the owner's tanks.
+   * A decoration that is already placed elsewhere is moved to the new tank.
+   * 
+   * Flow:
+   * 1. Validate decoration ID, tank ID and owner address
+   * 2. Validate decoration and tank exist and belong to the owner
+   * 3. Place it via place_decoration, which locks the tank, checks for a free
+   *    decoration slot and sets tank_id (clearing any previous layout position)
+   *    in one transaction
+   * 4. Return updated decoration
+   * 
+   * @param id - Decoration ID
+   * @param tankId - Target tank ID
+   * @param owner - Owner's Starknet wallet address
+   * @returns Updated Decoration with tankId set
+   * @throws {ValidationError} If IDs or address are invalid, or ownership doesn't match
+   * @throws {NotFoundError} If decoration or tank doesn't exist
+   * @throws {ConflictError} If decoration is already in that tank, the tank has no free slot,
+   * or the decoration or tank changed hands during the placement
+   */
+  async placeDecoration(id: number, tankId: number, owner: string): Promise<Decoration> {
+    // Validate IDs
+    if (!id || id <= 0 || !Number.isInteger(id)) {
+      throw new ValidationError('Invalid decoration ID');
+    }
+
+    if (!tankId || tankId <= 0 || !Number.isInteger(tankId)) {
+      throw new ValidationError('Invalid tank ID');
+    }
+
+    // Validate address
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(owner.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    const trimmedOwner = owner.trim();
+
+    // Get decoration to validate existence and get current placement
+    const decoration = await this.getDecorationById(id);
+
+    // Validate ownership
+    if (decoration.owner !== trimmedOwner) {
+      throw new ValidationError(`Decoration with ID ${id} does not belong to owner ${trimmedOwner}`);
+    }
+
+    if (decoration.tankId === tankId) {
+      throw new ConflictError(`Decoration with ID ${id} is already placed in tank ${tankId}`);
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Validate the target tank exists and belongs to the owner
+    const { data: tank, error: tankError } = await supabase
+      .from('tanks')
+      .select('id, owner')
+      .eq('id', tankId)
+      .single();
+
+    if (tankError) {
+      if (tankError.code === 'PGRST116') {
+        throw new NotFoundError(`Tank with ID ${tankId} not found`);
+      }
+      throw new Error(`Database error: ${tankError.message}`);
+    }
+
+    if (!tank) {
+      throw new NotFoundError(`Tank with ID ${tankId} not found`);
+    }
+
+    if (tank.owner !== trimmedOwner) {
+      throw new ValidationError(`Tank with ID ${tankId} does not belong to owner ${trimmedOwner}`);
+    }
+
+    // Place the decoration if the tank still has a free slot; the slot count and the
+    // update run in one transaction with the tank locked (see place_decoration)
+    const { error: placeError } = await supabase.rpc('place_decoration', {
+      p_decoration_id: id,
+      p_tank_id: tankId,
+      p_owner: trimmedOwner,
+      p_max_decorations: MAX_DECORATIONS_PER_TANK,
+    });
+
+    if (placeError) {
+      if (placeError.code === '55000') {
+        throw new ConflictError(
+          `Tank ${tankId} has no free decoration slots (${MAX_DECORATIONS_PER_TANK}/${MAX_DECORATIONS_PER_TANK})`
+        );
+      }
+      if (placeError.code === 'P0002') {
+        throw new ConflictError(
+          `Decoration with ID ${id} or tank ${tankId} no longer belongs to owner ${trimmedOwner}`
+        );
+      }
+      logError(`Failed to place decoration ${id} in tank ${tankId}`, placeError);
+      throw new Error(`Database error: ${placeError.message}`);
+    }
+
+    // Return updated decoration
+    return await this.getDecorationById(id);
+  }
+
+  /**
+   * Removes a decoration from the tank it is placed in.
+   * The decoration stays owned (and keeps its active flag) but no longer
+   * counts towards any tank's XP multiplier.
+   * 
+   * @param id - Decoration ID
+   * @param owner - Owner's Starknet wallet address
+   * @returns Updated Decoration with tankId = null
+   * @throws {ValidationError} If ID or address is invalid, or ownership doesn't match
+   * @throws {NotFoundError} If decoration doesn't exist
+   * @throws {ConflictError} If decoration is not placed in any tank
+   */
+  async unplaceDecoration(id: number, owner: string): Promise<Decoration> {
+    // Validate ID
+    if (!id || id <= 0 || !Number.isInteger(id)) {
+      throw new ValidationError('Invalid decoration ID');
+    }
+
+    // Validate address
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(owner.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    const trimmedOwner = owner.trim();
+
+    // Get decoration to validate existence and get current placement
+    const decoration = await this.getDecorationById(id);
+
+    // Validate ownership
+    if (decoration.owner !== trimmedOwner) {
+      throw new ValidationError(`Decoration with ID ${id} does not belong to owner ${trimmedOwner}`);
+    }
+
+    if (decoration.tankId === null) {
+      throw new ConflictError(`Decoration with ID ${id} is not placed in any tank`);
+    }
+
+    // Clear tank_id in Supabase
+    const supabase = getSupabaseClient();
+    const { error: updateError } = await supabase
+      .from('decorations')
+      .update({ tank_id: null, ...CLEARED_DECORATION_TRANSFORM })
+      .eq('id', id);
+
+    if (updateError) {
+      logError(`Failed to unplace decoration ${id}`, updateError);
+      throw new Error(`Database error: ${updateError.message}`);
+    }
+
+    // Return updated decoration
+    return await this.getDecorationById(id);
+  }
 }
@@ -0,0 +1,482 @@
+/**
+ * @fileoverview Event Ingestion Service
+ *
+ * Background worker that reads world events (FishMinted, FishFed, FishBred,
+ * TankMinted, DecorationToggled) from an EventSource and upserts the matching
+ * Supabase rows, so actions done directly on-chain (e.g. by the game client)
+ * show up in the API.
+ *
+ * Every write is idempotent, so events can be replayed safely. The cursor of
+ * the last ingested event is kept per source in event_checkpoints. Events sent
+ * by this backend (found in the sync queue) were already written and are skipped.
+ * An event that keeps failing is recorded in event_dead_letters and skipped.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import {
+  EVENT_INGESTION_INTERVAL_MS,
+  EVENT_INGESTION_BATCH_SIZE,
+  EVENT_INGESTION_MAX_ATTEMPTS,
+} from '@/core/config';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { logError, logInfo, logWarn } from '@/core/utils/logger';
+import { SyncService } from '@/services/sync.service';
+import { TankService } from '@/services/tank.service';
+import type {
+  EventSource,
+  WorldEvent,
+  FishMintedEvent,
+  FishFedEvent,
+  FishBredEvent,
+  TankMintedEvent,
+  DecorationToggledEvent,
+} from '@/core/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Image of fish that were not minted through the API
+const INGESTED_FISH_IMAGE_URL = '/images/fish/starter-fish.png';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Tuning options for the ingestion worker.
+ */
+export interface EventIngestionOptions {
+  intervalMs: number;
+  batchSize: number;
+  maxAttempts: number; // Failed passes in a row before an event is dead-lettered
+}
+
+/**
+ * Outcome of a single ingestion pass.
+ */
+export interface IngestSummary {
+  received: number;
+  applied: number;
+  skipped: number;
+  deadLettered: number;
+  cursor: string | null;
+}
+
+// ============================================================================
+// EVENT INGESTION SERVICE
+// ============================================================================
+
+/**
+ * Service that ingests world events into Supabase.
+ *
+ * Handles:
+ * - Scheduling ingestion passes (start/stop with the server lifecycle)
+ * - Idempotent upserts for each event type
+ * - The checkpoint cursor of the source (advanced after each pass)
+ * - Dead-lettering events that fail maxAttempts passes in a row
+ */
+export class EventIngestionService {
+  private syncService = new SyncService();
+  private tankService = new TankService();
+  private options: EventIngestionOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<IngestSummary> | null = null;
+  private stopped = true;
+  // Event that failed the last pass and how many passes in a row it has failed
+  private failure: { cursor: string; attempts: number } | null = null;
+
+  constructor(
+    private readonly source: EventSource,
+    options: Partial<EventIngestionOptions> = {}
+  ) {
+    this.options = {
+      intervalMs: options.intervalMs ?? EVENT_INGESTION_INTERVAL_MS,
+      batchSize: options.batchSize ?? EVENT_INGESTION_BATCH_SIZE,
+      maxAttempts: options.maxAttempts ?? EVENT_INGESTION_MAX_ATTEMPTS,
+    };
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Starts polling the event source.
+   * Calling start() on a running worker has no effect.
+   */
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    logInfo('Event ingestion started', { source: this.source.name, interval_ms: this.options.intervalMs });
+    this.scheduleNext();
+  }
+
+  /**
+   * Stops polling and waits for an in-flight pass to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logInfo('Event ingestion stopped', { source: this.source.name });
+  }
+
+  /**
+   * Schedules the next pass. Uses setTimeout chaining so passes never overlap.
+   */
+  private scheduleNext(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.ingestOnce();
+      } catch (error) {
+        logError('Event ingestion pass failed', error);
+      }
+      this.scheduleNext();
+    }, this.options.intervalMs);
+
+    // Don't keep the process alive just for ingestion
+    this.timer.unref();
+  }
+
+  // ============================================================================
+  // INGESTION
+  // ============================================================================
+
+  /**
+   * Runs a single ingestion pass: reads up to batchSize events after the
+   * checkpoint, applies them in order and advances the checkpoint.
+   *
+   * An event that fails stops the pass; it is retried (with the events after
+   * it) on the next pass. Events applied before it are kept in the checkpoint.
+   * Once it has failed maxAttempts passes in a row it is saved in
+   * event_dead_letters and skipped, so it can't block the source.
+   *
+   * @returns Summary of the pass
+   */
+  async ingestOnce(): Promise<IngestSummary> {
+    if (this.currentRun) {
+      return this.currentRun;
+    }
+
+    this.currentRun = this.runPass();
+    try {
+      return await this.currentRun;
+    } finally {
+      this.currentRun = null;
+    }
+  }
+
+  /**
+   * Gets the cursor of the last ingested event of the source.
+   *
+   * @returns Cursor, or null if nothing was ingested yet
+   */
+  async getCheckpoint(): Promise<string | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('event_checkpoints')
+      .select('cursor')
+      .eq('source', this.source.name)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      throw new Error(`Failed to read event checkpoint: ${error.message}`);
+    }
+
+    return data?.cursor ?? null;
+  }
+
+  private async saveCheckpoint(cursor: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('event_checkpoints')
+      .upsert(
+        { source: this.source.name, cursor, updated_at: new Date().toISOString() },
+        { onConflict: 'source' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save event checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * Records an event that failed maxAttempts passes in a row, so it can be skipped.
+   * Saving the same event again (e.g. after a restart) keeps the first record.
+   */
+  private async saveDeadLetter(event: WorldEvent, error: unknown, attempts: number): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error: saveError } = await supabase.from('event_dead_letters').upsert(
+      {
+        source: this.source.name,
+        cursor: event.cursor,
+        event_type: event.type,
+        tx_hash: event.tx_hash,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+      },
+      { onConflict: 'source,cursor', ignoreDuplicates: true }
+    );
+
+    if (saveError) {
+      throw new Error(`Failed to save dead letter: ${saveError.message}`);
+    }
+
+    logWarn(`Dead-lettered ${event.type} event at ${this.source.name}#${event.cursor} after ${attempts} failed attempts`, {
+      tx_hash: event.tx_hash,
+    });
+  }
+
+  private async runPass(): Promise<IngestSummary> {
+    const checkpoint = await this.getCheckpoint();
+    const events = await this.source.fetchEvents(checkpoint, this.options.batchSize);
+    const summary: IngestSummary = {
+      received: events.length,
+      applied: 0,
+      skipped: 0,
+      deadLettered: 0,
+      cursor: checkpoint,
+    };
+
+    for (const event of events) {
+      try {
+        const outcome = await this.applyEvent(event);
+        summary[outcome]++;
+        summary.cursor = event.cursor;
+        this.failure = null;
+      } catch (error) {
+        logError(`Failed to ingest ${event.type} event at ${this.source.name}#${event.cursor}`, error);
+
+        const attempts = this.failure?.cursor === event.cursor ? this.failure.attempts + 1 : 1;
+        this.failure = { cursor: event.cursor, attempts };
+
+        if (attempts < this.options.maxAttempts) {
+          break;
+        }
+
+        try {
+          await this.saveDeadLetter(event, error, attempts);
+        } catch (deadLetterError) {
+          logError(`Failed to dead-letter ${event.type} event at ${this.source.name}#${event.cursor}`, deadLetterError);
+          break;
+        }
+
+        summary.deadLettered++;
+        summary.cursor = event.cursor;
+        this.failure = null;
+      }
+    }
+
+    if (summary.cursor !== null && summary.cursor !== checkpoint) {
+      await this.saveCheckpoint(summary.cursor);
+    }
+
+    if (summary.received > 0) {
+      logInfo('Event ingestion pass completed', { source: this.source.name, ...summary });
+    }
+
+    return summary;
+  }
+
+  private async applyEvent(event: WorldEvent): Promise<'applied' | 'skipped'> {
+    // Transactions sent by this backend were written by the API call that sent them
+    if (await this.syncService.getSyncByTxHash(event.tx_hash)) {
+      return 'skipped';
+    }
+
+    switch (event.type) {
+      case 'FishMinted':
+        await this.applyFishMinted(event);
+        return 'applied';
+      case 'FishFed':
+        return this.applyFishFed(event);
+      case 'FishBred':
+        await this.applyFishBred(event);
+        return 'applied';
+      case 'TankMinted':
+        await this.applyTankMinted(event);
+        return 'applied';
+      case 'DecorationToggled':
+        return this.applyDecorationToggled(event);
+    }
+  }
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  /**
+   * Creates the player row of an address that never registered through the API.
+   */
+  private async ensurePlayer(address: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('players')
+      .upsert({ address }, { onConflict: 'address', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save player ${address}: ${error.message}`);
+    }
+  }
+
+  /**
+   * FishMinted: saves the fish in the owner's first tank and counts it in fish_count.
+   */
+  private async applyFishMinted(event: FishMintedEvent): Promise<void> {
+    await this.ensurePlayer(event.owner);
+    const tankId = await this.tankService.getFirstTankIdByOwner(event.owner);
+
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc('save_minted_fish', {
+      p_fish_id: event.fish_id,
+      p_owner: event.owner,
+      p_species: event.species,
+      p_image_url: INGESTED_FISH_IMAGE_URL,
+      p_tank_id: tankId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to save minted fish ${event.fish_id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * FishFed: records a feed event (starts the fish's feeding cooldown).
+   * Feeds of fish unknown to Supabase are skipped.
+   */
+  private async applyFishFed(event: FishFedEvent): Promise<'applied' | 'skipped'> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.from('feed_events').upsert(
+      {
+        fish_id: event.fish_id,
+        owner: event.owner,
+        food_type: event.food_type,
+        xp_granted: event.xp_granted,
+        tx_hash: event.tx_hash,
+        created_at: event.timestamp.toISOString(),
+      },
+      { onConflict: 'tx_hash,fish_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      // 23503: fk_feed_events_fish (the fish was minted before ingestion started)
+      if (error.code === '23503') {
+        logWarn(`Skipping FishFed event for unknown fish ${event.fish_id}`, { tx_hash: event.tx_hash });
+        return 'skipped';
+      }
+      throw new Error(`Failed to save feed of fish ${event.fish_id}: ${error.message}`);
+    }
+
+    return 'applied';
+  }
+
+  /**
+   * FishBred: saves the offspring with its parents in the owner's first tank and
+   * counts it in offspring_created/fish_count.
+   * Offspring of parents unknown to Supabase are saved without parents.
+   */
+  private async applyFishBred(event: FishBredEvent): Promise<void> {
+    await this.ensurePlayer(event.owner);
+    const tankId = await this.tankService.getFirstTankIdByOwner(event.owner);
+
+    const supabase = getSupabaseClient();
+    const saveBredFish = (parent1Id: number | null, parent2Id: number | null) =>
+      supabase.rpc('save_bred_fish', {
+        p_fish_id: event.fish_id,
+        p_owner: event.owner,
+        p_species: event.species,
+        p_image_url: INGESTED_FISH_IMAGE_URL,
+        p_parent1_id: parent1Id,
+        p_parent2_id: parent2Id,
+        p_tank_id: tankId,
+      });
+
+    let { error } = await saveBredFish(event.parent1_id, event.parent2_id);
+
+    // 23503: fk_fish_parent1/2 (a parent was minted before ingestion started)
+    if (error?.code === '23503') {
+      logWarn(`Saving bred fish ${event.fish_id} without its parents, which are unknown to Supabase`, {
+        tx_hash: event.tx_hash,
+        parent1_id: event.parent1_id,
+        parent2_id: event.parent2_id,
+      });
+      ({ error } = await saveBredFish(null, null));
+    }
+
+    // 23505: the fish was already saved and has changed owner since
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to save bred fish ${event.fish_id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * TankMinted: saves the tank.
+   */
+  private async applyTankMinted(event: TankMintedEvent): Promise<void> {
+    await this.ensurePlayer(event.owner);
+
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('tanks')
+      .upsert({ id: event.tank_id, owner: event.owner }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save minted tank ${event.tank_id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * DecorationToggled: sets is_active. Decorations unknown to Supabase are skipped.
+   */
+  private async applyDecorationToggled(event: DecorationToggledEvent): Promise<'applied' | 'skipped'> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('decorations')
+      .update({ is_active: event.active })
+      .eq('id', event.decoration_id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update decoration ${event.decoration_id}: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      logWarn(`Skipping DecorationToggled event for unknown decoration ${event.decoration_id}`, {
+        tx_hash: event.tx_hash,
+      });
+      return 'skipped';
+    }
+
+    return 'applied';
+  }
+}
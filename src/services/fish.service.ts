@@ -15,15 +15,23 @@
 // IMPORTS
 // ============================================================================
 
-import { ValidationError, NotFoundError, OnChainError } from '@/core/errors';
+import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { TankService } from '@/services/tank.service';
 import { SyncService } from '@/services/sync.service';
+import { FoodService } from '@/services/food.service';
+import { LedgerService } from '@/services/ledger.service';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError } from '@/core/utils/logger';
-import { getFishOnChain, gainFishXp, gainPlayerXp, breedFish as breedFishOnChain } from '@/core/utils/dojo-client';
-import { getActiveDecorationsMultiplier, getFeedBaseXp, calculateFishXp } from '@/core/utils/xp-calculator';
+import { getDojoClient } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { getActiveDecorationsMultiplier, getFeedBaseXp, calculateFishXp, FoodType } from '@/core/utils/xp-calculator';
+import { getSecondsUntilHungry, isOverfed, OVERFEED_THRESHOLD } from '@/core/utils/hunger';
 import { buildFishFamilyTree } from '@/core/utils/fish-genealogy';
-import type { Fish } from '@/models/fish.model';
+import { buildFishKinship } from '@/core/utils/fish-kinship';
+import { decodeFishTraits } from '@/core/utils/fish-traits';
+import { isFoodType } from '@/core/utils/food-catalog';
+import { FEED_COOLDOWN_SECONDS, HUNGER_RATE_PER_HOUR, MAX_BREEDING_RELATIONSHIP } from '@/core/config';
+import type { Fish, FishOnChain, FeedEvent, FishMove, FishMoveResult, FishKinship } from '@/models/fish.model';
 import { FishState } from '@/models/fish.model';
 import type { FishFamilyTree } from '@/core/types/dojo-types';
 
@@ -35,6 +43,7 @@ import type { FishFamilyTree } from '@/core/types/dojo-types';
  * Service for managing fish data and operations.
  */
 export class FishService {
+  constructor(private readonly dojoClient: DojoClient = getDojoClient()) {}
 
   // ============================================================================
   // FISH RETRIEVAL
@@ -47,6 +56,11 @@ export class FishService {
    * 1. Off-chain (Supabase): owner, species, image, creation date
    * 2. On-chain (Dojo): xp, state, hunger, breeding status, dna
    * 
+   * Visible traits are decoded from the dna (see fish-traits).
+   * 
+   * Hunger is the value computed at read time; secondsUntilHungry is derived
+   * from it and the configured hunger rate.
+   * 
    * @param id - Fish ID
    * @returns Complete Fish data
    * @throws {ValidationError} If ID is invalid
@@ -79,28 +93,9 @@ export class FishService {
     }
 
     // 2. Get on-chain data from Dojo
+    let fishOnChain: FishOnChain;
     try {
-      const fishOnChain = await getFishOnChain(id);
-
-      // 3. Combine data
-      const fish: Fish = {
-        // On-chain data
-        id: fishOnChain.id,
-        xp: fishOnChain.xp,
-        state: fishOnChain.state,
-        hunger: fishOnChain.hunger,
-        isReadyToBreed: fishOnChain.isReadyToBreed,
-        dna: fishOnChain.dna,
-
-        // Off-chain data
-        owner: fishOffChain.owner,
-        species: fishOffChain.species,
-        imageUrl: fishOffChain.image_url, // Map snake_case to camelCase
-        spriteUrl: fishOffChain.sprite_url ?? null, // Map sprite_url from database
-        createdAt: new Date(fishOffChain.created_at), // Convert string to Date
-      };
-
-      return fish;
+      fishOnChain = await this.dojoClient.getFishOnChain(id);
     } catch (error) {
       logError(`Failed to get on-chain data for fish ${id}`, error);
       // If on-chain fetch fails, we could either:
@@ -111,6 +106,30 @@ export class FishService {
         `Failed to retrieve on-chain data for fish ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
+
+    // 3. Combine data (outside the on-chain try: a DNA that can't be decoded is a
+    // ValidationError, not an on-chain failure)
+    const fish: Fish = {
+      // On-chain data
+      id: fishOnChain.id,
+      xp: fishOnChain.xp,
+      state: fishOnChain.state,
+      hunger: fishOnChain.hunger,
+      lastFedAt: fishOnChain.lastFedAt,
+      isReadyToBreed: fishOnChain.isReadyToBreed,
+      dna: fishOnChain.dna,
+      secondsUntilHungry: getSecondsUntilHungry(fishOnChain.hunger, HUNGER_RATE_PER_HOUR),
+      traits: decodeFishTraits(fishOnChain.dna),
+
+      // Off-chain data
+      owner: fishOffChain.owner,
+      species: fishOffChain.species,
+      imageUrl: fishOffChain.image_url, // Map snake_case to camelCase
+      spriteUrl: fishOffChain.sprite_url ?? null, // Map sprite_url from database
+      createdAt: new Date(fishOffChain.created_at), // Convert string to Date
+    };
+
+    return fish;
   }
 
   /**
@@ -185,34 +204,12 @@ export class FishService {
     };
 
     // 3. Get on-chain data for all fish in parallel
+    let fishOnChainList: FishOnChain[];
     try {
       const fishOnChainPromises = fishOffChainList.map((fish: FishRow) =>
-        getFishOnChain(fish.id)
+        this.dojoClient.getFishOnChain(fish.id)
       );
-      const fishOnChainList = await Promise.all(fishOnChainPromises);
-
-      // 4. Combine off-chain and on-chain data
-      const fishList: Fish[] = fishOffChainList.map((fishOffChain: FishRow, index: number) => {
-        const fishOnChain = fishOnChainList[index];
-        return {
-          // On-chain data
-          id: fishOnChain.id,
-          xp: fishOnChain.xp,
-          state: fishOnChain.state,
-          hunger: fishOnChain.hunger,
-          isReadyToBreed: fishOnChain.isReadyToBreed,
-          dna: fishOnChain.dna,
-
-          // Off-chain data
-          owner: fishOffChain.owner,
-          species: fishOffChain.species,
-          imageUrl: fishOffChain.image_url, // Map snake_case to camelCase
-          spriteUrl: fishOffChain.sprite_url ?? null, // Map sprite_url from database
-          createdAt: new Date(fishOffChain.created_at), // Convert string to Date
-        };
-      });
-
-      return fishList;
+      fishOnChainList = await Promise.all(fishOnChainPromises);
     } catch (error) {
       logError(`Failed to get on-chain data for fish owned by ${address}`, error);
       // If on-chain fetch fails, we throw OnChainError as the fish is fundamentally an on-chain asset
@@ -220,6 +217,30 @@ export class FishService {
         `Failed to retrieve on-chain data for fish owned by ${address}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
+
+    // 4. Combine off-chain and on-chain data
+    return fishOnChainList.map((fishOnChain, index) => {
+      const fishOffChain: FishRow = fishOffChainList[index];
+      return {
+        // On-chain data
+        id: fishOnChain.id,
+        xp: fishOnChain.xp,
+        state: fishOnChain.state,
+        hunger: fishOnChain.hunger,
+        lastFedAt: fishOnChain.lastFedAt,
+        isReadyToBreed: fishOnChain.isReadyToBreed,
+        dna: fishOnChain.dna,
+        secondsUntilHungry: getSecondsUntilHungry(fishOnChain.hunger, HUNGER_RATE_PER_HOUR),
+        traits: decodeFishTraits(fishOnChain.dna),
+
+        // Off-chain data
+        owner: fishOffChain.owner,
+        species: fishOffChain.species,
+        imageUrl: fishOffChain.image_url, // Map snake_case to camelCase
+        spriteUrl: fishOffChain.sprite_url ?? null, // Map sprite_url from database
+        createdAt: new Date(fishOffChain.created_at), // Convert string to Date
+      };
+    });
   }
 
   /**
@@ -252,6 +273,94 @@ export class FishService {
     return await buildFishFamilyTree(fishId);
   }
 
+  /**
+   * Retrieves the kinship between two fish.
+   * 
+   * Uses the kinship utility to compute the coefficient of relationship, the
+   * inbreeding coefficient of a potential offspring and whether the pair may
+   * breed under MAX_BREEDING_RELATIONSHIP.
+   * 
+   * @param fishId - Fish ID
+   * @param otherId - ID of the other fish
+   * @returns FishKinship of the pair
+   * @throws {ValidationError} If an ID is invalid
+   * @throws {NotFoundError} If either fish doesn't exist
+   */
+  async getFishKinship(fishId: number, otherId: number): Promise<FishKinship> {
+    // Validate IDs
+    if (!fishId || fishId <= 0 || !Number.isInteger(fishId)) {
+      throw new ValidationError('Invalid fish ID');
+    }
+
+    if (!otherId || otherId <= 0 || !Number.isInteger(otherId)) {
+      throw new ValidationError('Invalid other fish ID');
+    }
+
+    return await buildFishKinship(fishId, otherId, MAX_BREEDING_RELATIONSHIP);
+  }
+
+  /**
+   * Retrieves the feeding history of a fish, newest first.
+   * 
+   * @param fishId - Fish ID
+   * @param limit - Maximum number of feed events to return (1-100, default 50)
+   * @returns Array of FeedEvent (empty array if the fish was never fed)
+   * @throws {ValidationError} If ID or limit is invalid
+   * @throws {NotFoundError} If fish doesn't exist
+   */
+  async getFeedHistory(fishId: number, limit: number = 50): Promise<FeedEvent[]> {
+    // Validate ID
+    if (!fishId || fishId <= 0 || !Number.isInteger(fishId)) {
+      throw new ValidationError('Invalid fish ID');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be an integer between 1 and 100');
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Verify the fish exists
+    const { data: fish, error: fishError } = await supabase
+      .from('fish')
+      .select('id')
+      .eq('id', fishId)
+      .single();
+
+    if (fishError) {
+      if (fishError.code === 'PGRST116') {
+        throw new NotFoundError(`Fish with ID ${fishId} not found`);
+      }
+      throw new Error(`Database error: ${fishError.message}`);
+    }
+
+    if (!fish) {
+      throw new NotFoundError(`Fish with ID ${fishId} not found`);
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('feed_events')
+      .select('*')
+      .eq('fish_id', fishId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (eventsError) {
+      throw new Error(`Database error: ${eventsError.message}`);
+    }
+
+    return (events ?? []).map((event: any) => ({
+      id: event.id,
+      fish_id: event.fish_id,
+      owner: event.owner,
+      food_type: event.food_type,
+      xp_granted: Number(event.xp_granted),
+      multiplier: Number(event.multiplier),
+      tx_hash: event.tx_hash ?? null,
+      created_at: new Date(event.created_at),
+    }));
+  }
+
   // ============================================================================
   // TANK CAPACITY
   // ============================================================================
@@ -287,6 +396,347 @@ export class FishService {
     return count ?? 0;
   }
 
+  // ============================================================================
+  // FISH MOVEMENT
+  // ============================================================================
+
+  /**
+   * Moves a single fish to another tank owned by the same player.
+   * 
+   * @param fishId - ID of the fish to move
+   * @param tankId - ID of the target tank
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @returns Outcome of the move
+   * @see moveFishBatch for validation rules
+   */
+  async moveFish(fishId: number, tankId: number, owner: string): Promise<FishMoveResult> {
+    const results = await this.moveFishBatch([{ fish_id: fishId, tank_id: tankId }], owner);
+    return results[0] as FishMoveResult;
+  }
+
+  /**
+   * Moves several fish between tanks in one atomic operation.
+   * 
+   * Validates that:
+   * - Every fish and every target tank exists and belongs to the owner
+   * - No fish appears twice in the batch
+   * - Every target tank has room for its net gain of fish. Fish leaving a tank in
+   *   the same batch free their slot first, so full tanks can swap fish.
+   * 
+   * The reassignment is applied by the move_fish_batch database function in a
+   * single transaction: either every fish is moved or none is.
+   * Tank assignment is off-chain only, so there is nothing to sync on-chain.
+   * 
+   * @param moves - Fish-to-tank assignments
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @returns Outcome of each move, in request order
+   * @throws {ValidationError} If input is invalid, or any fish or tank doesn't belong to owner
+   * @throws {NotFoundError} If any fish or tank doesn't exist
+   * @throws {ConflictError} If a target tank would exceed its capacity
+   * @throws {OnChainError} If tank capacity cannot be read on-chain
+   */
+  async moveFishBatch(moves: FishMove[], owner: string): Promise<FishMoveResult[]> {
+    // Validate moves array
+    if (!moves || !Array.isArray(moves) || moves.length === 0) {
+      throw new ValidationError('moves must be a non-empty array');
+    }
+
+    for (const move of moves) {
+      if (!move || !move.fish_id || move.fish_id <= 0 || !Number.isInteger(move.fish_id)) {
+        throw new ValidationError(`Invalid fish ID: ${move?.fish_id}`);
+      }
+      if (!move.tank_id || move.tank_id <= 0 || !Number.isInteger(move.tank_id)) {
+        throw new ValidationError(`Invalid tank ID: ${move.tank_id}`);
+      }
+    }
+
+    const fishIds = moves.map((move) => move.fish_id);
+    const duplicateIds = fishIds.filter((id, index) => fishIds.indexOf(id) !== index);
+    if (duplicateIds.length > 0) {
+      throw new ValidationError(`Fish with IDs [${[...new Set(duplicateIds)].join(', ')}] appear more than once`);
+    }
+
+    // Validate owner address
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(owner.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    const supabase = getSupabaseClient();
+    const trimmedOwner = owner.trim();
+
+    // 1. Validate that all fish exist and belong to the owner
+    const { data: fishList, error: fishError } = await supabase
+      .from('fish')
+      .select('id, owner, tank_id')
+      .in('id', fishIds);
+
+    if (fishError) {
+      throw new Error(`Database error: ${fishError.message}`);
+    }
+
+    type FishRow = { id: number; owner: string; tank_id: number | null };
+    const fishRows: FishRow[] = fishList || [];
+
+    const foundFishIds = fishRows.map((f) => f.id);
+    const missingFishIds = fishIds.filter((id) => !foundFishIds.includes(id));
+    if (missingFishIds.length > 0) {
+      throw new NotFoundError(`Fish with IDs [${missingFishIds.join(', ')}] not found`);
+    }
+
+    const foreignFishIds = fishRows.filter((f) => f.owner !== trimmedOwner).map((f) => f.id);
+    if (foreignFishIds.length > 0) {
+      throw new ValidationError(
+        `Fish with IDs [${foreignFishIds.join(', ')}] do not belong to owner ${trimmedOwner}`
+      );
+    }
+
+    // 2. Validate that all target tanks exist and belong to the owner
+    const targetTankIds = [...new Set(moves.map((move) => move.tank_id))];
+    const { data: tankList, error: tankError } = await supabase
+      .from('tanks')
+      .select('id, owner')
+      .in('id', targetTankIds);
+
+    if (tankError) {
+      throw new Error(`Database error: ${tankError.message}`);
+    }
+
+    type TankRow = { id: number; owner: string };
+    const tankRows: TankRow[] = tankList || [];
+
+    const foundTankIds = tankRows.map((t) => t.id);
+    const missingTankIds = targetTankIds.filter((id) => !foundTankIds.includes(id));
+    if (missingTankIds.length > 0) {
+      throw new NotFoundError(`Tanks with IDs [${missingTankIds.join(', ')}] not found`);
+    }
+
+    const foreignTankIds = tankRows.filter((t) => t.owner !== trimmedOwner).map((t) => t.id);
+    if (foreignTankIds.length > 0) {
+      throw new ValidationError(
+        `Tanks with IDs [${foreignTankIds.join(', ')}] do not belong to owner ${trimmedOwner}`
+      );
+    }
+
+    // 3. Check capacity against the net change of each target tank
+    const currentTankByFish = new Map<number, number | null>(fishRows.map((f) => [f.id, f.tank_id]));
+    const netChangeByTank = new Map<number, number>();
+    for (const move of moves) {
+      const fromTankId = currentTankByFish.get(move.fish_id) ?? null;
+      if (fromTankId === move.tank_id) {
+        continue;
+      }
+      netChangeByTank.set(move.tank_id, (netChangeByTank.get(move.tank_id) ?? 0) + 1);
+      if (fromTankId !== null) {
+        netChangeByTank.set(fromTankId, (netChangeByTank.get(fromTankId) ?? 0) - 1);
+      }
+    }
+
+    const tankService = new TankService(this.dojoClient);
+    for (const tankId of targetTankIds) {
+      const netChange = netChangeByTank.get(tankId) ?? 0;
+      if (netChange > 0) {
+        await tankService.checkTankCapacity(tankId, netChange);
+      }
+    }
+
+    // 4. Apply all moves atomically
+    const { error: moveError } = await supabase.rpc('move_fish_batch', {
+      p_owner: trimmedOwner,
+      p_moves: moves.map(({ fish_id, tank_id }) => ({ fish_id, tank_id })),
+    });
+
+    if (moveError) {
+      logError('Failed to move fish between tanks', { error: moveError, moves });
+      throw new Error(`Failed to move fish: ${moveError.message}`);
+    }
+
+    return moves.map((move) => ({
+      fish_id: move.fish_id,
+      from_tank_id: currentTankByFish.get(move.fish_id) ?? null,
+      to_tank_id: move.tank_id,
+    }));
+  }
+
+  // ============================================================================
+  // FISH TRANSFER
+  // ============================================================================
+
+  /**
+   * Gives a fish to another registered player.
+   * 
+   * The fish leaves the sender's tank and is placed in the recipient's first
+   * tank, which must have room for it. Parent ids are not touched, so the
+   * fish keeps its lineage. Ownership, tank assignment and both players'
+   * fish counts are updated by the transfer_fish_ownership database function
+   * in a single transaction, which also cancels any active marketplace
+   * listing of the fish. A fish whose listing is reserved (a purchase is in
+   * progress) can't be given.
+   * 
+   * @param fishId - ID of the fish to give
+   * @param from - Sender's Starknet wallet address (the authenticated player)
+   * @param to - Recipient's Starknet wallet address
+   * @returns The fish as seen by its new owner
+   * @throws {ValidationError} If input is invalid or the fish doesn't belong to the sender
+   * @throws {NotFoundError} If the fish, the recipient or the recipient's tank doesn't exist
+   * @throws {ConflictError} If the recipient's tank is full or the fish is being bought
+   * @throws {OnChainError} If the on-chain transfer fails
+   * @throws {Error} If the fish moved on-chain but the Supabase update failed
+   *   (the sync queue entry is flagged for manual review)
+   */
+  async transferFish(fishId: number, from: string, to: string): Promise<Fish> {
+    // Validate fish ID
+    if (!fishId || fishId <= 0 || !Number.isInteger(fishId)) {
+      throw new ValidationError('Invalid fish ID');
+    }
+
+    // Validate addresses
+    if (!from || from.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    if (!to || to.trim().length === 0) {
+      throw new ValidationError('Recipient address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(from.trim()) || !addressPattern.test(to.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    const trimmedFrom = from.trim();
+    const trimmedTo = to.trim();
+
+    if (trimmedFrom === trimmedTo) {
+      throw new ValidationError('Cannot transfer a fish to its current owner');
+    }
+
+    const supabase = getSupabaseClient();
+
+    // 1. Validate that the fish exists and belongs to the sender
+    const { data: fishRow, error: fishError } = await supabase
+      .from('fish')
+      .select('id, owner')
+      .eq('id', fishId)
+      .single();
+
+    if (fishError) {
+      if (fishError.code === 'PGRST116') {
+        throw new NotFoundError(`Fish with ID ${fishId} not found`);
+      }
+      throw new Error(`Database error: ${fishError.message}`);
+    }
+
+    if (!fishRow) {
+      throw new NotFoundError(`Fish with ID ${fishId} not found`);
+    }
+
+    if (fishRow.owner !== trimmedFrom) {
+      throw new ValidationError(`Fish with ID ${fishId} does not belong to owner ${trimmedFrom}`);
+    }
+
+    // A reserved listing means a buyer has paid and the fish is being transferred to them
+    const { data: reservedListings, error: listingError } = await supabase
+      .from('marketplace_listings')
+      .select('id')
+      .eq('asset_type', 'fish')
+      .eq('asset_id', fishId)
+      .eq('status', 'reserved')
+      .limit(1);
+
+    if (listingError) {
+      throw new Error(`Database error: ${listingError.message}`);
+    }
+
+    if (reservedListings && reservedListings.length > 0) {
+      throw new ConflictError(`Fish with ID ${fishId} is being bought on the marketplace and can't be given`);
+    }
+
+    // 2. Validate that the recipient is a registered player
+    const { data: recipient, error: recipientError } = await supabase
+      .from('players')
+      .select('address')
+      .eq('address', trimmedTo)
+      .single();
+
+    if (recipientError) {
+      if (recipientError.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${trimmedTo} not found`);
+      }
+      throw new Error(`Database error: ${recipientError.message}`);
+    }
+
+    if (!recipient) {
+      throw new NotFoundError(`Player with address ${trimmedTo} not found`);
+    }
+
+    // 3. Check that the recipient's tank has room for the fish
+    const tankService = new TankService(this.dojoClient);
+    const recipientTankId = await tankService.getFirstTankIdByOwner(trimmedTo);
+    if (recipientTankId === null) {
+      throw new NotFoundError(`Player ${trimmedTo} has no tank to receive the fish`);
+    }
+    await tankService.checkTankCapacity(recipientTankId, 1);
+
+    // 4. Transfer on-chain
+    let transferTxHash: string;
+    try {
+      transferTxHash = await this.dojoClient.transferFish(fishId, trimmedFrom, trimmedTo);
+    } catch (error) {
+      logError(`Failed to transfer fish ${fishId} on-chain`, error);
+      throw new OnChainError(
+        `Failed to transfer fish on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // 5. Move ownership, tank assignment and fish counts atomically
+    const { error: transferError } = await supabase.rpc('transfer_fish_ownership', {
+      p_fish_id: fishId,
+      p_from: trimmedFrom,
+      p_to: trimmedTo,
+      p_tank_id: recipientTankId,
+    });
+
+    // 6. Add the transfer to the sync queue. The fish has already moved on-chain, so a failed
+    // Supabase update is flagged for manual review instead of being reported as a conflict.
+    const reviewReason = transferError
+      ? `On-chain transfer of fish ${fishId} to ${trimmedTo} succeeded but transfer_fish_ownership failed: ${transferError.message}`
+      : undefined;
+
+    try {
+      const syncService = new SyncService();
+      await syncService.addToSyncQueue(transferTxHash, 'fish', fishId.toString(), 'transfer_fish', reviewReason);
+    } catch (syncError) {
+      // Log error but don't fail the operation - sync queue is for tracking
+      logError('Failed to add fish transfer to sync queue', {
+        error: syncError,
+        tx_hash: transferTxHash,
+        fish_id: fishId,
+        review_reason: reviewReason,
+      });
+    }
+
+    if (transferError) {
+      logError('Failed to transfer fish ownership after on-chain transfer', {
+        error: transferError,
+        fish_id: fishId,
+        tx_hash: transferTxHash,
+      });
+      throw new Error(
+        `Fish ${fishId} was transferred on-chain (tx: ${transferTxHash}) but saving the transfer failed: ` +
+        `${transferError.message}. The transfer was flagged for manual review.`
+      );
+    }
+
+    return await this.getFishById(fishId);
+  }
+
   // ============================================================================
   // FISH FEEDING
   // ============================================================================
@@ -294,26 +744,35 @@ export class FishService {
   /**
    * Feeds multiple fish in a batch operation.
    * 
-   * Validates ownership of all fish, retrieves the tank for the owner to calculate
-   * decoration multipliers, calculates final XP with multipliers applied, then calls
-   * on-chain XP gain functions for each fish and the player.
+   * Validates ownership of all fish, rejects the batch if any fish is too full to eat,
+   * claims the feed (records a feed_events row per fish, which starts its cooldown, and
+   * rejects the batch if any fish is still on its FEED_COOLDOWN_SECONDS cooldown), deducts
+   * one food item per fish from the owner's inventory (Basic food is unlimited), feeds the fish on-chain
+   * (lowering their hunger by the food's hunger reduction), calculates the decoration
+   * multiplier of each fish's own tank, calculates final XP with multipliers applied,
+   * then calls on-chain XP gain functions for each fish and the player.
    * 
    * The XP calculation process:
-   * 1. Gets base XP from food type (default: 10 XP)
-   * 2. Gets active decorations multiplier for the tank
+   * 1. Gets base XP from food type (Basic: 10, Premium: 20, Special: 30 XP)
+   * 2. Gets active decorations multiplier for each tank of the batch (fish outside a tank get 0)
    * 3. Calculates final XP = baseXp * (1 + multiplier/100)
    * 4. Calls gainFishXp() on-chain for each fish
    * 5. Calls gainPlayerXp() on-chain with total XP gained
    * 6. Updates player.total_xp in Supabase
-   * 7. Adds sync queue entries for all on-chain operations
+   * 7. Completes the claimed feed_events rows with the XP granted
+   * 8. Adds sync queue entries for all on-chain operations
+   * 9. Rewards the owner FEED_COIN_REWARD coins per fish
    * 
    * @param fishIds - Array of fish IDs to feed
    * @param owner - Owner's Starknet wallet address (for ownership validation)
+   * @param foodType - Food given to every fish in the batch (defaults to FoodType.Basic)
    * @returns Transaction hash from the player XP gain on-chain operation
-   * @throws {ValidationError} If fishIds is empty, owner is invalid, or any fish doesn't exist or belong to owner
-   * @throws {OnChainError} If the on-chain feed operation fails
+   * @throws {ValidationError} If fishIds is empty, owner or food type is invalid, or any fish doesn't exist or belong to owner
+   * @throws {ConflictError} If any fish is on cooldown or overfed (hunger below OVERFEED_THRESHOLD),
+   *   or the owner doesn't have enough food of the given type
+   * @throws {OnChainError} If the on-chain feed operation fails (the claim is released and consumed food refunded)
    */
-  async feedFishBatch(fishIds: number[], owner: string): Promise<string> {
+  async feedFishBatch(fishIds: number[], owner: string, foodType: FoodType = FoodType.Basic): Promise<string> {
     // Validate fishIds array
     if (!fishIds || !Array.isArray(fishIds) || fishIds.length === 0) {
       throw new ValidationError('fish_ids must be a non-empty array');
@@ -337,13 +796,20 @@ export class FishService {
       throw new ValidationError('Invalid Starknet address format');
     }
 
+    // Validate food type
+    if (!isFoodType(foodType)) {
+      throw new ValidationError(
+        `Invalid food type: ${foodType}. Must be one of: ${Object.values(FoodType).join(', ')}`
+      );
+    }
+
     const supabase = getSupabaseClient();
     const trimmedOwner = owner.trim();
 
     // Validate that all fish exist and belong to the owner
     const { data: fishList, error } = await supabase
       .from('fish')
-      .select('id, owner')
+      .select('id, owner, tank_id')
       .in('id', fishIds);
 
     if (error) {
@@ -370,62 +836,103 @@ export class FishService {
       );
     }
 
-    // Get tank for the owner (all fish in batch belong to same owner)
-    // This is needed to calculate decoration multipliers
-    const { data: tankData, error: tankError } = await supabase
-      .from('tanks')
-      .select('id')
-      .eq('owner', trimmedOwner)
-      .single();
+    // Tank of each fish (decoration multipliers are per tank)
+    const fishTankIds = new Map<number, number | null>(
+      fishList.map((fish: { id: number; tank_id: number | null }) => [fish.id, fish.tank_id ?? null])
+    );
 
-    if (tankError) {
-      if (tankError.code === 'PGRST116') {
-        // Owner doesn't have a tank - this is acceptable, we'll use multiplier 0
-        // (no active decorations means no bonus XP)
-        logError(`Owner ${trimmedOwner} does not have a tank - will use multiplier 0`, tankError);
-      } else {
-        throw new Error(`Database error when retrieving tank: ${tankError.message}`);
-      }
+    // Reject overfeeding: fish that are still full cannot eat
+    let fishOnChainList;
+    try {
+      fishOnChainList = await Promise.all(fishIds.map((fishId) => this.dojoClient.getFishOnChain(fishId)));
+    } catch (error) {
+      logError(`Failed to get on-chain hunger for fish: [${fishIds.join(', ')}]`, error);
+      throw new OnChainError(
+        `Failed to retrieve on-chain hunger: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
 
-    // Extract tank_id if available, otherwise null (will result in multiplier 0)
-    const tankId: number | null = tankData?.id ?? null;
+    const overfedIds = fishOnChainList.filter((fish) => isOverfed(fish.hunger)).map((fish) => fish.id);
+    if (overfedIds.length > 0) {
+      throw new ConflictError(
+        `Fish with IDs [${overfedIds.join(', ')}] are not hungry (hunger below ${OVERFEED_THRESHOLD})`
+      );
+    }
+
+    // Claim the feed: starts the cooldown of every fish before food is spent or the feed is sent,
+    // so concurrent requests for the same fish can't both get through
+    const feedEventIds = await this.claimFeed(fishIds, trimmedOwner, foodType);
 
-    // Calculate decoration multiplier for the tank
+    // Deduct one food item per fish (no-op for unlimited food)
+    const foodService = new FoodService();
+    try {
+      await foodService.consumeFood(trimmedOwner, foodType, fishIds.length);
+    } catch (error) {
+      await this.releaseFeed(feedEventIds);
+      throw error;
+    }
+
+    // Feed on-chain: lowers hunger and records the feed time
+    let feedTxHash: string;
+    try {
+      feedTxHash = await this.dojoClient.feedFishBatch(fishIds, foodType);
+    } catch (error) {
+      logError(`Failed to feed fish on-chain: [${fishIds.join(', ')}]`, error);
+
+      // Release the claim and refund the food - the fish were not fed
+      await this.releaseFeed(feedEventIds);
+      try {
+        await foodService.addFood(trimmedOwner, foodType, fishIds.length);
+      } catch (refundError) {
+        logError(`Failed to refund ${foodType} food to ${trimmedOwner}`, refundError);
+      }
+
+      throw new OnChainError(
+        `Failed to feed fish on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // Calculate the decoration multiplier of each tank in the batch, once per tank
     // getActiveDecorationsMultiplier returns a decimal (e.g., 0.15 for 15%)
     // We need to convert it to percentage (15) for calculateFishXp()
-    let multiplierPercentage = 0;
-
-    if (tankId !== null) {
+    // Fish outside any tank get multiplier 0 (no active decorations means no bonus XP)
+    const multiplierByTank = new Map<number, number>();
+    for (const tankId of new Set(fishTankIds.values())) {
+      if (tankId === null) {
+        continue;
+      }
       try {
         const multiplierDecimal = await getActiveDecorationsMultiplier(tankId);
         // Convert decimal to percentage: 0.15 -> 15
-        multiplierPercentage = multiplierDecimal * 100;
+        multiplierByTank.set(tankId, multiplierDecimal * 100);
       } catch (error) {
         // If multiplier calculation fails, log error and use 0 (no bonus XP)
         logError(`Failed to calculate decoration multiplier for tank ${tankId}, using 0`, error);
-        multiplierPercentage = 0;
+        multiplierByTank.set(tankId, 0);
       }
     }
 
-    // Get base XP for feeding (currently using default, but can be extended to support food types)
-    const baseXp = getFeedBaseXp(); // Defaults to FoodType.Basic (10 XP)
+    // Get base XP for the food type
+    const baseXp = getFeedBaseXp(foodType);
 
-    // Calculate final XP for each fish applying decoration multiplier
-    // All fish in the batch belong to the same owner/tank, so they all get the same multiplier
-    const finalXp = calculateFishXp(baseXp, multiplierPercentage);
+    // Calculate final XP for each fish applying the multiplier of its own tank
+    const fishXp = fishIds.map((fishId) => {
+      const tankId = fishTankIds.get(fishId) ?? null;
+      const multiplier = tankId === null ? 0 : multiplierByTank.get(tankId) ?? 0;
+      return { fishId, multiplier, xp: calculateFishXp(baseXp, multiplier) };
+    });
 
     // Calculate total XP gained by the player (sum of all fish XP)
-    const totalXpGained = finalXp * fishIds.length;
+    const totalXpGained = fishXp.reduce((total, { xp }) => total + xp, 0);
 
     // Array to store all transaction hashes for sync queue
-    const fishXpTxHashes: { fishId: number; txHash: string }[] = [];
+    const fishXpTxHashes: { fishId: number; multiplier: number; xp: number; txHash: string }[] = [];
 
     // Call gainFishXp on-chain for each fish
     try {
-      for (const fishId of fishIds) {
-        const txHash = await gainFishXp(fishId, finalXp);
-        fishXpTxHashes.push({ fishId, txHash });
+      for (const { fishId, multiplier, xp } of fishXp) {
+        const txHash = await this.dojoClient.gainFishXp(fishId, xp);
+        fishXpTxHashes.push({ fishId, multiplier, xp, txHash });
       }
     } catch (error) {
       logError(`Failed to grant XP to fish on-chain: [${fishIds.join(', ')}]`, error);
@@ -437,7 +944,7 @@ export class FishService {
     // Call gainPlayerXp on-chain with total XP gained
     let playerXpTxHash: string;
     try {
-      playerXpTxHash = await gainPlayerXp(trimmedOwner, totalXpGained);
+      playerXpTxHash = await this.dojoClient.gainPlayerXp(trimmedOwner, totalXpGained);
     } catch (error) {
       logError(`Failed to grant player XP on-chain: ${trimmedOwner}`, error);
       throw new OnChainError(
@@ -479,13 +986,36 @@ export class FishService {
       throw new Error(`Failed to update player total_xp: ${updateError.message}`);
     }
 
+    // Complete the claimed feed events with the XP granted to each fish
+    const { error: feedEventsError } = await supabase
+      .from('feed_events')
+      .upsert(
+        fishXpTxHashes.map(({ fishId, multiplier, xp, txHash }) => ({
+          id: feedEventIds.get(fishId),
+          fish_id: fishId,
+          owner: trimmedOwner,
+          food_type: foodType,
+          xp_granted: xp,
+          multiplier,
+          tx_hash: txHash,
+          feed_tx_hash: feedTxHash,
+        })),
+        { onConflict: 'id' }
+      );
+
+    if (feedEventsError) {
+      // Log error but don't fail the operation - XP was already granted on-chain,
+      // and the claimed rows keep the cooldown running
+      logError('Failed to complete feed events', { error: feedEventsError, fish_ids: fishIds });
+    }
+
     // Add sync queue entries for all on-chain XP operations using SyncService
     const syncService = new SyncService();
 
     // Entry for each fish XP gain
     for (const { fishId, txHash } of fishXpTxHashes) {
       try {
-        await syncService.addToSyncQueue(txHash, 'fish', fishId.toString());
+        await syncService.addToSyncQueue(txHash, 'fish', fishId.toString(), 'gain_fish_xp');
       } catch (syncError) {
         // Log error but don't fail the operation - sync queue is for tracking
         logError(`Failed to add fish XP sync queue entry for fish ${fishId}`, { error: syncError, tx_hash: txHash });
@@ -494,16 +1024,78 @@ export class FishService {
 
     // Entry for player XP gain
     try {
-      await syncService.addToSyncQueue(playerXpTxHash, 'player', trimmedOwner);
+      await syncService.addToSyncQueue(playerXpTxHash, 'player', trimmedOwner, 'gain_player_xp');
     } catch (syncError) {
       // Log error but don't fail the operation - sync queue is for tracking
       logError(`Failed to add player XP sync queue entry for ${trimmedOwner}`, { error: syncError, tx_hash: playerXpTxHash });
     }
 
+    // Entry for the batch feed (hunger update)
+    try {
+      await syncService.addToSyncQueue(feedTxHash, 'player', trimmedOwner, 'feed_fish');
+    } catch (syncError) {
+      // Log error but don't fail the operation - sync queue is for tracking
+      logError(`Failed to add feed sync queue entry for ${trimmedOwner}`, { error: syncError, tx_hash: feedTxHash });
+    }
+
+    // Coin reward for feeding (keyed by the feed tx, so it's paid once per batch)
+    try {
+      const ledgerService = new LedgerService();
+      await ledgerService.rewardFeeding(trimmedOwner, fishIds.length, feedTxHash);
+    } catch (rewardError) {
+      // Log error but don't fail the operation - the fish were already fed
+      logError(`Failed to reward coins for feeding to ${trimmedOwner}`, { error: rewardError, tx_hash: feedTxHash });
+    }
+
     // Return the player XP transaction hash as the main result
     return playerXpTxHash;
   }
 
+  /**
+   * Claims a feed of the given fish (claim_feed): inserts their feed_events rows,
+   * which start the feeding cooldown. The database serializes claims of the same fish.
+   *
+   * @returns ID of the claimed feed_events row of each fish
+   * @throws {ConflictError} If any fish was fed within FEED_COOLDOWN_SECONDS
+   */
+  private async claimFeed(fishIds: number[], owner: string, foodType: FoodType): Promise<Map<number, number>> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc('claim_feed', {
+      p_fish_ids: fishIds,
+      p_owner: owner,
+      p_food_type: foodType,
+      p_cooldown_seconds: FEED_COOLDOWN_SECONDS,
+    });
+
+    if (error) {
+      // 55000: a fish is still on its feeding cooldown
+      if (error.code === '55000') {
+        throw new ConflictError(error.message);
+      }
+      throw new Error(`Failed to claim feed: ${error.message}`);
+    }
+
+    return new Map((data ?? []).map((row: { id: number; fish_id: number }) => [row.fish_id, row.id]));
+  }
+
+  /**
+   * Deletes the feed_events rows of a claim whose feed never happened,
+   * so the fish can be fed again right away.
+   */
+  private async releaseFeed(feedEventIds: Map<number, number>): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('feed_events')
+      .delete()
+      .in('id', [...feedEventIds.values()]);
+
+    if (error) {
+      logError('Failed to release feed claim', { error, fish_ids: [...feedEventIds.keys()] });
+    }
+  }
+
   // ============================================================================
   // FISH BREEDING
   // ============================================================================
@@ -516,10 +1108,13 @@ export class FishService {
    * - Both fish must be adults (state === Adult)
    * - Both fish must be ready to breed (isReadyToBreed === true)
    * - fish1_id must be different from fish2_id
+   * - The pair's coefficient of relationship must not exceed MAX_BREEDING_RELATIONSHIP
+   *   (rules out parent/offspring, siblings and half siblings by default)
    * - Owner's tank must have capacity for the new fish
    * 
-   * Creates a new fish on-chain, saves it to Supabase with parent references,
-   * assigns the fish to the owner's tank, and updates player statistics.
+   * Creates a new fish on-chain, then saves it to Supabase with parent references,
+   * assigned to the owner's tank, together with the player statistics in a single
+   * transaction (save_bred_fish), and rewards the owner BREED_COIN_REWARD coins.
    * 
    * @param fish1Id - ID of first parent fish
    * @param fish2Id - ID of second parent fish
@@ -608,8 +1203,17 @@ export class FishService {
       throw new ValidationError(`Fish with ID ${fish2Id} is not ready to breed`);
     }
 
+    // Validate that the fish are not too closely related
+    const kinship = await buildFishKinship(fish1Id, fish2Id, MAX_BREEDING_RELATIONSHIP);
+    if (!kinship.can_breed) {
+      throw new ValidationError(
+        `Fish with IDs ${fish1Id} and ${fish2Id} are too closely related to breed ` +
+        `(relationship ${kinship.relationship_coefficient}, maximum ${MAX_BREEDING_RELATIONSHIP})`
+      );
+    }
+
     // Get owner's tank and validate capacity
-    const tankService = new TankService();
+    const tankService = new TankService(this.dojoClient);
     const tankId = await tankService.getFirstTankIdByOwner(trimmedOwner);
 
     if (tankId === null) {
@@ -622,7 +1226,7 @@ export class FishService {
     // Call on-chain breed_fish function
     let breedResult;
     try {
-      breedResult = await breedFishOnChain(fish1Id, fish2Id);
+      breedResult = await this.dojoClient.breedFish(fish1Id, fish2Id);
     } catch (error) {
       logError(`Failed to breed fish on-chain: fish1=${fish1Id}, fish2=${fish2Id}`, error);
       throw new OnChainError(
@@ -638,7 +1242,8 @@ export class FishService {
       await syncService.addToSyncQueue(
         breedResult.tx_hash,
         'fish',
-        newFishId.toString()
+        newFishId.toString(),
+        'breed_fish'
       );
     } catch (syncError) {
       // Log error but don't fail the operation - sync queue is for tracking
@@ -659,76 +1264,43 @@ export class FishService {
     // In the future, this could be based on species mapping or on-chain genetics
     const imageUrl = fish1.imageUrl;
 
-    // Insert new fish into Supabase with parent references and tank assignment
-    const { error: insertError } = await supabase
-      .from('fish')
-      .insert({
-        id: newFishId,
-        owner: trimmedOwner,
-        species: inheritedSpecies,
-        image_url: imageUrl,
-        parent1_id: fish1Id,
-        parent2_id: fish2Id,
-        tank_id: tankId,
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      // Handle race condition: if fish with same ID was inserted by another request
-      if (insertError.code === '23505') { // PostgreSQL unique violation
-        // Check if the existing fish belongs to the same owner
-        const { data: existingFish } = await supabase
-          .from('fish')
-          .select('owner')
-          .eq('id', newFishId)
-          .single();
-
-        if (existingFish && existingFish.owner === trimmedOwner) {
-          // Fish already exists and belongs to owner - this is acceptable
-          // Continue to update player stats and return the fish
-        } else {
-          logError('New fish ID conflict with different owner', { error: insertError, fish_id: newFishId });
-          throw new Error(`New fish ID conflict: ${insertError.message}`);
-        }
-      } else {
-        logError('Failed to save newly bred fish to Supabase', { error: insertError, fish_id: newFishId });
-        throw new Error(`Failed to save newly bred fish: ${insertError.message}`);
-      }
-    }
-
-    // Update player statistics: increment offspring_created and fish_count
-    // First, get current values to increment them
-    const { data: playerData, error: playerFetchError } = await supabase
-      .from('players')
-      .select('offspring_created, fish_count')
-      .eq('address', trimmedOwner)
-      .single();
-
-    if (playerFetchError) {
-      if (playerFetchError.code === 'PGRST116') {
+    // Save the new fish (with parent references and tank assignment) and the
+    // owner's offspring_created/fish_count in a single transaction
+    const { error: saveError } = await supabase.rpc('save_bred_fish', {
+      p_fish_id: newFishId,
+      p_owner: trimmedOwner,
+      p_species: inheritedSpecies,
+      p_image_url: imageUrl,
+      p_parent1_id: fish1Id,
+      p_parent2_id: fish2Id,
+      p_tank_id: tankId,
+    });
+
+    if (saveError) {
+      // P0002: the owner has no player row
+      if (saveError.code === 'P0002') {
         throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
       }
-      logError('Failed to fetch player data for stats update', { error: playerFetchError, address: trimmedOwner });
-      throw new Error(`Failed to fetch player data: ${playerFetchError.message}`);
-    }
-
-    if (!playerData) {
-      throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
+      // 23505: the offspring ID already belongs to another owner
+      if (saveError.code === '23505') {
+        logError('New fish ID conflict with different owner', { error: saveError, fish_id: newFishId });
+        throw new Error(`New fish ID conflict: ${saveError.message}`);
+      }
+      logError('Failed to save newly bred fish to Supabase', { error: saveError, fish_id: newFishId });
+      throw new Error(`Failed to save newly bred fish: ${saveError.message}`);
     }
 
-    // Update player statistics
-    const { error: updateError } = await supabase
-      .from('players')
-      .update({
-        offspring_created: (playerData.offspring_created || 0) + 1,
-        fish_count: (playerData.fish_count || 0) + 1,
-      })
-      .eq('address', trimmedOwner);
-
-    if (updateError) {
-      logError('Failed to update player statistics after breeding', { error: updateError, address: trimmedOwner });
-      throw new Error(`Failed to update player statistics: ${updateError.message}`);
+    // Coin reward for breeding (keyed by the breed tx, so it's paid once per offspring)
+    try {
+      const ledgerService = new LedgerService();
+      await ledgerService.rewardBreeding(trimmedOwner, newFishId, breedResult.tx_hash);
+    } catch (rewardError) {
+      // Log error but don't fail the operation - the offspring already exists
+      logError(`Failed to reward coins for breeding to ${trimmedOwner}`, {
+        error: rewardError,
+        tx_hash: breedResult.tx_hash,
+        fish_id: newFishId,
+      });
     }
 
     // Return the complete newly created fish
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Food Service
+ *
+ * Handles business logic for player food inventories: reading stock,
+ * buying food with coins, consuming food when feeding and granting food
+ * back to players. Basic food is unlimited and never touches the inventory table.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import { randomUUID } from 'crypto';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
+import { MAX_FOOD_PURCHASE_QUANTITY } from '@/core/config';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { getCurrencyLedger } from '@/core/utils/currency-ledger';
+import { logError } from '@/core/utils/logger';
+import { FOOD_CATALOG, getFoodItem, isFoodType } from '@/core/utils/food-catalog';
+import type { FoodType, PlayerInventory } from '@/models/food.model';
+
+// ============================================================================
+// FOOD SERVICE
+// ============================================================================
+
+/**
+ * Service for managing player food inventories.
+ */
+export class FoodService {
+
+  // ============================================================================
+  // INVENTORY RETRIEVAL
+  // ============================================================================
+
+  /**
+   * Retrieves the food inventory of a player.
+   * Returns one entry per catalog food type; unlimited food has quantity null
+   * and food the player never owned has quantity 0.
+   *
+   * @param address - Player's Starknet wallet address
+   * @returns Player inventory
+   * @throws {ValidationError} If address is invalid
+   * @throws {NotFoundError} If player doesn't exist
+   */
+  async getInventory(address: string): Promise<PlayerInventory> {
+    const trimmedAddress = this.validateAddress(address);
+    const supabase = getSupabaseClient();
+
+    await this.ensurePlayerExists(trimmedAddress);
+
+    const { data: stock, error } = await supabase
+      .from('player_food_inventory')
+      .select('food_type, quantity')
+      .eq('player_address', trimmedAddress);
+
+    if (error) {
+      throw new Error(`Database error when retrieving food inventory: ${error.message}`);
+    }
+
+    const quantities = new Map<string, number>(
+      (stock || []).map((row: { food_type: string; quantity: number }) => [row.food_type, row.quantity])
+    );
+
+    return {
+      address: trimmedAddress,
+      food: Object.values(FOOD_CATALOG).map((item) => ({
+        ...item,
+        quantity: item.unlimited ? null : quantities.get(item.type) ?? 0,
+      })),
+    };
+  }
+
+  // ============================================================================
+  // FOOD SHOP
+  // ============================================================================
+
+  /**
+   * Buys food with coins and adds it to the player's inventory.
+   *
+   * Flow:
+   * 1. Validate address, food type and quantity (1 to MAX_FOOD_PURCHASE_QUANTITY)
+   * 2. Charge price * quantity coins through the currency ledger
+   * 3. Add the food to the inventory (add_food); if that fails the coins are refunded
+   *
+   * @param address - Buyer's Starknet wallet address
+   * @param foodType - Food type to buy (unlimited food is not sold)
+   * @param quantity - Number of items to buy
+   * @returns The buyer's inventory after the purchase
+   * @throws {ValidationError} If address, food type or quantity is invalid, or the food is unlimited
+   * @throws {NotFoundError} If player doesn't exist
+   * @throws {ConflictError} If the player's balance is lower than the total price
+   */
+  async purchaseFood(address: string, foodType: FoodType, quantity: number): Promise<PlayerInventory> {
+    const trimmedAddress = this.validateAddress(address);
+
+    if (!isFoodType(foodType)) {
+      throw new ValidationError(
+        `Invalid food type: ${foodType}. Must be one of: ${Object.keys(FOOD_CATALOG).join(', ')}`
+      );
+    }
+
+    this.validateQuantity(quantity);
+    if (quantity > MAX_FOOD_PURCHASE_QUANTITY) {
+      throw new ValidationError(`Cannot buy more than ${MAX_FOOD_PURCHASE_QUANTITY} food items at once`);
+    }
+
+    const item = getFoodItem(foodType);
+    if (item.unlimited || item.price === null) {
+      throw new ValidationError(`${foodType} food is unlimited and can't be bought`);
+    }
+
+    await this.ensurePlayerExists(trimmedAddress);
+
+    // Charge first: a purchase the player can't afford never touches the inventory
+    const ledger = getCurrencyLedger();
+    const totalPrice = item.price * quantity;
+    const purchaseKey = `food_purchase:${randomUUID()}`;
+    await ledger.debit(trimmedAddress, totalPrice, {
+      type: 'food_purchase',
+      idempotencyKey: purchaseKey,
+      description: `Bought ${quantity} ${item.name}`,
+    });
+
+    try {
+      await this.addFood(trimmedAddress, foodType, quantity);
+    } catch (error) {
+      try {
+        await ledger.credit(trimmedAddress, totalPrice, {
+          type: 'food_refund',
+          idempotencyKey: `${purchaseKey}:refund`,
+          description: `Refund for ${quantity} ${item.name} (inventory update failed)`,
+        });
+      } catch (refundError) {
+        logError(`Failed to refund food purchase ${purchaseKey}`, { error: refundError, address: trimmedAddress, price: totalPrice });
+      }
+      throw error;
+    }
+
+    return this.getInventory(trimmedAddress);
+  }
+
+  // ============================================================================
+  // INVENTORY UPDATES
+  // ============================================================================
+
+  /**
+   * Deducts food from a player's inventory.
+   * Does nothing for unlimited food types.
+   *
+   * The update only applies if the stock is unchanged since it was read,
+   * so two concurrent feeds cannot spend the same food twice.
+   *
+   * @param address - Player's Starknet wallet address
+   * @param foodType - Food type to consume
+   * @param quantity - Number of items to consume
+   * @throws {ValidationError} If address or quantity is invalid
+   * @throws {ConflictError} If the player doesn't have enough food, or the stock changed concurrently
+   */
+  async consumeFood(address: string, foodType: FoodType, quantity: number): Promise<void> {
+    const trimmedAddress = this.validateAddress(address);
+    this.validateQuantity(quantity);
+
+    if (getFoodItem(foodType).unlimited) {
+      return;
+    }
+
+    const supabase = getSupabaseClient();
+    const available = await this.getStock(trimmedAddress, foodType);
+
+    if (available < quantity) {
+      throw new ConflictError(
+        `Not enough ${foodType} food: ${available} available, ${quantity} required`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('player_food_inventory')
+      .update({ quantity: available - quantity })
+      .eq('player_address', trimmedAddress)
+      .eq('food_type', foodType)
+      .eq('quantity', available)
+      .select('quantity')
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ConflictError(`${foodType} food inventory changed concurrently, please retry`);
+      }
+      throw new Error(`Database error when consuming food: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new ConflictError(`${foodType} food inventory changed concurrently, please retry`);
+    }
+  }
+
+  /**
+   * Adds food to a player's inventory (rewards, refunds of failed feeds).
+   * Does nothing for unlimited food types.
+   *
+   * @param address - Player's Starknet wallet address
+   * @param foodType - Food type to add
+   * @param quantity - Number of items to add
+   * @throws {ValidationError} If address or quantity is invalid
+   */
+  async addFood(address: string, foodType: FoodType, quantity: number): Promise<void> {
+    const trimmedAddress = this.validateAddress(address);
+    this.validateQuantity(quantity);
+
+    if (getFoodItem(foodType).unlimited) {
+      return;
+    }
+
+    // Atomic upsert: concurrent additions to the same stock are never lost
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc('add_food', {
+      p_player_address: trimmedAddress,
+      p_food_type: foodType,
+      p_quantity: quantity,
+    });
+
+    if (error) {
+      throw new Error(`Database error when adding food: ${error.message}`);
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Throws NotFoundError if the player doesn't exist.
+   */
+  private async ensurePlayerExists(address: string): Promise<void> {
+    const { data: player, error: playerError } = await getSupabaseClient()
+      .from('players')
+      .select('address')
+      .eq('address', address)
+      .single();
+
+    if (playerError) {
+      if (playerError.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${address} not found`);
+      }
+      throw new Error(`Database error when retrieving player: ${playerError.message}`);
+    }
+
+    if (!player) {
+      throw new NotFoundError(`Player with address ${address} not found`);
+    }
+  }
+
+  /**
+   * Current stock of a food type (0 if the player has no row for it).
+   */
+  private async getStock(address: string, foodType: FoodType): Promise<number> {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('player_food_inventory')
+      .select('quantity')
+      .eq('player_address', address)
+      .eq('food_type', foodType)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return 0;
+      }
+      throw new Error(`Database error when retrieving food inventory: ${error.message}`);
+    }
+
+    return data?.quantity ?? 0;
+  }
+
+  private validateAddress(address: string): string {
+    if (!address || address.trim().length === 0) {
+      throw new ValidationError('Address is required');
+    }
+
+    const trimmedAddress = address.trim();
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(trimmedAddress)) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    return trimmedAddress;
+  }
+
+  private validateQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new ValidationError(`Invalid food quantity: ${quantity}`);
+    }
+  }
+}
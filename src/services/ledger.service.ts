@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Ledger Service
+ *
+ * Handles the player-facing side of the coin economy: balances, transaction
+ * history and coin rewards for game events (registration, feeding, breeding,
+ * tournament wins).
+ *
+ * Coins are kept in a double-entry ledger (see currency-ledger.ts). Rewards are
+ * paid from the system rewards account and every reward uses an idempotency key
+ * derived from the event that produced it (transaction hash, tournament ID), so
+ * retrying an operation never pays the same reward twice.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import { ValidationError, NotFoundError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { getCurrencyLedger } from '@/core/utils/currency-ledger';
+import {
+  STARTING_COIN_BALANCE,
+  FEED_COIN_REWARD,
+  BREED_COIN_REWARD,
+  TOURNAMENT_WIN_COIN_REWARD,
+} from '@/core/config';
+import type { PlayerBalance, LedgerHistoryPage } from '@/models/ledger.model';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// ============================================================================
+// LEDGER SERVICE
+// ============================================================================
+
+/**
+ * Service for player coin balances and rewards.
+ *
+ * Handles:
+ * - Balance and transaction history lookups
+ * - Starting grant for new players
+ * - Coin rewards for feeding, breeding and tournament wins
+ */
+export class LedgerService {
+  // ============================================================================
+  // BALANCE & HISTORY
+  // ============================================================================
+
+  /**
+   * Gets the coin balance of a player.
+   *
+   * @param address - Player's Starknet wallet address
+   * @returns PlayerBalance
+   * @throws {ValidationError} If address is invalid
+   * @throws {NotFoundError} If player doesn't exist
+   */
+  async getBalance(address: string): Promise<PlayerBalance> {
+    const trimmedAddress = await this.validatePlayer(address);
+    const balance = await getCurrencyLedger().getBalance(trimmedAddress);
+
+    return { address: trimmedAddress, balance };
+  }
+
+  /**
+   * Gets a page of a player's ledger entries, newest first.
+   *
+   * @param address - Player's Starknet wallet address
+   * @param page - Page number (1-based, defaults to 1)
+   * @param limit - Entries per page (defaults to 20, max 100)
+   * @returns LedgerHistoryPage
+   * @throws {ValidationError} If address or pagination is invalid
+   * @throws {NotFoundError} If player doesn't exist
+   */
+  async getTransactionHistory(
+    address: string,
+    page: number = 1,
+    limit: number = DEFAULT_PAGE_SIZE
+  ): Promise<LedgerHistoryPage> {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ValidationError('Page must be a positive integer');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const trimmedAddress = await this.validatePlayer(address);
+    const { entries, total } = await getCurrencyLedger().getHistory(trimmedAddress, page, limit);
+
+    return { address: trimmedAddress, entries, total, page, limit };
+  }
+
+  // ============================================================================
+  // REWARDS
+  // ============================================================================
+
+  /**
+   * Grants the starting coin balance to a newly registered player.
+   * Granted at most once per address.
+   *
+   * @param address - Player's Starknet wallet address
+   */
+  async grantStartingBalance(address: string): Promise<void> {
+    if (STARTING_COIN_BALANCE <= 0) {
+      return;
+    }
+
+    const trimmedAddress = address.trim();
+    await getCurrencyLedger().credit(trimmedAddress, STARTING_COIN_BALANCE, {
+      type: 'starting_grant',
+      idempotencyKey: `starting_grant:${trimmedAddress}`,
+      description: 'Starting coins',
+    });
+  }
+
+  /**
+   * Rewards a player for feeding fish (FEED_COIN_REWARD per fish).
+   *
+   * @param address - Player's Starknet wallet address
+   * @param fishCount - Number of fish fed
+   * @param txHash - Hash of the feed transaction (makes the reward idempotent)
+   */
+  async rewardFeeding(address: string, fishCount: number, txHash: string): Promise<void> {
+    const amount = FEED_COIN_REWARD * fishCount;
+    if (amount <= 0) {
+      return;
+    }
+
+    await getCurrencyLedger().credit(address.trim(), amount, {
+      type: 'feed_reward',
+      idempotencyKey: `feed_reward:${txHash}`,
+      description: `Fed ${fishCount} fish`,
+    });
+  }
+
+  /**
+   * Rewards a player for breeding a new fish.
+   *
+   * @param address - Player's Starknet wallet address
+   * @param offspringId - ID of the bred fish
+   * @param txHash - Hash of the breed transaction (makes the reward idempotent)
+   */
+  async rewardBreeding(address: string, offspringId: number, txHash: string): Promise<void> {
+    if (BREED_COIN_REWARD <= 0) {
+      return;
+    }
+
+    await getCurrencyLedger().credit(address.trim(), BREED_COIN_REWARD, {
+      type: 'breed_reward',
+      idempotencyKey: `breed_reward:${txHash}`,
+      description: `Bred fish ${offspringId}`,
+    });
+  }
+
+  /**
+   * Rewards a player for winning a tournament.
+   * Each player is rewarded at most once per tournament.
+   *
+   * @param address - Winner's Starknet wallet address
+   * @param tournamentId - Tournament identifier
+   * @returns The winner's balance after the reward
+   * @throws {ValidationError} If address or tournament ID is invalid
+   * @throws {NotFoundError} If player doesn't exist
+   */
+  async rewardTournamentWin(address: string, tournamentId: string): Promise<PlayerBalance> {
+    if (!tournamentId || tournamentId.trim().length === 0) {
+      throw new ValidationError('Tournament ID is required');
+    }
+
+    const trimmedAddress = await this.validatePlayer(address);
+    const trimmedTournamentId = tournamentId.trim();
+    const ledger = getCurrencyLedger();
+
+    await ledger.credit(trimmedAddress, TOURNAMENT_WIN_COIN_REWARD, {
+      type: 'tournament_reward',
+      idempotencyKey: `tournament_reward:${trimmedTournamentId}:${trimmedAddress}`,
+      description: `Won tournament ${trimmedTournamentId}`,
+    });
+
+    return { address: trimmedAddress, balance: await ledger.getBalance(trimmedAddress) };
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Validates an address and checks that the player exists.
+   * Returns the trimmed address.
+   */
+  private async validatePlayer(address: string): Promise<string> {
+    if (!address || address.trim().length === 0) {
+      throw new ValidationError('Address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(address.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    const trimmedAddress = address.trim();
+    const supabase = getSupabaseClient();
+
+    const { data: player, error } = await supabase
+      .from('players')
+      .select('address')
+      .eq('address', trimmedAddress)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${trimmedAddress} not found`);
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!player) {
+      throw new NotFoundError(`Player with address ${trimmedAddress} not found`);
+    }
+
+    return trimmedAddress;
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * @fileoverview Marketplace Service
+ *
+ * Handles player-to-player sales of fish and decorations: creating, cancelling,
+ * browsing and buying listings.
+ *
+ * Buying a listing:
+ * 1. The listing is reserved for the buyer, so no one else can buy it meanwhile
+ * 2. The buyer pays the price into the marketplace escrow account (currency ledger)
+ * 3. The asset is transferred on-chain (the payment is refunded and the reservation
+ *    released if this fails)
+ * 4. complete_listing_sale moves ownership in Supabase, updates both players'
+ *    fish_count and marks the listing sold, all in one transaction
+ * 5. The escrow pays the seller
+ *
+ * Fish in breeding cooldown (adults not ready to breed) can't be listed.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import { randomUUID } from 'crypto';
+import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { logError } from '@/core/utils/logger';
+import { getDojoClient } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { getCurrencyLedger, SYSTEM_MARKETPLACE_ACCOUNT } from '@/core/utils/currency-ledger';
+import { FishService } from '@/services/fish.service';
+import { DecorationService } from '@/services/decoration.service';
+import { SyncService } from '@/services/sync.service';
+import { FishState } from '@/models/fish.model';
+import type {
+  Listing,
+  ListingAssetType,
+  ListingStatus,
+  CreateListingDto,
+  ListingFilters,
+  ListingPage,
+} from '@/models/marketplace.model';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VALID_ASSET_TYPES: ListingAssetType[] = ['fish', 'decoration'];
+const VALID_STATUSES: ListingStatus[] = ['active', 'reserved', 'sold', 'cancelled'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// ============================================================================
+// MARKETPLACE SERVICE
+// ============================================================================
+
+/**
+ * Service for marketplace listings.
+ *
+ * Handles:
+ * - Listing owned fish and decorations for sale
+ * - Cancelling listings
+ * - Browsing listings with filters and pagination
+ * - Buying listings (payment, on-chain transfer and ownership change)
+ */
+export class MarketplaceService {
+  constructor(private readonly dojoClient: DojoClient = getDojoClient()) {}
+
+  // ============================================================================
+  // LISTING RETRIEVAL
+  // ============================================================================
+
+  /**
+   * Retrieves a listing by its ID.
+   *
+   * @param id - Listing ID
+   * @returns Listing
+   * @throws {ValidationError} If ID is invalid
+   * @throws {NotFoundError} If listing doesn't exist
+   */
+  async getListingById(id: number): Promise<Listing> {
+    if (!id || id <= 0 || !Number.isInteger(id)) {
+      throw new ValidationError('Invalid listing ID');
+    }
+
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('marketplace_listings')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError(`Listing with ID ${id} not found`);
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Listing with ID ${id} not found`);
+    }
+
+    return this.mapToListing(data);
+  }
+
+  /**
+   * Lists marketplace listings, newest first.
+   * Only active listings are returned unless another status is requested.
+   *
+   * @param filters - Optional asset type, seller and status filters, and pagination
+   * @returns Page of listings with the total number of matches
+   * @throws {ValidationError} If a filter or pagination value is invalid
+   */
+  async listListings(filters: ListingFilters = {}): Promise<ListingPage> {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+    const status = filters.status ?? 'active';
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ValidationError('Page must be a positive integer');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    if (!VALID_STATUSES.includes(status)) {
+      throw new ValidationError(`Invalid status: ${status}. Must be one of: ${VALID_STATUSES.join(', ')}`);
+    }
+
+    if (filters.asset_type && !VALID_ASSET_TYPES.includes(filters.asset_type)) {
+      throw new ValidationError(
+        `Invalid asset type: ${filters.asset_type}. Must be one of: ${VALID_ASSET_TYPES.join(', ')}`
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('marketplace_listings')
+      .select('*', { count: 'exact' })
+      .eq('status', status);
+
+    if (filters.asset_type) {
+      query = query.eq('asset_type', filters.asset_type);
+    }
+    if (filters.seller) {
+      query = query.eq('seller', filters.seller.trim());
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logError('Failed to list marketplace listings', { error, filters });
+      throw new Error(`Failed to list marketplace listings: ${error.message}`);
+    }
+
+    return {
+      items: (data ?? []).map((row: any) => this.mapToListing(row)),
+      total: count ?? 0,
+      page,
+      limit,
+    };
+  }
+
+  // ============================================================================
+  // LISTING MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Lists an owned fish or decoration for sale.
+   *
+   * @param seller - Seller's Starknet wallet address (the authenticated player)
+   * @param dto - Asset type, asset ID and price in coins
+   * @returns The new listing
+   * @throws {ValidationError} If the input is invalid or the asset doesn't belong to seller
+   * @throws {NotFoundError} If the asset doesn't exist
+   * @throws {ConflictError} If the asset is already listed or the fish is in breeding cooldown
+   */
+  async createListing(seller: string, dto: CreateListingDto): Promise<Listing> {
+    const trimmedSeller = this.validateAddress(seller, 'Seller');
+    const { asset_type: assetType, asset_id: assetId, price } = dto;
+
+    if (!VALID_ASSET_TYPES.includes(assetType)) {
+      throw new ValidationError(`Invalid asset type: ${assetType}. Must be one of: ${VALID_ASSET_TYPES.join(', ')}`);
+    }
+
+    if (!assetId || assetId <= 0 || !Number.isInteger(assetId)) {
+      throw new ValidationError(`Invalid asset ID: ${assetId}`);
+    }
+
+    if (!Number.isInteger(price) || price <= 0) {
+      throw new ValidationError(`Invalid price: ${price}. Must be a positive integer number of coins`);
+    }
+
+    if (assetType === 'fish') {
+      const fishService = new FishService(this.dojoClient);
+      const fish = await fishService.getFishById(assetId);
+
+      if (fish.owner !== trimmedSeller) {
+        throw new ValidationError(`Fish with ID ${assetId} does not belong to owner ${trimmedSeller}`);
+      }
+
+      // Adults that are not ready to breed are recovering from breeding
+      if (fish.state === FishState.Adult && !fish.isReadyToBreed) {
+        throw new ConflictError(`Fish with ID ${assetId} is in breeding cooldown and can't be listed`);
+      }
+    } else {
+      const decorationService = new DecorationService(this.dojoClient);
+      const decoration = await decorationService.getDecorationById(assetId);
+
+      if (decoration.owner !== trimmedSeller) {
+        throw new ValidationError(`Decoration with ID ${assetId} does not belong to owner ${trimmedSeller}`);
+      }
+    }
+
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('marketplace_listings')
+      .insert({
+        seller: trimmedSeller,
+        asset_type: assetType,
+        asset_id: assetId,
+        price,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // 23505: idx_marketplace_listings_active_asset (asset already has an active listing)
+      if (error.code === '23505') {
+        throw new ConflictError(`${this.assetLabel(assetType)} with ID ${assetId} is already listed`);
+      }
+      throw new Error(`Failed to create listing: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Listing creation failed - no data returned');
+    }
+
+    return this.mapToListing(data);
+  }
+
+  /**
+   * Cancels an active listing. Only the seller can cancel it.
+   *
+   * @param id - Listing ID
+   * @param seller - Seller's Starknet wallet address (the authenticated player)
+   * @returns The cancelled listing
+   * @throws {ValidationError} If input is invalid or the listing doesn't belong to seller
+   * @throws {NotFoundError} If listing doesn't exist
+   * @throws {ConflictError} If the listing is no longer active
+   */
+  async cancelListing(id: number, seller: string): Promise<Listing> {
+    const trimmedSeller = this.validateAddress(seller, 'Seller');
+    const listing = await this.getListingById(id);
+
+    if (listing.seller !== trimmedSeller) {
+      throw new ValidationError(`Listing with ID ${id} does not belong to seller ${trimmedSeller}`);
+    }
+
+    if (listing.status !== 'active') {
+      throw new ConflictError(`Listing with ID ${id} is already ${listing.status}`);
+    }
+
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('marketplace_listings')
+      .update({ status: 'cancelled', closed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'active')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to cancel listing ${id}: ${error.message}`);
+    }
+
+    // Sold or cancelled between the read and the update
+    if (!data || data.length === 0) {
+      throw new ConflictError(`Listing with ID ${id} is no longer active`);
+    }
+
+    return this.mapToListing(data[0]);
+  }
+
+  // ============================================================================
+  // BUYING
+  // ============================================================================
+
+  /**
+   * Buys an active listing.
+   *
+   * Flow:
+   * 1. Validate the buyer and the listing (active, not the buyer's own)
+   * 2. Reserve the listing for the buyer (only one purchase can reserve it)
+   * 3. Pay the price into the marketplace escrow
+   * 4. Transfer the asset on-chain (refunding the buyer and releasing the reservation if it fails)
+   * 5. Add the transfer to the sync queue
+   * 6. Complete the sale in Supabase (ownership, fish_count, listing status)
+   * 7. Pay the seller from the escrow
+   *
+   * Once the asset has moved on-chain the payment is never refunded: if completing the
+   * sale fails, the coins stay in escrow, the listing stays reserved and the sync queue
+   * entry is flagged for manual review.
+   *
+   * @param id - Listing ID
+   * @param buyer - Buyer's Starknet wallet address (the authenticated player)
+   * @returns The sold listing
+   * @throws {ValidationError} If input is invalid or the buyer is the seller
+   * @throws {NotFoundError} If listing or buyer doesn't exist
+   * @throws {ConflictError} If the listing is no longer available or the buyer can't afford it
+   * @throws {OnChainError} If the on-chain transfer fails
+   * @throws {Error} If the asset moved on-chain but completing the sale failed (flagged for review)
+   */
+  async buyListing(id: number, buyer: string): Promise<Listing> {
+    const trimmedBuyer = this.validateAddress(buyer, 'Buyer');
+    const listing = await this.getListingById(id);
+
+    if (listing.status !== 'active') {
+      throw new ConflictError(`Listing with ID ${id} is already ${listing.status}`);
+    }
+
+    if (listing.seller === trimmedBuyer) {
+      throw new ValidationError('Cannot buy your own listing');
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Validate that the buyer exists
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('address')
+      .eq('address', trimmedBuyer)
+      .single();
+
+    if (playerError) {
+      if (playerError.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${trimmedBuyer} not found`);
+      }
+      throw new Error(`Database error: ${playerError.message}`);
+    }
+
+    if (!player) {
+      throw new NotFoundError(`Player with address ${trimmedBuyer} not found`);
+    }
+
+    // 1. Reserve the listing (only succeeds while it is still active)
+    const { data: reserved, error: reserveError } = await supabase
+      .from('marketplace_listings')
+      .update({ status: 'reserved', buyer: trimmedBuyer })
+      .eq('id', id)
+      .eq('status', 'active')
+      .select();
+
+    if (reserveError) {
+      throw new Error(`Failed to reserve listing ${id}: ${reserveError.message}`);
+    }
+
+    // Bought, reserved or cancelled between the read and the update
+    if (!reserved || reserved.length === 0) {
+      throw new ConflictError(`Listing with ID ${id} is no longer available`);
+    }
+
+    // 2. Pay into escrow (throws ConflictError if the balance is too low)
+    const ledger = getCurrencyLedger();
+    const paymentKey = `marketplace_purchase:${id}:${randomUUID()}`;
+    try {
+      await ledger.transfer(trimmedBuyer, SYSTEM_MARKETPLACE_ACCOUNT, listing.price, {
+        type: 'marketplace_purchase',
+        idempotencyKey: paymentKey,
+        description: `Bought ${listing.asset_type} ${listing.asset_id} (listing ${id})`,
+      });
+    } catch (error) {
+      await this.releaseReservation(id, trimmedBuyer);
+      throw error;
+    }
+
+    // 3. Transfer on-chain
+    let transferTxHash: string;
+    try {
+      transferTxHash = listing.asset_type === 'fish'
+        ? await this.dojoClient.transferFish(listing.asset_id, listing.seller, trimmedBuyer)
+        : await this.dojoClient.transferDecoration(listing.asset_id, listing.seller, trimmedBuyer);
+    } catch (error) {
+      logError(`Failed to transfer ${listing.asset_type} ${listing.asset_id} on-chain for listing ${id}`, error);
+      await this.refundBuyer(listing, trimmedBuyer, paymentKey);
+      await this.releaseReservation(id, trimmedBuyer);
+      throw new OnChainError(
+        `Failed to transfer ${listing.asset_type} on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // 4. Move ownership and close the listing
+    const { error: saleError } = await supabase.rpc('complete_listing_sale', {
+      p_listing_id: id,
+      p_buyer: trimmedBuyer,
+    });
+
+    // 5. Add the transfer to the sync queue. The asset has already moved on-chain, so a failed
+    // sale is flagged for manual review: the payment stays in escrow and is not refunded.
+    const reviewReason = saleError
+      ? `On-chain transfer of ${listing.asset_type} ${listing.asset_id} for listing ${id} succeeded ` +
+        `but complete_listing_sale failed: ${saleError.message}. Payment of ${listing.price} held in escrow.`
+      : undefined;
+
+    try {
+      const syncService = new SyncService();
+      await syncService.addToSyncQueue(
+        transferTxHash,
+        listing.asset_type,
+        listing.asset_id.toString(),
+        listing.asset_type === 'fish' ? 'transfer_fish' : 'transfer_decoration',
+        reviewReason
+      );
+    } catch (syncError) {
+      // Log error but don't fail the operation - sync queue is for tracking
+      logError('Failed to add marketplace transfer to sync queue', {
+        error: syncError,
+        tx_hash: transferTxHash,
+        listing_id: id,
+        review_reason: reviewReason,
+      });
+    }
+
+    if (saleError) {
+      logError('Failed to complete listing sale after on-chain transfer', {
+        error: saleError,
+        listing_id: id,
+        tx_hash: transferTxHash,
+      });
+      throw new Error(
+        `${this.assetLabel(listing.asset_type)} ${listing.asset_id} was transferred on-chain (tx: ${transferTxHash}) ` +
+        `but completing the sale of listing ${id} failed: ${saleError.message}. ` +
+        'The payment is held in escrow and the sale was flagged for manual review.'
+      );
+    }
+
+    // 6. Pay the seller
+    try {
+      await ledger.transfer(SYSTEM_MARKETPLACE_ACCOUNT, listing.seller, listing.price, {
+        type: 'marketplace_payout',
+        idempotencyKey: `marketplace_payout:${id}`,
+        description: `Sold ${listing.asset_type} ${listing.asset_id} (listing ${id})`,
+      });
+    } catch (payoutError) {
+      // The coins stay in escrow; the payout key makes a manual retry safe
+      logError(`Failed to pay seller ${listing.seller} for listing ${id}`, payoutError);
+    }
+
+    return await this.getListingById(id);
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Returns a buyer's escrowed payment after a failed purchase.
+   * Failures are logged; the refund key makes a manual retry safe.
+   */
+  private async refundBuyer(listing: Listing, buyer: string, paymentKey: string): Promise<void> {
+    try {
+      await getCurrencyLedger().transfer(SYSTEM_MARKETPLACE_ACCOUNT, buyer, listing.price, {
+        type: 'marketplace_refund',
+        idempotencyKey: `${paymentKey}:refund`,
+        description: `Refund for listing ${listing.id}`,
+      });
+    } catch (refundError) {
+      logError('Failed to refund marketplace purchase', {
+        error: refundError,
+        listing_id: listing.id,
+        buyer,
+        price: listing.price,
+      });
+    }
+  }
+
+  /**
+   * Puts a listing reserved by a failed purchase back on sale.
+   * Failures are logged; the listing then stays reserved until released by hand.
+   */
+  private async releaseReservation(id: number, buyer: string): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('marketplace_listings')
+      .update({ status: 'active', buyer: null })
+      .eq('id', id)
+      .eq('status', 'reserved')
+      .eq('buyer', buyer);
+
+    if (error) {
+      logError('Failed to release marketplace listing reservation', { error, listing_id: id, buyer });
+    }
+  }
+
+  /**
+   * Validates a Starknet address and returns it trimmed.
+   */
+  private validateAddress(address: string, role: string): string {
+    if (!address || address.trim().length === 0) {
+      throw new ValidationError(`${role} address is required`);
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(address.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    return address.trim();
+  }
+
+  private assetLabel(assetType: ListingAssetType): string {
+    return assetType === 'fish' ? 'Fish' : 'Decoration';
+  }
+
+  /**
+   * Maps a marketplace_listings row from Supabase to a Listing.
+   */
+  private mapToListing(row: any): Listing {
+    return {
+      id: Number(row.id),
+      seller: row.seller,
+      asset_type: row.asset_type as ListingAssetType,
+      asset_id: row.asset_id,
+      price: Number(row.price),
+      status: row.status as ListingStatus,
+      buyer: row.buyer ?? null,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      closed_at: row.closed_at ? new Date(row.closed_at) : null,
+    };
+  }
+}
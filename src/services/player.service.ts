@@ -12,19 +12,15 @@
 import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError } from '@/core/utils/logger';
-import {
-  registerPlayer as registerPlayerOnChain,
-  mintTank,
-  mintFish,
-  generateRandomDna,
-} from '@/core/utils/dojo-client';
+import { getDojoClient, generateRandomDna } from '@/core/utils/dojo-client';
 import { SyncService } from '@/services/sync.service';
 import { TankService } from '@/services/tank.service';
 import { FishService } from '@/services/fish.service';
 import { DecorationService } from '@/services/decoration.service';
+import { LedgerService } from '@/services/ledger.service';
 import type { Player, CreatePlayerDto, PlayerProfile } from '@/models/player.model';
 import type { Tank } from '@/models/tank.model';
-import type { MintTankResult, MintFishResult } from '@/core/types';
+import type { DojoClient, MintTankResult, MintFishResult } from '@/core/types';
 
 // ============================================================================
 // CONSTANTS
@@ -47,6 +43,8 @@ const STARTER_PACK_FISH_IMAGE_URL = '/images/fish/starter-fish.png';
  * - Synchronization between off-chain and on-chain data
  */
 export class PlayerService {
+  constructor(private readonly dojoClient: DojoClient = getDojoClient()) {}
+
   // ============================================================================
   // PLAYER REGISTRATION
   // ============================================================================
@@ -56,6 +54,7 @@ export class PlayerService {
    * 
    * If player doesn't exist:
    * - Creates player record in Supabase with default values
+   * - Grants the starting coin balance (STARTING_COIN_BALANCE)
    * - Registers player on-chain via Dojo contract
    * - Returns the created player
    * 
@@ -136,10 +135,19 @@ export class PlayerService {
       throw new Error('Player creation failed - no data returned');
     }
 
+    // Grant starting coins (idempotent per address)
+    try {
+      const ledgerService = new LedgerService();
+      await ledgerService.grantStartingBalance(newPlayerDto.address);
+    } catch (grantError) {
+      // Log error but don't fail registration - the grant can be posted again later
+      logError('Failed to grant starting coins', { error: grantError, address: newPlayerDto.address });
+    }
+
     // Register player on-chain
     let registerTxHash: string;
     try {
-      registerTxHash = await registerPlayerOnChain(address);
+      registerTxHash = await this.dojoClient.registerPlayer(address);
     } catch (error) {
       // If on-chain registration fails, we should still have the Supabase record
       // but we throw an error to indicate the operation wasn't fully successful
@@ -152,7 +160,7 @@ export class PlayerService {
     // Add player registration to sync queue
     try {
       const syncService = new SyncService();
-      await syncService.addToSyncQueue(registerTxHash, 'player', address.trim());
+      await syncService.addToSyncQueue(registerTxHash, 'player', address.trim(), 'register_player');
     } catch (syncError) {
       // Log error but don't fail the operation - sync queue is for tracking
       logError('Failed to add player registration to sync queue', { 
@@ -199,8 +207,10 @@ export class PlayerService {
    * Flow:
    * 1. Validate player exists and has no starter pack yet
    * 2. Mint all assets on-chain (tank + 2 fish)
-   * 3. Save all assets to Supabase with tank_id assignment
-   * 4. Update player's fish_count
+   * 3. Save all assets to Supabase with tank_id assignment and update the
+   *    player's fish_count, in a single transaction (save_starter_pack)
+   * 4. Add the three mints to the sync queue, flagged for manual review if
+   *    the save failed (the assets already exist on-chain)
    * 
    * Note: Fish are automatically assigned to the newly created tank via tank_id.
    * 
@@ -278,7 +288,7 @@ export class PlayerService {
 
     try {
       // Mint tank on-chain
-      tankResult = await mintTank(trimmedAddress, STARTER_PACK_TANK_CAPACITY);
+      tankResult = await this.dojoClient.mintTank(trimmedAddress, STARTER_PACK_TANK_CAPACITY);
     } catch (error) {
       throw new OnChainError(
         `Failed to mint tank on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -287,7 +297,7 @@ export class PlayerService {
 
     try {
       // Mint fish #1 on-chain
-      fish1Result = await mintFish(
+      fish1Result = await this.dojoClient.mintFish(
         trimmedAddress,
         STARTER_PACK_FISH_SPECIES,
         generateRandomDna()
@@ -301,7 +311,7 @@ export class PlayerService {
 
     try {
       // Mint fish #2 on-chain
-      fish2Result = await mintFish(
+      fish2Result = await this.dojoClient.mintFish(
         trimmedAddress,
         STARTER_PACK_FISH_SPECIES,
         generateRandomDna()
@@ -313,215 +323,98 @@ export class PlayerService {
       );
     }
 
-    // PHASE 3: Save all assets to Supabase with rollback on failure
-    // Track what we've saved so we can rollback if needed
-    let tankSaved = false;
-    let fish1Saved = false;
-    let fish2Saved = false;
-
-    try {
-      // Save tank to Supabase
-      const { data: tankData, error: tankInsertError } = await supabase
-        .from('tanks')
-        .insert({
-          id: tankResult.tank_id,
-          owner: trimmedAddress,
-          name: 'Starter Tank',
-        })
-        .select();
-
-      if (tankInsertError) {
-        // Handle race condition: if tank with same ID was inserted by another request
-        if (tankInsertError.code === '23505') { // PostgreSQL unique violation
-          // Verify if this is the same owner (should not happen, but check anyway)
-          const { data: existingTank } = await supabase
-            .from('tanks')
-            .select('owner')
-            .eq('id', tankResult.tank_id)
-            .single();
-          
-          if (existingTank && existingTank.owner === trimmedAddress) {
-            // Same owner, consider it success (idempotent operation)
-            tankSaved = true;
-          } else {
-            // Different owner or other issue - this should not happen
-            logError('Tank ID conflict with different owner', { error: tankInsertError, tank_id: tankResult.tank_id });
-            throw new Error(`Tank ID conflict: ${tankInsertError.message}`);
-          }
-        } else {
-          logError('Failed to save tank to Supabase', { error: tankInsertError, tank_id: tankResult.tank_id });
-          throw new Error(`Failed to save tank: ${tankInsertError.message}`);
-        }
-      } else if (!tankData || tankData.length === 0) {
-        logError('Tank insert returned no data', { tank_id: tankResult.tank_id });
-        throw new Error('Failed to save tank: No data returned from insert');
-      } else {
-        tankSaved = true;
-      }
-
-      // Save fish #1 to Supabase with tank assignment
-      const { data: fish1Data, error: fish1InsertError } = await supabase
-        .from('fish')
-        .insert({
-          id: fish1Result.fish_id,
-          owner: trimmedAddress,
-          species: STARTER_PACK_FISH_SPECIES,
-          image_url: STARTER_PACK_FISH_IMAGE_URL,
-          tank_id: tankResult.tank_id,
-        })
-        .select();
-
-      if (fish1InsertError) {
-        // Handle race condition: if fish with same ID was inserted by another request
-        if (fish1InsertError.code === '23505') { // PostgreSQL unique violation
-          const { data: existingFish } = await supabase
-            .from('fish')
-            .select('owner')
-            .eq('id', fish1Result.fish_id)
-            .single();
-          
-          if (existingFish && existingFish.owner === trimmedAddress) {
-            fish1Saved = true;
-          } else {
-            logError('Fish #1 ID conflict with different owner', { error: fish1InsertError, fish_id: fish1Result.fish_id });
-            throw new Error(`Fish #1 ID conflict: ${fish1InsertError.message}`);
-          }
-        } else {
-          logError('Failed to save fish #1 to Supabase', { error: fish1InsertError, fish_id: fish1Result.fish_id });
-          throw new Error(`Failed to save fish #1: ${fish1InsertError.message}`);
-        }
-      } else if (!fish1Data || fish1Data.length === 0) {
-        logError('Fish #1 insert returned no data', { fish_id: fish1Result.fish_id });
-        throw new Error('Failed to save fish #1: No data returned from insert');
-      } else {
-        fish1Saved = true;
-      }
-
-      // Save fish #2 to Supabase with tank assignment
-      const { data: fish2Data, error: fish2InsertError } = await supabase
-        .from('fish')
-        .insert({
-          id: fish2Result.fish_id,
-          owner: trimmedAddress,
-          species: STARTER_PACK_FISH_SPECIES,
-          image_url: STARTER_PACK_FISH_IMAGE_URL,
-          tank_id: tankResult.tank_id,
-        })
-        .select();
-
-      if (fish2InsertError) {
-        // Handle race condition: if fish with same ID was inserted by another request
-        if (fish2InsertError.code === '23505') { // PostgreSQL unique violation
-          const { data: existingFish } = await supabase
-            .from('fish')
-            .select('owner')
-            .eq('id', fish2Result.fish_id)
-            .single();
-          
-          if (existingFish && existingFish.owner === trimmedAddress) {
-            fish2Saved = true;
-          } else {
-            logError('Fish #2 ID conflict with different owner', { error: fish2InsertError, fish_id: fish2Result.fish_id });
-            throw new Error(`Fish #2 ID conflict: ${fish2InsertError.message}`);
-          }
-        } else {
-          logError('Failed to save fish #2 to Supabase', { error: fish2InsertError, fish_id: fish2Result.fish_id });
-          throw new Error(`Failed to save fish #2: ${fish2InsertError.message}`);
-        }
-      } else if (!fish2Data || fish2Data.length === 0) {
-        logError('Fish #2 insert returned no data', { fish_id: fish2Result.fish_id });
-        throw new Error('Failed to save fish #2: No data returned from insert');
-      } else {
-        fish2Saved = true;
-      }
-
-      // Update player's fish_count
-      const { data: updateData, error: updateError } = await supabase
-        .from('players')
-        .update({ fish_count: 2 })
-        .eq('address', trimmedAddress)
-        .select();
+    // PHASE 3: Save all assets to Supabase in a single transaction
+    // save_starter_pack inserts the tank and both fish and sets fish_count,
+    // or saves nothing if any write fails
+    const { error: saveError } = await supabase.rpc('save_starter_pack', {
+      p_owner: trimmedAddress,
+      p_tank_id: tankResult.tank_id,
+      p_tank_name: 'Starter Tank',
+      p_fish_ids: [fish1Result.fish_id, fish2Result.fish_id],
+      p_species: STARTER_PACK_FISH_SPECIES,
+      p_image_url: STARTER_PACK_FISH_IMAGE_URL,
+    });
 
-      if (updateError) {
-        logError('Failed to update fish_count', { error: updateError, address: trimmedAddress });
-        throw new Error(`Failed to update fish_count: ${updateError.message}`);
-      }
-      
-      if (!updateData || updateData.length === 0) {
-        logError('Player update returned no data', { address: trimmedAddress });
-        throw new Error('Failed to update fish_count: No data returned from update');
-      }
+    // PHASE 4: Track all on-chain transactions in the sync queue. The assets already
+    // exist on-chain, so if the save failed each mint is flagged for manual review.
+    const reviewReason = saveError
+      ? `On-chain starter pack for ${trimmedAddress} (tank ${tankResult.tank_id}, fish ${fish1Result.fish_id} and ${fish2Result.fish_id}) was minted but saving it failed: ${saveError.message}`
+      : undefined;
 
-      // Add all on-chain transactions to sync queue
-      const syncService = new SyncService();
-      
-      // Add tank mint to sync queue
-      try {
-        await syncService.addToSyncQueue(
-          tankResult.tx_hash,
-          'tank',
-          tankResult.tank_id.toString()
-        );
-      } catch (syncError) {
-        logError('Failed to add tank mint to sync queue', {
-          error: syncError,
-          tx_hash: tankResult.tx_hash,
-          tank_id: tankResult.tank_id,
-        });
-      }
+    const syncService = new SyncService();
+    
+    // Add tank mint to sync queue
+    try {
+      await syncService.addToSyncQueue(
+        tankResult.tx_hash,
+        'tank',
+        tankResult.tank_id.toString(),
+        'mint_tank',
+        reviewReason
+      );
+    } catch (syncError) {
+      logError('Failed to add tank mint to sync queue', {
+        error: syncError,
+        tx_hash: tankResult.tx_hash,
+        tank_id: tankResult.tank_id,
+        review_reason: reviewReason,
+      });
+    }
 
-      // Add fish #1 mint to sync queue
-      try {
-        await syncService.addToSyncQueue(
-          fish1Result.tx_hash,
-          'fish',
-          fish1Result.fish_id.toString()
-        );
-      } catch (syncError) {
-        logError('Failed to add fish #1 mint to sync queue', {
-          error: syncError,
-          tx_hash: fish1Result.tx_hash,
-          fish_id: fish1Result.fish_id,
-        });
-      }
+    // Add fish #1 mint to sync queue
+    try {
+      await syncService.addToSyncQueue(
+        fish1Result.tx_hash,
+        'fish',
+        fish1Result.fish_id.toString(),
+        'mint_fish',
+        reviewReason
+      );
+    } catch (syncError) {
+      logError('Failed to add fish #1 mint to sync queue', {
+        error: syncError,
+        tx_hash: fish1Result.tx_hash,
+        fish_id: fish1Result.fish_id,
+        review_reason: reviewReason,
+      });
+    }
 
-      // Add fish #2 mint to sync queue
-      try {
-        await syncService.addToSyncQueue(
-          fish2Result.tx_hash,
-          'fish',
-          fish2Result.fish_id.toString()
-        );
-      } catch (syncError) {
-        logError('Failed to add fish #2 mint to sync queue', {
-          error: syncError,
-          tx_hash: fish2Result.tx_hash,
-          fish_id: fish2Result.fish_id,
-        });
-      }
+    // Add fish #2 mint to sync queue
+    try {
+      await syncService.addToSyncQueue(
+        fish2Result.tx_hash,
+        'fish',
+        fish2Result.fish_id.toString(),
+        'mint_fish',
+        reviewReason
+      );
+    } catch (syncError) {
+      logError('Failed to add fish #2 mint to sync queue', {
+        error: syncError,
+        tx_hash: fish2Result.tx_hash,
+        fish_id: fish2Result.fish_id,
+        review_reason: reviewReason,
+      });
+    }
 
-      // All successful!
-      return {
+    if (saveError) {
+      logError('Failed to save starter pack to Supabase', {
+        error: saveError,
         tank_id: tankResult.tank_id,
         fish_ids: [fish1Result.fish_id, fish2Result.fish_id],
-      };
-    } catch (error) {
-      // Rollback: delete what we saved
-      await this.rollbackSupabaseInserts(
-        supabase,
-        tankSaved ? tankResult.tank_id : undefined,
-        [
-          ...(fish1Saved ? [fish1Result.fish_id] : []),
-          ...(fish2Saved ? [fish2Result.fish_id] : []),
-        ]
-      );
-
+      });
       throw new Error(
-        `Starter pack minting failed during Supabase save: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
-        `On-chain mints were successful (tank_tx: ${tankResult.tx_hash}, fish1_tx: ${fish1Result.tx_hash}, fish2_tx: ${fish2Result.tx_hash}). ` +
-        `Rollback attempted.`
+        `Starter pack minting failed during Supabase save: ${saveError.message}. ` +
+        `On-chain mints were successful (tank_tx: ${tankResult.tx_hash}, fish1_tx: ${fish1Result.tx_hash}, fish2_tx: ${fish2Result.tx_hash}) ` +
+        `and were flagged for manual review.`
       );
     }
+
+    // All successful!
+    return {
+      tank_id: tankResult.tank_id,
+      fish_ids: [fish1Result.fish_id, fish2Result.fish_id],
+    };
   }
 
   // ============================================================================
@@ -577,9 +470,9 @@ export class PlayerService {
     const player = this.mapSupabaseToPlayer(data);
 
     // Get all related assets in parallel to avoid N+1 queries
-    const tankService = new TankService();
-    const fishService = new FishService();
-    const decorationService = new DecorationService();
+    const tankService = new TankService(this.dojoClient);
+    const fishService = new FishService(this.dojoClient);
+    const decorationService = new DecorationService(this.dojoClient);
 
     const [tanksWithExtras, fish, decorations] = await Promise.all([
       tankService.getTanksByOwner(trimmedAddress),
@@ -640,38 +533,4 @@ export class PlayerService {
       updated_at: new Date(supabasePlayer.updated_at),
     };
   }
-
-  /**
-   * Rollback helper: deletes saved records from Supabase.
-   * Used when a later operation fails and we need to clean up.
-   * 
-   * @param supabase - Supabase client instance
-   * @param tankId - Tank ID to delete (if saved)
-   * @param fishIds - Fish IDs to delete (if saved)
-   */
-  private async rollbackSupabaseInserts(
-    supabase: ReturnType<typeof getSupabaseClient>,
-    tankId?: number,
-    fishIds: number[] = []
-  ): Promise<void> {
-    // Delete fish first (foreign key order)
-    for (const fishId of fishIds) {
-      try {
-        await supabase.from('fish').delete().eq('id', fishId);
-      } catch (error) {
-        // Log but don't throw - best effort rollback
-        logError(`Rollback: Failed to delete fish ${fishId}`, error);
-      }
-    }
-
-    // Delete tank
-    if (tankId !== undefined) {
-      try {
-        await supabase.from('tanks').delete().eq('id', tankId);
-      } catch (error) {
-        // Log but don't throw - best effort rollback
-        logError(`Rollback: Failed to delete tank ${tankId}`, error);
-      }
-    }
-  }
 }
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Sync Compensation Service
+ *
+ * Undoes or flags the off-chain side effects of on-chain transactions that
+ * the chain rejected.
+ *
+ * Off-chain rows are written optimistically right after an on-chain call
+ * (starter pack tank and fish, bred offspring, bought decorations, decoration
+ * toggles, feed cooldowns and spent food). When the
+ * transaction is later rejected, those rows describe state that does not exist
+ * on-chain. Compensation handlers are registered per entity_type and pick
+ * what to undo based on the entry's operation. Entries that failed because
+ * they timed out are never compensated (the tx may still land); the reconciler
+ * flags them for manual review instead.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import { ValidationError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { logError, logInfo, logWarn } from '@/core/utils/logger';
+import { getCurrencyLedger } from '@/core/utils/currency-ledger';
+import { getDecorationCatalogItem } from '@/core/utils/decoration-catalog';
+import { getFoodItem, isFoodType } from '@/core/utils/food-catalog';
+import { SyncService, type SyncEntityType, type SyncQueueItem } from '@/services/sync.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Undoes or flags the off-chain side effects of a failed sync queue entry.
+ * Handlers must be idempotent: they may run again if marking the entry
+ * as compensated fails.
+ */
+export type CompensationHandler = (item: SyncQueueItem) => Promise<void>;
+
+// ============================================================================
+// SYNC COMPENSATION SERVICE
+// ============================================================================
+
+/**
+ * Service that compensates failed on-chain transactions.
+ *
+ * Handles:
+ * - Per-entity_type compensation handler registry (with defaults)
+ * - Running the handler for a rejected entry exactly once (tracked by compensated_at)
+ */
+export class SyncCompensationService {
+  private syncService = new SyncService();
+  private handlers = new Map<SyncEntityType, CompensationHandler>();
+
+  constructor() {
+    this.register('fish', (item) => this.compensateFish(item));
+    this.register('tank', (item) => this.compensateTank(item));
+    this.register('decoration', (item) => this.compensateDecoration(item));
+    this.register('player', (item) => this.compensatePlayer(item));
+  }
+
+  // ============================================================================
+  // REGISTRY
+  // ============================================================================
+
+  /**
+   * Registers (or replaces) the compensation handler for an entity type.
+   *
+   * @param entityType - Entity type of the sync queue entries to handle
+   * @param handler - Compensation handler
+   */
+  register(entityType: SyncEntityType, handler: CompensationHandler): void {
+    this.handlers.set(entityType, handler);
+  }
+
+  /**
+   * Compensates a sync queue entry the chain rejected.
+   *
+   * Runs the handler registered for the entry's entity_type, then marks the
+   * entry as compensated. Entries that were already compensated are skipped.
+   *
+   * @param item - Failed sync queue entry with failure_reason 'rejected'
+   * @returns True if the handler ran and the entry was marked compensated
+   * @throws {ValidationError} If the entry is not failed, or failed without being rejected on-chain
+   */
+  async compensate(item: SyncQueueItem): Promise<boolean> {
+    if (item.status !== 'failed') {
+      throw new ValidationError(
+        `Cannot compensate sync queue entry ${item.tx_hash} with status ${item.status}`
+      );
+    }
+
+    if (item.failure_reason !== 'rejected') {
+      throw new ValidationError(
+        `Cannot compensate sync queue entry ${item.tx_hash}: it was not rejected on-chain ` +
+        `(failure reason: ${item.failure_reason ?? 'none'})`
+      );
+    }
+
+    if (item.compensated_at) {
+      return false;
+    }
+
+    const handler = this.handlers.get(item.entity_type);
+    if (!handler) {
+      logWarn(`No compensation handler registered for entity type ${item.entity_type}`, {
+        tx_hash: item.tx_hash,
+      });
+      return false;
+    }
+
+    await handler(item);
+
+    const compensated = await this.syncService.markCompensated(item.tx_hash);
+    if (compensated) {
+      logInfo('Compensated failed transaction', {
+        tx_hash: item.tx_hash,
+        entity_type: item.entity_type,
+        entity_id: item.entity_id,
+        operation: item.operation,
+      });
+    }
+
+    return compensated !== null;
+  }
+
+  // ============================================================================
+  // DEFAULT HANDLERS
+  // ============================================================================
+
+  /**
+   * Fish: minted or bred fish never existed on-chain, so the row is deleted and
+   * the owner's counters are decremented. XP gains live on-chain only and are flagged.
+   * Failed transfers are flagged for review.
+   */
+  private async compensateFish(item: SyncQueueItem): Promise<void> {
+    if (item.operation === 'transfer_fish') {
+      return this.flagTransfer(item);
+    }
+
+    if (item.operation !== 'mint_fish' && item.operation !== 'breed_fish') {
+      return this.flagOnly(item);
+    }
+
+    const fishId = parseInt(item.entity_id, 10);
+    const supabase = getSupabaseClient();
+
+    const { data: fish, error: fetchError } = await supabase
+      .from('fish')
+      .select('id, owner')
+      .eq('id', fishId)
+      .single();
+
+    if (fetchError && fetchError.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch fish ${fishId} for compensation: ${fetchError.message}`);
+    }
+
+    if (!fish) {
+      // Already removed (e.g. by a previous compensation attempt)
+      return;
+    }
+
+    const { error: deleteError } = await supabase.from('fish').delete().eq('id', fishId);
+    if (deleteError) {
+      throw new Error(`Failed to delete fish ${fishId}: ${deleteError.message}`);
+    }
+
+    await this.decrementPlayerCounters(fish.owner, {
+      fish_count: 1,
+      offspring_created: item.operation === 'breed_fish' ? 1 : 0,
+    });
+  }
+
+  /**
+   * Tank: the minted tank never existed on-chain. Fish placed in it are
+   * unassigned before the tank row is deleted.
+   */
+  private async compensateTank(item: SyncQueueItem): Promise<void> {
+    if (item.operation !== 'mint_tank') {
+      return this.flagOnly(item);
+    }
+
+    const tankId = parseInt(item.entity_id, 10);
+    const supabase = getSupabaseClient();
+
+    const { error: unassignError } = await supabase
+      .from('fish')
+      .update({ tank_id: null })
+      .eq('tank_id', tankId);
+
+    if (unassignError) {
+      throw new Error(`Failed to unassign fish from tank ${tankId}: ${unassignError.message}`);
+    }
+
+    const { error: deleteError } = await supabase.from('tanks').delete().eq('id', tankId);
+    if (deleteError) {
+      throw new Error(`Failed to delete tank ${tankId}: ${deleteError.message}`);
+    }
+  }
+
+  /**
+   * Decoration: a bought decoration never existed on-chain, so the row is deleted
+   * and its price refunded. A failed toggle is reverted to its previous is_active value.
+   * Failed transfers are flagged for review.
+   */
+  private async compensateDecoration(item: SyncQueueItem): Promise<void> {
+    if (item.operation === 'mint_decoration') {
+      return this.compensateDecorationMint(item);
+    }
+
+    if (item.operation === 'transfer_decoration') {
+      return this.flagTransfer(item);
+    }
+
+    if (item.operation !== 'activate_decoration' && item.operation !== 'deactivate_decoration') {
+      return this.flagOnly(item);
+    }
+
+    const decorationId = parseInt(item.entity_id, 10);
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('decorations')
+      .update({ is_active: item.operation === 'deactivate_decoration' })
+      .eq('id', decorationId);
+
+    if (error) {
+      throw new Error(`Failed to revert decoration ${decorationId}: ${error.message}`);
+    }
+  }
+
+  private async compensateDecorationMint(item: SyncQueueItem): Promise<void> {
+    const decorationId = parseInt(item.entity_id, 10);
+    const supabase = getSupabaseClient();
+
+    const { data: decoration, error: fetchError } = await supabase
+      .from('decorations')
+      .select('id, owner, kind')
+      .eq('id', decorationId)
+      .single();
+
+    if (fetchError && fetchError.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch decoration ${decorationId} for compensation: ${fetchError.message}`);
+    }
+
+    if (!decoration) {
+      // Already removed (e.g. by a previous compensation attempt)
+      return;
+    }
+
+    // Refund first: the refund is keyed by tx_hash, so a retry after a failed delete doesn't pay twice
+    const { price } = getDecorationCatalogItem(decoration.kind);
+    await getCurrencyLedger().credit(decoration.owner, price, {
+      type: 'decoration_refund',
+      idempotencyKey: `decoration_refund:${item.tx_hash}`,
+      description: `Refund for ${decoration.kind} decoration ${decorationId} (mint failed on-chain)`,
+    });
+
+    const { error: deleteError } = await supabase.from('decorations').delete().eq('id', decorationId);
+    if (deleteError) {
+      throw new Error(`Failed to delete decoration ${decorationId}: ${deleteError.message}`);
+    }
+  }
+
+  /**
+   * Player: a rejected feed never lowered the fish's hunger, so its cooldown rows are
+   * deleted and the food spent on it is given back. The XP and coins granted for the
+   * feed come from their own transactions and ledger entry and are kept.
+   */
+  private async compensatePlayer(item: SyncQueueItem): Promise<void> {
+    if (item.operation !== 'feed_fish') {
+      return this.flagOnly(item);
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data: feedEvents, error: fetchError } = await supabase
+      .from('feed_events')
+      .select('food_type')
+      .eq('feed_tx_hash', item.tx_hash)
+      .limit(1);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch feed ${item.tx_hash} for compensation: ${fetchError.message}`);
+    }
+
+    const foodType = feedEvents?.[0]?.food_type;
+    if (!foodType) {
+      // Already removed (e.g. by a previous compensation attempt)
+      return;
+    }
+
+    // The feed_events rows and the food refund go together in compensate_feed,
+    // so a retry never refunds twice
+    const { error: compensateError } = await supabase.rpc('compensate_feed', {
+      p_feed_tx_hash: item.tx_hash,
+      p_refund_food: isFoodType(foodType) && !getFoodItem(foodType).unlimited,
+    });
+
+    if (compensateError) {
+      throw new Error(`Failed to compensate feed ${item.tx_hash}: ${compensateError.message}`);
+    }
+  }
+
+  /**
+   * Flags a failed entry without touching off-chain data.
+   * Used when the failed operation had no optimistic off-chain side effects.
+   */
+  private async flagOnly(item: SyncQueueItem): Promise<void> {
+    logWarn('Failed transaction has no off-chain side effects to undo', {
+      tx_hash: item.tx_hash,
+      entity_type: item.entity_type,
+      entity_id: item.entity_id,
+      operation: item.operation,
+    });
+  }
+
+  /**
+   * Flags a failed ownership transfer (marketplace sale or gift) for manual review.
+   * Ownership already moved in Supabase and coins may have changed hands, so
+   * reverting it automatically could undo a sale the players consider done.
+   */
+  private async flagTransfer(item: SyncQueueItem): Promise<void> {
+    logError('Failed ownership transfer needs manual review: Supabase owner no longer matches on-chain', {
+      tx_hash: item.tx_hash,
+      entity_type: item.entity_type,
+      entity_id: item.entity_id,
+      operation: item.operation,
+    });
+  }
+
+  /**
+   * Decrements player counters without going below zero.
+   */
+  private async decrementPlayerCounters(
+    address: string,
+    amounts: { fish_count: number; offspring_created: number }
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { data: player, error: fetchError } = await supabase
+      .from('players')
+      .select('fish_count, offspring_created')
+      .eq('address', address)
+      .single();
+
+    if (fetchError || !player) {
+      logError(`Compensation: Failed to fetch player ${address} counters`, fetchError);
+      return;
+    }
+
+    const { error: updateError } = await supabase
+      .from('players')
+      .update({
+        fish_count: Math.max(0, (player.fish_count || 0) - amounts.fish_count),
+        offspring_created: Math.max(0, (player.offspring_created || 0) - amounts.offspring_created),
+      })
+      .eq('address', address);
+
+    if (updateError) {
+      throw new Error(`Failed to update player ${address} counters: ${updateError.message}`);
+    }
+  }
+}
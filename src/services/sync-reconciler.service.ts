@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Sync Reconciler Service
+ *
+ * Background worker that polls pending sync_queue entries, looks up their
+ * transaction receipts on-chain and marks them 'confirmed' or 'failed'.
+ *
+ * Pending entries are re-checked with exponential backoff
+ * (SYNC_BACKOFF_BASE_MS * 2^retry_count) until SYNC_MAX_RETRIES is reached,
+ * at which point they are marked 'failed' and flagged for manual review. Only the
+ * off-chain side effects of entries the chain rejected are compensated through
+ * SyncCompensationService: a timed-out tx may still land on-chain.
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import {
+  SYNC_RECONCILER_INTERVAL_MS,
+  SYNC_MAX_RETRIES,
+  SYNC_BACKOFF_BASE_MS,
+} from '@/core/config';
+import { getDojoClient } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { logError, logInfo, logWarn } from '@/core/utils/logger';
+import { SyncService, type SyncQueueItem } from '@/services/sync.service';
+import { SyncCompensationService } from '@/services/sync-compensation.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Tuning options for the reconciler.
+ */
+export interface SyncReconcilerOptions {
+  intervalMs: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+}
+
+/**
+ * Outcome of a single reconciliation pass.
+ */
+export interface ReconcileSummary {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  retried: number;
+  skipped: number;
+  compensated: number;
+}
+
+// ============================================================================
+// SYNC RECONCILER SERVICE
+// ============================================================================
+
+/**
+ * Service that reconciles pending sync queue entries with the chain.
+ *
+ * Handles:
+ * - Scheduling reconciliation passes (start/stop with the server lifecycle)
+ * - Receipt lookup for each pending transaction that is due
+ * - Exponential backoff and max retry count for inconclusive lookups
+ * - Compensation of rejected entries (retried on later passes if it fails)
+ */
+export class SyncReconcilerService {
+  private syncService = new SyncService();
+  private compensationService = new SyncCompensationService();
+  private options: SyncReconcilerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<ReconcileSummary> | null = null;
+  private stopped = true;
+
+  constructor(
+    options: Partial<SyncReconcilerOptions> = {},
+    private readonly dojoClient: DojoClient = getDojoClient()
+  ) {
+    this.options = {
+      intervalMs: options.intervalMs ?? SYNC_RECONCILER_INTERVAL_MS,
+      maxRetries: options.maxRetries ?? SYNC_MAX_RETRIES,
+      backoffBaseMs: options.backoffBaseMs ?? SYNC_BACKOFF_BASE_MS,
+    };
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Starts polling the sync queue.
+   * Calling start() on a running reconciler has no effect.
+   */
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    logInfo('Sync reconciler started', { interval_ms: this.options.intervalMs });
+    this.scheduleNext();
+  }
+
+  /**
+   * Stops polling and waits for an in-flight pass to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
+
+    logInfo('Sync reconciler stopped');
+  }
+
+  /**
+   * Schedules the next pass. Uses setTimeout chaining so passes never overlap.
+   */
+  private scheduleNext(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.reconcileOnce();
+      } catch (error) {
+        logError('Sync reconciliation pass failed', error);
+      }
+      this.scheduleNext();
+    }, this.options.intervalMs);
+
+    // Don't keep the process alive just for the reconciler
+    this.timer.unref();
+  }
+
+  // ============================================================================
+  // RECONCILIATION
+  // ============================================================================
+
+  /**
+   * Runs a single reconciliation pass over all pending entries that are due.
+   *
+   * For each due entry:
+   * - accepted receipt → 'confirmed'
+   * - rejected/reverted receipt → 'failed' (rejected)
+   * - pending/not found receipt → retry_count incremented, or 'failed' (timed out)
+   *   and flagged for review once the max retry count is reached
+   *
+   * Afterwards, every rejected entry that was not compensated yet is compensated.
+   *
+   * Errors on individual entries are logged and do not stop the pass.
+   *
+   * @param now - Reference time for backoff checks (defaults to current time)
+   * @returns Summary of the pass
+   */
+  async reconcileOnce(now: Date = new Date()): Promise<ReconcileSummary> {
+    if (this.currentRun) {
+      return this.currentRun;
+    }
+
+    this.currentRun = this.runPass(now);
+    try {
+      return await this.currentRun;
+    } finally {
+      this.currentRun = null;
+    }
+  }
+
+  /**
+   * Calculates when an entry is due for its next receipt lookup.
+   *
+   * @param item - Pending sync queue entry
+   * @returns Time of the next attempt
+   */
+  getNextAttemptAt(item: SyncQueueItem): Date {
+    const delay = this.options.backoffBaseMs * Math.pow(2, item.retry_count);
+    return new Date(item.updated_at.getTime() + delay);
+  }
+
+  private async runPass(now: Date): Promise<ReconcileSummary> {
+    const summary: ReconcileSummary = {
+      checked: 0,
+      confirmed: 0,
+      failed: 0,
+      retried: 0,
+      skipped: 0,
+      compensated: 0,
+    };
+    const pending = await this.syncService.getPendingSyncs();
+
+    for (const item of pending) {
+      if (this.getNextAttemptAt(item).getTime() > now.getTime()) {
+        summary.skipped++;
+        continue;
+      }
+
+      summary.checked++;
+      try {
+        const outcome = await this.reconcileItem(item);
+        summary[outcome]++;
+      } catch (error) {
+        logError(`Failed to reconcile sync queue entry ${item.tx_hash}`, error);
+      }
+    }
+
+    const failures = await this.syncService.getUncompensatedFailures();
+    for (const item of failures) {
+      try {
+        if (await this.compensationService.compensate(item)) {
+          summary.compensated++;
+        }
+      } catch (error) {
+        logError(`Failed to compensate sync queue entry ${item.tx_hash}`, error);
+      }
+    }
+
+    if (summary.checked > 0 || summary.compensated > 0) {
+      logInfo('Sync reconciliation pass completed', summary);
+    }
+
+    return summary;
+  }
+
+  private async reconcileItem(item: SyncQueueItem): Promise<'confirmed' | 'failed' | 'retried'> {
+    const receipt = await this.dojoClient.getTransactionReceipt(item.tx_hash);
+
+    if (receipt.status === 'accepted') {
+      await this.syncService.updateSyncStatus(item.tx_hash, 'confirmed');
+      return 'confirmed';
+    }
+
+    if (receipt.status === 'rejected') {
+      logWarn(`Transaction ${item.tx_hash} was rejected on-chain`, {
+        entity_type: item.entity_type,
+        entity_id: item.entity_id,
+        revert_reason: receipt.revert_reason,
+      });
+      await this.syncService.markFailed(item.tx_hash, 'rejected');
+      return 'failed';
+    }
+
+    // Still pending or not found: back off, give up after maxRetries attempts
+    if (item.retry_count + 1 >= this.options.maxRetries) {
+      logWarn(`Transaction ${item.tx_hash} not confirmed after ${this.options.maxRetries} attempts`, {
+        entity_type: item.entity_type,
+        entity_id: item.entity_id,
+        last_status: receipt.status,
+      });
+      await this.syncService.markFailed(
+        item.tx_hash,
+        'timed_out',
+        `Transaction not confirmed after ${this.options.maxRetries} attempts (last receipt status: ${receipt.status}). ` +
+        'It may still land on-chain, so its off-chain changes were kept.'
+      );
+      return 'failed';
+    }
+
+    await this.syncService.recordRetry(item.tx_hash);
+    return 'retried';
+  }
+}
@@ -12,7 +12,7 @@
 // IMPORTS
 // ============================================================================
 
-import { ValidationError, NotFoundError } from '@/core/errors';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError, logInfo } from '@/core/utils/logger';
 
@@ -20,20 +20,82 @@ import { logError, logInfo } from '@/core/utils/logger';
 // TYPES
 // ============================================================================
 
+export type SyncEntityType = 'player' | 'fish' | 'tank' | 'decoration';
+
+export type SyncStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled';
+
+/**
+ * Why an entry was marked 'failed'.
+ * - rejected: the chain rejected or reverted the tx, so its off-chain side effects are compensated
+ * - timed_out: no receipt after the max retry count; the tx may still land, so it is only flagged for review
+ */
+export type SyncFailureReason = 'rejected' | 'timed_out';
+
+/**
+ * On-chain operation that produced a sync queue entry.
+ * Used by compensation handlers to know which off-chain side effects to undo.
+ */
+export type SyncOperation =
+  | 'register_player'
+  | 'gain_player_xp'
+  | 'mint_tank'
+  | 'mint_fish'
+  | 'feed_fish'
+  | 'breed_fish'
+  | 'transfer_fish'
+  | 'gain_fish_xp'
+  | 'mint_decoration'
+  | 'activate_decoration'
+  | 'deactivate_decoration'
+  | 'transfer_decoration';
+
 /**
  * Represents a sync queue item from the database.
  */
 export interface SyncQueueItem {
   id: number;
   tx_hash: string;
-  entity_type: 'player' | 'fish' | 'tank' | 'decoration';
+  entity_type: SyncEntityType;
   entity_id: string;
-  status: 'pending' | 'confirmed' | 'failed';
+  operation: SyncOperation | null;
+  status: SyncStatus;
   retry_count: number;
+  compensated_at: Date | null;
+  failure_reason: SyncFailureReason | null;
+  review_reason: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Filters and pagination for listing sync queue entries.
+ * Date bounds apply to created_at and are inclusive.
+ */
+export interface SyncQueueFilters {
+  status?: SyncStatus;
+  entity_type?: SyncEntityType;
+  needs_review?: boolean;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A page of sync queue entries.
+ */
+export interface SyncQueuePage {
+  items: SyncQueueItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+const VALID_ENTITY_TYPES: SyncEntityType[] = ['player', 'fish', 'tank', 'decoration'];
+const VALID_STATUSES: SyncStatus[] = ['pending', 'confirmed', 'failed', 'cancelled'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 // ============================================================================
 // SYNC SERVICE
 // ============================================================================
@@ -44,8 +106,13 @@ export interface SyncQueueItem {
  * Handles:
  * - Adding transactions to the sync queue
  * - Updating transaction status
+ * - Recording retry attempts for pending transactions
+ * - Marking pending transactions as failed (rejected or timed out)
+ * - Marking failed transactions as compensated
  * - Querying pending transactions
+ * - Listing entries with filters and pagination
  * - Retrieving sync queue items by transaction hash
+ * - Manual retry and cancellation of entries (admin operations)
  */
 export class SyncService {
   // ============================================================================
@@ -61,6 +128,9 @@ export class SyncService {
    * @param txHash - Transaction hash from the on-chain operation
    * @param entityType - Type of entity affected ('player', 'fish', 'tank', 'decoration')
    * @param entityId - ID of the affected entity (as string)
+   * @param operation - On-chain operation that produced the transaction (used for compensation)
+   * @param reviewReason - Why the entry needs manual reconciliation (e.g. the Supabase write
+   *   matching a successful on-chain transfer failed)
    * @returns The created sync queue item
    * @throws {ValidationError} If parameters are invalid or entityType is not allowed
    * @throws {Error} If database insertion fails
@@ -68,7 +138,9 @@ export class SyncService {
   async addToSyncQueue(
     txHash: string,
     entityType: string,
-    entityId: string
+    entityId: string,
+    operation?: SyncOperation,
+    reviewReason?: string
   ): Promise<SyncQueueItem> {
     // Validate txHash
     if (!txHash || txHash.trim().length === 0) {
@@ -76,15 +148,9 @@ export class SyncService {
     }
 
     // Validate entityType
-    const validEntityTypes: Array<'player' | 'fish' | 'tank' | 'decoration'> = [
-      'player',
-      'fish',
-      'tank',
-      'decoration',
-    ];
-    if (!validEntityTypes.includes(entityType as any)) {
+    if (!VALID_ENTITY_TYPES.includes(entityType as any)) {
       throw new ValidationError(
-        `Invalid entity type: ${entityType}. Must be one of: ${validEntityTypes.join(', ')}`
+        `Invalid entity type: ${entityType}. Must be one of: ${VALID_ENTITY_TYPES.join(', ')}`
       );
     }
 
@@ -102,9 +168,11 @@ export class SyncService {
       .from('sync_queue')
       .insert({
         tx_hash: trimmedTxHash,
-        entity_type: entityType as 'player' | 'fish' | 'tank' | 'decoration',
+        entity_type: entityType as SyncEntityType,
         entity_id: trimmedEntityId,
+        operation: operation ?? null,
         status: 'pending',
+        review_reason: reviewReason ?? null,
       })
       .select()
       .single();
@@ -142,16 +210,7 @@ export class SyncService {
     }
 
     // Map Supabase result to SyncQueueItem
-    const syncQueueItem: SyncQueueItem = {
-      id: insertedData.id,
-      tx_hash: insertedData.tx_hash,
-      entity_type: insertedData.entity_type as 'player' | 'fish' | 'tank' | 'decoration',
-      entity_id: insertedData.entity_id,
-      status: insertedData.status as 'pending' | 'confirmed' | 'failed',
-      retry_count: insertedData.retry_count ?? 0,
-      created_at: new Date(insertedData.created_at),
-      updated_at: new Date(insertedData.updated_at),
-    };
+    const syncQueueItem: SyncQueueItem = this.mapToSyncQueueItem(insertedData);
 
     logInfo('Added entry to sync queue', {
       id: syncQueueItem.id,
@@ -160,6 +219,15 @@ export class SyncService {
       entity_id: trimmedEntityId,
     });
 
+    if (reviewReason) {
+      logError('Sync queue entry flagged for manual review', {
+        tx_hash: trimmedTxHash,
+        entity_type: entityType,
+        entity_id: trimmedEntityId,
+        review_reason: reviewReason,
+      });
+    }
+
     return syncQueueItem;
   }
 
@@ -183,7 +251,7 @@ export class SyncService {
     }
 
     // Validate status
-    const validStatuses: Array<'pending' | 'confirmed' | 'failed'> = [
+    const validStatuses: SyncStatus[] = [
       'pending',
       'confirmed',
       'failed',
@@ -222,10 +290,10 @@ export class SyncService {
 
     // Prepare update data
     const updateData: {
-      status: 'pending' | 'confirmed' | 'failed';
+      status: SyncStatus;
       retry_count?: number;
     } = {
-      status: status as 'pending' | 'confirmed' | 'failed',
+      status: status as SyncStatus,
     };
 
     // Increment retry_count if status is 'failed'
@@ -259,16 +327,7 @@ export class SyncService {
     }
 
     // Map Supabase result to SyncQueueItem
-    const syncQueueItem: SyncQueueItem = {
-      id: updatedData.id,
-      tx_hash: updatedData.tx_hash,
-      entity_type: updatedData.entity_type as 'player' | 'fish' | 'tank' | 'decoration',
-      entity_id: updatedData.entity_id,
-      status: updatedData.status as 'pending' | 'confirmed' | 'failed',
-      retry_count: updatedData.retry_count ?? 0,
-      created_at: new Date(updatedData.created_at),
-      updated_at: new Date(updatedData.updated_at),
-    };
+    const syncQueueItem: SyncQueueItem = this.mapToSyncQueueItem(updatedData);
 
     logInfo('Updated sync queue entry status', {
       id: syncQueueItem.id,
@@ -280,6 +339,228 @@ export class SyncService {
     return syncQueueItem;
   }
 
+  /**
+   * Records an inconclusive confirmation attempt for a pending entry.
+   * 
+   * Increments retry_count while keeping the entry 'pending'. Used by the
+   * reconciler when the chain has not yet accepted or rejected the transaction.
+   * 
+   * @param txHash - Transaction hash of the entry
+   * @returns The updated sync queue item
+   * @throws {ValidationError} If txHash is invalid
+   * @throws {NotFoundError} If sync queue entry with txHash doesn't exist
+   * @throws {Error} If database update fails
+   */
+  async recordRetry(txHash: string): Promise<SyncQueueItem> {
+    // Validate txHash
+    if (!txHash || txHash.trim().length === 0) {
+      throw new ValidationError('Transaction hash is required');
+    }
+
+    const supabase = getSupabaseClient();
+    const trimmedTxHash = txHash.trim();
+
+    const { data: existingData, error: fetchError } = await supabase
+      .from('sync_queue')
+      .select('*')
+      .eq('tx_hash', trimmedTxHash)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new NotFoundError(`Sync queue entry with tx_hash ${trimmedTxHash} not found`);
+      }
+      logError('Failed to fetch sync queue entry for retry', {
+        error: fetchError,
+        tx_hash: trimmedTxHash,
+      });
+      throw new Error(`Failed to fetch sync queue entry: ${fetchError.message}`);
+    }
+
+    if (!existingData) {
+      throw new NotFoundError(`Sync queue entry with tx_hash ${trimmedTxHash} not found`);
+    }
+
+    // Only pending entries are retried; the status filter guards against a concurrent confirm/fail
+    const { data: updatedData, error: updateError } = await supabase
+      .from('sync_queue')
+      .update({ retry_count: (existingData.retry_count ?? 0) + 1 })
+      .eq('tx_hash', trimmedTxHash)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (updateError) {
+      logError('Failed to record sync queue retry', {
+        error: updateError,
+        tx_hash: trimmedTxHash,
+      });
+      throw new Error(`Failed to update sync queue entry: ${updateError.message}`);
+    }
+
+    if (!updatedData) {
+      throw new Error('Failed to update sync queue entry: No data returned from update');
+    }
+
+    return this.mapToSyncQueueItem(updatedData);
+  }
+
+  /**
+   * Marks a pending sync queue entry as failed.
+   * 
+   * Increments retry_count like updateSyncStatus and records why the entry failed:
+   * only 'rejected' entries are compensated. A review reason flags the entry for
+   * manual review (e.g. a tx that timed out and may still land on-chain).
+   * 
+   * @param txHash - Transaction hash of the entry
+   * @param failureReason - 'rejected' if the chain rejected the tx, 'timed_out' if it never got a receipt
+   * @param reviewReason - Why the entry needs manual reconciliation
+   * @returns The updated sync queue item
+   * @throws {ValidationError} If txHash is invalid
+   * @throws {NotFoundError} If sync queue entry with txHash doesn't exist
+   * @throws {Error} If database update fails
+   */
+  async markFailed(
+    txHash: string,
+    failureReason: SyncFailureReason,
+    reviewReason?: string
+  ): Promise<SyncQueueItem> {
+    // Validate txHash
+    if (!txHash || txHash.trim().length === 0) {
+      throw new ValidationError('Transaction hash is required');
+    }
+
+    const supabase = getSupabaseClient();
+    const trimmedTxHash = txHash.trim();
+
+    const { data: existingData, error: fetchError } = await supabase
+      .from('sync_queue')
+      .select('*')
+      .eq('tx_hash', trimmedTxHash)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new NotFoundError(`Sync queue entry with tx_hash ${trimmedTxHash} not found`);
+      }
+      logError('Failed to fetch sync queue entry to mark it failed', {
+        error: fetchError,
+        tx_hash: trimmedTxHash,
+      });
+      throw new Error(`Failed to fetch sync queue entry: ${fetchError.message}`);
+    }
+
+    if (!existingData) {
+      throw new NotFoundError(`Sync queue entry with tx_hash ${trimmedTxHash} not found`);
+    }
+
+    const updateData: {
+      status: SyncStatus;
+      retry_count: number;
+      failure_reason: SyncFailureReason;
+      review_reason?: string;
+    } = {
+      status: 'failed',
+      retry_count: (existingData.retry_count ?? 0) + 1,
+      failure_reason: failureReason,
+    };
+
+    if (reviewReason) {
+      updateData.review_reason = reviewReason;
+    }
+
+    // Only pending entries fail; the status filter guards against a concurrent admin cancel
+    const { data: updatedData, error: updateError } = await supabase
+      .from('sync_queue')
+      .update(updateData)
+      .eq('tx_hash', trimmedTxHash)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (updateError) {
+      logError('Failed to mark sync queue entry as failed', {
+        error: updateError,
+        tx_hash: trimmedTxHash,
+        failure_reason: failureReason,
+      });
+      throw new Error(`Failed to update sync queue entry: ${updateError.message}`);
+    }
+
+    if (!updatedData) {
+      throw new Error('Failed to update sync queue entry: No data returned from update');
+    }
+
+    const syncQueueItem = this.mapToSyncQueueItem(updatedData);
+
+    logInfo('Marked sync queue entry as failed', {
+      tx_hash: trimmedTxHash,
+      failure_reason: failureReason,
+      retry_count: syncQueueItem.retry_count,
+    });
+
+    if (reviewReason) {
+      logError('Sync queue entry flagged for manual review', {
+        tx_hash: trimmedTxHash,
+        entity_type: syncQueueItem.entity_type,
+        entity_id: syncQueueItem.entity_id,
+        review_reason: reviewReason,
+      });
+    }
+
+    return syncQueueItem;
+  }
+
+  /**
+   * Marks a failed sync queue entry as compensated.
+   * 
+   * Only succeeds once per entry: entries that were already compensated are
+   * left untouched so compensation handlers never run twice for the same tx.
+   * 
+   * @param txHash - Transaction hash of the failed entry
+   * @returns The updated sync queue item, or null if it was already compensated
+   * @throws {ValidationError} If txHash is invalid
+   * @throws {Error} If database update fails
+   */
+  async markCompensated(txHash: string): Promise<SyncQueueItem | null> {
+    // Validate txHash
+    if (!txHash || txHash.trim().length === 0) {
+      throw new ValidationError('Transaction hash is required');
+    }
+
+    const supabase = getSupabaseClient();
+    const trimmedTxHash = txHash.trim();
+
+    const { data: updatedData, error: updateError } = await supabase
+      .from('sync_queue')
+      .update({ compensated_at: new Date().toISOString() })
+      .eq('tx_hash', trimmedTxHash)
+      .eq('status', 'failed')
+      .is('compensated_at', null)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === 'PGRST116') {
+        // No failed, uncompensated entry matched
+        return null;
+      }
+      logError('Failed to mark sync queue entry as compensated', {
+        error: updateError,
+        tx_hash: trimmedTxHash,
+      });
+      throw new Error(`Failed to update sync queue entry: ${updateError.message}`);
+    }
+
+    if (!updatedData) {
+      return null;
+    }
+
+    logInfo('Marked sync queue entry as compensated', { tx_hash: trimmedTxHash });
+
+    return this.mapToSyncQueueItem(updatedData);
+  }
+
   /**
    * Retrieves all pending sync queue entries.
    * 
@@ -312,16 +593,7 @@ export class SyncService {
     }
 
     // Map Supabase results to SyncQueueItem array
-    const syncQueueItems: SyncQueueItem[] = pendingData.map((item: any) => ({
-      id: item.id,
-      tx_hash: item.tx_hash,
-      entity_type: item.entity_type as 'player' | 'fish' | 'tank' | 'decoration',
-      entity_id: item.entity_id,
-      status: item.status as 'pending' | 'confirmed' | 'failed',
-      retry_count: item.retry_count ?? 0,
-      created_at: new Date(item.created_at),
-      updated_at: new Date(item.updated_at),
-    }));
+    const syncQueueItems: SyncQueueItem[] = pendingData.map((item: any) => this.mapToSyncQueueItem(item));
 
     logInfo('Retrieved pending sync queue entries', {
       count: syncQueueItems.length,
@@ -330,6 +602,32 @@ export class SyncService {
     return syncQueueItems;
   }
 
+  /**
+   * Retrieves rejected sync queue entries whose side effects were not compensated yet.
+   * Entries that timed out are left alone: their tx may still land on-chain.
+   * 
+   * @returns Array of rejected, uncompensated sync queue items (oldest first)
+   * @throws {Error} If database query fails
+   */
+  async getUncompensatedFailures(): Promise<SyncQueueItem[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error: queryError } = await supabase
+      .from('sync_queue')
+      .select('*')
+      .eq('status', 'failed')
+      .eq('failure_reason', 'rejected')
+      .is('compensated_at', null)
+      .order('updated_at', { ascending: true });
+
+    if (queryError) {
+      logError('Failed to query uncompensated sync queue failures', { error: queryError });
+      throw new Error(`Failed to query uncompensated sync queue failures: ${queryError.message}`);
+    }
+
+    return (data ?? []).map((item: any) => this.mapToSyncQueueItem(item));
+  }
+
   /**
    * Retrieves a sync queue entry by transaction hash.
    * 
@@ -378,16 +676,7 @@ export class SyncService {
     }
 
     // Map Supabase result to SyncQueueItem
-    const syncQueueItem: SyncQueueItem = {
-      id: syncData.id,
-      tx_hash: syncData.tx_hash,
-      entity_type: syncData.entity_type as 'player' | 'fish' | 'tank' | 'decoration',
-      entity_id: syncData.entity_id,
-      status: syncData.status as 'pending' | 'confirmed' | 'failed',
-      retry_count: syncData.retry_count ?? 0,
-      created_at: new Date(syncData.created_at),
-      updated_at: new Date(syncData.updated_at),
-    };
+    const syncQueueItem: SyncQueueItem = this.mapToSyncQueueItem(syncData);
 
     logInfo('Retrieved sync queue entry by tx_hash', {
       id: syncQueueItem.id,
@@ -397,5 +686,231 @@ export class SyncService {
 
     return syncQueueItem;
   }
-}
 
+  /**
+   * Lists sync queue entries with optional filters, newest first.
+   * 
+   * @param filters - Status, entity type, review flag and created_at range filters plus pagination
+   * @returns Page of sync queue items with the total number of matching entries
+   * @throws {ValidationError} If a filter or pagination value is invalid
+   * @throws {Error} If database query fails
+   */
+  async listSyncs(filters: SyncQueueFilters = {}): Promise<SyncQueuePage> {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ValidationError('Page must be a positive integer');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    if (filters.status && !VALID_STATUSES.includes(filters.status)) {
+      throw new ValidationError(
+        `Invalid status: ${filters.status}. Must be one of: ${VALID_STATUSES.join(', ')}`
+      );
+    }
+
+    if (filters.entity_type && !VALID_ENTITY_TYPES.includes(filters.entity_type)) {
+      throw new ValidationError(
+        `Invalid entity type: ${filters.entity_type}. Must be one of: ${VALID_ENTITY_TYPES.join(', ')}`
+      );
+    }
+
+    if (filters.from && filters.to && filters.from.getTime() > filters.to.getTime()) {
+      throw new ValidationError('"from" date must be before "to" date');
+    }
+
+    const supabase = getSupabaseClient();
+    const offset = (page - 1) * limit;
+
+    let query = supabase.from('sync_queue').select('*', { count: 'exact' });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.entity_type) {
+      query = query.eq('entity_type', filters.entity_type);
+    }
+    if (filters.needs_review !== undefined) {
+      query = filters.needs_review
+        ? query.not('review_reason', 'is', null)
+        : query.is('review_reason', null);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('created_at', filters.to.toISOString());
+    }
+
+    const { data, error: queryError, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (queryError) {
+      logError('Failed to list sync queue entries', { error: queryError, filters });
+      throw new Error(`Failed to list sync queue entries: ${queryError.message}`);
+    }
+
+    return {
+      items: (data ?? []).map((item: any) => this.mapToSyncQueueItem(item)),
+      total: count ?? 0,
+      page,
+      limit,
+    };
+  }
+
+  // ============================================================================
+  // ADMIN OPERATIONS
+  // ============================================================================
+
+  /**
+   * Puts a stuck or failed entry back in the reconciler's pending queue.
+   * 
+   * Resets retry_count so the next reconciler pass checks the receipt again.
+   * Failed entries whose off-chain side effects were already compensated cannot
+   * be retried, since the rows they refer to no longer exist.
+   * 
+   * @param txHash - Transaction hash of the entry
+   * @returns The updated sync queue item
+   * @throws {ValidationError} If txHash is invalid
+   * @throws {NotFoundError} If sync queue entry with txHash doesn't exist
+   * @throws {ConflictError} If the entry is confirmed, cancelled or already compensated
+   * @throws {Error} If database update fails
+   */
+  async retrySync(txHash: string): Promise<SyncQueueItem> {
+    const existing = await this.getExistingSync(txHash);
+
+    if (existing.status !== 'pending' && existing.status !== 'failed') {
+      throw new ConflictError(`Cannot retry sync queue entry with status ${existing.status}`);
+    }
+
+    if (existing.compensated_at) {
+      throw new ConflictError(
+        `Cannot retry sync queue entry ${existing.tx_hash}: its off-chain changes were already compensated`
+      );
+    }
+
+    const updated = await this.transitionSync(existing, {
+      status: 'pending',
+      retry_count: 0,
+      failure_reason: null,
+    });
+
+    logInfo('Sync queue entry requeued for retry', {
+      tx_hash: updated.tx_hash,
+      previous_status: existing.status,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Cancels a pending entry so the reconciler stops tracking it.
+   * 
+   * Off-chain data is left untouched: the transaction may still land on-chain,
+   * so nothing is compensated.
+   * 
+   * @param txHash - Transaction hash of the entry
+   * @returns The updated sync queue item
+   * @throws {ValidationError} If txHash is invalid
+   * @throws {NotFoundError} If sync queue entry with txHash doesn't exist
+   * @throws {ConflictError} If the entry is not pending
+   * @throws {Error} If database update fails
+   */
+  async cancelSync(txHash: string): Promise<SyncQueueItem> {
+    const existing = await this.getExistingSync(txHash);
+
+    if (existing.status !== 'pending') {
+      throw new ConflictError(`Cannot cancel sync queue entry with status ${existing.status}`);
+    }
+
+    const updated = await this.transitionSync(existing, { status: 'cancelled' });
+
+    logInfo('Sync queue entry cancelled', { tx_hash: updated.tx_hash });
+
+    return updated;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Loads a sync queue entry, throwing if it does not exist.
+   */
+  private async getExistingSync(txHash: string): Promise<SyncQueueItem> {
+    const existing = await this.getSyncByTxHash(txHash);
+
+    if (!existing) {
+      throw new NotFoundError(`Sync queue entry with tx_hash ${txHash.trim()} not found`);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Updates an entry only if its status has not changed since it was read,
+   * so admin operations cannot race with the reconciler.
+   */
+  private async transitionSync(
+    existing: SyncQueueItem,
+    updateData: { status: SyncStatus; retry_count?: number; failure_reason?: null }
+  ): Promise<SyncQueueItem> {
+    const supabase = getSupabaseClient();
+
+    const { data: updatedData, error: updateError } = await supabase
+      .from('sync_queue')
+      .update(updateData)
+      .eq('tx_hash', existing.tx_hash)
+      .eq('status', existing.status)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === 'PGRST116') {
+        throw new ConflictError(
+          `Sync queue entry ${existing.tx_hash} changed status concurrently, please retry`
+        );
+      }
+      logError('Failed to update sync queue entry', {
+        error: updateError,
+        tx_hash: existing.tx_hash,
+        status: updateData.status,
+      });
+      throw new Error(`Failed to update sync queue entry: ${updateError.message}`);
+    }
+
+    if (!updatedData) {
+      throw new Error('Failed to update sync queue entry: No data returned from update');
+    }
+
+    return this.mapToSyncQueueItem(updatedData);
+  }
+
+  /**
+   * Maps a sync_queue row from Supabase to a SyncQueueItem.
+   * 
+   * @param row - Raw row from the sync_queue table
+   * @returns Mapped SyncQueueItem
+   */
+  private mapToSyncQueueItem(row: any): SyncQueueItem {
+    return {
+      id: row.id,
+      tx_hash: row.tx_hash,
+      entity_type: row.entity_type as SyncEntityType,
+      entity_id: row.entity_id,
+      operation: (row.operation ?? null) as SyncOperation | null,
+      status: row.status as SyncStatus,
+      retry_count: row.retry_count ?? 0,
+      compensated_at: row.compensated_at ? new Date(row.compensated_at) : null,
+      failure_reason: (row.failure_reason ?? null) as SyncFailureReason | null,
+      review_reason: row.review_reason ?? null,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    };
+  }
+}
@@ -14,6 +14,18 @@
  * - Fish are assigned to tanks via fish.tank_id foreign key
  * - getTankById() retrieves fish by tank_id (not owner)
  * - getTanksByOwner() calculates accurate fish count per tank
+ * 
+ * Tank Minting:
+ * - Besides the starter pack tank, players can mint extra tanks via mintTank()
+ * - A player can own at most MAX_TANKS_PER_PLAYER tanks (starter tank included);
+ *   each mint claims a slot (claim_tank_mint) before minting on-chain
+ * 
+ * Tank Layout:
+ * - The scene (background, decoration transforms, fish spawn zones) is one
+ *   versioned document stored in tank_layouts and decorations
+ * - Layout size depends on the tank's capacity tier (see tank-layout utils)
+ * - Saves are checked for bounds and overlaps, then applied atomically by the
+ *   save_tank_layout RPC only if the version is unchanged
  */
 
 // ============================================================================
@@ -23,10 +35,38 @@
 import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 import { logError } from '@/core/utils/logger';
-import { getTankOnChain } from '@/core/utils/dojo-client';
-import type { Tank } from '@/models/tank.model';
+import { getDojoClient } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { MAX_TANKS_PER_PLAYER } from '@/core/config';
+import { SyncService } from '@/services/sync.service';
+import {
+  MAX_DECORATION_SCALE,
+  MAX_SPAWN_ZONES,
+  MAX_Z_LAYER,
+  MIN_DECORATION_SCALE,
+  DECORATION_FOOTPRINTS,
+  TANK_TIER_SIZES,
+  boxesOverlap,
+  decorationTransformFromRow,
+  getDecorationBounds,
+  getSpawnZoneBounds,
+  getTankTier,
+  isBoxInside,
+  isFiniteNumber,
+  type DecorationTransformRow,
+  type LayoutBox,
+  type LayoutSize,
+} from '@/core/utils/tank-layout';
+import type { Tank, TankLayout, UpdateTankLayoutDto, SpawnZone } from '@/models/tank.model';
+import { DecorationKind, type DecorationTransform } from '@/models/decoration.model';
 import type { FishSummary } from '@/models/fish.model';
 
+// Capacity of tanks minted through POST /tank (same as the starter tank)
+const MINTED_TANK_CAPACITY = 10;
+const MAX_TANK_NAME_LENGTH = 50;
+// Claims of mints that never finished (e.g. the process died) stop holding a slot after this
+const TANK_MINT_CLAIM_TTL_SECONDS = 600;
+
 // ============================================================================
 // TANK SERVICE
 // ============================================================================
@@ -35,6 +75,7 @@ import type { FishSummary } from '@/models/fish.model';
  * Service for managing tank data and operations.
  */
 export class TankService {
+  constructor(private readonly dojoClient: DojoClient = getDojoClient()) {}
 
   // ============================================================================
   // TANK CAPACITY VALIDATION
@@ -88,7 +129,7 @@ export class TankService {
     // 2. Get tank capacity from on-chain data
     let tankOnChain;
     try {
-      tankOnChain = await getTankOnChain(tankId);
+      tankOnChain = await this.dojoClient.getTankOnChain(tankId);
     } catch (error) {
       logError(`Failed to get on-chain data for tank ${tankId}`, error);
       throw new OnChainError(
@@ -202,7 +243,7 @@ export class TankService {
     // 2. Get on-chain data from Dojo
     let tankOnChain;
     try {
-      tankOnChain = await getTankOnChain(id);
+      tankOnChain = await this.dojoClient.getTankOnChain(id);
     } catch (error) {
       logError(`Failed to get on-chain data for tank ${id}`, error);
       throw new OnChainError(
@@ -353,7 +394,7 @@ export class TankService {
     // 4. Get on-chain data for all tanks in parallel
     try {
       const tanksOnChainPromises = tanksOffChain.map((tank: TankRow) =>
-        getTankOnChain(tank.id)
+        this.dojoClient.getTankOnChain(tank.id)
       );
       const tanksOnChainList = await Promise.all(tanksOnChainPromises);
 
@@ -393,5 +434,579 @@ export class TankService {
       );
     }
   }
-}
 
+  // ============================================================================
+  // TANK MINTING & MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Mints an additional tank for a player.
+   * 
+   * Flow:
+   * 1. Validate player exists
+   * 2. Claim a tank slot (claim_tank_mint locks the player, so parallel mints can't
+   *    go over MAX_TANKS_PER_PLAYER)
+   * 3. Mint the tank on-chain (capacity: 10), releasing the claim if it fails
+   * 4. Save it to Supabase (save_claimed_tank turns the claim into the tank row)
+   * 5. Add the mint transaction to the sync queue
+   * 
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @param name - Optional tank name
+   * @returns The newly minted Tank
+   * @throws {ValidationError} If address or name is invalid
+   * @throws {NotFoundError} If player doesn't exist
+   * @throws {ConflictError} If player already owns MAX_TANKS_PER_PLAYER tanks
+   * @throws {OnChainError} If the on-chain mint fails
+   * @throws {Error} If the tank was minted on-chain but saving it failed
+   *   (the sync queue entry is flagged for manual review)
+   */
+  async mintTank(owner: string, name?: string): Promise<Tank> {
+    const trimmedOwner = this.validateOwnerAddress(owner);
+    const tankName = name !== undefined ? this.validateTankName(name) : null;
+
+    const supabase = getSupabaseClient();
+
+    // 1. Validate that the player exists
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('address')
+      .eq('address', trimmedOwner)
+      .single();
+
+    if (playerError) {
+      if (playerError.code === 'PGRST116') {
+        throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
+      }
+      throw new Error(`Database error: ${playerError.message}`);
+    }
+
+    if (!player) {
+      throw new NotFoundError(`Player with address ${trimmedOwner} not found`);
+    }
+
+    // 2. Enforce the per-player tank limit
+    const claimId = await this.claimTankMint(trimmedOwner);
+
+    // 3. Mint on-chain
+    let tankResult;
+    try {
+      tankResult = await this.dojoClient.mintTank(trimmedOwner, MINTED_TANK_CAPACITY);
+    } catch (error) {
+      logError(`Failed to mint tank on-chain for ${trimmedOwner}`, error);
+      await this.releaseTankMint(claimId);
+      throw new OnChainError(
+        `Failed to mint tank on-chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // 4. Save to Supabase
+    const { data: tankData, error: saveError } = await supabase.rpc('save_claimed_tank', {
+      p_claim_id: claimId,
+      p_tank_id: tankResult.tank_id,
+      p_owner: trimmedOwner,
+      p_name: tankName,
+    });
+
+    const saveFailure = saveError ? saveError.message : !tankData ? 'No data returned from save' : null;
+
+    // 5. Track the mint in the sync queue. The tank already exists on-chain, so a failed
+    // save is flagged for manual review.
+    const reviewReason = saveFailure
+      ? `On-chain mint of tank ${tankResult.tank_id} for ${trimmedOwner} succeeded but saving it failed: ${saveFailure}`
+      : undefined;
+
+    try {
+      const syncService = new SyncService();
+      await syncService.addToSyncQueue(
+        tankResult.tx_hash,
+        'tank',
+        tankResult.tank_id.toString(),
+        'mint_tank',
+        reviewReason
+      );
+    } catch (syncError) {
+      // Log error but don't fail the operation - sync queue is for tracking
+      logError('Failed to add tank mint to sync queue', {
+        error: syncError,
+        tx_hash: tankResult.tx_hash,
+        tank_id: tankResult.tank_id,
+        review_reason: reviewReason,
+      });
+    }
+
+    if (saveFailure || !tankData) {
+      logError('Failed to save minted tank to Supabase', {
+        error: saveError,
+        tank_id: tankResult.tank_id,
+        tx_hash: tankResult.tx_hash,
+      });
+      throw new Error(
+        `Failed to save tank ${tankResult.tank_id}: ${saveFailure}. ` +
+        `On-chain mint was successful (tx: ${tankResult.tx_hash}) and was flagged for manual review.`
+      );
+    }
+
+    const tank: Tank = {
+      id: tankResult.tank_id,
+      owner: trimmedOwner,
+      capacity: MINTED_TANK_CAPACITY,
+      sprite_url: tankData.sprite_url ?? null,
+      createdAt: new Date(tankData.created_at),
+    };
+
+    if (tankData.name !== null && tankData.name !== undefined) {
+      tank.name = tankData.name;
+    }
+
+    return tank;
+  }
+
+  /**
+   * Renames a tank owned by the given player.
+   * 
+   * @param tankId - Tank ID
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @param name - New tank name (1-50 characters, trimmed)
+   * @returns Updated Tank data including fish summary list
+   * @throws {ValidationError} If ID, address or name is invalid, or tank doesn't belong to owner
+   * @throws {NotFoundError} If tank doesn't exist
+   */
+  async renameTank(tankId: number, owner: string, name: string): Promise<Tank & { fish: FishSummary[] }> {
+    if (!tankId || tankId <= 0 || !Number.isInteger(tankId)) {
+      throw new ValidationError('Invalid tank ID');
+    }
+
+    const trimmedOwner = this.validateOwnerAddress(owner);
+    const tankName = this.validateTankName(name);
+
+    const supabase = getSupabaseClient();
+
+    const { data: tankOffChain, error } = await supabase
+      .from('tanks')
+      .select('id, owner')
+      .eq('id', tankId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError(`Tank with ID ${tankId} not found`);
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!tankOffChain) {
+      throw new NotFoundError(`Tank with ID ${tankId} not found`);
+    }
+
+    if (tankOffChain.owner !== trimmedOwner) {
+      throw new ValidationError(`Tank with ID ${tankId} does not belong to owner ${trimmedOwner}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('tanks')
+      .update({ name: tankName })
+      .eq('id', tankId);
+
+    if (updateError) {
+      logError(`Failed to rename tank ${tankId}`, updateError);
+      throw new Error(`Failed to rename tank: ${updateError.message}`);
+    }
+
+    return this.getTankById(tankId);
+  }
+
+  // ============================================================================
+  // TANK LAYOUT
+  // ============================================================================
+
+  /**
+   * Retrieves the layout document of a tank.
+   * 
+   * Combines data from:
+   * 1. On-chain (Dojo): capacity, which determines the layout tier and size
+   * 2. tank_layouts: version, background and spawn zones (defaults if never saved)
+   * 3. decorations: decorations placed in the tank with their transforms
+   * 
+   * @param tankId - Tank ID
+   * @returns Tank layout document
+   * @throws {ValidationError} If ID is invalid
+   * @throws {NotFoundError} If tank doesn't exist
+   * @throws {OnChainError} If on-chain data retrieval fails
+   */
+  async getTankLayout(tankId: number): Promise<TankLayout> {
+    if (!tankId || tankId <= 0 || !Number.isInteger(tankId)) {
+      throw new ValidationError('Invalid tank ID');
+    }
+
+    await this.getTankOwner(tankId);
+    const size = await this.getTankLayoutSize(tankId);
+    const supabase = getSupabaseClient();
+
+    // 1. Get the stored layout (a tank without a saved layout is at version 0)
+    const { data: layoutRow, error: layoutError } = await supabase
+      .from('tank_layouts')
+      .select('*')
+      .eq('tank_id', tankId)
+      .single();
+
+    if (layoutError && layoutError.code !== 'PGRST116') {
+      throw new Error(`Database error when retrieving tank layout: ${layoutError.message}`);
+    }
+
+    // 2. Get decorations placed in the tank
+    const { data: decorationRows, error: decorationsError } = await supabase
+      .from('decorations')
+      .select('*')
+      .eq('tank_id', tankId)
+      .order('id', { ascending: true });
+
+    if (decorationsError) {
+      throw new Error(`Database error when retrieving tank decorations: ${decorationsError.message}`);
+    }
+
+    type DecorationRow = DecorationTransformRow & {
+      id: number;
+      kind: DecorationKind;
+      image_url: string | null;
+    };
+
+    const placed: DecorationRow[] = decorationRows || [];
+
+    // The background only shows while its decoration is still placed in the tank
+    const background = placed.find(
+      (decoration) =>
+        decoration.kind === DecorationKind.Background &&
+        decoration.id === layoutRow?.background_decoration_id
+    );
+
+    return {
+      tank_id: tankId,
+      version: layoutRow?.version ?? 0,
+      tier: size.tier,
+      width: size.width,
+      height: size.height,
+      background: {
+        decoration_id: background?.id ?? null,
+        sprite_url: background?.image_url ?? null,
+      },
+      decorations: placed
+        .filter((decoration) => decoration.kind !== DecorationKind.Background)
+        .map((decoration) => ({
+          decoration_id: decoration.id,
+          kind: decoration.kind,
+          sprite_url: decoration.image_url ?? null,
+          transform: decorationTransformFromRow(decoration),
+        })),
+      spawn_zones: layoutRow?.spawn_zones ?? [],
+      updated_at: layoutRow ? new Date(layoutRow.updated_at) : null,
+    };
+  }
+
+  /**
+   * Saves the whole layout document of a tank owned by the given player.
+   * 
+   * Flow:
+   * 1. Validate tank exists and belongs to the owner
+   * 2. Validate the document against the tank's capacity tier:
+   *    - decorations must be placed in the tank and not be backgrounds
+   *    - transforms must be in range and stay inside the tank
+   *    - decorations on the same z-layer must not overlap
+   *    - spawn zones must stay inside the tank
+   * 3. Save atomically via save_tank_layout, only if version is still current
+   * 4. Return the saved layout (version incremented)
+   * 
+   * @param tankId - Tank ID
+   * @param owner - Owner's Starknet wallet address (the authenticated player)
+   * @param layout - New layout document
+   * @returns Saved tank layout
+   * @throws {ValidationError} If the document is invalid or the tank doesn't belong to owner
+   * @throws {NotFoundError} If tank doesn't exist
+   * @throws {ConflictError} If the layout was saved by someone else since version was read
+   * @throws {OnChainError} If on-chain data retrieval fails
+   */
+  async updateTankLayout(tankId: number, owner: string, layout: UpdateTankLayoutDto): Promise<TankLayout> {
+    if (!tankId || tankId <= 0 || !Number.isInteger(tankId)) {
+      throw new ValidationError('Invalid tank ID');
+    }
+
+    const trimmedOwner = this.validateOwnerAddress(owner);
+
+    if (!Number.isInteger(layout.version) || layout.version < 0) {
+      throw new ValidationError('version must be a non-negative integer');
+    }
+
+    const tankOwner = await this.getTankOwner(tankId);
+    if (tankOwner !== trimmedOwner) {
+      throw new ValidationError(`Tank with ID ${tankId} does not belong to owner ${trimmedOwner}`);
+    }
+
+    const size = await this.getTankLayoutSize(tankId);
+    const supabase = getSupabaseClient();
+
+    // 1. Get decorations placed in the tank
+    const { data: placedRows, error: placedError } = await supabase
+      .from('decorations')
+      .select('id, kind')
+      .eq('tank_id', tankId);
+
+    if (placedError) {
+      throw new Error(`Database error when retrieving tank decorations: ${placedError.message}`);
+    }
+
+    const placedKinds = new Map<number, DecorationKind>(
+      (placedRows || []).map((row: { id: number; kind: DecorationKind }) => [row.id, row.kind])
+    );
+
+    // 2. Validate the document
+    const backgroundId = layout.background.decoration_id;
+    if (backgroundId !== null) {
+      if (placedKinds.get(backgroundId) !== DecorationKind.Background) {
+        throw new ValidationError(
+          `Background must be a Background decoration placed in tank ${tankId} (got decoration ${backgroundId})`
+        );
+      }
+    }
+
+    const seen = new Set<number>();
+    const bounds: { id: number; zLayer: number; box: LayoutBox }[] = [];
+
+    for (const { decoration_id: decorationId, transform } of layout.decorations) {
+      if (seen.has(decorationId)) {
+        throw new ValidationError(`Duplicate decoration ID ${decorationId} in layout`);
+      }
+      seen.add(decorationId);
+
+      const kind = placedKinds.get(decorationId);
+      if (kind === undefined) {
+        throw new ValidationError(`Decoration with ID ${decorationId} is not placed in tank ${tankId}`);
+      }
+
+      const footprint = DECORATION_FOOTPRINTS[kind];
+      if (!footprint) {
+        throw new ValidationError(
+          `Decoration with ID ${decorationId} is a ${kind} and can only be used as the layout background`
+        );
+      }
+
+      this.validateDecorationTransform(decorationId, transform);
+
+      const box = getDecorationBounds(footprint, transform);
+      if (!isBoxInside(box, size)) {
+        throw new ValidationError(
+          `Decoration with ID ${decorationId} is out of bounds of tank ${tankId} (${size.width}x${size.height})`
+        );
+      }
+
+      const overlapping = bounds.find(
+        (other) => other.zLayer === transform.z_layer && boxesOverlap(other.box, box)
+      );
+      if (overlapping) {
+        throw new ValidationError(
+          `Decoration with ID ${decorationId} overlaps decoration ${overlapping.id} on z-layer ${transform.z_layer}`
+        );
+      }
+
+      bounds.push({ id: decorationId, zLayer: transform.z_layer, box });
+    }
+
+    if (layout.spawn_zones.length > MAX_SPAWN_ZONES) {
+      throw new ValidationError(`A tank layout can have at most ${MAX_SPAWN_ZONES} spawn zones`);
+    }
+
+    layout.spawn_zones.forEach((zone, index) => this.validateSpawnZone(index, zone, tankId, size));
+
+    // 3. Save atomically, guarded by the version the client read
+    const { error: saveError } = await supabase.rpc('save_tank_layout', {
+      p_tank_id: tankId,
+      p_owner: trimmedOwner,
+      p_expected_version: layout.version,
+      p_background_decoration_id: backgroundId,
+      p_decorations: layout.decorations.map(({ decoration_id, transform }) => ({
+        decoration_id,
+        x: transform.x,
+        y: transform.y,
+        rotation: transform.rotation,
+        scale: transform.scale,
+        z_layer: transform.z_layer,
+      })),
+      p_spawn_zones: layout.spawn_zones.map(({ x, y, width, height }) => ({ x, y, width, height })),
+    });
+
+    if (saveError) {
+      // 40001: the stored version no longer matches (concurrent save)
+      if (saveError.code === '40001') {
+        throw new ConflictError(
+          `Layout of tank ${tankId} was modified since version ${layout.version}, reload it and retry`
+        );
+      }
+      logError(`Failed to save layout of tank ${tankId}`, saveError);
+      throw new Error(`Failed to save tank layout: ${saveError.message}`);
+    }
+
+    return this.getTankLayout(tankId);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Owner of a tank.
+   */
+  private async getTankOwner(tankId: number): Promise<string> {
+    const supabase = getSupabaseClient();
+    const { data: tankOffChain, error } = await supabase
+      .from('tanks')
+      .select('id, owner')
+      .eq('id', tankId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError(`Tank with ID ${tankId} not found`);
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!tankOffChain) {
+      throw new NotFoundError(`Tank with ID ${tankId} not found`);
+    }
+
+    return tankOffChain.owner;
+  }
+
+  /**
+   * Layout tier and size of a tank, from its on-chain capacity.
+   */
+  private async getTankLayoutSize(tankId: number): Promise<LayoutSize & { tier: TankLayout['tier'] }> {
+    let tankOnChain;
+    try {
+      tankOnChain = await this.dojoClient.getTankOnChain(tankId);
+    } catch (error) {
+      logError(`Failed to get on-chain data for tank ${tankId}`, error);
+      throw new OnChainError(
+        `Failed to retrieve on-chain data for tank ${tankId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const tier = getTankTier(tankOnChain.capacity);
+    return { tier, ...TANK_TIER_SIZES[tier] };
+  }
+
+  private validateDecorationTransform(decorationId: number, transform: DecorationTransform): void {
+    if (!transform || !isFiniteNumber(transform.x) || !isFiniteNumber(transform.y)) {
+      throw new ValidationError(`Decoration with ID ${decorationId} needs a numeric position`);
+    }
+
+    if (!isFiniteNumber(transform.rotation) || transform.rotation < 0 || transform.rotation >= 360) {
+      throw new ValidationError(`Decoration with ID ${decorationId} rotation must be in [0, 360) degrees`);
+    }
+
+    if (
+      !isFiniteNumber(transform.scale) ||
+      transform.scale < MIN_DECORATION_SCALE ||
+      transform.scale > MAX_DECORATION_SCALE
+    ) {
+      throw new ValidationError(
+        `Decoration with ID ${decorationId} scale must be between ${MIN_DECORATION_SCALE} and ${MAX_DECORATION_SCALE}`
+      );
+    }
+
+    if (!Number.isInteger(transform.z_layer) || transform.z_layer < 0 || transform.z_layer > MAX_Z_LAYER) {
+      throw new ValidationError(
+        `Decoration with ID ${decorationId} z_layer must be an integer between 0 and ${MAX_Z_LAYER}`
+      );
+    }
+  }
+
+  private validateSpawnZone(index: number, zone: SpawnZone, tankId: number, size: LayoutSize): void {
+    if (
+      !zone ||
+      !isFiniteNumber(zone.x) ||
+      !isFiniteNumber(zone.y) ||
+      !isFiniteNumber(zone.width) ||
+      !isFiniteNumber(zone.height) ||
+      zone.width <= 0 ||
+      zone.height <= 0
+    ) {
+      throw new ValidationError(`Spawn zone ${index} must have a numeric position and a positive size`);
+    }
+
+    if (!isBoxInside(getSpawnZoneBounds(zone), size)) {
+      throw new ValidationError(
+        `Spawn zone ${index} is out of bounds of tank ${tankId} (${size.width}x${size.height})`
+      );
+    }
+  }
+
+  /**
+   * Claims one of the player's free tank slots for a mint.
+   *
+   * @returns Claim ID, passed to save_claimed_tank once the tank is minted
+   * @throws {NotFoundError} If the player doesn't exist
+   * @throws {ConflictError} If the player already owns (or is minting) MAX_TANKS_PER_PLAYER tanks
+   */
+  private async claimTankMint(owner: string): Promise<number> {
+    const { data, error } = await getSupabaseClient().rpc('claim_tank_mint', {
+      p_owner: owner,
+      p_max_tanks: MAX_TANKS_PER_PLAYER,
+      p_claim_ttl_seconds: TANK_MINT_CLAIM_TTL_SECONDS,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        throw new NotFoundError(`Player with address ${owner} not found`);
+      }
+      if (error.code === '55000') {
+        throw new ConflictError(
+          `Player ${owner} already owns the maximum of ${MAX_TANKS_PER_PLAYER} tanks`
+        );
+      }
+      throw new Error(`Failed to claim tank slot: ${error.message}`);
+    }
+
+    return Number(data);
+  }
+
+  /**
+   * Releases the tank slot claimed by a mint that failed.
+   * Failures are logged; the claim then expires after TANK_MINT_CLAIM_TTL_SECONDS.
+   */
+  private async releaseTankMint(claimId: number): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('tank_mint_claims')
+      .delete()
+      .eq('id', claimId);
+
+    if (error) {
+      logError('Failed to release tank mint claim', { error, claim_id: claimId });
+    }
+  }
+
+  private validateOwnerAddress(owner: string): string {
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Owner address is required');
+    }
+
+    // Basic Starknet address format validation (starts with 0x and is hex)
+    const addressPattern = /^0x[a-fA-F0-9]{63,64}$/;
+    if (!addressPattern.test(owner.trim())) {
+      throw new ValidationError('Invalid Starknet address format');
+    }
+
+    return owner.trim();
+  }
+
+  private validateTankName(name: string): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError('Tank name is required');
+    }
+
+    const trimmedName = name.trim();
+    if (trimmedName.length > MAX_TANK_NAME_LENGTH) {
+      throw new ValidationError(`Tank name must be at most ${MAX_TANK_NAME_LENGTH} characters`);
+    }
+
+    return trimmedName;
+  }
+}
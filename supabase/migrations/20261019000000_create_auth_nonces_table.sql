@@ -0,0 +1,39 @@
+-- Create auth_nonces table for the signed-message login flow
+-- Each nonce is issued for one address, expires after AUTH_NONCE_TTL_SECONDS
+-- and can be consumed exactly once (consumed_at is set atomically on login)
+
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  address TEXT NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_address ON auth_nonces(address);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+-- Enable Row-Level Security (RLS) on auth_nonces table
+-- Nonces are internal authentication data and must only be accessible by the backend (service_role)
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all public access to auth_nonces" ON auth_nonces;
+DROP POLICY IF EXISTS "Deny all authenticated access to auth_nonces" ON auth_nonces;
+
+CREATE POLICY "Deny all public access to auth_nonces"
+ON auth_nonces
+FOR ALL
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all authenticated access to auth_nonces"
+ON auth_nonces
+FOR ALL
+TO authenticated
+USING (false)
+WITH CHECK (false);
+
+COMMENT ON TABLE auth_nonces IS 'RLS enabled: Backend-only access. All public and authenticated access denied. Backend uses service_role which bypasses RLS.';
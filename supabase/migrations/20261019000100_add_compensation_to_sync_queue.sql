@@ -0,0 +1,13 @@
+-- Add compensation tracking to sync_queue
+-- operation: on-chain operation that produced the tx (e.g. 'breed_fish', 'mint_tank'),
+--            used to pick the compensation that undoes its off-chain side effects
+-- compensated_at: set once the off-chain side effects of a failed tx were undone or flagged
+
+ALTER TABLE sync_queue ADD COLUMN IF NOT EXISTS operation TEXT;
+
+ALTER TABLE sync_queue ADD COLUMN IF NOT EXISTS compensated_at TIMESTAMP WITH TIME ZONE;
+
+-- Failed entries that still need compensation
+CREATE INDEX IF NOT EXISTS idx_sync_queue_uncompensated_failed
+  ON sync_queue(updated_at)
+  WHERE status = 'failed' AND compensated_at IS NULL;
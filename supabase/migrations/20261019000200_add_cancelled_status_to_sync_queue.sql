@@ -0,0 +1,11 @@
+-- Allow 'cancelled' as a sync_queue status
+-- Set by admins through POST /api/sync/:txHash/cancel to stop tracking a stuck transaction.
+-- Cancelled entries are ignored by the reconciler and by compensation.
+
+ALTER TABLE sync_queue DROP CONSTRAINT IF EXISTS sync_queue_status_check;
+
+ALTER TABLE sync_queue ADD CONSTRAINT sync_queue_status_check
+  CHECK (status IN ('pending', 'confirmed', 'failed', 'cancelled'));
+
+-- Admin listing filters by status/entity_type and orders by creation date
+CREATE INDEX IF NOT EXISTS idx_sync_queue_created_at ON sync_queue(created_at);
@@ -0,0 +1,56 @@
+-- Create feed_events table
+-- One row per fish fed through POST /api/fish/feed. Used for the per-fish feeding
+-- cooldown (FEED_COOLDOWN_SECONDS) and the GET /api/fish/:id/feedings history.
+-- multiplier: decoration XP bonus applied to the feed, as a percentage (15 = +15%)
+-- tx_hash: on-chain transaction that granted the fish its XP
+
+CREATE TABLE IF NOT EXISTS feed_events (
+  id BIGSERIAL PRIMARY KEY,
+  fish_id INTEGER NOT NULL,
+  owner TEXT NOT NULL,
+  food_type TEXT NOT NULL,
+  xp_granted NUMERIC NOT NULL,
+  multiplier NUMERIC NOT NULL DEFAULT 0,
+  tx_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT fk_feed_events_fish FOREIGN KEY (fish_id) REFERENCES fish(id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_events_fish_created_at ON feed_events(fish_id, created_at DESC);
+
+-- Enable Row-Level Security (RLS) on feed_events table
+-- Feed history is public (like fish data); only the backend (service_role) can write it
+ALTER TABLE feed_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access for feed_events" ON feed_events;
+DROP POLICY IF EXISTS "Deny all public writes to feed_events" ON feed_events;
+DROP POLICY IF EXISTS "Deny all public updates to feed_events" ON feed_events;
+DROP POLICY IF EXISTS "Deny all public deletes to feed_events" ON feed_events;
+
+CREATE POLICY "Public read access for feed_events"
+ON feed_events
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to feed_events"
+ON feed_events
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to feed_events"
+ON feed_events
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to feed_events"
+ON feed_events
+FOR DELETE
+TO public
+USING (false);
+
+COMMENT ON TABLE feed_events IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
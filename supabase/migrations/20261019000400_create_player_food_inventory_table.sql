@@ -0,0 +1,60 @@
+-- Create player_food_inventory table
+-- Stock of consumable food per player, one row per (player, food type).
+-- Basic food is unlimited and never stored here; a missing row means quantity 0.
+-- Quantities are decremented by POST /api/fish/feed and read by
+-- GET /api/player/:address/inventory.
+
+CREATE TABLE IF NOT EXISTS player_food_inventory (
+  player_address TEXT NOT NULL,
+  food_type TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (player_address, food_type),
+  CONSTRAINT fk_player_food_inventory_player FOREIGN KEY (player_address) REFERENCES players(address)
+    ON DELETE CASCADE,
+  CONSTRAINT player_food_inventory_quantity_check CHECK (quantity >= 0)
+);
+
+-- Trigger to auto-update updated_at on row modifications
+DROP TRIGGER IF EXISTS update_player_food_inventory_updated_at ON player_food_inventory;
+CREATE TRIGGER update_player_food_inventory_updated_at
+  BEFORE UPDATE ON player_food_inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row-Level Security (RLS) on player_food_inventory table
+-- Inventories are public (like player profiles); only the backend (service_role) can write them
+ALTER TABLE player_food_inventory ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access for player_food_inventory" ON player_food_inventory;
+DROP POLICY IF EXISTS "Deny all public writes to player_food_inventory" ON player_food_inventory;
+DROP POLICY IF EXISTS "Deny all public updates to player_food_inventory" ON player_food_inventory;
+DROP POLICY IF EXISTS "Deny all public deletes to player_food_inventory" ON player_food_inventory;
+
+CREATE POLICY "Public read access for player_food_inventory"
+ON player_food_inventory
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to player_food_inventory"
+ON player_food_inventory
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to player_food_inventory"
+ON player_food_inventory
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to player_food_inventory"
+ON player_food_inventory
+FOR DELETE
+TO public
+USING (false);
+
+COMMENT ON TABLE player_food_inventory IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
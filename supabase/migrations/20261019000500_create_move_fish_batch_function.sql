@@ -0,0 +1,39 @@
+-- Create move_fish_batch function
+-- Reassigns several fish to new tanks in a single transaction (POST /api/fish/move).
+-- p_moves is a JSON array of {"fish_id": <int>, "tank_id": <int>} objects.
+-- Ownership is re-checked under row locks; if any fish or target tank is not owned
+-- by p_owner the function raises and no fish is moved.
+-- Capacity is validated by the backend before calling (tank capacity lives on-chain).
+
+CREATE OR REPLACE FUNCTION move_fish_batch(p_owner TEXT, p_moves JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invalid INTEGER;
+BEGIN
+  -- Lock the fish being moved so concurrent moves of the same fish serialize
+  PERFORM 1
+  FROM fish
+  WHERE id IN (SELECT m.fish_id FROM jsonb_to_recordset(p_moves) AS m(fish_id INTEGER, tank_id INTEGER))
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_invalid
+  FROM jsonb_to_recordset(p_moves) AS m(fish_id INTEGER, tank_id INTEGER)
+  LEFT JOIN fish f ON f.id = m.fish_id AND f.owner = p_owner
+  LEFT JOIN tanks t ON t.id = m.tank_id AND t.owner = p_owner
+  WHERE f.id IS NULL OR t.id IS NULL;
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION 'move_fish_batch: % move(s) reference fish or tanks not owned by %', v_invalid, p_owner;
+  END IF;
+
+  UPDATE fish f
+  SET tank_id = m.tank_id
+  FROM jsonb_to_recordset(p_moves) AS m(fish_id INTEGER, tank_id INTEGER)
+  WHERE f.id = m.fish_id;
+END;
+$$;
+
+-- Only the backend (service_role) may move fish
+REVOKE EXECUTE ON FUNCTION move_fish_batch(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
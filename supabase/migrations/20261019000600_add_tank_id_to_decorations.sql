@@ -0,0 +1,41 @@
+-- Add tank_id column to decorations table
+-- Decorations are placed in a specific tank; only active decorations placed in a
+-- tank count towards that tank's XP multiplier. NULL means the decoration is not placed.
+
+-- Add tank_id column (nullable: existing decorations start unplaced)
+ALTER TABLE decorations
+  ADD COLUMN IF NOT EXISTS tank_id INTEGER;
+
+-- Add foreign key constraint to tanks table
+-- ON DELETE SET NULL: If tank is deleted, decorations remain but become unplaced
+-- ON UPDATE CASCADE: If tank ID changes, update the reference
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'fk_decorations_tank'
+  ) THEN
+    ALTER TABLE decorations
+      ADD CONSTRAINT fk_decorations_tank
+        FOREIGN KEY (tank_id) REFERENCES tanks(id)
+        ON DELETE SET NULL
+        ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- Add index for efficient tank-based queries (slot count and multiplier per tank)
+CREATE INDEX IF NOT EXISTS idx_decorations_tank_id ON decorations(tank_id);
+
+-- Migrate existing data: place active decorations in their owner's first tank
+-- so existing XP bonuses keep applying to that tank
+UPDATE decorations d
+SET tank_id = (
+  SELECT t.id
+  FROM tanks t
+  WHERE t.owner = d.owner
+  ORDER BY t.id ASC
+  LIMIT 1
+)
+WHERE d.tank_id IS NULL AND d.is_active = true;
+
+-- Add comment documenting the column purpose
+COMMENT ON COLUMN decorations.tank_id IS 'Reference to the tank this decoration is placed in. NULL if not placed.';
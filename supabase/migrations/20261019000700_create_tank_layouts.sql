@@ -0,0 +1,178 @@
+-- Create tank layouts
+-- Stores where placed decorations sit in their tank (position, rotation, scale, z-layer)
+-- and the rest of the tank scene (background, fish spawn zones) as one versioned document.
+-- Read by GET /api/tank/:id/layout and written by PUT /api/tank/:id/layout.
+-- Bounds and overlap rules depend on the tank capacity (on-chain), so they are
+-- validated by the backend before calling save_tank_layout.
+
+-- Decoration transform columns (all NULL until a layout positions the decoration)
+ALTER TABLE decorations
+  ADD COLUMN IF NOT EXISTS position_x DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS position_y DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS rotation DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS scale DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS z_layer INTEGER;
+
+-- A transform is either fully set or fully unset, and only placed decorations have one
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'decorations_transform_check'
+  ) THEN
+    ALTER TABLE decorations
+      ADD CONSTRAINT decorations_transform_check CHECK (
+        (position_x IS NULL AND position_y IS NULL AND rotation IS NULL AND scale IS NULL AND z_layer IS NULL)
+        OR (
+          tank_id IS NOT NULL
+          AND position_x IS NOT NULL AND position_y IS NOT NULL
+          AND rotation >= 0 AND rotation < 360
+          AND scale > 0
+          AND z_layer >= 0
+        )
+      );
+  END IF;
+END $$;
+
+COMMENT ON COLUMN decorations.position_x IS 'Center X of the decoration in its tank layout. NULL if not positioned.';
+COMMENT ON COLUMN decorations.position_y IS 'Center Y of the decoration in its tank layout. NULL if not positioned.';
+COMMENT ON COLUMN decorations.z_layer IS 'Render layer in the tank layout (higher is in front). NULL if not positioned.';
+
+-- One layout document per tank; a missing row means version 0 (never saved)
+CREATE TABLE IF NOT EXISTS tank_layouts (
+  tank_id INTEGER PRIMARY KEY,
+  version INTEGER NOT NULL DEFAULT 0,
+  background_decoration_id INTEGER,
+  spawn_zones JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT fk_tank_layouts_tank FOREIGN KEY (tank_id) REFERENCES tanks(id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_tank_layouts_background FOREIGN KEY (background_decoration_id) REFERENCES decorations(id)
+    ON DELETE SET NULL,
+  CONSTRAINT tank_layouts_version_check CHECK (version >= 0)
+);
+
+-- Trigger to auto-update updated_at on row modifications
+DROP TRIGGER IF EXISTS update_tank_layouts_updated_at ON tank_layouts;
+CREATE TRIGGER update_tank_layouts_updated_at
+  BEFORE UPDATE ON tank_layouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row-Level Security (RLS) on tank_layouts table
+-- Layouts are public (like tanks); only the backend (service_role) can write them
+ALTER TABLE tank_layouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access for tank_layouts" ON tank_layouts;
+DROP POLICY IF EXISTS "Deny all public writes to tank_layouts" ON tank_layouts;
+DROP POLICY IF EXISTS "Deny all public updates to tank_layouts" ON tank_layouts;
+DROP POLICY IF EXISTS "Deny all public deletes to tank_layouts" ON tank_layouts;
+
+CREATE POLICY "Public read access for tank_layouts"
+ON tank_layouts
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to tank_layouts"
+ON tank_layouts
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to tank_layouts"
+ON tank_layouts
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to tank_layouts"
+ON tank_layouts
+FOR DELETE
+TO public
+USING (false);
+
+COMMENT ON TABLE tank_layouts IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
+
+-- Saves a whole tank layout in a single transaction.
+-- p_decorations is a JSON array of
+-- {"decoration_id", "x", "y", "rotation", "scale", "z_layer"} objects.
+-- The save only applies if the stored version equals p_expected_version; otherwise it
+-- raises with SQLSTATE 40001 so the backend can report a conflict.
+-- Decorations placed in the tank but missing from p_decorations lose their transform.
+-- Returns the new layout version.
+CREATE OR REPLACE FUNCTION save_tank_layout(
+  p_tank_id INTEGER,
+  p_owner TEXT,
+  p_expected_version INTEGER,
+  p_background_decoration_id INTEGER,
+  p_decorations JSONB,
+  p_spawn_zones JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current_version INTEGER;
+  v_invalid INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM tanks WHERE id = p_tank_id AND owner = p_owner) THEN
+    RAISE EXCEPTION 'save_tank_layout: tank % is not owned by %', p_tank_id, p_owner;
+  END IF;
+
+  -- Lock the layout row so concurrent saves of the same tank serialize
+  INSERT INTO tank_layouts (tank_id) VALUES (p_tank_id) ON CONFLICT (tank_id) DO NOTHING;
+
+  SELECT version INTO v_current_version
+  FROM tank_layouts
+  WHERE tank_id = p_tank_id
+  FOR UPDATE;
+
+  IF v_current_version <> p_expected_version THEN
+    RAISE EXCEPTION 'save_tank_layout: tank % layout is at version %, expected %',
+      p_tank_id, v_current_version, p_expected_version
+      USING ERRCODE = '40001';
+  END IF;
+
+  -- Every referenced decoration must (still) be placed in this tank
+  SELECT COUNT(*) INTO v_invalid
+  FROM jsonb_to_recordset(p_decorations) AS l(decoration_id INTEGER)
+  LEFT JOIN decorations d ON d.id = l.decoration_id AND d.tank_id = p_tank_id AND d.owner = p_owner
+  WHERE d.id IS NULL;
+
+  IF v_invalid > 0
+    OR (p_background_decoration_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM decorations
+      WHERE id = p_background_decoration_id AND tank_id = p_tank_id AND owner = p_owner
+    )) THEN
+    RAISE EXCEPTION 'save_tank_layout: layout references decorations not placed in tank %', p_tank_id;
+  END IF;
+
+  UPDATE decorations
+  SET position_x = NULL, position_y = NULL, rotation = NULL, scale = NULL, z_layer = NULL
+  WHERE tank_id = p_tank_id;
+
+  UPDATE decorations d
+  SET position_x = l.x,
+      position_y = l.y,
+      rotation = l.rotation,
+      scale = l.scale,
+      z_layer = l.z_layer
+  FROM jsonb_to_recordset(p_decorations)
+    AS l(decoration_id INTEGER, x DOUBLE PRECISION, y DOUBLE PRECISION,
+         rotation DOUBLE PRECISION, scale DOUBLE PRECISION, z_layer INTEGER)
+  WHERE d.id = l.decoration_id;
+
+  UPDATE tank_layouts
+  SET version = v_current_version + 1,
+      background_decoration_id = p_background_decoration_id,
+      spawn_zones = p_spawn_zones
+  WHERE tank_id = p_tank_id;
+
+  RETURN v_current_version + 1;
+END;
+$$;
+
+-- Only the backend (service_role) may save layouts
+REVOKE EXECUTE ON FUNCTION save_tank_layout(INTEGER, TEXT, INTEGER, INTEGER, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,235 @@
+-- Create currency ledger
+-- Double-entry ledger for in-game coins. Every transaction moves an amount from one
+-- account to another and writes two ledger_entries that sum to zero.
+-- Accounts are keyed by code: a player's Starknet address, or 'system:<name>' for
+-- system accounts (system:rewards funds game rewards, system:shop receives purchases).
+-- Player balances can never go negative; system balances can.
+-- Transactions carry a unique idempotency_key so retried posts are applied once.
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  code TEXT PRIMARY KEY,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  balance BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT ledger_accounts_balance_check CHECK (is_system OR balance >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id BIGSERIAL PRIMARY KEY,
+  idempotency_key TEXT NOT NULL,
+  type TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT ledger_transactions_idempotency_key_unique UNIQUE (idempotency_key)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id BIGSERIAL PRIMARY KEY,
+  transaction_id BIGINT NOT NULL,
+  account_code TEXT NOT NULL,
+  amount BIGINT NOT NULL,
+  balance_after BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT fk_ledger_entries_transaction FOREIGN KEY (transaction_id) REFERENCES ledger_transactions(id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_ledger_entries_account FOREIGN KEY (account_code) REFERENCES ledger_accounts(code)
+    ON DELETE RESTRICT,
+  CONSTRAINT ledger_entries_amount_check CHECK (amount <> 0)
+);
+
+-- Transaction history per account, newest first
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account_code, id DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+
+-- System accounts
+INSERT INTO ledger_accounts (code, is_system)
+VALUES ('system:rewards', true), ('system:shop', true)
+ON CONFLICT (code) DO NOTHING;
+
+-- Trigger to auto-update updated_at on row modifications
+DROP TRIGGER IF EXISTS update_ledger_accounts_updated_at ON ledger_accounts;
+CREATE TRIGGER update_ledger_accounts_updated_at
+  BEFORE UPDATE ON ledger_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row-Level Security (RLS) on ledger tables
+-- Balances and history are public (like player profiles); only the backend (service_role) can write them
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access for ledger_accounts" ON ledger_accounts;
+DROP POLICY IF EXISTS "Deny all public writes to ledger_accounts" ON ledger_accounts;
+DROP POLICY IF EXISTS "Deny all public updates to ledger_accounts" ON ledger_accounts;
+DROP POLICY IF EXISTS "Deny all public deletes to ledger_accounts" ON ledger_accounts;
+
+CREATE POLICY "Public read access for ledger_accounts"
+ON ledger_accounts
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to ledger_accounts"
+ON ledger_accounts
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to ledger_accounts"
+ON ledger_accounts
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to ledger_accounts"
+ON ledger_accounts
+FOR DELETE
+TO public
+USING (false);
+
+DROP POLICY IF EXISTS "Public read access for ledger_transactions" ON ledger_transactions;
+DROP POLICY IF EXISTS "Deny all public writes to ledger_transactions" ON ledger_transactions;
+DROP POLICY IF EXISTS "Deny all public updates to ledger_transactions" ON ledger_transactions;
+DROP POLICY IF EXISTS "Deny all public deletes to ledger_transactions" ON ledger_transactions;
+
+CREATE POLICY "Public read access for ledger_transactions"
+ON ledger_transactions
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to ledger_transactions"
+ON ledger_transactions
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to ledger_transactions"
+ON ledger_transactions
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to ledger_transactions"
+ON ledger_transactions
+FOR DELETE
+TO public
+USING (false);
+
+DROP POLICY IF EXISTS "Public read access for ledger_entries" ON ledger_entries;
+DROP POLICY IF EXISTS "Deny all public writes to ledger_entries" ON ledger_entries;
+DROP POLICY IF EXISTS "Deny all public updates to ledger_entries" ON ledger_entries;
+DROP POLICY IF EXISTS "Deny all public deletes to ledger_entries" ON ledger_entries;
+
+CREATE POLICY "Public read access for ledger_entries"
+ON ledger_entries
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to ledger_entries"
+ON ledger_entries
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to ledger_entries"
+ON ledger_entries
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to ledger_entries"
+ON ledger_entries
+FOR DELETE
+TO public
+USING (false);
+
+COMMENT ON TABLE ledger_accounts IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
+COMMENT ON TABLE ledger_transactions IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
+COMMENT ON TABLE ledger_entries IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
+
+-- Posts a transfer of p_amount coins from p_from_account to p_to_account.
+-- Accounts are created on first use ('system:' codes become system accounts).
+-- If p_idempotency_key was already posted, nothing changes and the original
+-- transaction id is returned. Debiting a player account below zero fails the
+-- ledger_accounts_balance_check constraint (SQLSTATE 23514).
+-- Returns the transaction id.
+CREATE OR REPLACE FUNCTION post_ledger_transfer(
+  p_idempotency_key TEXT,
+  p_type TEXT,
+  p_description TEXT,
+  p_from_account TEXT,
+  p_to_account TEXT,
+  p_amount BIGINT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction_id BIGINT;
+  v_from_balance BIGINT;
+  v_to_balance BIGINT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'post_ledger_transfer: amount must be positive, got %', p_amount;
+  END IF;
+
+  IF p_from_account = p_to_account THEN
+    RAISE EXCEPTION 'post_ledger_transfer: cannot transfer from % to itself', p_from_account;
+  END IF;
+
+  SELECT id INTO v_transaction_id FROM ledger_transactions WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO ledger_accounts (code, is_system)
+  VALUES
+    (p_from_account, p_from_account LIKE 'system:%'),
+    (p_to_account, p_to_account LIKE 'system:%')
+  ON CONFLICT (code) DO NOTHING;
+
+  -- Lock both accounts in a fixed order so concurrent transfers cannot deadlock
+  PERFORM 1
+  FROM ledger_accounts
+  WHERE code IN (p_from_account, p_to_account)
+  ORDER BY code
+  FOR UPDATE;
+
+  BEGIN
+    INSERT INTO ledger_transactions (idempotency_key, type, description)
+    VALUES (p_idempotency_key, p_type, p_description)
+    RETURNING id INTO v_transaction_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Posted concurrently with the same key
+    SELECT id INTO v_transaction_id FROM ledger_transactions WHERE idempotency_key = p_idempotency_key;
+    RETURN v_transaction_id;
+  END;
+
+  UPDATE ledger_accounts
+  SET balance = balance - p_amount
+  WHERE code = p_from_account
+  RETURNING balance INTO v_from_balance;
+
+  UPDATE ledger_accounts
+  SET balance = balance + p_amount
+  WHERE code = p_to_account
+  RETURNING balance INTO v_to_balance;
+
+  INSERT INTO ledger_entries (transaction_id, account_code, amount, balance_after)
+  VALUES
+    (v_transaction_id, p_from_account, -p_amount, v_from_balance),
+    (v_transaction_id, p_to_account, p_amount, v_to_balance);
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- Only the backend (service_role) may post ledger transactions
+REVOKE EXECUTE ON FUNCTION post_ledger_transfer(TEXT, TEXT, TEXT, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
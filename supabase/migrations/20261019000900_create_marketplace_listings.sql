@@ -0,0 +1,145 @@
+-- Create marketplace listings
+-- Player-to-player sales of fish and decorations (POST /api/marketplace/listings).
+-- A listing is 'active' until it is bought ('sold') or withdrawn ('cancelled').
+-- Each asset can have at most one active listing.
+-- Payments go through the currency ledger: the buyer pays into the system:marketplace
+-- account, which pays the seller once ownership has moved.
+
+CREATE TABLE IF NOT EXISTS marketplace_listings (
+  id BIGSERIAL PRIMARY KEY,
+  seller TEXT NOT NULL,
+  asset_type TEXT NOT NULL,
+  asset_id INTEGER NOT NULL,
+  price BIGINT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  buyer TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT fk_marketplace_listings_seller FOREIGN KEY (seller) REFERENCES players(address)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_marketplace_listings_buyer FOREIGN KEY (buyer) REFERENCES players(address)
+    ON DELETE SET NULL,
+  CONSTRAINT marketplace_listings_asset_type_check CHECK (asset_type IN ('fish', 'decoration')),
+  CONSTRAINT marketplace_listings_status_check CHECK (status IN ('active', 'sold', 'cancelled')),
+  CONSTRAINT marketplace_listings_price_check CHECK (price > 0)
+);
+
+-- At most one active listing per asset
+CREATE UNIQUE INDEX IF NOT EXISTS idx_marketplace_listings_active_asset
+  ON marketplace_listings(asset_type, asset_id)
+  WHERE status = 'active';
+
+-- Browsing: newest listings by status, optionally per seller
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_status_created ON marketplace_listings(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_seller ON marketplace_listings(seller);
+
+-- Escrow account for marketplace payments
+INSERT INTO ledger_accounts (code, is_system)
+VALUES ('system:marketplace', true)
+ON CONFLICT (code) DO NOTHING;
+
+-- Trigger to auto-update updated_at on row modifications
+DROP TRIGGER IF EXISTS update_marketplace_listings_updated_at ON marketplace_listings;
+CREATE TRIGGER update_marketplace_listings_updated_at
+  BEFORE UPDATE ON marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row-Level Security (RLS) on marketplace_listings table
+-- Listings are public; only the backend (service_role) can create, cancel or complete them
+ALTER TABLE marketplace_listings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access for marketplace_listings" ON marketplace_listings;
+DROP POLICY IF EXISTS "Deny all public writes to marketplace_listings" ON marketplace_listings;
+DROP POLICY IF EXISTS "Deny all public updates to marketplace_listings" ON marketplace_listings;
+DROP POLICY IF EXISTS "Deny all public deletes to marketplace_listings" ON marketplace_listings;
+
+CREATE POLICY "Public read access for marketplace_listings"
+ON marketplace_listings
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Deny all public writes to marketplace_listings"
+ON marketplace_listings
+FOR INSERT
+TO public
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public updates to marketplace_listings"
+ON marketplace_listings
+FOR UPDATE
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all public deletes to marketplace_listings"
+ON marketplace_listings
+FOR DELETE
+TO public
+USING (false);
+
+COMMENT ON TABLE marketplace_listings IS 'RLS enabled: Public read access. Writes are backend-only (service_role bypasses RLS).';
+
+-- Completes the sale of an active listing in a single transaction:
+-- - moves the asset to p_buyer (fish leave their tank; decorations leave their tank,
+--   are deactivated and lose their layout transform)
+-- - updates fish_count on both players when a fish is sold
+-- - marks the listing 'sold'
+-- Raises SQLSTATE 55000 if the listing is not active or the seller no longer owns the asset.
+-- Payment and the on-chain transfer are handled by the backend.
+CREATE OR REPLACE FUNCTION complete_listing_sale(p_listing_id BIGINT, p_buyer TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_listing marketplace_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing FROM marketplace_listings WHERE id = p_listing_id FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'complete_listing_sale: listing % is not active', p_listing_id
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF v_listing.asset_type = 'fish' THEN
+    UPDATE fish
+    SET owner = p_buyer, tank_id = NULL
+    WHERE id = v_listing.asset_id AND owner = v_listing.seller;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'complete_listing_sale: fish % is no longer owned by %', v_listing.asset_id, v_listing.seller
+        USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE players SET fish_count = GREATEST(fish_count - 1, 0) WHERE address = v_listing.seller;
+    UPDATE players SET fish_count = fish_count + 1 WHERE address = p_buyer;
+  ELSE
+    UPDATE decorations
+    SET owner = p_buyer,
+        tank_id = NULL,
+        is_active = false,
+        position_x = NULL,
+        position_y = NULL,
+        rotation = NULL,
+        scale = NULL,
+        z_layer = NULL
+    WHERE id = v_listing.asset_id AND owner = v_listing.seller;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'complete_listing_sale: decoration % is no longer owned by %', v_listing.asset_id, v_listing.seller
+        USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE tank_layouts SET background_decoration_id = NULL WHERE background_decoration_id = v_listing.asset_id;
+  END IF;
+
+  UPDATE marketplace_listings
+  SET status = 'sold', buyer = p_buyer, closed_at = NOW()
+  WHERE id = p_listing_id;
+END;
+$$;
+
+-- Only the backend (service_role) may complete sales
+REVOKE EXECUTE ON FUNCTION complete_listing_sale(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,40 @@
+-- Create transfer_fish_ownership function
+-- Direct gifts of fish between players (POST /api/fish/:id/transfer).
+-- The gifted fish leaves the sender's tank and lands in the recipient's first tank.
+
+-- Gives a fish to p_to in a single transaction:
+-- - moves the fish to p_to and into p_tank_id (parent ids are left untouched, so lineage is kept)
+-- - updates fish_count on both players
+-- - cancels any active marketplace listing of the fish
+-- Raises SQLSTATE 55000 if the fish is no longer owned by p_from.
+-- Tank capacity and the on-chain transfer are checked by the backend.
+CREATE OR REPLACE FUNCTION transfer_fish_ownership(
+  p_fish_id BIGINT,
+  p_from TEXT,
+  p_to TEXT,
+  p_tank_id BIGINT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE fish
+  SET owner = p_to, tank_id = p_tank_id
+  WHERE id = p_fish_id AND owner = p_from;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'transfer_fish_ownership: fish % is no longer owned by %', p_fish_id, p_from
+      USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE players SET fish_count = GREATEST(fish_count - 1, 0) WHERE address = p_from;
+  UPDATE players SET fish_count = fish_count + 1 WHERE address = p_to;
+
+  UPDATE marketplace_listings
+  SET status = 'cancelled', closed_at = NOW()
+  WHERE asset_type = 'fish' AND asset_id = p_fish_id AND status = 'active';
+END;
+$$;
+
+-- Only the backend (service_role) may transfer fish
+REVOKE EXECUTE ON FUNCTION transfer_fish_ownership(BIGINT, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Create entity_id_counters table and allocate_entity_id function
+-- Stub-mode ID allocation for fish, tanks and decorations (simulates the on-chain
+-- FishCounter, TankCounter and DecorationCounter). Every API instance allocates
+-- from the same row, so concurrent mints never get the same ID.
+
+CREATE TABLE IF NOT EXISTS entity_id_counters (
+  entity TEXT PRIMARY KEY CHECK (entity IN ('fish', 'tank', 'decoration')),
+  last_id BIGINT NOT NULL DEFAULT 0 CHECK (last_id >= 0)
+);
+
+-- Start each counter after the IDs already in use
+INSERT INTO entity_id_counters (entity, last_id) VALUES
+  ('fish', COALESCE((SELECT MAX(id) FROM fish), 0)),
+  ('tank', COALESCE((SELECT MAX(id) FROM tanks), 0)),
+  ('decoration', COALESCE((SELECT MAX(id) FROM decorations), 0))
+ON CONFLICT (entity) DO NOTHING;
+
+ALTER TABLE entity_id_counters ENABLE ROW LEVEL SECURITY;
+
+-- Allocates the next ID for p_entity ('fish', 'tank' or 'decoration').
+-- The UPDATE locks the counter row, so concurrent callers are served one at a time.
+-- The counter never goes below MAX(id) of the entity table, so rows inserted with
+-- explicit IDs (e.g. synced from chain) are skipped. IDs are never reused.
+-- Raises SQLSTATE 22023 for an unknown entity.
+CREATE OR REPLACE FUNCTION allocate_entity_id(p_entity TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max_id BIGINT;
+  v_id BIGINT;
+BEGIN
+  v_max_id := CASE p_entity
+    WHEN 'fish' THEN (SELECT MAX(id) FROM fish)
+    WHEN 'tank' THEN (SELECT MAX(id) FROM tanks)
+    WHEN 'decoration' THEN (SELECT MAX(id) FROM decorations)
+  END;
+
+  UPDATE entity_id_counters
+  SET last_id = GREATEST(last_id, COALESCE(v_max_id, 0)) + 1
+  WHERE entity = p_entity
+  RETURNING last_id INTO v_id;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'allocate_entity_id: unknown entity %', p_entity
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only the backend (service_role) may allocate IDs
+REVOKE EXECUTE ON FUNCTION allocate_entity_id(TEXT) FROM PUBLIC, anon, authenticated;
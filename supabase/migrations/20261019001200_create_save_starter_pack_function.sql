@@ -0,0 +1,59 @@
+-- Create save_starter_pack function
+-- Saves a freshly minted starter pack (1 tank + its fish) in a single transaction,
+-- so a failure never leaves a tank without its fish or a stale fish_count.
+
+-- Saves the starter pack of p_owner:
+-- - inserts the tank and the fish (assigned to the tank)
+-- - sets fish_count to the number of fish the player owns
+-- Rows that already exist with the same owner are kept, so a retry of the same
+-- mints is a no-op. The player row is locked so concurrent saves serialize.
+-- Raises SQLSTATE P0002 if the player does not exist and 23505 if an ID is
+-- already used by another owner.
+CREATE OR REPLACE FUNCTION save_starter_pack(
+  p_owner TEXT,
+  p_tank_id BIGINT,
+  p_tank_name TEXT,
+  p_fish_ids BIGINT[],
+  p_species TEXT,
+  p_image_url TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_conflicts INTEGER;
+BEGIN
+  PERFORM 1 FROM players WHERE address = p_owner FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'save_starter_pack: player % not found', p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO tanks (id, owner, name)
+  VALUES (p_tank_id, p_owner, p_tank_name)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO fish (id, owner, species, image_url, tank_id)
+  SELECT fish_id, p_owner, p_species, p_image_url, p_tank_id
+  FROM unnest(p_fish_ids) AS fish_id
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT
+    (SELECT COUNT(*) FROM tanks WHERE id = p_tank_id AND owner <> p_owner) +
+    (SELECT COUNT(*) FROM fish WHERE id = ANY(p_fish_ids) AND owner <> p_owner)
+  INTO v_conflicts;
+
+  IF v_conflicts > 0 THEN
+    RAISE EXCEPTION 'save_starter_pack: % starter pack ID(s) already belong to another owner', v_conflicts
+      USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE players
+  SET fish_count = (SELECT COUNT(*) FROM fish WHERE owner = p_owner)
+  WHERE address = p_owner;
+END;
+$$;
+
+-- Only the backend (service_role) may save starter packs
+REVOKE EXECUTE ON FUNCTION save_starter_pack(TEXT, BIGINT, TEXT, BIGINT[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,58 @@
+-- Create save_bred_fish function
+-- Saves the offspring of a breeding (POST /api/fish/breed) in a single transaction,
+-- so the fish row and the owner's statistics are always written together.
+
+-- Saves a bred fish owned by p_owner:
+-- - inserts the fish with its parent ids, assigned to p_tank_id
+-- - increments offspring_created and fish_count of the owner
+-- If the fish already exists with the same owner (retry of the same breeding),
+-- nothing is written, so the statistics are only counted once.
+-- The player row is locked so concurrent breedings serialize their stat updates.
+-- Raises SQLSTATE P0002 if the player does not exist and 23505 if the fish ID is
+-- already used by another owner.
+CREATE OR REPLACE FUNCTION save_bred_fish(
+  p_fish_id BIGINT,
+  p_owner TEXT,
+  p_species TEXT,
+  p_image_url TEXT,
+  p_parent1_id BIGINT,
+  p_parent2_id BIGINT,
+  p_tank_id BIGINT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_existing_owner TEXT;
+BEGIN
+  PERFORM 1 FROM players WHERE address = p_owner FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'save_bred_fish: player % not found', p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO fish (id, owner, species, image_url, parent1_id, parent2_id, tank_id)
+  VALUES (p_fish_id, p_owner, p_species, p_image_url, p_parent1_id, p_parent2_id, p_tank_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    SELECT owner INTO v_existing_owner FROM fish WHERE id = p_fish_id;
+
+    IF v_existing_owner IS DISTINCT FROM p_owner THEN
+      RAISE EXCEPTION 'save_bred_fish: fish % already belongs to another owner', p_fish_id
+        USING ERRCODE = '23505';
+    END IF;
+
+    RETURN;
+  END IF;
+
+  UPDATE players
+  SET offspring_created = offspring_created + 1,
+      fish_count = fish_count + 1
+  WHERE address = p_owner;
+END;
+$$;
+
+-- Only the backend (service_role) may save bred fish
+REVOKE EXECUTE ON FUNCTION save_bred_fish(BIGINT, TEXT, TEXT, TEXT, BIGINT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
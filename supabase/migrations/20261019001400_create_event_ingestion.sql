@@ -0,0 +1,76 @@
+-- Create event ingestion tables and functions
+-- World events (FishMinted, FishFed, FishBred, TankMinted, DecorationToggled) are read
+-- from an event source and upserted into Supabase, so actions done directly on-chain
+-- (e.g. by the game client) show up in the API.
+
+-- Last ingested event of each event source
+CREATE TABLE IF NOT EXISTS event_checkpoints (
+  source TEXT PRIMARY KEY,
+  cursor TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Enable Row-Level Security (RLS) on event_checkpoints table
+-- Checkpoints are internal ingestion state and must only be accessible by the backend (service_role)
+ALTER TABLE event_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all public access to event_checkpoints" ON event_checkpoints;
+DROP POLICY IF EXISTS "Deny all authenticated access to event_checkpoints" ON event_checkpoints;
+
+CREATE POLICY "Deny all public access to event_checkpoints"
+ON event_checkpoints
+FOR ALL
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all authenticated access to event_checkpoints"
+ON event_checkpoints
+FOR ALL
+TO authenticated
+USING (false)
+WITH CHECK (false);
+
+COMMENT ON TABLE event_checkpoints IS 'RLS enabled: Backend-only access. All public and authenticated access denied. Backend uses service_role which bypasses RLS.';
+
+-- A fish is fed at most once per transaction, so replayed FishFed events are ignored
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feed_events_tx_hash_fish_id ON feed_events(tx_hash, fish_id);
+
+-- Saves a fish minted on-chain by p_owner:
+-- - inserts the fish, assigned to p_tank_id (may be NULL)
+-- - increments fish_count of the owner
+-- If the fish already exists, nothing is written (it was saved by the API or an
+-- earlier replay, and may have changed owner since), so fish_count is only counted once.
+-- Raises SQLSTATE P0002 if the player does not exist.
+CREATE OR REPLACE FUNCTION save_minted_fish(
+  p_fish_id BIGINT,
+  p_owner TEXT,
+  p_species TEXT,
+  p_image_url TEXT,
+  p_tank_id BIGINT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM 1 FROM players WHERE address = p_owner FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'save_minted_fish: player % not found', p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO fish (id, owner, species, image_url, tank_id)
+  VALUES (p_fish_id, p_owner, p_species, p_image_url, p_tank_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE players SET fish_count = fish_count + 1 WHERE address = p_owner;
+END;
+$$;
+
+-- Only the backend (service_role) may save minted fish
+REVOKE EXECUTE ON FUNCTION save_minted_fish(BIGINT, TEXT, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Create claim_feed function
+-- Enforces the per-fish feeding cooldown (FEED_COOLDOWN_SECONDS) of POST /api/fish/feed
+-- atomically: the feed_events rows that start the cooldown are inserted before the
+-- backend spends food or sends the feed on-chain, and completed once XP is granted.
+
+-- Claims a feed of p_fish_ids by p_owner in a single transaction:
+-- - locks the fish rows, so concurrent claims of the same fish run one after the other
+-- - inserts one feed_events row per fish (xp_granted 0 and no tx_hash until completed)
+-- Returns the inserted feed_events rows.
+-- Raises SQLSTATE 55000 if any fish was fed (or claimed) within p_cooldown_seconds.
+CREATE OR REPLACE FUNCTION claim_feed(
+  p_fish_ids BIGINT[],
+  p_owner TEXT,
+  p_food_type TEXT,
+  p_cooldown_seconds INTEGER
+)
+RETURNS SETOF feed_events
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_cooling_ids BIGINT[];
+  v_last_feed TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM 1 FROM fish WHERE id = ANY(p_fish_ids) ORDER BY id FOR UPDATE;
+
+  SELECT array_agg(DISTINCT fish_id ORDER BY fish_id), MAX(created_at)
+  INTO v_cooling_ids, v_last_feed
+  FROM feed_events
+  WHERE fish_id = ANY(p_fish_ids)
+    AND created_at >= NOW() - make_interval(secs => p_cooldown_seconds);
+
+  IF v_cooling_ids IS NOT NULL THEN
+    RAISE EXCEPTION 'Fish with IDs [%] were fed recently. Try again after %',
+      array_to_string(v_cooling_ids, ', '),
+      to_char((v_last_feed + make_interval(secs => p_cooldown_seconds)) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+      USING ERRCODE = '55000';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO feed_events (fish_id, owner, food_type, xp_granted)
+  SELECT fish_id, p_owner, p_food_type, 0
+  FROM unnest(p_fish_ids) AS fish_id
+  RETURNING *;
+END;
+$$;
+
+-- Only the backend (service_role) may claim feeds
+REVOKE EXECUTE ON FUNCTION claim_feed(BIGINT[], TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
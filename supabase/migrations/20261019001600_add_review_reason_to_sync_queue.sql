@@ -0,0 +1,11 @@
+-- Add manual review flag to sync_queue
+-- review_reason: why the entry needs a human to reconcile Supabase with the chain, e.g. an
+--                on-chain transfer that succeeded while the matching Supabase write failed
+--                (NULL when nothing needs review)
+
+ALTER TABLE sync_queue ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+-- Entries waiting for manual review
+CREATE INDEX IF NOT EXISTS idx_sync_queue_needs_review
+  ON sync_queue(created_at)
+  WHERE review_reason IS NOT NULL;
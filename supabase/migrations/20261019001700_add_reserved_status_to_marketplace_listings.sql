@@ -0,0 +1,130 @@
+-- Add the 'reserved' status to marketplace listings
+-- A purchase reserves the listing for its buyer before taking payment and transferring the
+-- asset on-chain, so two buyers can never pay for (or transfer) the same listing.
+-- The reservation is released if the payment or the on-chain transfer fails, and becomes
+-- 'sold' once complete_listing_sale moves ownership in Supabase.
+-- Reserved listings are live: functions that cancel or guard listings treat them like
+-- active ones.
+
+ALTER TABLE marketplace_listings DROP CONSTRAINT IF EXISTS marketplace_listings_status_check;
+ALTER TABLE marketplace_listings ADD CONSTRAINT marketplace_listings_status_check
+  CHECK (status IN ('active', 'reserved', 'sold', 'cancelled'));
+
+-- A reserved asset can't be listed again until its sale is completed or released
+DROP INDEX IF EXISTS idx_marketplace_listings_active_asset;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_marketplace_listings_active_asset
+  ON marketplace_listings(asset_type, asset_id)
+  WHERE status IN ('active', 'reserved');
+
+-- Completes the sale of a listing reserved by p_buyer in a single transaction:
+-- - moves the asset to p_buyer (fish leave their tank; decorations leave their tank,
+--   are deactivated and lose their layout transform)
+-- - updates fish_count on both players when a fish is sold
+-- - marks the listing 'sold'
+-- Raises SQLSTATE 55000 if the listing is not reserved by p_buyer or the seller no longer owns the asset.
+-- Reservation, payment and the on-chain transfer are handled by the backend.
+CREATE OR REPLACE FUNCTION complete_listing_sale(p_listing_id BIGINT, p_buyer TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_listing marketplace_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing FROM marketplace_listings WHERE id = p_listing_id FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'reserved' OR v_listing.buyer IS DISTINCT FROM p_buyer THEN
+    RAISE EXCEPTION 'complete_listing_sale: listing % is not reserved by %', p_listing_id, p_buyer
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF v_listing.asset_type = 'fish' THEN
+    UPDATE fish
+    SET owner = p_buyer, tank_id = NULL
+    WHERE id = v_listing.asset_id AND owner = v_listing.seller;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'complete_listing_sale: fish % is no longer owned by %', v_listing.asset_id, v_listing.seller
+        USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE players SET fish_count = GREATEST(fish_count - 1, 0) WHERE address = v_listing.seller;
+    UPDATE players SET fish_count = fish_count + 1 WHERE address = p_buyer;
+  ELSE
+    UPDATE decorations
+    SET owner = p_buyer,
+        tank_id = NULL,
+        is_active = false,
+        position_x = NULL,
+        position_y = NULL,
+        rotation = NULL,
+        scale = NULL,
+        z_layer = NULL
+    WHERE id = v_listing.asset_id AND owner = v_listing.seller;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'complete_listing_sale: decoration % is no longer owned by %', v_listing.asset_id, v_listing.seller
+        USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE tank_layouts SET background_decoration_id = NULL WHERE background_decoration_id = v_listing.asset_id;
+  END IF;
+
+  UPDATE marketplace_listings
+  SET status = 'sold', closed_at = NOW()
+  WHERE id = p_listing_id;
+END;
+$$;
+
+-- Only the backend (service_role) may complete sales
+REVOKE EXECUTE ON FUNCTION complete_listing_sale(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Gives a fish to p_to in a single transaction:
+-- - moves the fish to p_to and into p_tank_id (parent ids are left untouched, so lineage is kept)
+-- - updates fish_count on both players
+-- - cancels any active marketplace listing of the fish
+-- The listing row is locked first, so a purchase can't reserve it while the gift runs.
+-- Raises SQLSTATE 55000 if the fish is no longer owned by p_from or a purchase of it is in
+-- progress (reserved listing).
+-- Tank capacity and the on-chain transfer are checked by the backend.
+CREATE OR REPLACE FUNCTION transfer_fish_ownership(
+  p_fish_id BIGINT,
+  p_from TEXT,
+  p_to TEXT,
+  p_tank_id BIGINT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_listing marketplace_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing
+  FROM marketplace_listings
+  WHERE asset_type = 'fish' AND asset_id = p_fish_id AND status IN ('active', 'reserved')
+  FOR UPDATE;
+
+  IF FOUND AND v_listing.status = 'reserved' THEN
+    RAISE EXCEPTION 'transfer_fish_ownership: fish % is being bought (listing %)', p_fish_id, v_listing.id
+      USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE fish
+  SET owner = p_to, tank_id = p_tank_id
+  WHERE id = p_fish_id AND owner = p_from;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'transfer_fish_ownership: fish % is no longer owned by %', p_fish_id, p_from
+      USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE players SET fish_count = GREATEST(fish_count - 1, 0) WHERE address = p_from;
+  UPDATE players SET fish_count = fish_count + 1 WHERE address = p_to;
+
+  UPDATE marketplace_listings
+  SET status = 'cancelled', closed_at = NOW()
+  WHERE asset_type = 'fish' AND asset_id = p_fish_id AND status = 'active';
+END;
+$$;
+
+-- Only the backend (service_role) may transfer fish
+REVOKE EXECUTE ON FUNCTION transfer_fish_ownership(BIGINT, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,42 @@
+-- Create event_dead_letters table
+-- World events that keep failing to ingest (EVENT_INGESTION_MAX_ATTEMPTS passes in a row)
+-- are recorded here and skipped, so a single bad event can't block its event source.
+-- Rows are kept for manual inspection; replaying one is done by hand.
+
+CREATE TABLE IF NOT EXISTS event_dead_letters (
+  id BIGSERIAL PRIMARY KEY,
+  source TEXT NOT NULL,
+  cursor TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  event JSONB NOT NULL,
+  error TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- An event is dead-lettered at most once per source
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_dead_letters_source_cursor ON event_dead_letters(source, cursor);
+
+-- Enable Row-Level Security (RLS) on event_dead_letters table
+-- Dead letters are internal ingestion state and must only be accessible by the backend (service_role)
+ALTER TABLE event_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all public access to event_dead_letters" ON event_dead_letters;
+DROP POLICY IF EXISTS "Deny all authenticated access to event_dead_letters" ON event_dead_letters;
+
+CREATE POLICY "Deny all public access to event_dead_letters"
+ON event_dead_letters
+FOR ALL
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all authenticated access to event_dead_letters"
+ON event_dead_letters
+FOR ALL
+TO authenticated
+USING (false)
+WITH CHECK (false);
+
+COMMENT ON TABLE event_dead_letters IS 'RLS enabled: Backend-only access. All public and authenticated access denied. Backend uses service_role which bypasses RLS.';
@@ -0,0 +1,27 @@
+-- Create add_food function
+-- Adds food to a player's inventory (rewards, refunds of failed feeds) in a single
+-- statement, so concurrent additions neither lose an increment nor race on the
+-- first insert of a (player, food type) row.
+
+-- Adds p_quantity items of p_food_type to p_player_address's stock, creating the
+-- row if it doesn't exist yet. Returns the new quantity.
+-- Raises SQLSTATE 23503 if the player does not exist.
+CREATE OR REPLACE FUNCTION add_food(p_player_address TEXT, p_food_type TEXT, p_quantity INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quantity INTEGER;
+BEGIN
+  INSERT INTO player_food_inventory (player_address, food_type, quantity)
+  VALUES (p_player_address, p_food_type, p_quantity)
+  ON CONFLICT (player_address, food_type)
+  DO UPDATE SET quantity = player_food_inventory.quantity + EXCLUDED.quantity
+  RETURNING quantity INTO v_quantity;
+
+  RETURN v_quantity;
+END;
+$$;
+
+-- Only the backend (service_role) may add food
+REVOKE EXECUTE ON FUNCTION add_food(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,103 @@
+-- Create tank_mint_claims table and the claim_tank_mint/save_claimed_tank functions
+-- Enforces MAX_TANKS_PER_PLAYER for POST /api/tank atomically: a mint claims one of the
+-- player's free tank slots before the tank is minted on-chain, and the claim is turned
+-- into the tank row once the mint succeeded (or deleted if it failed).
+
+-- Tank slots held by mints in progress
+CREATE TABLE IF NOT EXISTS tank_mint_claims (
+  id BIGSERIAL PRIMARY KEY,
+  owner TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT fk_tank_mint_claims_owner FOREIGN KEY (owner) REFERENCES players(address)
+    ON DELETE CASCADE
+    ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tank_mint_claims_owner ON tank_mint_claims(owner);
+
+-- Enable Row-Level Security (RLS) on tank_mint_claims table
+-- Claims are internal mint state and must only be accessible by the backend (service_role)
+ALTER TABLE tank_mint_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all public access to tank_mint_claims" ON tank_mint_claims;
+DROP POLICY IF EXISTS "Deny all authenticated access to tank_mint_claims" ON tank_mint_claims;
+
+CREATE POLICY "Deny all public access to tank_mint_claims"
+ON tank_mint_claims
+FOR ALL
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all authenticated access to tank_mint_claims"
+ON tank_mint_claims
+FOR ALL
+TO authenticated
+USING (false)
+WITH CHECK (false);
+
+COMMENT ON TABLE tank_mint_claims IS 'RLS enabled: Backend-only access. All public and authenticated access denied. Backend uses service_role which bypasses RLS.';
+
+-- Claims a tank slot for p_owner in a single transaction:
+-- - locks the player row, so concurrent claims of the same player run one after the other
+-- - drops the player's claims older than p_claim_ttl_seconds (mints that never finished)
+-- - counts the player's tanks plus the claims still held
+-- Returns the id of the new claim.
+-- Raises SQLSTATE P0002 if the player does not exist and 55000 if the player already
+-- owns (or is minting) p_max_tanks tanks.
+CREATE OR REPLACE FUNCTION claim_tank_mint(p_owner TEXT, p_max_tanks INTEGER, p_claim_ttl_seconds INTEGER)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+  v_claim_id BIGINT;
+BEGIN
+  PERFORM 1 FROM players WHERE address = p_owner FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'claim_tank_mint: player % not found', p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM tank_mint_claims
+  WHERE owner = p_owner AND created_at < NOW() - make_interval(secs => p_claim_ttl_seconds);
+
+  SELECT (SELECT COUNT(*) FROM tanks WHERE owner = p_owner)
+       + (SELECT COUNT(*) FROM tank_mint_claims WHERE owner = p_owner)
+  INTO v_count;
+
+  IF v_count >= p_max_tanks THEN
+    RAISE EXCEPTION 'Player % already owns the maximum of % tanks', p_owner, p_max_tanks
+      USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO tank_mint_claims (owner) VALUES (p_owner)
+  RETURNING id INTO v_claim_id;
+
+  RETURN v_claim_id;
+END;
+$$;
+
+-- Saves the tank minted for claim p_claim_id and releases the claim in a single transaction.
+-- Returns the inserted tank row.
+CREATE OR REPLACE FUNCTION save_claimed_tank(p_claim_id BIGINT, p_tank_id BIGINT, p_owner TEXT, p_name TEXT)
+RETURNS tanks
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tank tanks%ROWTYPE;
+BEGIN
+  DELETE FROM tank_mint_claims WHERE id = p_claim_id;
+
+  INSERT INTO tanks (id, owner, name)
+  VALUES (p_tank_id, p_owner, p_name)
+  RETURNING * INTO v_tank;
+
+  RETURN v_tank;
+END;
+$$;
+
+-- Only the backend (service_role) may claim tank slots and save claimed tanks
+REVOKE EXECUTE ON FUNCTION claim_tank_mint(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION save_claimed_tank(BIGINT, BIGINT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,69 @@
+-- Create decoration_purchases table and claim_decoration_purchase function
+-- Makes POST /api/decoration idempotent per Idempotency-Key: a retried purchase with the
+-- same key returns the decoration bought by the first request instead of charging again.
+
+-- One row per purchase request of a player. decoration_id is set once the purchase
+-- completed; rows of purchases that failed (and were refunded) are deleted, so the key
+-- can be used again.
+CREATE TABLE IF NOT EXISTS decoration_purchases (
+  id BIGSERIAL PRIMARY KEY,
+  owner TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  decoration_id INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT fk_decoration_purchases_owner FOREIGN KEY (owner) REFERENCES players(address)
+    ON DELETE CASCADE
+    ON UPDATE CASCADE,
+  CONSTRAINT uq_decoration_purchases_owner_key UNIQUE (owner, idempotency_key)
+);
+
+-- Enable Row-Level Security (RLS) on decoration_purchases table
+-- Purchases are internal shop state and must only be accessible by the backend (service_role)
+ALTER TABLE decoration_purchases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all public access to decoration_purchases" ON decoration_purchases;
+DROP POLICY IF EXISTS "Deny all authenticated access to decoration_purchases" ON decoration_purchases;
+
+CREATE POLICY "Deny all public access to decoration_purchases"
+ON decoration_purchases
+FOR ALL
+TO public
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "Deny all authenticated access to decoration_purchases"
+ON decoration_purchases
+FOR ALL
+TO authenticated
+USING (false)
+WITH CHECK (false);
+
+COMMENT ON TABLE decoration_purchases IS 'RLS enabled: Backend-only access. All public and authenticated access denied. Backend uses service_role which bypasses RLS.';
+
+-- Claims the purchase of a p_kind decoration by p_owner under p_idempotency_key:
+-- - inserts a new purchase row (is_new = true), or
+-- - returns the row already claimed with that key (is_new = false); its decoration_id is
+--   NULL while that purchase is still in progress
+CREATE OR REPLACE FUNCTION claim_decoration_purchase(p_owner TEXT, p_idempotency_key TEXT, p_kind TEXT)
+RETURNS TABLE (id BIGINT, kind TEXT, decoration_id INTEGER, is_new BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO decoration_purchases AS p (owner, idempotency_key, kind)
+  VALUES (p_owner, p_idempotency_key, p_kind)
+  ON CONFLICT (owner, idempotency_key) DO NOTHING
+  RETURNING p.id, p.kind, p.decoration_id, true;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT p.id, p.kind, p.decoration_id, false
+    FROM decoration_purchases p
+    WHERE p.owner = p_owner AND p.idempotency_key = p_idempotency_key;
+  END IF;
+END;
+$$;
+
+-- Only the backend (service_role) may claim purchases
+REVOKE EXECUTE ON FUNCTION claim_decoration_purchase(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
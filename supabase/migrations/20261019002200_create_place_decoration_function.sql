@@ -0,0 +1,57 @@
+-- Create place_decoration function
+-- Places a decoration in a tank for POST /api/decorations/:id/place, enforcing
+-- MAX_DECORATIONS_PER_TANK atomically: the slot count and the update run in one
+-- transaction with the tank row locked, so parallel placements cannot overfill a tank.
+
+-- Places decoration p_decoration_id in tank p_tank_id in a single transaction:
+-- - locks the tank row, so concurrent placements into the same tank run one after the other
+-- - counts the decorations already placed in the tank
+-- - moves the decoration (only if it still belongs to p_owner) and clears its layout transform
+-- Raises SQLSTATE P0002 if the tank or the owner's decoration does not exist and 55000 if the
+-- tank already holds p_max_decorations decorations.
+CREATE OR REPLACE FUNCTION place_decoration(
+  p_decoration_id INTEGER,
+  p_tank_id INTEGER,
+  p_owner TEXT,
+  p_max_decorations INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM 1 FROM tanks WHERE id = p_tank_id AND owner = p_owner FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'place_decoration: tank % not found for owner %', p_tank_id, p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM decorations
+  WHERE tank_id = p_tank_id AND id <> p_decoration_id;
+
+  IF v_count >= p_max_decorations THEN
+    RAISE EXCEPTION 'Tank % has no free decoration slots (%/%)', p_tank_id, v_count, p_max_decorations
+      USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE decorations
+  SET tank_id = p_tank_id,
+      position_x = NULL,
+      position_y = NULL,
+      rotation = NULL,
+      scale = NULL,
+      z_layer = NULL
+  WHERE id = p_decoration_id AND owner = p_owner;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'place_decoration: decoration % not found for owner %', p_decoration_id, p_owner
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Only the backend (service_role) may place decorations
+REVOKE EXECUTE ON FUNCTION place_decoration(INTEGER, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Add failure reason to sync_queue
+-- failure_reason: why the reconciler marked the entry 'failed'
+--                 'rejected'  - the chain rejected or reverted the tx; its off-chain side
+--                               effects are compensated
+--                 'timed_out' - no receipt after SYNC_MAX_RETRIES lookups; the tx may still
+--                               land, so the entry is flagged for manual review instead
+--                 (NULL while the entry has not failed)
+
+ALTER TABLE sync_queue ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+ALTER TABLE sync_queue DROP CONSTRAINT IF EXISTS sync_queue_failure_reason_check;
+
+ALTER TABLE sync_queue ADD CONSTRAINT sync_queue_failure_reason_check
+  CHECK (failure_reason IS NULL OR failure_reason IN ('rejected', 'timed_out'));
+
+-- Only rejected entries are compensated
+DROP INDEX IF EXISTS idx_sync_queue_uncompensated_failed;
+
+CREATE INDEX IF NOT EXISTS idx_sync_queue_uncompensated_rejected
+  ON sync_queue(updated_at)
+  WHERE status = 'failed' AND failure_reason = 'rejected' AND compensated_at IS NULL;
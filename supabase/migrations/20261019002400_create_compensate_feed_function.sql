@@ -0,0 +1,46 @@
+-- Create compensate_feed function
+-- Undoes the off-chain side effects of a batch feed whose on-chain feed tx was rejected:
+-- the feed_events rows that started the fish cooldowns are deleted and the food spent
+-- on them is given back, in a single transaction.
+
+-- feed_tx_hash: on-chain feed transaction of the batch (lowers hunger), as opposed to
+--               tx_hash, the transaction that granted the fish its XP
+ALTER TABLE feed_events ADD COLUMN IF NOT EXISTS feed_tx_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feed_events_feed_tx_hash
+  ON feed_events(feed_tx_hash)
+  WHERE feed_tx_hash IS NOT NULL;
+
+-- Deletes the feed_events rows of feed p_feed_tx_hash and, if p_refund_food, adds one item
+-- of their food type back to the owner's stock per deleted row.
+-- Returns the number of deleted rows (0 if the feed was already compensated).
+CREATE OR REPLACE FUNCTION compensate_feed(p_feed_tx_hash TEXT, p_refund_food BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_released RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_released IN
+    WITH deleted AS (
+      DELETE FROM feed_events
+      WHERE feed_tx_hash = p_feed_tx_hash
+      RETURNING owner, food_type
+    )
+    SELECT owner, food_type, COUNT(*)::INTEGER AS quantity
+    FROM deleted
+    GROUP BY owner, food_type
+  LOOP
+    IF p_refund_food THEN
+      PERFORM add_food(v_released.owner, v_released.food_type, v_released.quantity);
+    END IF;
+    v_count := v_count + v_released.quantity;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Only the backend (service_role) may compensate feeds
+REVOKE EXECUTE ON FUNCTION compensate_feed(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
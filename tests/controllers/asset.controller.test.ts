@@ -44,6 +44,7 @@ describe('Asset Controller', () => {
     mockRequest = {
       isMultipart: vi.fn().mockReturnValue(true),
       file: vi.fn().mockResolvedValue(mockFile),
+      player: { address: '0xabc' },
     } as any;
 
     mockReply = {};
@@ -63,10 +64,28 @@ describe('Asset Controller', () => {
       expect(response.success).toBe(true);
       expect(response.data).toEqual({ sprite_url: mockSpriteUrl });
       expect(response.message).toBe('Fish asset uploaded successfully');
-      expect(AssetService.prototype.uploadFishSprite).toHaveBeenCalled();
+      expect(AssetService.prototype.uploadFishSprite).toHaveBeenCalledWith(
+        expect.objectContaining({ filename: 'test.png' }),
+        1,
+        '0xabc'
+      );
       expect((mockRequest as any).file).toHaveBeenCalled();
     });
 
+    it('should return error response when request is not authenticated', async () => {
+      mockRequest.player = null;
+      mockRequest.params = { id: '1' };
+
+      const response = await uploadFishSprite(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(AssetService.prototype.uploadFishSprite).not.toHaveBeenCalled();
+    });
+
     it('should return error response with invalid ID format', async () => {
       mockRequest.params = { id: 'invalid' };
 
@@ -6,28 +6,46 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 
 // Mock the service using the recommended Vitest pattern for class mocking
-vi.mock('@/services/player.service', () => {
+vi.mock('@/services/auth.service', () => {
   // Create a mock constructor function
-  const PlayerService = vi.fn(function () {
+  const AuthService = vi.fn(function () {
     // Constructor can be empty or initialize mock state if needed
   });
-  
+
   // Mock methods on the prototype
-  PlayerService.prototype.registerPlayer = vi.fn();
-  
-  return { PlayerService };
+  AuthService.prototype.createNonce = vi.fn();
+  AuthService.prototype.login = vi.fn();
+
+  return { AuthService };
 });
 
 // Import after mocks
-import { login } from '@/controllers/auth.controller';
-import { ValidationError } from '@/core/errors';
+import { requestNonce, login } from '@/controllers/auth.controller';
+import { ValidationError, UnauthorizedError } from '@/core/errors';
 import type { Player } from '@/models/player.model';
-import { PlayerService } from '@/services/player.service';
+import type { AuthChallenge, LoginDto, LoginResult, RequestNonceDto } from '@/models/auth.model';
+import { AuthService } from '@/services/auth.service';
 
 describe('Auth Controller', () => {
   let mockRequest: Partial<FastifyRequest>;
   let mockReply: Partial<FastifyReply>;
 
+  const address = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+  const nonce = '0x9f8e7d6c5b4a39281706f5e4d3c2b1a0';
+  const signature = ['0x1', '0x2'];
+
+  const mockPlayer: Player = {
+    address,
+    total_xp: 0,
+    fish_count: 0,
+    tournaments_won: 0,
+    reputation: 0,
+    offspring_created: 0,
+    avatar_url: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
 
@@ -35,131 +53,158 @@ describe('Auth Controller', () => {
     mockReply = {};
   });
 
+  describe('requestNonce', () => {
+    it('should return challenge for valid address', async () => {
+      const challenge = {
+        address,
+        nonce,
+        typed_data: {} as AuthChallenge['typed_data'],
+        expires_at: new Date(),
+      };
+
+      vi.mocked(AuthService.prototype.createNonce).mockResolvedValue(challenge);
+      mockRequest.body = { address };
+
+      const response = await requestNonce(
+        mockRequest as FastifyRequest<{ Body: RequestNonceDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(challenge);
+      expect(response.message).toBe('Login challenge issued successfully');
+      expect(AuthService.prototype.createNonce).toHaveBeenCalledWith(address);
+    });
+
+    it('should return error response when address is missing', async () => {
+      mockRequest.body = {};
+
+      const response = await requestNonce(
+        mockRequest as FastifyRequest<{ Body: RequestNonceDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(response.error?.message).toContain('Address is required');
+      expect(AuthService.prototype.createNonce).not.toHaveBeenCalled();
+    });
+
+    it('should return error response when service throws ValidationError', async () => {
+      vi.mocked(AuthService.prototype.createNonce).mockRejectedValue(
+        new ValidationError('Invalid Starknet address format')
+      );
+      mockRequest.body = { address: 'invalid-address' };
+
+      const response = await requestNonce(
+        mockRequest as FastifyRequest<{ Body: RequestNonceDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(response.error?.message).toBe('Invalid Starknet address format');
+    });
+  });
+
   describe('login', () => {
-    it('should return success response with valid address', async () => {
-      const mockPlayer: Player = {
-        address: '0x1234567890abcdef1234567890abcdef12345678',
-        total_xp: 0,
-        fish_count: 0,
-        tournaments_won: 0,
-        reputation: 0,
-        offspring_created: 0,
-        avatar_url: null,
-        created_at: new Date(),
-        updated_at: new Date(),
+    it('should return player and session token for valid signature', async () => {
+      const loginResult: LoginResult = {
+        player: mockPlayer,
+        token: 'header.payload.signature',
+        expires_at: new Date(),
       };
 
-      vi.mocked(PlayerService.prototype.registerPlayer).mockResolvedValue(mockPlayer);
-      mockRequest.body = { address: '0x1234567890abcdef1234567890abcdef12345678' };
+      vi.mocked(AuthService.prototype.login).mockResolvedValue(loginResult);
+      mockRequest.body = { address, nonce, signature };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(true);
-      expect(response.data).toEqual(mockPlayer);
+      expect(response.data).toEqual(loginResult);
       expect(response.message).toBe('Player logged in successfully');
-      expect(PlayerService.prototype.registerPlayer).toHaveBeenCalledWith(
-        '0x1234567890abcdef1234567890abcdef12345678'
-      );
+      expect(AuthService.prototype.login).toHaveBeenCalledWith(address, nonce, signature);
     });
 
     it('should return error response when address is missing', async () => {
-      mockRequest.body = {};
+      mockRequest.body = { nonce, signature };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
-      expect(response.error).toBeDefined();
       expect(response.error?.message).toContain('Address is required');
       expect(response.error?.type).toBe('ValidationError');
-      expect(PlayerService.prototype.registerPlayer).not.toHaveBeenCalled();
+      expect(AuthService.prototype.login).not.toHaveBeenCalled();
     });
 
-    it('should return error response when address is empty string', async () => {
-      mockRequest.body = { address: '' };
+    it('should return error response when nonce is missing', async () => {
+      mockRequest.body = { address, signature };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
-      expect(response.error).toBeDefined();
-      expect(response.error?.message).toContain('Address is required');
+      expect(response.error?.message).toContain('Nonce is required');
       expect(response.error?.type).toBe('ValidationError');
-      expect(PlayerService.prototype.registerPlayer).not.toHaveBeenCalled();
+      expect(AuthService.prototype.login).not.toHaveBeenCalled();
     });
 
-    it('should return error response when service throws ValidationError', async () => {
-      const validationError = new ValidationError('Invalid address format');
-      vi.mocked(PlayerService.prototype.registerPlayer).mockRejectedValue(validationError);
-      mockRequest.body = { address: 'invalid-address' };
+    it('should return error response when signature is missing', async () => {
+      mockRequest.body = { address, nonce };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
-      expect(response.error).toBeDefined();
+      expect(response.error?.message).toContain('Signature is required');
       expect(response.error?.type).toBe('ValidationError');
-      expect(response.error?.message).toBe('Invalid address format');
-      expect(PlayerService.prototype.registerPlayer).toHaveBeenCalledWith('invalid-address');
+      expect(AuthService.prototype.login).not.toHaveBeenCalled();
     });
 
-    it('should return error response when service throws generic error', async () => {
-      const genericError = new Error('Service unavailable');
-      vi.mocked(PlayerService.prototype.registerPlayer).mockRejectedValue(genericError);
-      mockRequest.body = { address: '0x1234567890abcdef1234567890abcdef12345678' };
+    it('should return error response when signature is rejected', async () => {
+      vi.mocked(AuthService.prototype.login).mockRejectedValue(
+        new UnauthorizedError('Invalid signature')
+      );
+      mockRequest.body = { address, nonce, signature };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
-      expect(response.error).toBeDefined();
-      expect(response.error?.message).toBe('Service unavailable');
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(response.error?.message).toBe('Invalid signature');
     });
 
-    it('should use standardized response format for success', async () => {
-      const mockPlayer: Player = {
-        address: '0x1234567890abcdef1234567890abcdef12345678',
-        total_xp: 0,
-        fish_count: 0,
-        tournaments_won: 0,
-        reputation: 0,
-        offspring_created: 0,
-        avatar_url: null,
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-
-      vi.mocked(PlayerService.prototype.registerPlayer).mockResolvedValue(mockPlayer);
-      mockRequest.body = { address: '0x1234567890abcdef1234567890abcdef12345678' };
+    it('should return error response when service throws generic error', async () => {
+      vi.mocked(AuthService.prototype.login).mockRejectedValue(new Error('Service unavailable'));
+      mockRequest.body = { address, nonce, signature };
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
-      expect(response).toHaveProperty('success');
-      expect(response).toHaveProperty('data');
-      expect(response).toHaveProperty('message');
-      expect(typeof response.success).toBe('boolean');
-      expect(response.success).toBe(true);
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('Service unavailable');
     });
 
     it('should use standardized response format for errors', async () => {
       mockRequest.body = {};
 
       const response = await login(
-        mockRequest as FastifyRequest<{ Body: { address: string } }>,
+        mockRequest as FastifyRequest<{ Body: LoginDto }>,
         mockReply as FastifyReply
       );
 
@@ -172,4 +217,3 @@ describe('Auth Controller', () => {
     });
   });
 });
-
@@ -17,13 +17,24 @@ vi.mock('@/services/decoration.service', () => {
   DecorationService.prototype.getDecorationsByOwner = vi.fn();
   DecorationService.prototype.activateDecoration = vi.fn();
   DecorationService.prototype.deactivateDecoration = vi.fn();
+  DecorationService.prototype.placeDecoration = vi.fn();
+  DecorationService.prototype.unplaceDecoration = vi.fn();
+  DecorationService.prototype.mintDecoration = vi.fn();
   
   return { DecorationService };
 });
 
 // Import after mocks
-import { getDecorationById, getDecorationsByOwner, activateDecoration, deactivateDecoration } from '@/controllers/decoration.controller';
-import { ValidationError, NotFoundError } from '@/core/errors';
+import {
+  getDecorationById,
+  getDecorationsByOwner,
+  activateDecoration,
+  deactivateDecoration,
+  placeDecoration,
+  unplaceDecoration,
+  mintDecoration,
+} from '@/controllers/decoration.controller';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
 import type { Decoration } from '@/models/decoration.model';
 import { DecorationService } from '@/services/decoration.service';
 
@@ -34,7 +45,7 @@ describe('Decoration Controller', () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
-    mockRequest = {};
+    mockRequest = { player: { address: '0xabc' }, headers: {} };
     mockReply = {};
   });
 
@@ -46,6 +57,8 @@ describe('Decoration Controller', () => {
         kind: 'Plant',
         xp_multiplier: 15,
         is_active: true,
+        tankId: null,
+        transform: null,
         imageUrl: 'https://example.com/decoration.png',
         sprite_url: null,
         createdAt: new Date(),
@@ -106,6 +119,8 @@ describe('Decoration Controller', () => {
           kind: 'Plant',
           xp_multiplier: 15,
           is_active: true,
+          tankId: null,
+          transform: null,
           imageUrl: 'https://example.com/decoration.png',
           sprite_url: null,
           createdAt: new Date(),
@@ -165,6 +180,8 @@ describe('Decoration Controller', () => {
         kind: 'Plant',
         xp_multiplier: 15,
         is_active: true,
+        tankId: null,
+        transform: null,
         imageUrl: 'https://example.com/decoration.png',
         sprite_url: null,
         createdAt: new Date(),
@@ -172,10 +189,9 @@ describe('Decoration Controller', () => {
 
       vi.mocked(DecorationService.prototype.activateDecoration).mockResolvedValue(mockDecoration);
       mockRequest.params = { id: '1' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await activateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -187,10 +203,9 @@ describe('Decoration Controller', () => {
 
     it('should return error response with invalid ID format', async () => {
       mockRequest.params = { id: 'invalid' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await activateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -201,19 +216,19 @@ describe('Decoration Controller', () => {
       expect(DecorationService.prototype.activateDecoration).not.toHaveBeenCalled();
     });
 
-    it('should return error response when owner is missing', async () => {
+    it('should return error response when request is not authenticated', async () => {
       mockRequest.params = { id: '1' };
-      mockRequest.body = {};
+      mockRequest.player = null;
 
       const response = await activateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: any }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
       expect(response.error).toBeDefined();
-      expect(response.error?.type).toBe('ValidationError');
-      expect(response.error?.message).toContain('Owner address is required');
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(response.error?.message).toContain('Authentication required');
       expect(DecorationService.prototype.activateDecoration).not.toHaveBeenCalled();
     });
 
@@ -222,10 +237,9 @@ describe('Decoration Controller', () => {
         new ValidationError('Decoration with ID 1 does not belong to owner 0xabc')
       );
       mockRequest.params = { id: '1' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await activateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -243,6 +257,8 @@ describe('Decoration Controller', () => {
         kind: 'Plant',
         xp_multiplier: 15,
         is_active: false,
+        tankId: null,
+        transform: null,
         imageUrl: 'https://example.com/decoration.png',
         sprite_url: null,
         createdAt: new Date(),
@@ -250,10 +266,9 @@ describe('Decoration Controller', () => {
 
       vi.mocked(DecorationService.prototype.deactivateDecoration).mockResolvedValue(mockDecoration);
       mockRequest.params = { id: '1' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await deactivateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -265,10 +280,9 @@ describe('Decoration Controller', () => {
 
     it('should return error response with invalid ID format', async () => {
       mockRequest.params = { id: 'invalid' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await deactivateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -279,19 +293,19 @@ describe('Decoration Controller', () => {
       expect(DecorationService.prototype.deactivateDecoration).not.toHaveBeenCalled();
     });
 
-    it('should return error response when owner is missing', async () => {
+    it('should return error response when request is not authenticated', async () => {
       mockRequest.params = { id: '1' };
-      mockRequest.body = {};
+      mockRequest.player = null;
 
       const response = await deactivateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: any }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(false);
       expect(response.error).toBeDefined();
-      expect(response.error?.type).toBe('ValidationError');
-      expect(response.error?.message).toContain('Owner address is required');
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(response.error?.message).toContain('Authentication required');
       expect(DecorationService.prototype.deactivateDecoration).not.toHaveBeenCalled();
     });
 
@@ -300,10 +314,9 @@ describe('Decoration Controller', () => {
         new ValidationError('Decoration with ID 1 does not belong to owner 0xabc')
       );
       mockRequest.params = { id: '1' };
-      mockRequest.body = { owner: '0xabc' };
 
       const response = await deactivateDecoration(
-        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { owner: string } }>,
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
         mockReply as FastifyReply
       );
 
@@ -312,4 +325,161 @@ describe('Decoration Controller', () => {
       expect(response.error?.type).toBe('ValidationError');
     });
   });
+
+  describe('placeDecoration', () => {
+    it('should place the decoration in the given tank', async () => {
+      const mockDecoration: Decoration = {
+        id: 1,
+        owner: '0xabc',
+        kind: 'Statue',
+        xp_multiplier: 15,
+        is_active: true,
+        tankId: 5,
+        sprite_url: null,
+        createdAt: new Date(),
+      };
+
+      vi.mocked(DecorationService.prototype.placeDecoration).mockResolvedValue(mockDecoration);
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { tank_id: 5 };
+
+      const response = await placeDecoration(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { tank_id: number } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockDecoration);
+      expect(response.message).toBe('Decoration placed successfully');
+      expect(DecorationService.prototype.placeDecoration).toHaveBeenCalledWith(1, 5, '0xabc');
+    });
+
+    it('should return validation error when tank_id is missing', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {};
+
+      const response = await placeDecoration(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(DecorationService.prototype.placeDecoration).not.toHaveBeenCalled();
+    });
+
+    it('should return conflict error when the tank has no free slots', async () => {
+      vi.mocked(DecorationService.prototype.placeDecoration).mockRejectedValue(
+        new ConflictError('Tank 5 has no free decoration slots (5/5)')
+      );
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { tank_id: 5 };
+
+      const response = await placeDecoration(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { tank_id: number } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
+
+  describe('unplaceDecoration', () => {
+    it('should remove the decoration from its tank', async () => {
+      const mockDecoration: Decoration = {
+        id: 1,
+        owner: '0xabc',
+        kind: 'Statue',
+        xp_multiplier: 15,
+        is_active: true,
+        tankId: null,
+        transform: null,
+        sprite_url: null,
+        createdAt: new Date(),
+      };
+
+      vi.mocked(DecorationService.prototype.unplaceDecoration).mockResolvedValue(mockDecoration);
+      mockRequest.params = { id: '1' };
+
+      const response = await unplaceDecoration(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Decoration removed from tank successfully');
+      expect(DecorationService.prototype.unplaceDecoration).toHaveBeenCalledWith(1, '0xabc');
+    });
+  });
+
+  describe('mintDecoration', () => {
+    it('should buy a decoration of the requested kind', async () => {
+      const mockDecoration: Decoration = {
+        id: 12,
+        owner: '0xabc',
+        kind: 'Plant',
+        xp_multiplier: 1.25,
+        is_active: false,
+        tankId: null,
+        transform: null,
+        sprite_url: null,
+        createdAt: new Date(),
+      };
+
+      vi.mocked(DecorationService.prototype.mintDecoration).mockResolvedValue(mockDecoration);
+      mockRequest.body = { kind: 'Plant' };
+
+      const response = await mintDecoration(
+        mockRequest as FastifyRequest<{ Body: { kind: any } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockDecoration);
+      expect(DecorationService.prototype.mintDecoration).toHaveBeenCalledWith('0xabc', 'Plant', undefined);
+    });
+
+    it('should pass the Idempotency-Key header to the service', async () => {
+      vi.mocked(DecorationService.prototype.mintDecoration).mockResolvedValue({ id: 12 } as Decoration);
+      mockRequest.body = { kind: 'Plant' };
+      mockRequest.headers = { 'idempotency-key': 'purchase-1' };
+
+      const response = await mintDecoration(
+        mockRequest as FastifyRequest<{ Body: { kind: any } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(DecorationService.prototype.mintDecoration).toHaveBeenCalledWith('0xabc', 'Plant', 'purchase-1');
+    });
+
+    it('should return validation error when kind is missing', async () => {
+      mockRequest.body = {};
+
+      const response = await mintDecoration(
+        mockRequest as FastifyRequest<{ Body: { kind: any } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(DecorationService.prototype.mintDecoration).not.toHaveBeenCalled();
+    });
+
+    it('should return conflict error when the player cannot afford it', async () => {
+      vi.mocked(DecorationService.prototype.mintDecoration).mockRejectedValue(
+        new ConflictError('Not enough coins: 50 available, 100 required')
+      );
+      mockRequest.body = { kind: 'Plant' };
+
+      const response = await mintDecoration(
+        mockRequest as FastifyRequest<{ Body: { kind: any } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
 });
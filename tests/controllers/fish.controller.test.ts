@@ -15,17 +15,33 @@ vi.mock('@/services/fish.service', () => {
   // Mock methods on the prototype
   FishService.prototype.getFishById = vi.fn();
   FishService.prototype.getFishFamily = vi.fn();
+  FishService.prototype.getFishKinship = vi.fn();
   FishService.prototype.getFishByOwner = vi.fn();
   FishService.prototype.feedFishBatch = vi.fn();
   FishService.prototype.breedFish = vi.fn();
+  FishService.prototype.getFeedHistory = vi.fn();
+  FishService.prototype.moveFish = vi.fn();
+  FishService.prototype.moveFishBatch = vi.fn();
+  FishService.prototype.transferFish = vi.fn();
   
   return { FishService };
 });
 
 // Import after mocks
-import { getFishById, getFishFamily, getFishByOwner, feedFish, breedFish } from '@/controllers/fish.controller';
-import { ValidationError, NotFoundError } from '@/core/errors';
-import type { Fish } from '@/models/fish.model';
+import {
+  getFishById,
+  getFishFamily,
+  getFishKinship,
+  getFishByOwner,
+  getFishFeedings,
+  feedFish,
+  breedFish,
+  moveFish,
+  moveFishBatch,
+  transferFish,
+} from '@/controllers/fish.controller';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
+import type { Fish, FeedEvent } from '@/models/fish.model';
 import type { FishFamilyTree } from '@/core/types/dojo-types';
 import { FishService } from '@/services/fish.service';
 
@@ -36,7 +52,7 @@ describe('Fish Controller', () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
-    mockRequest = {};
+    mockRequest = { player: { address: '0xabc' } };
     mockReply = {};
   });
 
@@ -253,29 +269,86 @@ describe('Fish Controller', () => {
     });
   });
 
+  describe('getFishFeedings', () => {
+    it('should return feeding history with parsed limit', async () => {
+      const feedings: FeedEvent[] = [
+        {
+          id: 1,
+          fish_id: 1,
+          owner: '0xabc',
+          food_type: 'Basic',
+          xp_granted: 11.5,
+          multiplier: 15,
+          tx_hash: '0xfishTxHash',
+          created_at: new Date(),
+        },
+      ];
+      vi.mocked(FishService.prototype.getFeedHistory).mockResolvedValue(feedings);
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { limit: '10' };
+
+      const response = await getFishFeedings(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Querystring: { limit?: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(feedings);
+      expect(FishService.prototype.getFeedHistory).toHaveBeenCalledWith(1, 10);
+    });
+
+    it('should return validation error for invalid limit', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { limit: 'many' };
+
+      const response = await getFishFeedings(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Querystring: { limit?: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(FishService.prototype.getFeedHistory).not.toHaveBeenCalled();
+    });
+  });
+
   describe('feedFish', () => {
     it('should return success response with valid parameters', async () => {
       const mockTxHash = '0xtx123';
       vi.mocked(FishService.prototype.feedFishBatch).mockResolvedValue(mockTxHash);
       mockRequest.body = {
         fish_ids: [1, 2, 3],
-        owner: '0xabc',
       };
 
       const response = await feedFish(
-        mockRequest as FastifyRequest<{ Body: { fish_ids: number[]; owner: string } }>,
+        mockRequest as FastifyRequest<{ Body: { fish_ids: number[]} }>,
         mockReply as FastifyReply
       );
 
       expect(response.success).toBe(true);
       expect(response.data).toEqual({ tx_hash: mockTxHash });
       expect(response.message).toBe('Fish fed successfully');
-      expect(FishService.prototype.feedFishBatch).toHaveBeenCalledWith([1, 2, 3], '0xabc');
+      expect(FishService.prototype.feedFishBatch).toHaveBeenCalledWith([1, 2, 3], '0xabc', undefined);
+    });
+
+    it('should pass food_type to the service', async () => {
+      vi.mocked(FishService.prototype.feedFishBatch).mockResolvedValue('0xtx123');
+      mockRequest.body = {
+        fish_ids: [1],
+        food_type: 'Premium',
+      };
+
+      const response = await feedFish(
+        mockRequest as FastifyRequest<{ Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(FishService.prototype.feedFishBatch).toHaveBeenCalledWith([1], '0xabc', 'Premium');
     });
 
     it('should return error response when fish_ids is missing', async () => {
       mockRequest.body = {
-        owner: '0xabc',
       };
 
       const response = await feedFish(
@@ -292,7 +365,6 @@ describe('Fish Controller', () => {
     it('should return error response when fish_ids is not an array', async () => {
       mockRequest.body = {
         fish_ids: 'not-an-array',
-        owner: '0xabc',
       };
 
       const response = await feedFish(
@@ -305,7 +377,8 @@ describe('Fish Controller', () => {
       expect(response.error?.message).toContain('fish_ids must be an array');
     });
 
-    it('should return error response when owner is missing', async () => {
+    it('should return error response when request is not authenticated', async () => {
+      mockRequest.player = null;
       mockRequest.body = {
         fish_ids: [1, 2, 3],
       };
@@ -317,7 +390,8 @@ describe('Fish Controller', () => {
 
       expect(response.success).toBe(false);
       expect(response.error).toBeDefined();
-      expect(response.error?.message).toContain('owner is required');
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(response.error?.message).toContain('Authentication required');
     });
 
     it('should return error response when service throws error', async () => {
@@ -326,11 +400,10 @@ describe('Fish Controller', () => {
       );
       mockRequest.body = {
         fish_ids: [1, 2, 3],
-        owner: '0xabc',
       };
 
       const response = await feedFish(
-        mockRequest as FastifyRequest<{ Body: { fish_ids: number[]; owner: string } }>,
+        mockRequest as FastifyRequest<{ Body: { fish_ids: number[]} }>,
         mockReply as FastifyReply
       );
 
@@ -360,11 +433,10 @@ describe('Fish Controller', () => {
       mockRequest.body = {
         fish1_id: 1,
         fish2_id: 2,
-        owner: '0xabc',
       };
 
       const response = await breedFish(
-        mockRequest as FastifyRequest<{ Body: { fish1_id: number; fish2_id: number; owner: string } }>,
+        mockRequest as FastifyRequest<{ Body: { fish1_id: number; fish2_id: number } }>,
         mockReply as FastifyReply
       );
 
@@ -377,7 +449,6 @@ describe('Fish Controller', () => {
     it('should return error response when fish1_id is missing', async () => {
       mockRequest.body = {
         fish2_id: 2,
-        owner: '0xabc',
       };
 
       const response = await breedFish(
@@ -395,7 +466,6 @@ describe('Fish Controller', () => {
       mockRequest.body = {
         fish1_id: 'not-a-number',
         fish2_id: 2,
-        owner: '0xabc',
       };
 
       const response = await breedFish(
@@ -411,7 +481,6 @@ describe('Fish Controller', () => {
     it('should return error response when fish2_id is missing', async () => {
       mockRequest.body = {
         fish1_id: 1,
-        owner: '0xabc',
       };
 
       const response = await breedFish(
@@ -424,7 +493,8 @@ describe('Fish Controller', () => {
       expect(response.error?.message).toContain('fish2_id must be a number');
     });
 
-    it('should return error response when owner is missing', async () => {
+    it('should return error response when request is not authenticated', async () => {
+      mockRequest.player = null;
       mockRequest.body = {
         fish1_id: 1,
         fish2_id: 2,
@@ -437,7 +507,8 @@ describe('Fish Controller', () => {
 
       expect(response.success).toBe(false);
       expect(response.error).toBeDefined();
-      expect(response.error?.message).toContain('owner is required');
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(response.error?.message).toContain('Authentication required');
     });
 
     it('should return error response when service throws error', async () => {
@@ -447,11 +518,10 @@ describe('Fish Controller', () => {
       mockRequest.body = {
         fish1_id: 1,
         fish2_id: 1,
-        owner: '0xabc',
       };
 
       const response = await breedFish(
-        mockRequest as FastifyRequest<{ Body: { fish1_id: number; fish2_id: number; owner: string } }>,
+        mockRequest as FastifyRequest<{ Body: { fish1_id: number; fish2_id: number } }>,
         mockReply as FastifyReply
       );
 
@@ -460,4 +530,156 @@ describe('Fish Controller', () => {
       expect(response.error?.type).toBe('ValidationError');
     });
   });
+
+  describe('moveFish', () => {
+    it('should move the fish for the authenticated player', async () => {
+      const moveResult = { fish_id: 1, from_tank_id: 10, to_tank_id: 20 };
+      vi.mocked(FishService.prototype.moveFish).mockResolvedValue(moveResult);
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { tank_id: 20 };
+
+      const response = await moveFish(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { tank_id: number } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(moveResult);
+      expect(FishService.prototype.moveFish).toHaveBeenCalledWith(1, 20, '0xabc');
+    });
+
+    it('should return validation error when tank_id is missing', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {};
+
+      const response = await moveFish(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(FishService.prototype.moveFish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveFishBatch', () => {
+    it('should pass all moves to the service', async () => {
+      const moves = [{ fish_id: 1, tank_id: 20 }, { fish_id: 2, tank_id: 10 }];
+      vi.mocked(FishService.prototype.moveFishBatch).mockResolvedValue([
+        { fish_id: 1, from_tank_id: 10, to_tank_id: 20 },
+        { fish_id: 2, from_tank_id: 20, to_tank_id: 10 },
+      ]);
+      mockRequest.body = { moves };
+
+      const response = await moveFishBatch(
+        mockRequest as FastifyRequest<{ Body: { moves: typeof moves } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(FishService.prototype.moveFishBatch).toHaveBeenCalledWith(moves, '0xabc');
+    });
+
+    it('should return conflict error when a tank is full', async () => {
+      vi.mocked(FishService.prototype.moveFishBatch).mockRejectedValue(
+        new ConflictError('Tank 20 is at capacity (10/10). Cannot add 1 more fish.')
+      );
+      mockRequest.body = { moves: [{ fish_id: 1, tank_id: 20 }] };
+
+      const response = await moveFishBatch(
+        mockRequest as FastifyRequest<{ Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
+
+  describe('transferFish', () => {
+    it('should transfer the fish from the authenticated player', async () => {
+      const transferred = { id: 1, owner: '0xdef' } as Fish;
+      vi.mocked(FishService.prototype.transferFish).mockResolvedValue(transferred);
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { to: '0xdef' };
+
+      const response = await transferFish(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { to: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Fish transferred successfully');
+      expect(response.data).toEqual(transferred);
+      expect(FishService.prototype.transferFish).toHaveBeenCalledWith(1, '0xabc', '0xdef');
+    });
+
+    it('should return validation error when to is missing', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {};
+
+      const response = await transferFish(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('to is required and must be a string');
+      expect(FishService.prototype.transferFish).not.toHaveBeenCalled();
+    });
+
+    it('should return conflict error when the recipient tank is full', async () => {
+      vi.mocked(FishService.prototype.transferFish).mockRejectedValue(
+        new ConflictError('Tank 20 is at capacity (10/10). Cannot add 1 more fish.')
+      );
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { to: '0xdef' };
+
+      const response = await transferFish(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { to: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
+
+  describe('getFishKinship', () => {
+    it('should return the kinship of both fish', async () => {
+      const kinship = {
+        fish_id: 1,
+        other_fish_id: 2,
+        relationship_coefficient: 0.125,
+        inbreeding_coefficient: 0.0625,
+        common_ancestor_ids: [10, 11],
+        can_breed: true,
+      };
+      vi.mocked(FishService.prototype.getFishKinship).mockResolvedValue(kinship);
+      mockRequest.params = { id: '1', otherId: '2' };
+
+      const response = await getFishKinship(
+        mockRequest as FastifyRequest<{ Params: { id: string; otherId: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(kinship);
+      expect(FishService.prototype.getFishKinship).toHaveBeenCalledWith(1, 2);
+    });
+
+    it('should return validation error for a non-numeric other ID', async () => {
+      mockRequest.params = { id: '1', otherId: 'abc' };
+
+      const response = await getFishKinship(
+        mockRequest as FastifyRequest<{ Params: { id: string; otherId: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('Invalid fish ID format');
+      expect(FishService.prototype.getFishKinship).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Tests for Marketplace Controller
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+vi.mock('@/services/marketplace.service', () => {
+  const MarketplaceService = vi.fn(function () {});
+
+  MarketplaceService.prototype.listListings = vi.fn();
+  MarketplaceService.prototype.getListingById = vi.fn();
+  MarketplaceService.prototype.createListing = vi.fn();
+  MarketplaceService.prototype.cancelListing = vi.fn();
+  MarketplaceService.prototype.buyListing = vi.fn();
+
+  return { MarketplaceService };
+});
+
+// Import after mocks
+import {
+  listListings,
+  getListingById,
+  createListing,
+  cancelListing,
+  buyListing,
+} from '@/controllers/marketplace.controller';
+import { ConflictError } from '@/core/errors';
+import type { Listing } from '@/models/marketplace.model';
+import { MarketplaceService } from '@/services/marketplace.service';
+
+describe('Marketplace Controller', () => {
+  let mockRequest: Partial<FastifyRequest>;
+  let mockReply: Partial<FastifyReply>;
+
+  const listing: Listing = {
+    id: 1,
+    seller: '0xseller',
+    asset_type: 'fish',
+    asset_id: 7,
+    price: 100,
+    status: 'active',
+    buyer: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    closed_at: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = { player: { address: '0xabc' } };
+    mockReply = {};
+  });
+
+  describe('listListings', () => {
+    it('should parse filters and pagination', async () => {
+      const page = { items: [listing], total: 1, page: 2, limit: 10 };
+      vi.mocked(MarketplaceService.prototype.listListings).mockResolvedValue(page);
+      mockRequest.query = { asset_type: 'fish', seller: '0xseller', page: '2', limit: '10' };
+
+      const response = await listListings(
+        mockRequest as FastifyRequest<{ Querystring: Record<string, string> }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(page);
+      expect(MarketplaceService.prototype.listListings).toHaveBeenCalledWith({
+        asset_type: 'fish',
+        seller: '0xseller',
+        page: 2,
+        limit: 10,
+      });
+    });
+
+    it('should reject non-integer pagination', async () => {
+      mockRequest.query = { limit: 'ten' };
+
+      const response = await listListings(
+        mockRequest as FastifyRequest<{ Querystring: Record<string, string> }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+    });
+  });
+
+  describe('getListingById', () => {
+    it('should reject a non-numeric ID', async () => {
+      mockRequest.params = { id: 'abc' };
+
+      const response = await getListingById(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('Invalid listing ID format');
+    });
+  });
+
+  describe('createListing', () => {
+    it('should create a listing for the authenticated player', async () => {
+      vi.mocked(MarketplaceService.prototype.createListing).mockResolvedValue(listing);
+      mockRequest.body = { asset_type: 'fish', asset_id: 7, price: 100 };
+
+      const response = await createListing(
+        mockRequest as FastifyRequest<{ Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Listing created successfully');
+      expect(MarketplaceService.prototype.createListing).toHaveBeenCalledWith('0xabc', {
+        asset_type: 'fish',
+        asset_id: 7,
+        price: 100,
+      });
+    });
+
+    it('should require a numeric price', async () => {
+      mockRequest.body = { asset_type: 'fish', asset_id: 7, price: '100' };
+
+      const response = await createListing(
+        mockRequest as FastifyRequest<{ Body: any }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('price is required and must be a number');
+      expect(MarketplaceService.prototype.createListing).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelListing', () => {
+    it('should cancel the listing as the authenticated player', async () => {
+      vi.mocked(MarketplaceService.prototype.cancelListing).mockResolvedValue({ ...listing, status: 'cancelled' });
+      mockRequest.params = { id: '1' };
+
+      const response = await cancelListing(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Listing cancelled successfully');
+      expect(MarketplaceService.prototype.cancelListing).toHaveBeenCalledWith(1, '0xabc');
+    });
+  });
+
+  describe('buyListing', () => {
+    it('should buy the listing as the authenticated player', async () => {
+      vi.mocked(MarketplaceService.prototype.buyListing).mockResolvedValue({
+        ...listing,
+        status: 'sold',
+        buyer: '0xabc',
+      });
+      mockRequest.params = { id: '1' };
+
+      const response = await buyListing(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Listing bought successfully');
+      expect(MarketplaceService.prototype.buyListing).toHaveBeenCalledWith(1, '0xabc');
+    });
+
+    it('should return conflict error when the buyer cannot afford it', async () => {
+      vi.mocked(MarketplaceService.prototype.buyListing).mockRejectedValue(
+        new ConflictError('Not enough coins: 10 available, 100 required')
+      );
+      mockRequest.params = { id: '1' };
+
+      const response = await buyListing(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
+});
@@ -18,11 +18,41 @@ vi.mock('@/services/player.service', () => {
   return { PlayerService };
 });
 
+vi.mock('@/services/food.service', () => {
+  const FoodService = vi.fn(function () {});
+
+  FoodService.prototype.getInventory = vi.fn();
+  FoodService.prototype.purchaseFood = vi.fn();
+
+  return { FoodService };
+});
+
+vi.mock('@/services/ledger.service', () => {
+  const LedgerService = vi.fn(function () {});
+
+  LedgerService.prototype.getBalance = vi.fn();
+  LedgerService.prototype.getTransactionHistory = vi.fn();
+  LedgerService.prototype.rewardTournamentWin = vi.fn();
+
+  return { LedgerService };
+});
+
 // Import after mocks
-import { getPlayerByAddress } from '@/controllers/player.controller';
+import {
+  getPlayerByAddress,
+  getPlayerInventory,
+  purchaseFood,
+  getPlayerBalance,
+  getPlayerTransactions,
+  rewardTournamentWin,
+} from '@/controllers/player.controller';
 import { ValidationError, NotFoundError } from '@/core/errors';
 import type { PlayerProfile } from '@/models/player.model';
 import { PlayerService } from '@/services/player.service';
+import { FoodService } from '@/services/food.service';
+import { LedgerService } from '@/services/ledger.service';
+import { FOOD_CATALOG } from '@/core/utils/food-catalog';
+import { FoodType, type PlayerInventory, type PurchaseFoodDto } from '@/models/food.model';
 
 describe('Player Controller', () => {
   let mockRequest: Partial<FastifyRequest>;
@@ -203,5 +233,196 @@ describe('Player Controller', () => {
       expect(response.error).toHaveProperty('message');
     });
   });
-});
 
+  describe('getPlayerInventory', () => {
+    const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+    it('should return the player inventory', async () => {
+      const inventory: PlayerInventory = {
+        address,
+        food: [
+          { ...FOOD_CATALOG[FoodType.Basic], quantity: null },
+          { ...FOOD_CATALOG[FoodType.Premium], quantity: 4 },
+          { ...FOOD_CATALOG[FoodType.Special], quantity: 0 },
+        ],
+      };
+      vi.mocked(FoodService.prototype.getInventory).mockResolvedValue(inventory);
+      mockRequest.params = { address };
+
+      const response = await getPlayerInventory(
+        mockRequest as FastifyRequest<{ Params: { address: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(inventory);
+      expect(response.message).toBe('Player inventory retrieved successfully');
+      expect(FoodService.prototype.getInventory).toHaveBeenCalledWith(address);
+    });
+
+    it('should return not found error when player does not exist', async () => {
+      vi.mocked(FoodService.prototype.getInventory).mockRejectedValue(
+        new NotFoundError(`Player with address ${address} not found`)
+      );
+      mockRequest.params = { address };
+
+      const response = await getPlayerInventory(
+        mockRequest as FastifyRequest<{ Params: { address: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('NotFoundError');
+    });
+  });
+
+  describe('purchaseFood', () => {
+    const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+    it('should buy food for the authenticated player', async () => {
+      const inventory: PlayerInventory = {
+        address,
+        food: [
+          { ...FOOD_CATALOG[FoodType.Basic], quantity: null },
+          { ...FOOD_CATALOG[FoodType.Premium], quantity: 5 },
+          { ...FOOD_CATALOG[FoodType.Special], quantity: 0 },
+        ],
+      };
+      vi.mocked(FoodService.prototype.purchaseFood).mockResolvedValue(inventory);
+      mockRequest = { player: { address }, body: { food_type: FoodType.Premium, quantity: 5 } } as any;
+
+      const response = await purchaseFood(
+        mockRequest as FastifyRequest<{ Body: PurchaseFoodDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(inventory);
+      expect(response.message).toBe('Food purchased successfully');
+      expect(FoodService.prototype.purchaseFood).toHaveBeenCalledWith(address, FoodType.Premium, 5);
+    });
+
+    it('should return validation error when quantity is missing', async () => {
+      mockRequest = { player: { address }, body: { food_type: FoodType.Premium } } as any;
+
+      const response = await purchaseFood(
+        mockRequest as FastifyRequest<{ Body: PurchaseFoodDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(FoodService.prototype.purchaseFood).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPlayerBalance', () => {
+    const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+    it('should return the player balance', async () => {
+      vi.mocked(LedgerService.prototype.getBalance).mockResolvedValue({ address, balance: 1000 });
+      mockRequest.params = { address };
+
+      const response = await getPlayerBalance(
+        mockRequest as FastifyRequest<{ Params: { address: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual({ address, balance: 1000 });
+      expect(response.message).toBe('Player balance retrieved successfully');
+    });
+
+    it('should return not found error when player does not exist', async () => {
+      vi.mocked(LedgerService.prototype.getBalance).mockRejectedValue(
+        new NotFoundError(`Player with address ${address} not found`)
+      );
+      mockRequest.params = { address };
+
+      const response = await getPlayerBalance(
+        mockRequest as FastifyRequest<{ Params: { address: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('NotFoundError');
+    });
+  });
+
+  describe('getPlayerTransactions', () => {
+    const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    type TransactionsRequest = FastifyRequest<{
+      Params: { address: string };
+      Querystring: { page?: string; limit?: string };
+    }>;
+
+    it('should pass pagination to the service', async () => {
+      const history = { address, entries: [], total: 0, page: 2, limit: 10 };
+      vi.mocked(LedgerService.prototype.getTransactionHistory).mockResolvedValue(history);
+      mockRequest.params = { address };
+      mockRequest.query = { page: '2', limit: '10' };
+
+      const response = await getPlayerTransactions(mockRequest as TransactionsRequest, mockReply as FastifyReply);
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(history);
+      expect(LedgerService.prototype.getTransactionHistory).toHaveBeenCalledWith(address, 2, 10);
+    });
+
+    it('should use service defaults when pagination is omitted', async () => {
+      vi.mocked(LedgerService.prototype.getTransactionHistory).mockResolvedValue({
+        address,
+        entries: [],
+        total: 0,
+        page: 1,
+        limit: 20,
+      });
+      mockRequest.params = { address };
+      mockRequest.query = {};
+
+      await getPlayerTransactions(mockRequest as TransactionsRequest, mockReply as FastifyReply);
+
+      expect(LedgerService.prototype.getTransactionHistory).toHaveBeenCalledWith(address, undefined, undefined);
+    });
+
+    it('should reject non-integer pagination', async () => {
+      mockRequest.params = { address };
+      mockRequest.query = { page: 'abc' };
+
+      const response = await getPlayerTransactions(mockRequest as TransactionsRequest, mockReply as FastifyReply);
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(LedgerService.prototype.getTransactionHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rewardTournamentWin', () => {
+    const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    type RewardRequest = FastifyRequest<{ Params: { address: string }; Body: { tournament_id: string } }>;
+
+    it('should credit the tournament reward', async () => {
+      vi.mocked(LedgerService.prototype.rewardTournamentWin).mockResolvedValue({ address, balance: 1200 });
+      mockRequest.params = { address };
+      mockRequest.body = { tournament_id: 'spring-cup' };
+
+      const response = await rewardTournamentWin(mockRequest as RewardRequest, mockReply as FastifyReply);
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual({ address, balance: 1200 });
+      expect(response.message).toBe('Tournament reward credited successfully');
+      expect(LedgerService.prototype.rewardTournamentWin).toHaveBeenCalledWith(address, 'spring-cup');
+    });
+
+    it('should require a tournament_id', async () => {
+      mockRequest.params = { address };
+      mockRequest.body = {};
+
+      const response = await rewardTournamentWin(mockRequest as RewardRequest, mockReply as FastifyReply);
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(response.error?.message).toBe('tournament_id is required and must be a string');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests for Sync Controller
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+// Mock the service using the recommended Vitest pattern for class mocking
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+
+  SyncService.prototype.listSyncs = vi.fn();
+  SyncService.prototype.getSyncByTxHash = vi.fn();
+  SyncService.prototype.retrySync = vi.fn();
+  SyncService.prototype.cancelSync = vi.fn();
+
+  return { SyncService };
+});
+
+// Import after mocks
+import { listSyncs, getSyncByTxHash, retrySync, cancelSync } from '@/controllers/sync.controller';
+import { ConflictError } from '@/core/errors';
+import { SyncService, type SyncQueueItem } from '@/services/sync.service';
+
+describe('Sync Controller', () => {
+  let mockRequest: Partial<FastifyRequest>;
+  let mockReply: Partial<FastifyReply>;
+
+  const txHash = '0xabc';
+  const mockItem: SyncQueueItem = {
+    id: 1,
+    tx_hash: txHash,
+    entity_type: 'fish',
+    entity_id: '1',
+    operation: 'breed_fish',
+    status: 'pending',
+    retry_count: 0,
+    compensated_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = { player: { address: '0xadmin' } };
+    mockReply = {};
+  });
+
+  describe('listSyncs', () => {
+    it('should parse query parameters into filters', async () => {
+      const page = { items: [mockItem], total: 1, page: 2, limit: 10 };
+      vi.mocked(SyncService.prototype.listSyncs).mockResolvedValue(page);
+      mockRequest.query = {
+        status: 'pending',
+        entity_type: 'fish',
+        needs_review: 'true',
+        from: '2026-01-01T00:00:00Z',
+        page: '2',
+        limit: '10',
+      };
+
+      const response = await listSyncs(
+        mockRequest as FastifyRequest<{ Querystring: Record<string, string> }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(page);
+      expect(SyncService.prototype.listSyncs).toHaveBeenCalledWith({
+        status: 'pending',
+        entity_type: 'fish',
+        needs_review: true,
+        from: new Date('2026-01-01T00:00:00Z'),
+        page: 2,
+        limit: 10,
+      });
+    });
+
+    it('should return error response for invalid dates', async () => {
+      mockRequest.query = { to: 'yesterday' };
+
+      const response = await listSyncs(
+        mockRequest as FastifyRequest<{ Querystring: Record<string, string> }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      if (!response.success) {
+        expect(response.error.type).toBe('ValidationError');
+      }
+      expect(SyncService.prototype.listSyncs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSyncByTxHash', () => {
+    it('should return the entry', async () => {
+      vi.mocked(SyncService.prototype.getSyncByTxHash).mockResolvedValue(mockItem);
+      mockRequest.params = { txHash };
+
+      const response = await getSyncByTxHash(
+        mockRequest as FastifyRequest<{ Params: { txHash: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockItem);
+    });
+
+    it('should return not found error when the entry does not exist', async () => {
+      vi.mocked(SyncService.prototype.getSyncByTxHash).mockResolvedValue(null);
+      mockRequest.params = { txHash };
+
+      const response = await getSyncByTxHash(
+        mockRequest as FastifyRequest<{ Params: { txHash: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      if (!response.success) {
+        expect(response.error.type).toBe('NotFoundError');
+        expect(response.error.code).toBe(404);
+      }
+    });
+  });
+
+  describe('retrySync', () => {
+    it('should return the requeued entry', async () => {
+      vi.mocked(SyncService.prototype.retrySync).mockResolvedValue(mockItem);
+      mockRequest.params = { txHash };
+
+      const response = await retrySync(
+        mockRequest as FastifyRequest<{ Params: { txHash: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.message).toBe('Sync queue entry requeued successfully');
+      expect(SyncService.prototype.retrySync).toHaveBeenCalledWith(txHash);
+    });
+  });
+
+  describe('cancelSync', () => {
+    it('should return conflict error when the entry cannot be cancelled', async () => {
+      vi.mocked(SyncService.prototype.cancelSync).mockRejectedValue(
+        new ConflictError('Cannot cancel sync queue entry with status confirmed')
+      );
+      mockRequest.params = { txHash };
+
+      const response = await cancelSync(
+        mockRequest as FastifyRequest<{ Params: { txHash: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      if (!response.success) {
+        expect(response.error.type).toBe('ConflictError');
+        expect(response.error.code).toBe(409);
+      }
+    });
+  });
+});
@@ -15,14 +15,25 @@ vi.mock('@/services/tank.service', () => {
   // Mock methods on the prototype
   TankService.prototype.getTankById = vi.fn();
   TankService.prototype.getTanksByOwner = vi.fn();
+  TankService.prototype.mintTank = vi.fn();
+  TankService.prototype.renameTank = vi.fn();
+  TankService.prototype.getTankLayout = vi.fn();
+  TankService.prototype.updateTankLayout = vi.fn();
   
   return { TankService };
 });
 
 // Import after mocks
-import { getTankById, getTanksByOwner } from '@/controllers/tank.controller';
-import { NotFoundError } from '@/core/errors';
-import type { Tank } from '@/models/tank.model';
+import {
+  getTankById,
+  getTanksByOwner,
+  mintTank,
+  renameTank,
+  getTankLayout,
+  updateTankLayout,
+} from '@/controllers/tank.controller';
+import { NotFoundError, ConflictError } from '@/core/errors';
+import { TankTier, type Tank, type TankLayout, type UpdateTankLayoutDto } from '@/models/tank.model';
 import type { FishSummary } from '@/models/fish.model';
 import { TankService } from '@/services/tank.service';
 
@@ -205,4 +216,195 @@ describe('Tank Controller', () => {
       expect(response).toHaveProperty('message');
     });
   });
+
+  describe('mintTank', () => {
+    it('should mint a tank for the authenticated player', async () => {
+      const mockTank: Tank = {
+        id: 2,
+        owner: '0xabc',
+        capacity: 10,
+        name: 'Reef',
+        sprite_url: null,
+        createdAt: new Date(),
+      };
+      vi.mocked(TankService.prototype.mintTank).mockResolvedValue(mockTank);
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.body = { name: 'Reef' };
+
+      const response = await mintTank(
+        mockRequest as FastifyRequest<{ Body: { name?: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockTank);
+      expect(response.message).toBe('Tank minted successfully');
+      expect(TankService.prototype.mintTank).toHaveBeenCalledWith('0xabc', 'Reef');
+    });
+
+    it('should return conflict error when tank limit is reached', async () => {
+      vi.mocked(TankService.prototype.mintTank).mockRejectedValue(
+        new ConflictError('Player 0xabc already owns the maximum of 3 tanks')
+      );
+      mockRequest.player = { address: '0xabc' };
+
+      const response = await mintTank(
+        mockRequest as FastifyRequest<{ Body: undefined }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+      expect(TankService.prototype.mintTank).toHaveBeenCalledWith('0xabc', undefined);
+    });
+
+    it('should return unauthorized error when not authenticated', async () => {
+      mockRequest.body = {};
+
+      const response = await mintTank(
+        mockRequest as FastifyRequest<{ Body: { name?: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('UnauthorizedError');
+      expect(TankService.prototype.mintTank).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameTank', () => {
+    it('should rename the tank', async () => {
+      const mockTank: Tank & { fish: FishSummary[] } = {
+        id: 1,
+        owner: '0xabc',
+        capacity: 10,
+        name: 'Deep Blue',
+        createdAt: new Date(),
+        fish: [],
+      };
+      vi.mocked(TankService.prototype.renameTank).mockResolvedValue(mockTank);
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { name: 'Deep Blue' };
+
+      const response = await renameTank(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { name: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockTank);
+      expect(TankService.prototype.renameTank).toHaveBeenCalledWith(1, '0xabc', 'Deep Blue');
+    });
+
+    it('should return validation error when name is missing', async () => {
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {};
+
+      const response = await renameTank(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: { name: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(TankService.prototype.renameTank).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTankLayout', () => {
+    it('should return the tank layout', async () => {
+      const mockLayout: TankLayout = {
+        tank_id: 1,
+        version: 0,
+        tier: TankTier.Small,
+        width: 1280,
+        height: 720,
+        background: { decoration_id: null, sprite_url: null },
+        decorations: [],
+        spawn_zones: [],
+        updated_at: null,
+      };
+      vi.mocked(TankService.prototype.getTankLayout).mockResolvedValue(mockLayout);
+      mockRequest.params = { id: '1' };
+
+      const response = await getTankLayout(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual(mockLayout);
+      expect(TankService.prototype.getTankLayout).toHaveBeenCalledWith(1);
+    });
+
+    it('should return validation error for invalid ID format', async () => {
+      mockRequest.params = { id: 'abc' };
+
+      const response = await getTankLayout(
+        mockRequest as FastifyRequest<{ Params: { id: string } }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+    });
+  });
+
+  describe('updateTankLayout', () => {
+    const layout: UpdateTankLayoutDto = {
+      version: 1,
+      background: { decoration_id: null },
+      decorations: [{ decoration_id: 4, transform: { x: 100, y: 200, rotation: 0, scale: 1, z_layer: 0 } }],
+      spawn_zones: [],
+    };
+
+    it('should save the layout', async () => {
+      vi.mocked(TankService.prototype.updateTankLayout).mockResolvedValue({ version: 2 } as TankLayout);
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.params = { id: '1' };
+      mockRequest.body = layout;
+
+      const response = await updateTankLayout(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: UpdateTankLayoutDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(true);
+      expect(TankService.prototype.updateTankLayout).toHaveBeenCalledWith(1, '0xabc', layout);
+    });
+
+    it('should return validation error when decorations is not an array', async () => {
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { ...layout, decorations: 'all' };
+
+      const response = await updateTankLayout(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: UpdateTankLayoutDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ValidationError');
+      expect(TankService.prototype.updateTankLayout).not.toHaveBeenCalled();
+    });
+
+    it('should return conflict error when the layout version is stale', async () => {
+      vi.mocked(TankService.prototype.updateTankLayout).mockRejectedValue(
+        new ConflictError('Layout of tank 1 was modified since version 1, reload it and retry')
+      );
+      mockRequest.player = { address: '0xabc' };
+      mockRequest.params = { id: '1' };
+      mockRequest.body = layout;
+
+      const response = await updateTankLayout(
+        mockRequest as FastifyRequest<{ Params: { id: string }; Body: UpdateTankLayoutDto }>,
+        mockReply as FastifyReply
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('ConflictError');
+    });
+  });
 });
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Tests for Authentication Middleware
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+const { adminAddress } = vi.hoisted(() => ({
+  adminAddress: '0x0ABCDEF000000000000000000000000000000000000000000000000000000001',
+}));
+
+vi.mock('@/core/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/core/config')>()),
+  ADMIN_ADDRESSES: [adminAddress.toLowerCase()],
+}));
+
+import { authenticate, getAuthenticatedAddress, requireAdmin } from '@/core/middleware/authenticate';
+import { issueSessionToken } from '@/core/utils/session-token';
+import { UnauthorizedError, ForbiddenError } from '@/core/errors';
+
+describe('authenticate', () => {
+  const address = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+  const createRequest = (authorization?: string): FastifyRequest =>
+    ({
+      headers: authorization ? { authorization } : {},
+      player: null,
+    }) as unknown as FastifyRequest;
+
+  it('should decorate request with player for a valid token', async () => {
+    const { token } = issueSessionToken(address);
+    const request = createRequest(`Bearer ${token}`);
+
+    await authenticate(request, {} as FastifyReply);
+
+    expect(request.player).toEqual({ address });
+    expect(getAuthenticatedAddress(request)).toBe(address);
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    await expect(authenticate(createRequest(), {} as FastifyReply)).rejects.toThrow(UnauthorizedError);
+    await expect(authenticate(createRequest('Basic abc'), {} as FastifyReply)).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('should reject tampered tokens', async () => {
+    const { token } = issueSessionToken(address);
+    const [header, , signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ sub: '0xdead', iat: 0, exp: 9999999999 })).toString('base64url');
+
+    await expect(
+      authenticate(createRequest(`Bearer ${header}.${forgedBody}.${signature}`), {} as FastifyReply)
+    ).rejects.toThrow('Invalid session token');
+  });
+
+  it('should reject expired tokens', async () => {
+    const { token } = issueSessionToken(address, new Date('2020-01-01T00:00:00Z'));
+
+    await expect(authenticate(createRequest(`Bearer ${token}`), {} as FastifyReply)).rejects.toThrow(
+      'Session token has expired'
+    );
+  });
+
+  it('should throw when reading the address of an unauthenticated request', () => {
+    expect(() => getAuthenticatedAddress(createRequest())).toThrow(UnauthorizedError);
+  });
+});
+
+describe('requireAdmin', () => {
+  const createRequest = (address: string | null): FastifyRequest =>
+    ({ headers: {}, player: address ? { address } : null }) as unknown as FastifyRequest;
+
+  it('should allow addresses listed in ADMIN_ADDRESSES regardless of case', async () => {
+    await expect(requireAdmin(createRequest(adminAddress), {} as FastifyReply)).resolves.toBeUndefined();
+  });
+
+  it('should reject authenticated players that are not admins', async () => {
+    await expect(requireAdmin(createRequest('0xabc'), {} as FastifyReply)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    await expect(requireAdmin(createRequest(null), {} as FastifyReply)).rejects.toThrow(UnauthorizedError);
+  });
+});
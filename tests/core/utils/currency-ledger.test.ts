@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Tests for the currency ledger utility.
+ */
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+// Now import after mocks
+import {
+  InMemoryCurrencyLedger,
+  SupabaseCurrencyLedger,
+  SYSTEM_REWARDS_ACCOUNT,
+  SYSTEM_SHOP_ACCOUNT,
+  getCurrencyLedger,
+  setCurrencyLedger,
+} from '@/core/utils/currency-ledger';
+import { ConflictError, ValidationError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import type { LedgerMovement } from '@/models/ledger.model';
+
+function movement(idempotencyKey: string): LedgerMovement {
+  return { type: 'feed_reward', idempotencyKey };
+}
+
+describe('Currency Ledger', () => {
+  const address = '0xabc';
+
+  afterEach(() => {
+    setCurrencyLedger(null);
+  });
+
+  describe('InMemoryCurrencyLedger', () => {
+    it('should start players with the starting balance', async () => {
+      const ledger = new InMemoryCurrencyLedger(500);
+
+      expect(await ledger.getBalance(address)).toBe(500);
+      expect(await new InMemoryCurrencyLedger().getBalance(address)).toBe(0);
+    });
+
+    it('should debit and credit balances', async () => {
+      const ledger = new InMemoryCurrencyLedger(500);
+
+      await ledger.debit(address, 200, movement('k1'));
+      await ledger.credit(address, 50, movement('k2'));
+
+      expect(await ledger.getBalance(address)).toBe(350);
+    });
+
+    it('should balance both sides of every transfer', async () => {
+      const ledger = new InMemoryCurrencyLedger();
+
+      await ledger.credit(address, 300, movement('k1'));
+      await ledger.debit(address, 100, movement('k2'));
+
+      expect(await ledger.getBalance(SYSTEM_REWARDS_ACCOUNT)).toBe(-300);
+      expect(await ledger.getBalance(SYSTEM_SHOP_ACCOUNT)).toBe(100);
+      expect(await ledger.getBalance(address)).toBe(200);
+    });
+
+    it('should apply a movement only once per idempotency key', async () => {
+      const ledger = new InMemoryCurrencyLedger();
+
+      await ledger.credit(address, 25, movement('breed_reward:0x1'));
+      await ledger.credit(address, 25, movement('breed_reward:0x1'));
+
+      expect(await ledger.getBalance(address)).toBe(25);
+      expect((await ledger.getHistory(address, 1, 20)).total).toBe(1);
+    });
+
+    it('should reject debits larger than the balance', async () => {
+      const ledger = new InMemoryCurrencyLedger(100);
+
+      await expect(ledger.debit(address, 101, movement('k1'))).rejects.toThrow(ConflictError);
+      expect(await ledger.getBalance(address)).toBe(100);
+
+      // The failed key was not consumed
+      await ledger.credit(address, 1, movement('k2'));
+      await ledger.debit(address, 101, movement('k1'));
+      expect(await ledger.getBalance(address)).toBe(0);
+    });
+
+    it('should reject non-positive amounts', async () => {
+      const ledger = new InMemoryCurrencyLedger(100);
+
+      await expect(ledger.credit(address, 0, movement('k1'))).rejects.toThrow(ValidationError);
+      await expect(ledger.debit(address, 1.5, movement('k2'))).rejects.toThrow(ValidationError);
+    });
+
+    it('should return history newest first with running balances', async () => {
+      const ledger = new InMemoryCurrencyLedger();
+
+      await ledger.credit(address, 100, { type: 'starting_grant', idempotencyKey: 'k1', description: 'Starting coins' });
+      await ledger.debit(address, 30, { type: 'decoration_purchase', idempotencyKey: 'k2' });
+      await ledger.credit(address, 5, movement('k3'));
+
+      const firstPage = await ledger.getHistory(address, 1, 2);
+      expect(firstPage.total).toBe(3);
+      expect(firstPage.entries.map((entry) => entry.amount)).toEqual([5, -30]);
+      expect(firstPage.entries.map((entry) => entry.balance_after)).toEqual([75, 70]);
+
+      const secondPage = await ledger.getHistory(address, 2, 2);
+      expect(secondPage.entries).toHaveLength(1);
+      expect(secondPage.entries[0]).toMatchObject({
+        idempotency_key: 'k1',
+        type: 'starting_grant',
+        description: 'Starting coins',
+        amount: 100,
+        balance_after: 100,
+      });
+    });
+  });
+
+  describe('SupabaseCurrencyLedger', () => {
+    let mockSupabase: any;
+    let ledger: SupabaseCurrencyLedger;
+
+    beforeEach(() => {
+      mockSupabase = {
+        from: vi.fn(),
+        rpc: vi.fn(),
+      };
+      vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+      ledger = new SupabaseCurrencyLedger();
+    });
+
+    it('should post credits through post_ledger_transfer', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: 1, error: null });
+
+      await ledger.credit(address, 25, { type: 'breed_reward', idempotencyKey: 'breed_reward:0x1', description: 'Bred fish 3' });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('post_ledger_transfer', {
+        p_idempotency_key: 'breed_reward:0x1',
+        p_type: 'breed_reward',
+        p_description: 'Bred fish 3',
+        p_from_account: SYSTEM_REWARDS_ACCOUNT,
+        p_to_account: address,
+        p_amount: 25,
+      });
+    });
+
+    it('should throw ConflictError when the balance check fails', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '23514', message: 'check violation' } });
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { balance: 40 }, error: null }),
+      });
+
+      await expect(ledger.debit(address, 100, movement('k1'))).rejects.toThrow(
+        'Not enough coins: 40 available, 100 required'
+      );
+    });
+
+    it('should return 0 for accounts without a ledger row', async () => {
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116', message: 'not found' } }),
+      });
+
+      expect(await ledger.getBalance(address)).toBe(0);
+    });
+
+    it('should map history rows with their transaction', async () => {
+      const range = vi.fn().mockResolvedValue({
+        data: [
+          {
+            transaction_id: 7,
+            amount: -100,
+            balance_after: 900,
+            created_at: '2026-10-19T10:00:00Z',
+            ledger_transactions: { idempotency_key: 'k7', type: 'decoration_purchase', description: 'Bought Plant decoration' },
+          },
+        ],
+        error: null,
+        count: 3,
+      });
+      mockSupabase.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        range,
+      });
+
+      const history = await ledger.getHistory(address, 2, 1);
+
+      expect(range).toHaveBeenCalledWith(1, 1);
+      expect(history.total).toBe(3);
+      expect(history.entries[0]).toEqual({
+        transaction_id: 7,
+        idempotency_key: 'k7',
+        type: 'decoration_purchase',
+        description: 'Bought Plant decoration',
+        amount: -100,
+        balance_after: 900,
+        created_at: new Date('2026-10-19T10:00:00Z'),
+      });
+    });
+  });
+
+  describe('setCurrencyLedger', () => {
+    it('should override and reset the active ledger', () => {
+      const ledger = new InMemoryCurrencyLedger(1);
+
+      setCurrencyLedger(ledger);
+      expect(getCurrencyLedger()).toBe(ledger);
+
+      setCurrencyLedger(null);
+      expect(getCurrencyLedger()).not.toBe(ledger);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Tests for the file event source (world event replay).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileEventSource } from '@/core/utils/file-event-source';
+import { FoodType } from '@/models/food.model';
+
+const fixture = join(__dirname, '../../fixtures/events/world-events.jsonl');
+
+describe('FileEventSource', () => {
+  it('should replay the events in order with their line number as cursor', async () => {
+    const source = new FileEventSource(fixture);
+
+    const events = await source.fetchEvents(null, 10);
+
+    expect(source.name).toBe('file:world-events.jsonl');
+    expect(events.map((event) => [event.type, event.cursor])).toEqual([
+      ['TankMinted', '1'],
+      ['FishMinted', '2'],
+      ['FishFed', '4'],
+      ['FishBred', '5'],
+      ['DecorationToggled', '6'],
+    ]);
+    expect(events[2]).toMatchObject({
+      type: 'FishFed',
+      fish_id: 40,
+      food_type: FoodType.Premium,
+      xp_granted: 12,
+      tx_hash: '0x103',
+      timestamp: new Date('2026-01-01T00:02:00Z'),
+    });
+  });
+
+  it('should read after the cursor up to the limit', async () => {
+    const source = new FileEventSource(fixture);
+
+    const events = await source.fetchEvents('2', 2);
+
+    expect(events.map((event) => event.cursor)).toEqual(['4', '5']);
+  });
+
+  describe('with a file that changes', () => {
+    it('should pick up appended events, read nothing from a missing file and reject invalid lines', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'file-event-source-'));
+      const file = join(dir, 'events.jsonl');
+      const source = new FileEventSource(file);
+
+      try {
+        expect(await source.fetchEvents(null, 10)).toEqual([]);
+
+        writeFileSync(file, '{"type":"TankMinted","tx_hash":"0x1","timestamp":"2026-01-01T00:00:00Z","tank_id":1,"owner":"0x1"}\n');
+        expect(await source.fetchEvents(null, 10)).toHaveLength(1);
+        expect(await source.fetchEvents('1', 10)).toEqual([]);
+
+        appendFileSync(file, '{"type":"TankMinted","tx_hash":"0x2","timestamp":"2026-01-01T00:00:00Z","owner":"0x1"}\n');
+        await expect(source.fetchEvents('1', 10)).rejects.toThrow(`${file}:2: TankMinted requires tank_id (number)`);
+
+        writeFileSync(file, '{"type":"FishSold","tx_hash":"0x3","timestamp":"2026-01-01T00:00:00Z"}\n');
+        await expect(source.fetchEvents(null, 10)).rejects.toThrow('unknown event type FishSold');
+
+        await expect(source.fetchEvents('abc', 10)).rejects.toThrow('Invalid cursor');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
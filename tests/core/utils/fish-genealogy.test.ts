@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { buildFishFamilyTree } from '@/core/utils/fish-genealogy';
+import { buildFishFamilyTree, buildFishAncestry } from '@/core/utils/fish-genealogy';
 import { ValidationError, NotFoundError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 
@@ -12,26 +12,61 @@ vi.mock('@/core/utils/supabase-client', () => ({
   getSupabaseClient: vi.fn(),
 }));
 
+type FishRow = { id: number; parent1_id: number | null; parent2_id: number | null };
+
+/**
+ * Serves the three query shapes used by buildFishFamilyTree from an in-memory
+ * fish table:
+ * - select().eq('id', id).single() for the root fish
+ * - select().in('id', ids) for a generation of ancestors
+ * - select().or('parent1_id.in.(...),parent2_id.in.(...)') for a generation of descendants
+ */
+function createFishTable(rows: FishRow[]) {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  return vi.fn(() => {
+    const query = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn((_column: string, id: number) => ({
+        single: vi.fn().mockResolvedValue(
+          byId.has(id)
+            ? { data: byId.get(id), error: null }
+            : { data: null, error: { code: 'PGRST116', message: 'Not found' } }
+        ),
+      })),
+      in: vi.fn(async (_column: string, ids: number[]) => ({
+        data: rows.filter((row) => ids.includes(row.id)),
+        error: null,
+      })),
+      or: vi.fn(async (filter: string) => {
+        const match = /^parent1_id\.in\.\(([\d,]+)\),parent2_id\.in\.\(([\d,]+)\)$/.exec(filter);
+        const ids = (match?.[1] ?? '').split(',').map(Number);
+        return {
+          data: rows.filter(
+            (row) =>
+              (row.parent1_id !== null && ids.includes(row.parent1_id)) ||
+              (row.parent2_id !== null && ids.includes(row.parent2_id))
+          ),
+          error: null,
+        };
+      }),
+    };
+    return query;
+  });
+}
+
 describe('Fish Genealogy Utilities', () => {
   let mockSupabase: any;
-  let mockFishQuery: any;
+
+  const useFishTable = (rows: FishRow[]) => {
+    mockSupabase.from = createFishTable(rows);
+  };
 
   beforeEach(() => {
     // Reset mocks
     vi.clearAllMocks();
 
-    // Setup mock chain
-    mockFishQuery = {
-      select: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockReturnThis(),
-      or: vi.fn().mockReturnThis(),
-      single: vi.fn(),
-      then: vi.fn(),
-    };
-
-    mockSupabase = {
-      from: vi.fn().mockReturnValue(mockFishQuery),
-    };
+    mockSupabase = { from: createFishTable([]) };
 
     vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
   });
@@ -44,180 +79,144 @@ describe('Fish Genealogy Utilities', () => {
     });
 
     it('should throw NotFoundError if root fish does not exist', async () => {
-      mockFishQuery.single.mockResolvedValue({
-        data: null,
-        error: { code: 'PGRST116', message: 'Not found' },
-      });
-
       await expect(buildFishFamilyTree(1)).rejects.toThrow(NotFoundError);
     });
 
     it('should build tree for fish with no family (minted)', async () => {
-      // Mock root fish (no parents)
-      mockFishQuery.single.mockResolvedValueOnce({
-        data: { id: 1, parent1_id: null, parent2_id: null },
-        error: null,
-      });
+      useFishTable([{ id: 1, parent1_id: null, parent2_id: null }]);
 
-      // Mock descendants query (no children)
-      mockFishQuery.or.mockResolvedValueOnce({
-        data: [],
-        error: null,
-      });
-
-      // Because 'or' returns a promise directly in the implementation when awaited?
-      // Actually implementation awaits result of chain.
-      // So select().or() returns { data: ..., error: ... }
-      // We need to make sure the chain returns the promise that resolves to data
-      // In supabase-js: supabase.from().select().or() is a PromiseLike
-      
-      // Let's refine the mock to match implementation:
-      // const { data: children... } = await supabase.from().select().or()
-      
-      // Adjusting mock for descendants:
-      // The implementation calls: await supabase.from('fish').select(...).or(...)
-      // So 'or' should return the resolved value
-      
       const tree = await buildFishFamilyTree(1);
 
-      expect(tree.fish_id).toBe(1);
-      expect(tree.ancestors).toHaveLength(1); // Only self
-      expect(tree.ancestors[0].id).toBe(1);
-      expect(tree.ancestors[0].generation).toBe(0);
-      expect(tree.descendants).toHaveLength(0);
-      expect(tree.generation_count).toBe(0); // Max ancestor generation
+      expect(tree).toEqual({
+        fish_id: 1,
+        ancestors: [{ id: 1, parent1_id: null, parent2_id: null, generation: 0 }],
+        descendants: [],
+        generation_count: 0,
+        descendant_generation_count: 0,
+      });
+      // Root + one descendant query that finds no children
+      expect(mockSupabase.from).toHaveBeenCalledTimes(2);
     });
 
-    it('should build tree with ancestors (parents)', async () => {
-      // 1. Root fish (has parents 10, 11)
-      mockFishQuery.single
-        .mockResolvedValueOnce({
-          data: { id: 1, parent1_id: 10, parent2_id: 11 },
-          error: null,
-        })
-        // 2. Parent 10 (minted)
-        .mockResolvedValueOnce({
-          data: { id: 10, parent1_id: null, parent2_id: null },
-          error: null,
-        })
-        // 3. Parent 11 (minted)
-        .mockResolvedValueOnce({
-          data: { id: 11, parent1_id: null, parent2_id: null },
-          error: null,
-        });
-
-      // Mock descendants (none)
-      mockFishQuery.or.mockResolvedValue({
-        data: [],
-        error: null,
-      });
+    it('should load both parents in a single query', async () => {
+      useFishTable([
+        { id: 1, parent1_id: 10, parent2_id: 11 },
+        { id: 10, parent1_id: null, parent2_id: null },
+        { id: 11, parent1_id: null, parent2_id: null },
+      ]);
 
       const tree = await buildFishFamilyTree(1);
 
-      expect(tree.ancestors).toHaveLength(3); // Root + 2 parents
-      
-      // Check Root
-      const root = tree.ancestors.find(f => f.id === 1);
-      expect(root?.generation).toBe(0);
-
-      // Check Parents
-      const p1 = tree.ancestors.find(f => f.id === 10);
-      const p2 = tree.ancestors.find(f => f.id === 11);
-      expect(p1?.generation).toBe(1);
-      expect(p2?.generation).toBe(1);
-
+      expect(tree.ancestors).toEqual([
+        { id: 1, parent1_id: 10, parent2_id: 11, generation: 0 },
+        { id: 10, parent1_id: null, parent2_id: null, generation: 1 },
+        { id: 11, parent1_id: null, parent2_id: null, generation: 1 },
+      ]);
       expect(tree.generation_count).toBe(1);
+      // Root + parents + empty descendant query
+      expect(mockSupabase.from).toHaveBeenCalledTimes(3);
     });
 
     it('should build tree with ancestors recursively (grandparents)', async () => {
       // Root(1) -> Parent(10) -> Grandparent(100)
-      
-      // 1. Root fish query
-      mockFishQuery.single
-        .mockResolvedValueOnce({ // Root
-          data: { id: 1, parent1_id: 10, parent2_id: null },
-          error: null,
-        })
-        .mockResolvedValueOnce({ // Parent 10
-          data: { id: 10, parent1_id: 100, parent2_id: null },
-          error: null,
-        })
-        .mockResolvedValueOnce({ // Grandparent 100
-          data: { id: 100, parent1_id: null, parent2_id: null },
-          error: null,
-        });
-
-      // Mock descendants (none)
-      mockFishQuery.or.mockResolvedValue({
-        data: [],
-        error: null,
-      });
+      useFishTable([
+        { id: 1, parent1_id: 10, parent2_id: null },
+        { id: 10, parent1_id: 100, parent2_id: null },
+        { id: 100, parent1_id: null, parent2_id: null },
+      ]);
 
       const tree = await buildFishFamilyTree(1);
 
       expect(tree.ancestors).toHaveLength(3); // 1, 10, 100
       expect(tree.generation_count).toBe(2);
-      
+
       const grandparent = tree.ancestors.find(f => f.id === 100);
       expect(grandparent?.generation).toBe(2);
     });
 
+    it('should make one query per generation for a full ancestor tree', async () => {
+      // Root 1 with 4 ancestor generations: 2 + 4 + 8 + 16 = 30 ancestors
+      const rows: FishRow[] = [];
+      for (let id = 1; id < 32; id++) {
+        const hasParents = id < 16;
+        rows.push({ id, parent1_id: hasParents ? id * 2 : null, parent2_id: hasParents ? id * 2 + 1 : null });
+      }
+      useFishTable(rows);
+
+      const tree = await buildFishFamilyTree(1);
+
+      expect(tree.ancestors).toHaveLength(31);
+      expect(tree.generation_count).toBe(4);
+      expect(tree.ancestors.filter(f => f.generation === 4)).toHaveLength(16);
+      // Root + 4 ancestor generations + empty descendant query
+      expect(mockSupabase.from).toHaveBeenCalledTimes(6);
+    });
+
     it('should build tree with descendants (children and grandchildren)', async () => {
       // Root(1) -> Child(20) -> Grandchild(30)
+      useFishTable([
+        { id: 1, parent1_id: null, parent2_id: null },
+        { id: 20, parent1_id: 1, parent2_id: 999 },
+        { id: 30, parent1_id: 20, parent2_id: 888 },
+      ]);
 
-      // 1. Root fish query (no parents)
-      mockFishQuery.single.mockResolvedValueOnce({
-        data: { id: 1, parent1_id: null, parent2_id: null },
-        error: null,
-      });
+      const tree = await buildFishFamilyTree(1);
 
-      // 2. Descendants queries
-      // First call: children of 1
-      mockFishQuery.or
-        .mockResolvedValueOnce({
-          data: [{ id: 20, parent1_id: 1, parent2_id: 999 }], // Found Child 20
-          error: null,
-        })
-        // Second call: children of 20
-        .mockResolvedValueOnce({
-          data: [{ id: 30, parent1_id: 20, parent2_id: 888 }], // Found Grandchild 30
-          error: null,
-        })
-        // Third call: children of 30
-        .mockResolvedValueOnce({
-          data: [], // No more descendants
-          error: null,
-        });
+      expect(tree.descendants).toEqual([
+        { id: 20, parent1_id: 1, parent2_id: 999, generation: 1 },
+        { id: 30, parent1_id: 20, parent2_id: 888, generation: 2 },
+      ]);
+      expect(tree.descendant_generation_count).toBe(2);
+      // Root + children + grandchildren + empty query for great-grandchildren
+      expect(mockSupabase.from).toHaveBeenCalledTimes(4);
+    });
+
+    it('should load every child of a generation in a single query', async () => {
+      // Root 1 has children 2 and 3, which each have two children
+      useFishTable([
+        { id: 1, parent1_id: null, parent2_id: null },
+        { id: 2, parent1_id: 1, parent2_id: null },
+        { id: 3, parent1_id: null, parent2_id: 1 },
+        { id: 4, parent1_id: 2, parent2_id: 3 },
+        { id: 5, parent1_id: 2, parent2_id: null },
+        { id: 6, parent1_id: 3, parent2_id: null },
+      ]);
 
       const tree = await buildFishFamilyTree(1);
 
-      expect(tree.descendants).toHaveLength(2); // 20, 30
-      expect(tree.descendant_generation_count).toBe(2);
+      expect(tree.descendants.map(f => [f.id, f.generation])).toEqual([
+        [2, 1],
+        [3, 1],
+        [4, 2],
+        [5, 2],
+        [6, 2],
+      ]);
+      // Root + 2 descendant generations + empty query
+      expect(mockSupabase.from).toHaveBeenCalledTimes(4);
+    });
 
-      const child = tree.descendants.find(f => f.id === 20);
-      const grandchild = tree.descendants.find(f => f.id === 30);
+    it('should list a shared ancestor once, at its closest generation', async () => {
+      // 1's parents are 2 and 3; 2's parent is 3 (inbred line)
+      useFishTable([
+        { id: 1, parent1_id: 2, parent2_id: 3 },
+        { id: 2, parent1_id: 3, parent2_id: null },
+        { id: 3, parent1_id: null, parent2_id: null },
+      ]);
 
-      expect(child?.generation).toBe(1);
-      expect(grandchild?.generation).toBe(2);
+      const tree = await buildFishFamilyTree(1);
+
+      expect(tree.ancestors.filter(f => f.id === 3)).toEqual([
+        { id: 3, parent1_id: null, parent2_id: null, generation: 1 },
+      ]);
+      expect(tree.generation_count).toBe(1);
     });
 
     it('should handle cycles gracefully (visited tracking)', async () => {
       // Artificial cycle: 1 -> 10 -> 1 (should stop)
-      
-      // Root
-      mockFishQuery.single
-        .mockResolvedValueOnce({
-          data: { id: 1, parent1_id: 10, parent2_id: null },
-          error: null,
-        })
-        // Parent 10 says parent is 1 (cycle)
-        .mockResolvedValueOnce({
-          data: { id: 10, parent1_id: 1, parent2_id: null },
-          error: null,
-        });
-        
-      // No descendants
-      mockFishQuery.or.mockResolvedValue({ data: [], error: null });
+      useFishTable([
+        { id: 1, parent1_id: 10, parent2_id: null },
+        { id: 10, parent1_id: 1, parent2_id: null },
+      ]);
 
       const tree = await buildFishFamilyTree(1);
 
@@ -226,29 +225,62 @@ describe('Fish Genealogy Utilities', () => {
       expect(tree.ancestors.filter(f => f.id === 1)).toHaveLength(1);
     });
 
-    it('should stop recursion at MAX_GENERATION_DEPTH', async () => {
-      // Mock root
-      mockFishQuery.single.mockResolvedValueOnce({
-        data: { id: 1, parent1_id: 2, parent2_id: null },
-        error: null,
-      });
+    it('should ignore parents missing from the table', async () => {
+      useFishTable([{ id: 1, parent1_id: 10, parent2_id: null }]);
+
+      const tree = await buildFishFamilyTree(1);
+
+      expect(tree.ancestors).toHaveLength(1);
+      expect(tree.generation_count).toBe(0);
+    });
+
+    it('should load a 50-generation lineage and reject a deeper one', async () => {
+      // Linear lineage: fish n's parent is n + 1
+      const lineage = (generations: number): FishRow[] =>
+        Array.from({ length: generations + 1 }, (_, n) => ({
+          id: n + 1,
+          parent1_id: n < generations ? n + 2 : null,
+          parent2_id: null,
+        }));
+
+      useFishTable(lineage(50));
+      const tree = await buildFishFamilyTree(1);
+
+      expect(tree.generation_count).toBe(50);
+      // Root + 50 ancestor generations + empty descendant query
+      expect(mockSupabase.from).toHaveBeenCalledTimes(52);
+
+      useFishTable(lineage(51));
+      await expect(buildFishFamilyTree(1)).rejects.toThrow('Max ancestor depth exceeded at generation 51');
+    });
+
+    it('should reject a descendant line deeper than 50 generations', async () => {
+      // Linear line: fish n's child is n + 1
+      const rows: FishRow[] = Array.from({ length: 52 }, (_, n) => ({
+        id: n + 1,
+        parent1_id: n === 0 ? null : n,
+        parent2_id: null,
+      }));
+      useFishTable(rows);
+
+      await expect(buildFishFamilyTree(1)).rejects.toThrow('Max descendant depth exceeded at generation 51');
+    });
+  });
+
+  describe('buildFishAncestry', () => {
+    it('should return the fish and its ancestors without loading descendants', async () => {
+      useFishTable([
+        { id: 1, parent1_id: 10, parent2_id: 11 },
+        { id: 10, parent1_id: null, parent2_id: null },
+        { id: 11, parent1_id: null, parent2_id: null },
+        { id: 20, parent1_id: 1, parent2_id: null },
+      ]);
+
+      const ancestry = await buildFishAncestry(1);
 
-      // Mock a chain that exceeds depth
-      // We'll mock the implementation to throw when depth > 50
-      // Since we can't easily mock 51 recursive calls, we rely on the logic check
-      // But we can test that it throws if we could simulate deep recursion.
-      // In unit test with mocked DB, we'd have to setup 50+ mocks.
-      // Instead, we trust the code: if (generation > MAX_GENERATION_DEPTH) throw
-      // We can verify this logic by mocking a recursive loop that goes deep if we wanted,
-      // but simpler is to verify it works for small depth and assume the constant is correct.
-      
-      // Let's just ensure it handles a reasonable depth correctly.
-      // Or we could mock MAX_GENERATION_DEPTH if it was exported/configurable.
-      // Since it's a const, we can't easily change it.
-      
-      // We will skip testing the exact throw unless we loop the mock 51 times.
-      // Let's assume the previous tests cover the recursion logic adequately.
-      expect(true).toBe(true);
+      expect(ancestry.map(f => [f.id, f.generation])).toEqual([[1, 0], [10, 1], [11, 1]]);
+      // Root + parents
+      expect(mockSupabase.from).toHaveBeenCalledTimes(2);
     });
   });
 });
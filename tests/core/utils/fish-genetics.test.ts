@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Tests for fish DNA inheritance.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  createGamete,
+  inheritDna,
+  DNA_GENE_COUNT,
+  type RandomSource,
+} from '@/core/utils/fish-genetics';
+import { decodeFishTraits, normalizeDna, getGeneAlleles } from '@/core/utils/fish-traits';
+import { ValidationError } from '@/core/errors';
+import { FishRarity } from '@/models/fish.model';
+
+/**
+ * Random source replaying fixed values (then repeating the last one).
+ */
+function sequence(...values: number[]): RandomSource {
+  let index = 0;
+  return () => values[Math.min(index++, values.length - 1)] as number;
+}
+
+describe('Fish Genetics Utilities', () => {
+  // First allele of every gene is 0x11, second is 0x22
+  const parentA = `0x${'1122'.repeat(DNA_GENE_COUNT)}`;
+  // First allele of every gene is 0x33, second is 0x44
+  const parentB = `0x${'3344'.repeat(DNA_GENE_COUNT)}`;
+
+  describe('createSeededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const first = createSeededRandom(42);
+      const second = createSeededRandom(42);
+
+      const values = Array.from({ length: 5 }, () => first());
+      expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+      values.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it('should differ between seeds', () => {
+      expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+    });
+  });
+
+  describe('createGamete', () => {
+    it('should take every allele from one chromosome without crossover', () => {
+      // 0.9: second chromosome; 0.9 never crosses over or mutates
+      expect(createGamete(parentA, sequence(0.9), 0)).toEqual(Array(DNA_GENE_COUNT).fill(0x22));
+    });
+
+    it('should switch chromosome on crossover', () => {
+      // Start on the first chromosome, no mutation on gene 0, cross over before gene 1
+      const random = sequence(0.1, 0.9, 0.1, 0.9);
+      const gamete = createGamete(parentA, random, 0.01);
+
+      expect(gamete[0]).toBe(0x11);
+      expect(gamete.slice(1)).toEqual(Array(DNA_GENE_COUNT - 1).fill(0x22));
+    });
+
+    it('should replace mutated alleles with a random byte', () => {
+      // Every allele mutates to floor(0.5 * 256)
+      expect(createGamete(parentA, sequence(0.9, 0, 0.5, 0.9, 0, 0.5), 1).slice(0, 2)).toEqual([0x80, 0x80]);
+    });
+  });
+
+  describe('inheritDna', () => {
+    it('should take one allele per gene from each parent', () => {
+      const child = normalizeDna(inheritDna(parentA, parentB, { random: createSeededRandom(7), mutationRate: 0 }));
+
+      for (let gene = 0; gene < DNA_GENE_COUNT; gene++) {
+        const [fromA, fromB] = getGeneAlleles(child, gene);
+        expect([0x11, 0x22]).toContain(fromA);
+        expect([0x33, 0x44]).toContain(fromB);
+      }
+    });
+
+    it('should be reproducible with the same seed', () => {
+      const first = inheritDna(parentA, parentB, { random: createSeededRandom(1234) });
+      const second = inheritDna(parentA, parentB, { random: createSeededRandom(1234) });
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/^0x[0-9a-f]{32}$/);
+    });
+
+    it('should express a recessive trait only when both parents pass it on', () => {
+      // Both parents carry one Legendary (3) and one Common (0) rarity allele
+      const carrier = '0x00000000000000000300000000000000';
+      expect(decodeFishTraits(carrier).rarity).toBe(FishRarity.Common);
+
+      // Both gametes start on the first chromosome and never cross over
+      // (a gamete draws 1 start + 1 mutation + 2 per remaining gene)
+      const draws = 2 * DNA_GENE_COUNT;
+      const firstChromosome = sequence(0.1, ...Array(draws - 1).fill(0.9), 0.1, 0.9);
+      const legendary = inheritDna(carrier, carrier, { random: firstChromosome, mutationRate: 0 });
+      expect(decodeFishTraits(legendary).rarity).toBe(FishRarity.Legendary);
+
+      // Each gamete starts on the second chromosome
+      const common = inheritDna(carrier, carrier, { random: sequence(0.9), mutationRate: 0 });
+      expect(decodeFishTraits(common).rarity).toBe(FishRarity.Common);
+    });
+
+    it('should throw ValidationError for invalid parent DNA', () => {
+      expect(() => inheritDna('0xzz', parentB)).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Tests for Fish Kinship utilities.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/core/utils/fish-genealogy', () => ({
+  buildFishAncestry: vi.fn(),
+}));
+
+import {
+  createPedigree,
+  calculateCoancestry,
+  calculateInbreeding,
+  calculateRelationship,
+  buildFishKinship,
+} from '@/core/utils/fish-kinship';
+import { buildFishAncestry } from '@/core/utils/fish-genealogy';
+import type { FishFamilyMember } from '@/core/types';
+
+const member = (id: number, parent1_id: number | null = null, parent2_id: number | null = null): FishFamilyMember => ({
+  id,
+  parent1_id,
+  parent2_id,
+  generation: 0,
+});
+
+/**
+ * Pedigree used across tests:
+ *
+ *   1 x 2 -> 3, 4 (full siblings)
+ *   1 x 5 -> 6 (half sibling of 3 and 4)
+ *   3 x 7 -> 8, 4 x 9 -> 10 (first cousins 8 and 10)
+ *   3 x 4 -> 11 (offspring of full siblings)
+ *   12 (unrelated founder)
+ */
+const pedigree = createPedigree([
+  member(1),
+  member(2),
+  member(3, 1, 2),
+  member(4, 1, 2),
+  member(5),
+  member(6, 1, 5),
+  member(7),
+  member(8, 3, 7),
+  member(9),
+  member(10, 4, 9),
+  member(11, 3, 4),
+  member(12),
+]);
+
+describe('Fish Kinship Utilities', () => {
+  describe('calculateRelationship', () => {
+    it.each([
+      ['the same fish', 3, 3, 1],
+      ['parent and offspring', 1, 3, 0.5],
+      ['offspring and parent', 3, 1, 0.5],
+      ['full siblings', 3, 4, 0.5],
+      ['half siblings', 3, 6, 0.25],
+      ['grandparent and grandchild', 1, 8, 0.25],
+      ['aunt and nephew', 4, 8, 0.25],
+      ['first cousins', 8, 10, 0.125],
+      ['unrelated fish', 3, 12, 0],
+      ['fish missing from the pedigree', 3, 99, 0],
+    ])('should return the coefficient for %s', (_label, a, b, expected) => {
+      expect(calculateRelationship(pedigree, a, b)).toBeCloseTo(expected, 10);
+    });
+
+    it('should account for inbreeding of both fish', () => {
+      // 11 is inbred (F = 0.25); its relationship to its parent 3 rises above 0.5
+      expect(calculateInbreeding(pedigree, 11)).toBeCloseTo(0.25, 10);
+      expect(calculateRelationship(pedigree, 11, 3)).toBeCloseTo(0.75 / Math.sqrt(1.25), 10);
+    });
+  });
+
+  describe('calculateCoancestry', () => {
+    it('should equal the inbreeding coefficient of a potential offspring', () => {
+      expect(calculateCoancestry(pedigree, 3, 4)).toBeCloseTo(0.25, 10);
+      expect(calculateCoancestry(pedigree, 8, 10)).toBeCloseTo(0.0625, 10);
+      expect(calculateCoancestry(pedigree, 3, 12)).toBe(0);
+    });
+
+    it('should terminate on a corrupted pedigree where a fish is its own ancestor', () => {
+      const cyclic = createPedigree([member(1, 2, null), member(2, 1, null)]);
+
+      expect(Number.isFinite(calculateCoancestry(cyclic, 1, 2))).toBe(true);
+    });
+  });
+
+  describe('buildFishKinship', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should build the kinship of two fish from their ancestries', async () => {
+      // 3 and 6 are half siblings through 1
+      vi.mocked(buildFishAncestry)
+        .mockResolvedValueOnce([member(3, 1, 2), member(1), member(2)])
+        .mockResolvedValueOnce([member(6, 1, 5), member(1), member(5)]);
+
+      const kinship = await buildFishKinship(3, 6);
+
+      expect(kinship).toEqual({
+        fish_id: 3,
+        other_fish_id: 6,
+        relationship_coefficient: 0.25,
+        inbreeding_coefficient: 0.125,
+        common_ancestor_ids: [1],
+        can_breed: false,
+      });
+      expect(buildFishAncestry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should allow breeding first cousins', async () => {
+      vi.mocked(buildFishAncestry)
+        .mockResolvedValueOnce([member(8, 3, 7), member(3, 1, 2), member(7), member(1), member(2)])
+        .mockResolvedValueOnce([member(10, 4, 9), member(4, 1, 2), member(9), member(1), member(2)]);
+
+      const kinship = await buildFishKinship(8, 10);
+
+      expect(kinship.relationship_coefficient).toBe(0.125);
+      expect(kinship.common_ancestor_ids).toEqual([1, 2]);
+      expect(kinship.can_breed).toBe(true);
+    });
+
+    it('should apply the given maximum relationship', async () => {
+      vi.mocked(buildFishAncestry)
+        .mockResolvedValueOnce([member(8, 3, 7), member(3, 1, 2), member(7), member(1), member(2)])
+        .mockResolvedValueOnce([member(10, 4, 9), member(4, 1, 2), member(9), member(1), member(2)]);
+
+      const kinship = await buildFishKinship(8, 10, 0.0625);
+
+      expect(kinship.relationship_coefficient).toBe(0.125);
+      expect(kinship.can_breed).toBe(false);
+    });
+
+    it('should never allow breeding a fish with itself', async () => {
+      vi.mocked(buildFishAncestry).mockResolvedValueOnce([member(12)]);
+
+      const kinship = await buildFishKinship(12, 12);
+
+      expect(kinship.relationship_coefficient).toBe(1);
+      expect(kinship.can_breed).toBe(false);
+      expect(buildFishAncestry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
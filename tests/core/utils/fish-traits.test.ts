@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for fish DNA trait decoding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeFishTraits, normalizeDna, getGeneAlleles, DNA_HEX_LENGTH } from '@/core/utils/fish-traits';
+import { ValidationError } from '@/core/errors';
+import {
+  FishColor,
+  FishPattern,
+  FishFinShape,
+  FishSize,
+  FishRarity,
+} from '@/models/fish.model';
+
+describe('Fish Trait Utilities', () => {
+  // color 0f/0e, pattern 03/02, fin 01/01, size ff/fe, rarity 03/03, reserved zeros
+  const sampleDna = '0x0f0e03020101fffe0303000000000000';
+
+  describe('decodeFishTraits', () => {
+    it('should decode the most dominant variant of each gene', () => {
+      expect(decodeFishTraits(sampleDna)).toEqual({
+        color: FishColor.Black, // 15 % 8 = 7, 14 % 8 = 6
+        pattern: FishPattern.Spotted, // 3, 2
+        finShape: FishFinShape.Fan, // 1, 1
+        size: FishSize.Large, // 255 % 4 = 3, 254 % 4 = 2
+        rarity: FishRarity.Legendary, // 3, 3
+      });
+    });
+
+    it('should decode all-zero DNA to the dominant variants', () => {
+      expect(decodeFishTraits(`0x${'0'.repeat(DNA_HEX_LENGTH)}`)).toEqual({
+        color: FishColor.Orange,
+        pattern: FishPattern.Solid,
+        finShape: FishFinShape.Round,
+        size: FishSize.Medium,
+        rarity: FishRarity.Common,
+      });
+    });
+
+    it('should only express a recessive variant when both alleles carry it', () => {
+      expect(decodeFishTraits('0x00000000000000000303').rarity).toBe(FishRarity.Common);
+      expect(decodeFishTraits('0x00000000000000000000000000000303').rarity).toBe(FishRarity.Common);
+      expect(decodeFishTraits('0x00000000000000000303000000000000').rarity).toBe(FishRarity.Legendary);
+      expect(decodeFishTraits('0x00000000000000000302000000000000').rarity).toBe(FishRarity.Epic);
+    });
+
+    it('should ignore the reserved bytes', () => {
+      expect(decodeFishTraits('0x0f0e03020101fffe0303abcdefabcdef')).toEqual(decodeFishTraits(sampleDna));
+    });
+
+    it('should be deterministic', () => {
+      expect(decodeFishTraits(sampleDna)).toEqual(decodeFishTraits(sampleDna));
+    });
+
+    it('should throw ValidationError for non-hex DNA', () => {
+      expect(() => decodeFishTraits('0xnothex')).toThrow(ValidationError);
+      expect(() => decodeFishTraits('')).toThrow(ValidationError);
+    });
+  });
+
+  describe('normalizeDna', () => {
+    it('should strip the prefix and lowercase the DNA', () => {
+      expect(normalizeDna('0x0F0E03020101FFFE0303000000000000')).toBe('0f0e03020101fffe0303000000000000');
+    });
+
+    it('should left-pad short DNA with zeros', () => {
+      expect(normalizeDna('0x3')).toBe(`${'0'.repeat(DNA_HEX_LENGTH - 1)}3`);
+    });
+
+    it('should keep the last 32 characters of long DNA', () => {
+      expect(normalizeDna(`0x${'ab'.repeat(16)}0f0e03020101fffe0303000000000000`)).toBe(
+        '0f0e03020101fffe0303000000000000'
+      );
+    });
+  });
+
+  describe('getGeneAlleles', () => {
+    it('should read both allele bytes of a gene', () => {
+      const hex = normalizeDna(sampleDna);
+
+      expect(getGeneAlleles(hex, 0)).toEqual([0x0f, 0x0e]);
+      expect(getGeneAlleles(hex, 3)).toEqual([0xff, 0xfe]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Tests for fish hunger utilities.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHunger,
+  getSecondsUntilHungry,
+  isOverfed,
+  applyFeed,
+  MAX_HUNGER,
+  HUNGRY_THRESHOLD,
+  OVERFEED_THRESHOLD,
+  FEED_HUNGER_REDUCTION,
+  FOOD_TYPE_HUNGER_REDUCTION,
+} from '@/core/utils/hunger';
+import { FoodType } from '@/models/food.model';
+
+describe('Hunger Utilities', () => {
+  const lastFedAt = new Date('2026-01-01T00:00:00Z');
+  const hoursLater = (hours: number) => new Date(lastFedAt.getTime() + hours * 60 * 60 * 1000);
+
+  describe('calculateHunger', () => {
+    it('should rise linearly with time since the last feed', () => {
+      expect(calculateHunger(10, lastFedAt, hoursLater(4), 5)).toBe(30);
+    });
+
+    it('should not exceed MAX_HUNGER', () => {
+      expect(calculateHunger(10, lastFedAt, hoursLater(100), 5)).toBe(MAX_HUNGER);
+    });
+
+    it('should ignore reference times before the last feed', () => {
+      expect(calculateHunger(10, lastFedAt, hoursLater(-2), 5)).toBe(10);
+    });
+  });
+
+  describe('getSecondsUntilHungry', () => {
+    it('should return the time left until HUNGRY_THRESHOLD', () => {
+      // 10 points left at 5 points/hour → 2 hours
+      expect(getSecondsUntilHungry(HUNGRY_THRESHOLD - 10, 5)).toBe(2 * 3600);
+    });
+
+    it('should return 0 for hungry fish', () => {
+      expect(getSecondsUntilHungry(HUNGRY_THRESHOLD, 5)).toBe(0);
+      expect(getSecondsUntilHungry(MAX_HUNGER, 5)).toBe(0);
+    });
+
+    it('should return null when hunger never rises', () => {
+      expect(getSecondsUntilHungry(0, 0)).toBeNull();
+    });
+  });
+
+  describe('feeding', () => {
+    it('should flag fish below OVERFEED_THRESHOLD as overfed', () => {
+      expect(isOverfed(OVERFEED_THRESHOLD - 1)).toBe(true);
+      expect(isOverfed(OVERFEED_THRESHOLD)).toBe(false);
+    });
+
+    it('should lower hunger by FEED_HUNGER_REDUCTION without going below 0', () => {
+      expect(applyFeed(70)).toBe(70 - FEED_HUNGER_REDUCTION);
+      expect(applyFeed(FEED_HUNGER_REDUCTION / 2)).toBe(0);
+    });
+
+    it('should lower hunger by the food type reduction', () => {
+      expect(applyFeed(90, FoodType.Premium)).toBe(90 - FOOD_TYPE_HUNGER_REDUCTION[FoodType.Premium]);
+      expect(applyFeed(70, FoodType.Special)).toBe(0);
+    });
+  });
+});
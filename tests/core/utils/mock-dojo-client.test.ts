@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Tests for the mock Dojo client (stub mode).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Stands in for the allocate_entity_id database function: its UPDATE locks the counter
+// row, so callers queue on the row lock and each reads then bumps the counter in turn.
+const idCounters = new Map<string, number>();
+let counterRowLock: Promise<unknown> = Promise.resolve();
+
+const allocateEntityId = vi.fn((_name: string, { p_entity }: { p_entity: string }) => {
+  const allocation = counterRowLock.then(async () => {
+    const lastId = idCounters.get(p_entity) ?? 0;
+    await new Promise((resolve) => setImmediate(resolve));
+    idCounters.set(p_entity, lastId + 1);
+    return { data: lastId + 1, error: null };
+  });
+  counterRowLock = allocation;
+  return allocation;
+});
+
+vi.mock('@/core/config', () => ({
+  SIMULATED_CHAIN_FILE: '',
+  HUNGER_RATE_PER_HOUR: 5,
+  BREED_MUTATION_RATE: 0.01,
+}));
+
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(() => ({ rpc: allocateEntityId })),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+  logError: vi.fn(),
+}));
+
+import { MockDojoClient } from '@/core/utils/mock-dojo-client';
+import { getGeneAlleles, normalizeDna } from '@/core/utils/fish-traits';
+import { SimulatedChain } from '@/core/utils/simulated-chain';
+import { FishState } from '@/models/fish.model';
+import { DecorationKind } from '@/models/decoration.model';
+
+describe('MockDojoClient', () => {
+  const owner = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+  let client: MockDojoClient;
+
+  beforeEach(() => {
+    idCounters.clear();
+    counterRowLock = Promise.resolve();
+    allocateEntityId.mockClear();
+    client = new MockDojoClient(new SimulatedChain());
+  });
+
+  describe('ID allocation', () => {
+    it('should give every mint a unique ID across parallel mints from several instances', async () => {
+      const chain = new SimulatedChain();
+      const instances = [new MockDojoClient(chain), new MockDojoClient(chain), new MockDojoClient(chain)];
+
+      const results = await Promise.all(
+        Array.from({ length: 60 }, (_, i) =>
+          (instances[i % instances.length] as MockDojoClient).mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122')
+        )
+      );
+
+      const ids = results.map((result) => result.fish_id);
+      expect(new Set(ids).size).toBe(60);
+      expect([...ids].sort((a, b) => a - b)).toEqual(Array.from({ length: 60 }, (_, i) => i + 1));
+      expect(allocateEntityId).toHaveBeenCalledTimes(60);
+      expect(allocateEntityId).toHaveBeenCalledWith('allocate_entity_id', { p_entity: 'fish' });
+    });
+
+    it('should allocate tank and decoration IDs independently of fish IDs', async () => {
+      await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+
+      expect((await client.mintTank(owner, 10)).tank_id).toBe(1);
+      expect((await client.mintDecoration(owner, DecorationKind.Plant)).decoration_id).toBe(1);
+    });
+
+    it('should fail the mint when no ID can be allocated', async () => {
+      allocateEntityId.mockResolvedValueOnce({ data: null, error: { message: 'connection refused' } } as never);
+
+      await expect(client.mintFish(owner, 'Goldfish', '0x1')).rejects.toThrow('Failed to allocate fish ID: connection refused');
+    });
+  });
+
+  describe('fish state', () => {
+    it('should evolve a minted fish as it gains XP', async () => {
+      const { fish_id } = await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+      expect(await client.getFishOnChain(fish_id)).toMatchObject({ xp: 0, state: FishState.Baby, isReadyToBreed: false });
+
+      await client.gainFishXp(fish_id, 350);
+      expect(await client.getFishOnChain(fish_id)).toMatchObject({ xp: 350, state: FishState.Adult, isReadyToBreed: true });
+    });
+
+    it('should put parents in breeding cooldown', async () => {
+      const parent1 = await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+      const parent2 = await client.mintFish(owner, 'Goldfish', '0x33443344334433443344334433443344');
+      await client.gainFishXp(parent1.fish_id, 350);
+      await client.gainFishXp(parent2.fish_id, 350);
+
+      await client.breedFish(parent1.fish_id, parent2.fish_id);
+
+      expect((await client.getFishOnChain(parent1.fish_id)).isReadyToBreed).toBe(false);
+      expect((await client.getFishOnChain(parent2.fish_id)).isReadyToBreed).toBe(false);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should report every transaction as accepted', async () => {
+      expect(await client.getTransactionReceipt('0xabc')).toEqual({ tx_hash: '0xabc', status: 'accepted' });
+      expect(await client.validateConnection(1000)).toBe(true);
+    });
+  });
+
+  describe('tanks and decorations', () => {
+    it('should read back minted tanks and decorations', async () => {
+      const { tank_id } = await client.mintTank(owner, 20);
+      const { decoration_id } = await client.mintDecoration(owner, DecorationKind.Ornament);
+
+      expect(await client.getTankOnChain(tank_id)).toEqual({ id: tank_id, owner, capacity: 20 });
+      expect(await client.getDecorationOnChain(decoration_id)).toMatchObject({ owner, kind: DecorationKind.Ornament });
+    });
+  });
+
+  describe('breedFish', () => {
+    it('should inherit offspring DNA from both parents reproducibly for a seed', async () => {
+      const parent1 = await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+      const parent2 = await client.mintFish(owner, 'Goldfish', '0x33443344334433443344334433443344');
+
+      const first = await client.breedFish(parent1.fish_id, parent2.fish_id, 2024);
+      const second = await client.breedFish(parent1.fish_id, parent2.fish_id, 2024);
+
+      expect(first.fish_id).not.toBe(second.fish_id);
+      expect(first.dna).toBe(second.dna);
+
+      // Unless an allele mutated, each gene holds one allele of each parent
+      const child = normalizeDna(first.dna);
+      const [fromParent1, fromParent2] = getGeneAlleles(child, 0);
+      expect([0x11, 0x22]).toContain(fromParent1);
+      expect([0x33, 0x44]).toContain(fromParent2);
+    });
+
+    it('should keep the offspring DNA on later reads', async () => {
+      const parent1 = await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+      const parent2 = await client.mintFish(owner, 'Goldfish', '0x33443344334433443344334433443344');
+
+      const offspring = await client.breedFish(parent1.fish_id, parent2.fish_id);
+
+      expect((await client.getFishOnChain(offspring.fish_id)).dna).toBe(offspring.dna);
+      expect((await client.getFishOnChain(parent1.fish_id)).dna).toBe('0x11221122112211221122112211221122');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tests for the simulated chain behind the Dojo client stubs.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('@/core/config', () => ({
+  SIMULATED_CHAIN_FILE: '',
+  HUNGER_RATE_PER_HOUR: 5,
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+  logError: vi.fn(),
+}));
+
+import { SimulatedChain, BREEDING_COOLDOWN_SECONDS, DEFAULT_TANK_CAPACITY } from '@/core/utils/simulated-chain';
+import { HUNGER_RATE_PER_HOUR } from '@/core/config';
+import { FishState } from '@/models/fish.model';
+import { FoodType } from '@/models/food.model';
+import { DecorationKind } from '@/models/decoration.model';
+
+describe('SimulatedChain', () => {
+  const owner = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+  const recipient = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+  const dna = '0x11221122112211221122112211221122';
+
+  let chain: SimulatedChain;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    chain = new SimulatedChain();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('fish', () => {
+    it('should read a minted fish as a Baby with its DNA', () => {
+      chain.mintFish(1, owner, 'Goldfish', dna);
+
+      expect(chain.getFishOnChain(1)).toEqual({
+        id: 1,
+        xp: 0,
+        state: FishState.Baby,
+        hunger: 0,
+        lastFedAt: null,
+        isReadyToBreed: false,
+        dna,
+      });
+    });
+
+    it('should grow a fish into an Adult ready to breed as it gains XP', () => {
+      chain.mintFish(1, owner, 'Goldfish', dna);
+
+      chain.gainFishXp(1, 60);
+      expect(chain.getFishOnChain(1).state).toBe(FishState.Juvenile);
+
+      chain.gainFishXp(1, 400);
+      const fish = chain.getFishOnChain(1);
+      expect(fish.xp).toBe(460);
+      expect(fish.state).toBe(FishState.Adult);
+      expect(fish.isReadyToBreed).toBe(true);
+    });
+
+    it('should raise hunger over time and lower it when fed', () => {
+      chain.mintFish(1, owner, 'Goldfish', dna);
+
+      vi.advanceTimersByTime(4 * 60 * 60 * 1000);
+      expect(chain.getFishOnChain(1).hunger).toBe(4 * HUNGER_RATE_PER_HOUR);
+
+      chain.feedFish([1], FoodType.Basic, [10]);
+      const fish = chain.getFishOnChain(1);
+      expect(fish.hunger).toBe(0);
+      expect(fish.lastFedAt).toEqual(new Date('2026-01-01T04:00:00Z'));
+      expect(fish.xp).toBe(10);
+    });
+
+    it('should store offspring and put both parents in breeding cooldown', () => {
+      chain.mintFish(1, owner, 'Goldfish', dna);
+      chain.mintFish(2, owner, 'Goldfish', dna);
+      chain.gainFishXp(1, 400);
+      chain.gainFishXp(2, 400);
+
+      const offspring = chain.breedFish(3, 1, 2, '0x33443344334433443344334433443344');
+
+      expect(offspring.owner).toBe(owner);
+      expect(chain.getFishOnChain(3)).toMatchObject({ state: FishState.Baby, dna: offspring.dna });
+      expect(chain.getFishOnChain(1).isReadyToBreed).toBe(false);
+      expect(chain.getFishOnChain(2).isReadyToBreed).toBe(false);
+
+      vi.advanceTimersByTime(BREEDING_COOLDOWN_SECONDS * 1000);
+      expect(chain.getFishOnChain(1).isReadyToBreed).toBe(true);
+    });
+
+    it('should change the owner on transfer', () => {
+      chain.mintFish(1, owner, 'Goldfish', dna);
+
+      chain.transferFish(1, recipient);
+
+      expect(chain.getFish(1).owner).toBe(recipient);
+    });
+
+    it('should read an unknown fish as freshly minted and keep it', () => {
+      const generated = new SimulatedChain(null, () => dna);
+
+      expect(generated.getFishOnChain(7)).toMatchObject({ xp: 0, state: FishState.Baby, dna });
+      generated.gainFishXp(7, 5);
+      expect(generated.getFishOnChain(7).xp).toBe(5);
+    });
+  });
+
+  describe('tanks', () => {
+    it('should return the minted owner and capacity', () => {
+      chain.mintTank(1, owner, 25);
+
+      expect(chain.getTankOnChain(1)).toEqual({ id: 1, owner, capacity: 25 });
+    });
+
+    it('should return the default capacity for unknown tanks', () => {
+      expect(chain.getTankOnChain(9)).toEqual({ id: 9, owner: '0x0', capacity: DEFAULT_TANK_CAPACITY });
+    });
+  });
+
+  describe('decorations', () => {
+    it('should return the minted kind with its XP multiplier', () => {
+      chain.mintDecoration(1, owner, DecorationKind.Statue);
+
+      expect(chain.getDecorationOnChain(1)).toEqual({
+        id: 1,
+        owner,
+        kind: DecorationKind.Statue,
+        xp_multiplier: 1.1,
+      });
+    });
+
+    it('should toggle activation and deactivate on transfer', () => {
+      chain.mintDecoration(1, owner, DecorationKind.Plant);
+
+      chain.setDecorationActive(1, true);
+      expect(chain.isDecorationActive(1)).toBe(true);
+
+      chain.transferDecoration(1, recipient);
+      expect(chain.isDecorationActive(1)).toBe(false);
+      expect(chain.getDecorationOnChain(1).owner).toBe(recipient);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should reload the state saved to its file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'simulated-chain-'));
+      const file = join(dir, 'state.json');
+
+      try {
+        const first = new SimulatedChain(file);
+        first.mintFish(1, owner, 'Goldfish', dna);
+        first.gainFishXp(1, 200);
+        first.mintTank(1, owner, 15);
+
+        const reloaded = new SimulatedChain(file);
+        expect(reloaded.getFishOnChain(1)).toMatchObject({ xp: 200, state: FishState.YoungAdult, dna });
+        expect(reloaded.getTankOnChain(1).capacity).toBe(15);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Tests for the Starknet Dojo client.
+ *
+ * The client talks to a local JSON-RPC stand-in that replays the fixtures in
+ * tests/fixtures/starknet-rpc, so starknet.js runs its real request flow
+ * (nonce, fee estimate, signed invoke, receipts, calls) without a node.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { hash, shortString } from 'starknet';
+
+vi.mock('@/core/utils/logger', () => ({
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+  logError: vi.fn(),
+}));
+
+import { StarknetDojoClient } from '@/core/utils/starknet-dojo-client';
+import { OnChainError } from '@/core/errors';
+import { FishState } from '@/models/fish.model';
+import { FoodType } from '@/models/food.model';
+import { DecorationKind } from '@/models/decoration.model';
+
+interface RpcExchange {
+  method: string;
+  entrypoint?: string; // starknet_call only: matched against the entry point selector
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface RpcRequest {
+  method: string;
+  params: any;
+}
+
+interface RpcStandIn {
+  url: string;
+  requests: RpcRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Serves a fixture over JSON-RPC. Each request gets the next unused exchange
+ * for its method (and entry point); the last one is repeated once all are used.
+ */
+async function startRpcStandIn(fixture: string): Promise<RpcStandIn> {
+  const exchanges: RpcExchange[] = JSON.parse(
+    readFileSync(join(__dirname, '../../fixtures/starknet-rpc', `${fixture}.json`), 'utf8')
+  );
+  const used = new Set<RpcExchange>();
+  const requests: RpcRequest[] = [];
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params });
+
+      const candidates = exchanges.filter(
+        (exchange) =>
+          exchange.method === method &&
+          (!exchange.entrypoint ||
+            BigInt(hash.getSelectorFromName(exchange.entrypoint)) === BigInt(params.request.entry_point_selector))
+      );
+      const exchange = candidates.find((candidate) => !used.has(candidate)) ?? candidates[candidates.length - 1];
+
+      res.setHeader('Content-Type', 'application/json');
+      if (!exchange) {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: `No fixture for ${method}` } }));
+        return;
+      }
+      used.add(exchange);
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...(exchange.error ? { error: exchange.error } : { result: exchange.result }) }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+const account = '0x127fd5f1fe78a71f8bcd1fec63e3fe2f0486b6ecd5c86a0466c3a21fa5cfcec';
+const privateKey = '0xc5b2fcab997346f3ea1c00b002ecf6f382c5f9c9659a3894eb783c5320f912';
+const owner = '0x03a9b2c1d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f';
+const systems = { player: '0xa11ce', fish: '0xf15a', tank: '0x7a4c', decoration: '0xdec0' };
+
+function createClient(standIn: RpcStandIn, overrides: Partial<typeof systems> = {}): StarknetDojoClient {
+  return new StarknetDojoClient({
+    nodeUrl: standIn.url,
+    chainId: 'SN_MAIN',
+    accountAddress: account,
+    privateKey,
+    systems: { ...systems, ...overrides },
+    pollIntervalMs: 0,
+  });
+}
+
+/**
+ * Decodes the single call of an account __execute__ (Cairo 1 layout:
+ * [call count, to, selector, calldata length, ...calldata]).
+ */
+function decodeInvoke(request: RpcRequest | undefined): { to: bigint; selector: bigint; calldata: bigint[] } {
+  const calldata = (request?.params.invoke_transaction.calldata as string[]).map((felt) => BigInt(felt));
+  return {
+    to: calldata[1] as bigint,
+    selector: calldata[2] as bigint,
+    calldata: calldata.slice(4, 4 + Number(calldata[3])),
+  };
+}
+
+describe('StarknetDojoClient', () => {
+  let standIn: RpcStandIn | null = null;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  describe('mintFish', () => {
+    it('should sign the mint with the account and read the fish ID from FishMinted', async () => {
+      standIn = await startRpcStandIn('mint-fish');
+      const client = createClient(standIn);
+
+      const result = await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+
+      expect(result).toEqual({
+        tx_hash: '0x3f1c5b0e2a7d4b0c9e8f6a1d2c3b4a5968778695a4b3c2d1e0f1a2b3c4d5e6f',
+        fish_id: 42,
+      });
+
+      const invoke = standIn.requests.find((request) => request.method === 'starknet_addInvokeTransaction');
+      expect(invoke?.params.invoke_transaction.sender_address).toBe(account);
+      expect(invoke?.params.invoke_transaction.nonce).toBe('0x7');
+      expect(decodeInvoke(invoke)).toEqual({
+        to: BigInt(systems.fish),
+        selector: BigInt(hash.getSelectorFromName('mint_fish')),
+        calldata: [BigInt(owner), BigInt(shortString.encodeShortString('Goldfish')), BigInt('0x11221122112211221122112211221122')],
+      });
+
+      // Polled until the receipt was found
+      expect(standIn.requests.filter((request) => request.method === 'starknet_getTransactionReceipt')).toHaveLength(2);
+    });
+
+    it('should sign for a known chain without asking the node for its chain ID', async () => {
+      standIn = await startRpcStandIn('mint-fish');
+      const client = createClient(standIn);
+
+      await client.mintFish(owner, 'Goldfish', '0x11221122112211221122112211221122');
+
+      expect(standIn.requests.some((request) => request.method === 'starknet_chainId')).toBe(false);
+    });
+
+    it('should throw OnChainError when the system is not configured', async () => {
+      standIn = await startRpcStandIn('mint-fish');
+      const client = createClient(standIn, { fish: '' });
+
+      await expect(client.mintFish(owner, 'Goldfish', '0x1')).rejects.toThrow(OnChainError);
+      expect(standIn.requests).toHaveLength(0);
+    });
+  });
+
+  describe('breedFish', () => {
+    it('should read the offspring ID from FishBred and its DNA from the fish', async () => {
+      standIn = await startRpcStandIn('breed-fish');
+      const client = createClient(standIn);
+
+      const result = await client.breedFish(42, 41);
+
+      expect(result).toEqual({
+        tx_hash: '0x7a9e2d4c6b8f0e1d3c5b7a9f8e6d4c2b1a0f9e8d7c6b5a4f3e2d1c0b9a8f7e6',
+        fish_id: 43,
+        dna: '0x11441144114411441144114411441144',
+      });
+      const invoke = standIn.requests.find((request) => request.method === 'starknet_addInvokeTransaction');
+      expect(decodeInvoke(invoke).calldata).toEqual([42n, 41n]);
+    });
+  });
+
+  describe('mintTank', () => {
+    it('should throw OnChainError with the revert reason when the mint reverts', async () => {
+      standIn = await startRpcStandIn('rejected-mint');
+      const client = createClient(standIn);
+
+      await expect(client.mintTank(owner, 10)).rejects.toThrow(
+        "Transaction 0x1d4f6a8c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a6c8e0b2d4 was rejected: Error in the called contract: 'player has too many tanks'"
+      );
+    });
+  });
+
+  describe('feedFishBatch', () => {
+    it('should encode fish IDs, food type and XP values as arrays', async () => {
+      standIn = await startRpcStandIn('mint-fish');
+      const client = createClient(standIn);
+
+      const txHash = await client.feedFishBatch([1, 2], FoodType.Premium, [10, 12]);
+
+      expect(txHash).toBe('0x3f1c5b0e2a7d4b0c9e8f6a1d2c3b4a5968778695a4b3c2d1e0f1a2b3c4d5e6f');
+      const invoke = standIn.requests.find((request) => request.method === 'starknet_addInvokeTransaction');
+      expect(decodeInvoke(invoke)).toEqual({
+        to: BigInt(systems.fish),
+        selector: BigInt(hash.getSelectorFromName('feed_fish_batch')),
+        calldata: [2n, 1n, 2n, 1n, 2n, 10n, 12n],
+      });
+      // Writes other than mints don't wait for the receipt
+      expect(standIn.requests.some((request) => request.method === 'starknet_getTransactionReceipt')).toBe(false);
+    });
+  });
+
+  describe('reads', () => {
+    it('should decode a fish', async () => {
+      standIn = await startRpcStandIn('reads');
+      const client = createClient(standIn);
+
+      expect(await client.getFishOnChain(42)).toEqual({
+        id: 42,
+        xp: 400,
+        state: FishState.Adult,
+        hunger: 25,
+        lastFedAt: new Date(0x6530d4c0 * 1000),
+        isReadyToBreed: true,
+        dna: '0x11221122112211221122112211221122',
+      });
+    });
+
+    it('should decode tanks, decorations and the XP multiplier', async () => {
+      standIn = await startRpcStandIn('reads');
+      const client = createClient(standIn);
+
+      expect(await client.getTankOnChain(5)).toEqual({ id: 5, owner, capacity: 20 });
+      expect(await client.getXpMultiplier(5)).toBe(1.15);
+      expect(await client.getDecorationOnChain(3)).toEqual({
+        id: 3,
+        owner: '0x00abcdef1234567890abcdef1234567890abcdef1234567890abcdef12345678',
+        kind: DecorationKind.Statue,
+        xp_multiplier: 1.1,
+      });
+    });
+
+    it('should decode the family tree', async () => {
+      standIn = await startRpcStandIn('reads');
+      const client = createClient(standIn);
+
+      expect(await client.getFishFamilyTree(43)).toEqual({
+        fish_id: 43,
+        ancestors: [
+          { id: 43, parent1_id: 42, parent2_id: 41, generation: 0 },
+          { id: 42, parent1_id: null, parent2_id: null, generation: 1 },
+          { id: 41, parent1_id: null, parent2_id: null, generation: 1 },
+        ],
+        descendants: [{ id: 48, parent1_id: 43, parent2_id: 44, generation: 1 }],
+        generation_count: 2,
+        descendant_generation_count: 1,
+      });
+    });
+
+    it('should report the connection healthy when the node answers', async () => {
+      standIn = await startRpcStandIn('reads');
+      const client = createClient(standIn);
+
+      expect(await client.validateConnection(1000)).toBe(true);
+    });
+  });
+
+  describe('getTransactionReceipt', () => {
+    it('should normalize accepted, reverted and unknown transactions', async () => {
+      standIn = await startRpcStandIn('transaction-receipts');
+      const client = createClient(standIn);
+
+      expect(await client.getTransactionReceipt('0x111')).toEqual({ tx_hash: '0x111', status: 'accepted' });
+      expect(await client.getTransactionReceipt('0x222')).toEqual({
+        tx_hash: '0x222',
+        status: 'rejected',
+        revert_reason: "Error in the called contract: 'fish not owned'",
+      });
+      expect(await client.getTransactionReceipt('0x333')).toEqual({ tx_hash: '0x333', status: 'not_found' });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Tests for tank layout geometry utilities.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  boxesOverlap,
+  decorationTransformFromRow,
+  getDecorationBounds,
+  getTankTier,
+  isBoxInside,
+  TANK_TIER_SIZES,
+} from '@/core/utils/tank-layout';
+import { TankTier } from '@/models/tank.model';
+
+describe('Tank Layout Utilities', () => {
+  describe('getTankTier', () => {
+    it('should map capacity to tiers', () => {
+      expect(getTankTier(10)).toBe(TankTier.Small);
+      expect(getTankTier(11)).toBe(TankTier.Medium);
+      expect(getTankTier(25)).toBe(TankTier.Medium);
+      expect(getTankTier(50)).toBe(TankTier.Large);
+    });
+  });
+
+  describe('getDecorationBounds', () => {
+    const footprint = { width: 100, height: 40 };
+
+    it('should center the scaled footprint on the position', () => {
+      expect(getDecorationBounds(footprint, { x: 200, y: 100, rotation: 0, scale: 2, z_layer: 0 })).toEqual({
+        left: 100,
+        top: 60,
+        right: 300,
+        bottom: 140,
+      });
+    });
+
+    it('should swap width and height for a quarter turn', () => {
+      const box = getDecorationBounds(footprint, { x: 200, y: 100, rotation: 90, scale: 1, z_layer: 0 });
+
+      expect(box.left).toBeCloseTo(180);
+      expect(box.right).toBeCloseTo(220);
+      expect(box.top).toBeCloseTo(50);
+      expect(box.bottom).toBeCloseTo(150);
+    });
+  });
+
+  describe('boxesOverlap', () => {
+    const box = { left: 0, top: 0, right: 10, bottom: 10 };
+
+    it('should detect overlapping boxes', () => {
+      expect(boxesOverlap(box, { left: 5, top: 5, right: 15, bottom: 15 })).toBe(true);
+    });
+
+    it('should not treat touching edges as overlap', () => {
+      expect(boxesOverlap(box, { left: 10, top: 0, right: 20, bottom: 10 })).toBe(false);
+    });
+  });
+
+  describe('isBoxInside', () => {
+    const size = TANK_TIER_SIZES[TankTier.Small];
+
+    it('should accept boxes inside the tank', () => {
+      expect(isBoxInside({ left: 0, top: 0, right: size.width, bottom: size.height }, size)).toBe(true);
+    });
+
+    it('should reject boxes crossing an edge', () => {
+      expect(isBoxInside({ left: -1, top: 0, right: 10, bottom: 10 }, size)).toBe(false);
+    });
+  });
+
+  describe('decorationTransformFromRow', () => {
+    it('should return null when the decoration is not positioned', () => {
+      expect(decorationTransformFromRow({ position_x: null, position_y: null })).toBeNull();
+    });
+
+    it('should map transform columns', () => {
+      expect(
+        decorationTransformFromRow({ position_x: 1, position_y: 2, rotation: 45, scale: 1.5, z_layer: 3 })
+      ).toEqual({ x: 1, y: 2, rotation: 45, scale: 1.5, z_layer: 3 });
+    });
+  });
+});
@@ -221,6 +221,25 @@ describe('XP Calculator Utilities', () => {
       );
     });
 
+    it('should only count decorations placed in the tank', async () => {
+      mockTankQuery.single.mockResolvedValue({
+        data: { id: 7 },
+        error: null,
+      });
+
+      const isActiveEq = vi.fn().mockResolvedValue({
+        data: [{ kind: DecorationKind.Statue, is_active: true, tank_id: 7 }],
+        error: null,
+      });
+      mockDecorationsSelect.eq.mockReturnValue({ eq: isActiveEq });
+
+      const result = await getActiveDecorationsMultiplier(7);
+
+      expect(mockDecorationsSelect.eq).toHaveBeenCalledWith('tank_id', 7);
+      expect(isActiveEq).toHaveBeenCalledWith('is_active', true);
+      expect(result).toBe(DECORATION_XP_MULTIPLIERS[DecorationKind.Statue] / 100);
+    });
+
     it('should return 0 when no active decorations exist', async () => {
       const owner = '0x1234567890abcdef';
       mockTankQuery.single.mockResolvedValue({
@@ -29,6 +29,8 @@ describe('AssetService', () => {
   let service: AssetService;
   let mockSupabase: any;
 
+  const owner = '0x123';
+
   const validFile: UploadFile = {
     filename: 'test.png',
     mimetype: 'image/png',
@@ -104,7 +106,7 @@ describe('AssetService', () => {
       mockSupabase.storage.from.mockReturnValue(storageBucket);
 
       // Act
-      const result = await service.uploadFishSprite(validFile, fishId);
+      const result = await service.uploadFishSprite(validFile, fishId, owner);
 
       // Assert
       expect(result).toBe(publicUrl);
@@ -114,14 +116,14 @@ describe('AssetService', () => {
 
     it('should throw ValidationError for invalid file', async () => {
       // Act & Assert
-      await expect(service.uploadFishSprite(null as any, fishId)).rejects.toThrow(ValidationError);
-      await expect(service.uploadFishSprite({ ...validFile, file: null } as any, fishId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite(null as any, fishId, owner)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite({ ...validFile, file: null } as any, fishId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for invalid fish ID', async () => {
       // Act & Assert
-      await expect(service.uploadFishSprite(validFile, 0)).rejects.toThrow(ValidationError);
-      await expect(service.uploadFishSprite(validFile, NaN)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite(validFile, 0, owner)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite(validFile, NaN, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for file size exceeding limit', async () => {
@@ -132,7 +134,7 @@ describe('AssetService', () => {
       };
 
       // Act & Assert
-      await expect(service.uploadFishSprite(largeFile, fishId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite(largeFile, fishId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for invalid MIME type', async () => {
@@ -144,7 +146,7 @@ describe('AssetService', () => {
       };
 
       // Act & Assert
-      await expect(service.uploadFishSprite(invalidFile, fishId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadFishSprite(invalidFile, fishId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw NotFoundError when fish does not exist', async () => {
@@ -161,7 +163,25 @@ describe('AssetService', () => {
       mockSupabase.from.mockReturnValueOnce(fishQuery);
 
       // Act & Assert
-      await expect(service.uploadFishSprite(validFile, fishId)).rejects.toThrow(NotFoundError);
+      await expect(service.uploadFishSprite(validFile, fishId, owner)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when fish belongs to another player', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: fishId, owner: '0x456' },
+          error: null,
+        }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
+
+      // Act & Assert
+      await expect(service.uploadFishSprite(validFile, fishId, owner)).rejects.toThrow('does not belong to owner');
+      expect(mockSupabase.storage.from).not.toHaveBeenCalled();
     });
   });
 
@@ -202,7 +222,7 @@ describe('AssetService', () => {
       mockSupabase.storage.from.mockReturnValue(storageBucket);
 
       // Act
-      const result = await service.uploadTankSprite(validImageFile, tankId);
+      const result = await service.uploadTankSprite(validImageFile, tankId, owner);
 
       // Assert
       expect(result).toBe(publicUrl);
@@ -211,12 +231,12 @@ describe('AssetService', () => {
 
     it('should throw ValidationError for invalid file', async () => {
       // Act & Assert
-      await expect(service.uploadTankSprite(null as any, tankId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadTankSprite(null as any, tankId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for invalid tank ID', async () => {
       // Act & Assert
-      await expect(service.uploadTankSprite(validImageFile, 0)).rejects.toThrow(ValidationError);
+      await expect(service.uploadTankSprite(validImageFile, 0, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for non-image MIME type', async () => {
@@ -227,7 +247,7 @@ describe('AssetService', () => {
       };
 
       // Act & Assert
-      await expect(service.uploadTankSprite(invalidFile, tankId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadTankSprite(invalidFile, tankId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw NotFoundError when tank does not exist', async () => {
@@ -244,7 +264,7 @@ describe('AssetService', () => {
       mockSupabase.from.mockReturnValueOnce(tankQuery);
 
       // Act & Assert
-      await expect(service.uploadTankSprite(validImageFile, tankId)).rejects.toThrow(NotFoundError);
+      await expect(service.uploadTankSprite(validImageFile, tankId, owner)).rejects.toThrow(NotFoundError);
     });
   });
 
@@ -285,7 +305,7 @@ describe('AssetService', () => {
       mockSupabase.storage.from.mockReturnValue(storageBucket);
 
       // Act
-      const result = await service.uploadDecorationSprite(validImageFile, decorationId);
+      const result = await service.uploadDecorationSprite(validImageFile, decorationId, owner);
 
       // Assert
       expect(result).toBe(publicUrl);
@@ -293,12 +313,12 @@ describe('AssetService', () => {
 
     it('should throw ValidationError for invalid file', async () => {
       // Act & Assert
-      await expect(service.uploadDecorationSprite(null as any, decorationId)).rejects.toThrow(ValidationError);
+      await expect(service.uploadDecorationSprite(null as any, decorationId, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for invalid decoration ID', async () => {
       // Act & Assert
-      await expect(service.uploadDecorationSprite(validImageFile, 0)).rejects.toThrow(ValidationError);
+      await expect(service.uploadDecorationSprite(validImageFile, 0, owner)).rejects.toThrow(ValidationError);
     });
 
     it('should throw NotFoundError when decoration does not exist', async () => {
@@ -315,7 +335,7 @@ describe('AssetService', () => {
       mockSupabase.from.mockReturnValueOnce(decorationQuery);
 
       // Act & Assert
-      await expect(service.uploadDecorationSprite(validImageFile, decorationId)).rejects.toThrow(NotFoundError);
+      await expect(service.uploadDecorationSprite(validImageFile, decorationId, owner)).rejects.toThrow(NotFoundError);
     });
   });
 
@@ -356,7 +376,7 @@ describe('AssetService', () => {
       mockSupabase.storage.from.mockReturnValue(storageBucket);
 
       // Act
-      const result = await service.uploadAvatar(validImageFile, playerAddress);
+      const result = await service.uploadAvatar(validImageFile, playerAddress, playerAddress);
 
       // Assert
       expect(result).toBe(publicUrl);
@@ -364,12 +384,18 @@ describe('AssetService', () => {
 
     it('should throw ValidationError for invalid file', async () => {
       // Act & Assert
-      await expect(service.uploadAvatar(null as any, playerAddress)).rejects.toThrow(ValidationError);
+      await expect(service.uploadAvatar(null as any, playerAddress, playerAddress)).rejects.toThrow(ValidationError);
     });
 
     it('should throw ValidationError for invalid address', async () => {
       // Act & Assert
-      await expect(service.uploadAvatar(validImageFile, '')).rejects.toThrow(ValidationError);
+      await expect(service.uploadAvatar(validImageFile, '', playerAddress)).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError when uploading avatar for another player', async () => {
+      // Act & Assert
+      await expect(service.uploadAvatar(validImageFile, playerAddress, owner)).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError when player does not exist', async () => {
@@ -386,7 +412,7 @@ describe('AssetService', () => {
       mockSupabase.from.mockReturnValueOnce(playerQuery);
 
       // Act & Assert
-      await expect(service.uploadAvatar(validImageFile, playerAddress)).rejects.toThrow(NotFoundError);
+      await expect(service.uploadAvatar(validImageFile, playerAddress, playerAddress)).rejects.toThrow(NotFoundError);
     });
   });
 });
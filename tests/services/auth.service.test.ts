@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Tests for Auth Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+vi.mock('@/services/player.service', () => {
+  const PlayerService = vi.fn(function () {});
+  PlayerService.prototype.registerPlayer = vi.fn();
+  return { PlayerService };
+});
+
+// Now import after mocks
+import { AuthService } from '@/services/auth.service';
+import { PlayerService } from '@/services/player.service';
+import { ValidationError, UnauthorizedError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { setSignatureVerifier } from '@/core/utils/signature-verifier';
+import { verifySessionToken } from '@/core/utils/session-token';
+import type { Player } from '@/models/player.model';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let mockSupabase: any;
+  let verifier: ReturnType<typeof vi.fn>;
+
+  const address = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+  const nonce = '0x9f8e7d6c5b4a39281706f5e4d3c2b1a0';
+  const signature = ['0x1', '0x2'];
+
+  const mockPlayer: Player = {
+    address,
+    total_xp: 0,
+    fish_count: 0,
+    tournaments_won: 0,
+    reputation: 0,
+    offspring_created: 0,
+    avatar_url: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const createConsumeQuery = (result: { data: unknown; error: unknown }) => ({
+    update: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AuthService();
+
+    mockSupabase = {
+      from: vi.fn(),
+    };
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+
+    verifier = vi.fn().mockResolvedValue(true);
+    setSignatureVerifier(verifier);
+
+    vi.mocked(PlayerService.prototype.registerPlayer).mockResolvedValue(mockPlayer);
+  });
+
+  afterEach(() => {
+    setSignatureVerifier(null);
+  });
+
+  describe('createNonce', () => {
+    it('should store nonce and return typed data to sign', async () => {
+      const insertQuery = {
+        insert: vi.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(insertQuery);
+
+      const challenge = await service.createNonce(address);
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('auth_nonces');
+      expect(insertQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ nonce: challenge.nonce, address })
+      );
+      expect(challenge.nonce).toMatch(/^0x[a-f0-9]{32}$/);
+      expect(challenge.typed_data.primaryType).toBe('Login');
+      expect(challenge.typed_data.message).toMatchObject({ address, nonce: challenge.nonce });
+      expect(challenge.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should issue a different nonce on every call', async () => {
+      mockSupabase.from.mockReturnValue({
+        insert: vi.fn().mockResolvedValue({ data: null, error: null }),
+      });
+
+      const first = await service.createNonce(address);
+      const second = await service.createNonce(address);
+
+      expect(first.nonce).not.toBe(second.nonce);
+    });
+
+    it('should throw ValidationError for invalid address', async () => {
+      await expect(service.createNonce('invalid-address')).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    const storedNonce = () => ({
+      nonce,
+      address,
+      issued_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      consumed_at: new Date().toISOString(),
+    });
+
+    it('should return player and valid session token for valid signature', async () => {
+      const consumeQuery = createConsumeQuery({ data: storedNonce(), error: null });
+      mockSupabase.from.mockReturnValueOnce(consumeQuery);
+
+      const result = await service.login(address, nonce, signature);
+
+      expect(consumeQuery.is).toHaveBeenCalledWith('consumed_at', null);
+      expect(verifier).toHaveBeenCalledWith(
+        address,
+        expect.objectContaining({ primaryType: 'Login' }),
+        signature
+      );
+      expect(PlayerService.prototype.registerPlayer).toHaveBeenCalledWith(address);
+      expect(result.player).toEqual(mockPlayer);
+      expect(verifySessionToken(result.token).sub).toBe(address);
+    });
+
+    it('should throw UnauthorizedError for unknown or already used nonce', async () => {
+      mockSupabase.from.mockReturnValueOnce(
+        createConsumeQuery({ data: null, error: { code: 'PGRST116', message: 'not found' } })
+      );
+
+      await expect(service.login(address, nonce, signature)).rejects.toThrow(UnauthorizedError);
+      expect(verifier).not.toHaveBeenCalled();
+      expect(PlayerService.prototype.registerPlayer).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedError for expired nonce', async () => {
+      mockSupabase.from.mockReturnValueOnce(
+        createConsumeQuery({
+          data: { ...storedNonce(), expires_at: new Date(Date.now() - 1000).toISOString() },
+          error: null,
+        })
+      );
+
+      await expect(service.login(address, nonce, signature)).rejects.toThrow('Nonce has expired');
+      expect(verifier).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedError when signature is rejected', async () => {
+      verifier.mockResolvedValue(false);
+      mockSupabase.from.mockReturnValueOnce(createConsumeQuery({ data: storedNonce(), error: null }));
+
+      await expect(service.login(address, nonce, signature)).rejects.toThrow(UnauthorizedError);
+      expect(PlayerService.prototype.registerPlayer).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedError when verifier fails', async () => {
+      verifier.mockRejectedValue(new Error('RPC unavailable'));
+      mockSupabase.from.mockReturnValueOnce(createConsumeQuery({ data: storedNonce(), error: null }));
+
+      await expect(service.login(address, nonce, signature)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should throw ValidationError for empty signature', async () => {
+      await expect(service.login(address, nonce, [])).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError for missing nonce', async () => {
+      await expect(service.login(address, '', signature)).rejects.toThrow(ValidationError);
+    });
+  });
+});
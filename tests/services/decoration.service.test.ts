@@ -2,7 +2,7 @@
  * @fileoverview Tests for Decoration Service
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock dependencies BEFORE imports
 vi.mock('@/core/utils/supabase-client', () => ({
@@ -10,26 +10,34 @@ vi.mock('@/core/utils/supabase-client', () => ({
 }));
 
 vi.mock('@/core/utils/dojo-client', () => ({
-  getDecorationOnChain: vi.fn(),
-  activateDecoration: vi.fn(),
+  getDojoClient: vi.fn(),
 }));
 
 vi.mock('@/core/utils/logger', () => ({
   logError: vi.fn(),
 }));
 
-vi.mock('@/services/sync.service', () => ({
-  SyncService: vi.fn().mockImplementation(() => ({
-    addToSyncQueue: vi.fn().mockResolvedValue({}),
-  })),
-}));
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+  SyncService.prototype.addToSyncQueue = vi.fn();
+  return { SyncService };
+});
 
 // Now import after mocks
 import { DecorationService } from '@/services/decoration.service';
 import { ValidationError, NotFoundError, ConflictError, OnChainError } from '@/core/errors';
+import { SyncService } from '@/services/sync.service';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
-import { getDecorationOnChain, activateDecoration as activateDecorationOnChain } from '@/core/utils/dojo-client';
-import { DecorationKind } from '@/models/decoration.model';
+import type { DojoClient } from '@/core/types';
+import { InMemoryCurrencyLedger, setCurrencyLedger } from '@/core/utils/currency-ledger';
+import { DecorationKind, type Decoration } from '@/models/decoration.model';
+import { MAX_DECORATIONS_PER_TANK } from '@/core/config';
+
+const dojoClient = {
+  getDecorationOnChain: vi.fn(),
+  mintDecoration: vi.fn(),
+  activateDecoration: vi.fn(),
+};
 
 describe('DecorationService', () => {
   let service: DecorationService;
@@ -39,7 +47,7 @@ describe('DecorationService', () => {
   const decorationId = 1;
 
   beforeEach(() => {
-    service = new DecorationService();
+    service = new DecorationService(dojoClient as unknown as DojoClient);
     vi.clearAllMocks();
 
     // Setup default Supabase mock
@@ -48,6 +56,7 @@ describe('DecorationService', () => {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
         update: vi.fn().mockReturnThis(),
+        delete: vi.fn().mockReturnThis(),
         single: vi.fn(),
       })),
     };
@@ -55,6 +64,232 @@ describe('DecorationService', () => {
     vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
   });
 
+  describe('mintDecoration', () => {
+    let ledger: InMemoryCurrencyLedger;
+
+    const createPlayerQuery = (exists: boolean) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        exists ? { data: { address: owner }, error: null } : { data: null, error: { code: 'PGRST116' } }
+      ),
+    });
+
+    const claimRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 5,
+      kind: DecorationKind.Plant,
+      decoration_id: null,
+      is_new: true,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      ledger = new InMemoryCurrencyLedger(250);
+      setCurrencyLedger(ledger);
+      mockSupabase.rpc = vi.fn(async (_fn: string, params: { p_kind: string }) => ({
+        data: [claimRow({ kind: params.p_kind })],
+        error: null,
+      }));
+    });
+
+    afterEach(() => {
+      setCurrencyLedger(null);
+    });
+
+    it('should charge the price, mint on-chain and save the decoration', async () => {
+      // Arrange
+      dojoClient.mintDecoration.mockResolvedValue({ tx_hash: '0xmint', decoration_id: 12 });
+      const insertQuery = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      };
+      const completeQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(completeQuery);
+      const minted = { id: 12, owner, kind: DecorationKind.Plant } as Decoration;
+      const getDecorationSpy = vi.spyOn(service, 'getDecorationById').mockResolvedValue(minted);
+
+      // Act
+      const result = await service.mintDecoration(owner, DecorationKind.Plant, 'purchase-1');
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_decoration_purchase', {
+        p_owner: owner,
+        p_idempotency_key: 'purchase-1',
+        p_kind: DecorationKind.Plant,
+      });
+      expect(dojoClient.mintDecoration).toHaveBeenCalledWith(owner, DecorationKind.Plant);
+      expect(insertQuery.insert).toHaveBeenCalledWith({
+        id: 12,
+        owner,
+        kind: DecorationKind.Plant,
+        is_active: false,
+      });
+      expect(completeQuery.update).toHaveBeenCalledWith({ decoration_id: 12 });
+      expect(completeQuery.eq).toHaveBeenCalledWith('id', 5);
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xmint',
+        'decoration',
+        '12',
+        'mint_decoration',
+        undefined
+      );
+      expect(await ledger.getBalance(owner)).toBe(150);
+      expect(getDecorationSpy).toHaveBeenCalledWith(12);
+      expect(result).toBe(minted);
+    });
+
+    it('should return the decoration of a completed purchase retried with the same key', async () => {
+      // Arrange
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: [claimRow({ decoration_id: 12, is_new: false })],
+        error: null,
+      });
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(true));
+      const minted = { id: 12, owner, kind: DecorationKind.Plant } as Decoration;
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue(minted);
+
+      // Act
+      const result = await service.mintDecoration(owner, DecorationKind.Plant, 'purchase-1');
+
+      // Assert
+      expect(result).toBe(minted);
+      expect(dojoClient.mintDecoration).not.toHaveBeenCalled();
+      expect(await ledger.getBalance(owner)).toBe(250);
+    });
+
+    it('should reject a retry while the purchase with the same key is in progress', async () => {
+      // Arrange
+      mockSupabase.rpc.mockResolvedValueOnce({ data: [claimRow({ is_new: false })], error: null });
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(true));
+
+      // Act & Assert
+      await expect(service.mintDecoration(owner, DecorationKind.Plant, 'purchase-1')).rejects.toThrow(
+        'A purchase with this idempotency key is still in progress'
+      );
+      expect(dojoClient.mintDecoration).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key already used for another kind', async () => {
+      // Arrange
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: [claimRow({ kind: DecorationKind.Ornament, decoration_id: 12, is_new: false })],
+        error: null,
+      });
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(true));
+
+      // Act & Assert
+      await expect(service.mintDecoration(owner, DecorationKind.Plant, 'purchase-1')).rejects.toThrow(ValidationError);
+    });
+
+    it('should charge purchases without a key separately', async () => {
+      // Arrange
+      dojoClient.mintDecoration
+        .mockResolvedValueOnce({ tx_hash: '0xmint1', decoration_id: 12 })
+        .mockResolvedValueOnce({ tx_hash: '0xmint2', decoration_id: 13 });
+      const insertQuery = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: [claimRow({ id: 5 })], error: null })
+        .mockResolvedValueOnce({ data: [claimRow({ id: 6 })], error: null });
+      const completeQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(completeQuery)
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(completeQuery);
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue({ id: 12, owner } as Decoration);
+
+      // Act
+      await service.mintDecoration(owner, DecorationKind.Plant);
+      await service.mintDecoration(owner, DecorationKind.Plant);
+
+      // Assert
+      const keys = mockSupabase.rpc.mock.calls.map((call: any[]) => call[1].p_idempotency_key);
+      expect(keys[0]).not.toBe(keys[1]);
+      expect(dojoClient.mintDecoration).toHaveBeenCalledTimes(2);
+      expect(await ledger.getBalance(owner)).toBe(50);
+    });
+
+    it('should refund the price and flag the mint when saving the decoration fails', async () => {
+      // Arrange
+      dojoClient.mintDecoration.mockResolvedValue({ tx_hash: '0xmint', decoration_id: 12 });
+      const insertQuery = {
+        insert: vi.fn().mockResolvedValue({ error: { code: '23505', message: 'duplicate key' } }),
+      };
+      const releaseQuery = {
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(releaseQuery);
+
+      // Act & Assert
+      await expect(service.mintDecoration(owner, DecorationKind.Plant)).rejects.toThrow('flagged for manual review');
+      expect(await ledger.getBalance(owner)).toBe(250);
+      expect(releaseQuery.eq).toHaveBeenCalledWith('id', 5);
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xmint',
+        'decoration',
+        '12',
+        'mint_decoration',
+        expect.stringContaining('saving it failed: duplicate key')
+      );
+    });
+
+    it('should throw ConflictError when the player cannot afford the decoration', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(true));
+
+      // Act
+      const error = await service.mintDecoration(owner, DecorationKind.Background).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toBe('Not enough coins: 250 available, 500 required');
+      expect(dojoClient.mintDecoration).not.toHaveBeenCalled();
+    });
+
+    it('should refund the price when the on-chain mint fails', async () => {
+      // Arrange
+      dojoClient.mintDecoration.mockRejectedValue(new Error('Contract reverted'));
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(true));
+
+      // Act & Assert
+      await expect(service.mintDecoration(owner, DecorationKind.Ornament)).rejects.toThrow(OnChainError);
+      expect(await ledger.getBalance(owner)).toBe(250);
+    });
+
+    it('should throw NotFoundError when player does not exist', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(false));
+
+      // Act & Assert
+      await expect(service.mintDecoration(owner, DecorationKind.Plant)).rejects.toThrow(NotFoundError);
+      expect(await ledger.getBalance(owner)).toBe(250);
+    });
+
+    it('should throw ValidationError for an unknown kind', async () => {
+      // Act & Assert
+      await expect(service.mintDecoration(owner, 'Castle' as DecorationKind)).rejects.toThrow(
+        'Invalid decoration kind: Castle'
+      );
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
   describe('activateDecoration', () => {
     const mockDecorationOffChain = {
       id: decorationId,
@@ -79,7 +314,7 @@ describe('DecorationService', () => {
 
     beforeEach(() => {
       // Default mocks
-      vi.mocked(activateDecorationOnChain).mockResolvedValue('0xtxhash123');
+      dojoClient.activateDecoration.mockResolvedValue('0xtxhash123');
     });
 
     it('should successfully activate a decoration', async () => {
@@ -111,7 +346,7 @@ describe('DecorationService', () => {
         .mockReturnValueOnce(updateQuery)  // Update call
         .mockReturnValueOnce(selectQuery); // Second getDecorationById call
 
-      vi.mocked(getDecorationOnChain)
+      dojoClient.getDecorationOnChain
         .mockResolvedValueOnce(mockDecorationOnChain) // First call
         .mockResolvedValueOnce(mockDecorationOnChain); // Second call
 
@@ -122,7 +357,7 @@ describe('DecorationService', () => {
       expect(result.id).toBe(decorationId);
       expect(result.owner).toBe(owner);
       expect(result.is_active).toBe(true);
-      expect(activateDecorationOnChain).toHaveBeenCalledWith(decorationId);
+      expect(dojoClient.activateDecoration).toHaveBeenCalledWith(decorationId);
       expect(mockSupabase.from).toHaveBeenCalledWith('decorations');
       expect(updateQuery.update).toHaveBeenCalledWith({ is_active: true });
       expect(updateQuery.eq).toHaveBeenCalledWith('id', decorationId);
@@ -161,7 +396,7 @@ describe('DecorationService', () => {
       };
 
       mockSupabase.from.mockReturnValue(selectQuery);
-      vi.mocked(getDecorationOnChain).mockResolvedValue({
+      dojoClient.getDecorationOnChain.mockResolvedValue({
         ...mockDecorationOnChain,
         owner: differentOwner, // Different owner
       });
@@ -185,14 +420,14 @@ describe('DecorationService', () => {
       };
 
       mockSupabase.from.mockReturnValue(selectQuery);
-      vi.mocked(getDecorationOnChain).mockResolvedValue(mockDecorationOnChain);
+      dojoClient.getDecorationOnChain.mockResolvedValue(mockDecorationOnChain);
 
       // Act & Assert
       await expect(service.activateDecoration(decorationId, owner)).rejects.toThrow(ConflictError);
       await expect(service.activateDecoration(decorationId, owner)).rejects.toThrow(
         `Decoration with ID ${decorationId} is already active`
       );
-      expect(activateDecorationOnChain).not.toHaveBeenCalled();
+      expect(dojoClient.activateDecoration).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError when decoration does not exist', async () => {
@@ -210,7 +445,7 @@ describe('DecorationService', () => {
 
       // Act & Assert
       await expect(service.activateDecoration(decorationId, owner)).rejects.toThrow(NotFoundError);
-      expect(activateDecorationOnChain).not.toHaveBeenCalled();
+      expect(dojoClient.activateDecoration).not.toHaveBeenCalled();
     });
 
     it('should throw OnChainError when on-chain activation fails', async () => {
@@ -225,12 +460,12 @@ describe('DecorationService', () => {
       };
 
       mockSupabase.from.mockReturnValueOnce(selectQuery);
-      vi.mocked(getDecorationOnChain).mockResolvedValue(mockDecorationOnChain);
-      vi.mocked(activateDecorationOnChain).mockRejectedValue(new Error('On-chain error'));
+      dojoClient.getDecorationOnChain.mockResolvedValue(mockDecorationOnChain);
+      dojoClient.activateDecoration.mockRejectedValue(new Error('On-chain error'));
 
       // Act & Assert
       await expect(service.activateDecoration(decorationId, owner)).rejects.toThrow(OnChainError);
-      expect(activateDecorationOnChain).toHaveBeenCalledWith(decorationId);
+      expect(dojoClient.activateDecoration).toHaveBeenCalledWith(decorationId);
     });
 
     it('should throw Error when Supabase update fails', async () => {
@@ -256,11 +491,11 @@ describe('DecorationService', () => {
         .mockReturnValueOnce(selectQuery)
         .mockReturnValueOnce(updateQuery);
 
-      vi.mocked(getDecorationOnChain).mockResolvedValue(mockDecorationOnChain);
+      dojoClient.getDecorationOnChain.mockResolvedValue(mockDecorationOnChain);
 
       // Act & Assert
       await expect(service.activateDecoration(decorationId, owner)).rejects.toThrow('Database error: Database update failed');
-      expect(activateDecorationOnChain).toHaveBeenCalledWith(decorationId);
+      expect(dojoClient.activateDecoration).toHaveBeenCalledWith(decorationId);
     });
 
     it('should trim owner address before validation', async () => {
@@ -293,7 +528,7 @@ describe('DecorationService', () => {
         .mockReturnValueOnce(updateQuery)
         .mockReturnValueOnce(selectQuery);
 
-      vi.mocked(getDecorationOnChain)
+      dojoClient.getDecorationOnChain
         .mockResolvedValueOnce(mockDecorationOnChain)
         .mockResolvedValueOnce(mockDecorationOnChain);
 
@@ -302,8 +537,171 @@ describe('DecorationService', () => {
 
       // Assert
       expect(result.owner).toBe(owner);
-      expect(activateDecorationOnChain).toHaveBeenCalledWith(decorationId);
+      expect(dojoClient.activateDecoration).toHaveBeenCalledWith(decorationId);
+    });
+  });
+
+  describe('placeDecoration', () => {
+    const tankId = 5;
+    const baseDecoration: Decoration = {
+      id: decorationId,
+      owner,
+      kind: DecorationKind.Statue,
+      xp_multiplier: 1.25,
+      is_active: true,
+      tankId: null,
+      transform: null,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    };
+
+    const createTankQuery = (tankOwner: string | null) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        tankOwner
+          ? { data: { id: tankId, owner: tankOwner }, error: null }
+          : { data: null, error: { code: 'PGRST116' } }
+      ),
+    });
+
+    const mockPlaceRpc = (error: { code: string; message: string } | null = null) => {
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error });
+    };
+
+    it('should place the decoration when the tank has a free slot', async () => {
+      // Arrange
+      const placed = { ...baseDecoration, tankId };
+      vi.spyOn(service, 'getDecorationById')
+        .mockResolvedValueOnce(baseDecoration)
+        .mockResolvedValueOnce(placed);
+      mockSupabase.from.mockReturnValueOnce(createTankQuery(owner));
+      mockPlaceRpc();
+
+      // Act
+      const result = await service.placeDecoration(decorationId, tankId, owner);
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('place_decoration', {
+        p_decoration_id: decorationId,
+        p_tank_id: tankId,
+        p_owner: owner,
+        p_max_decorations: MAX_DECORATIONS_PER_TANK,
+      });
+      expect(result.tankId).toBe(tankId);
+    });
+
+    it('should throw ConflictError when the tank has no free slots', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue(baseDecoration);
+      mockSupabase.from.mockReturnValueOnce(createTankQuery(owner));
+      mockPlaceRpc({ code: '55000', message: `Tank ${tankId} has no free decoration slots` });
+
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, tankId, owner)).rejects.toThrow(
+        `Tank ${tankId} has no free decoration slots (${MAX_DECORATIONS_PER_TANK}/${MAX_DECORATIONS_PER_TANK})`
+      );
+    });
+
+    it('should throw ConflictError when the decoration changed hands during the placement', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue(baseDecoration);
+      mockSupabase.from.mockReturnValueOnce(createTankQuery(owner));
+      mockPlaceRpc({ code: 'P0002', message: `place_decoration: decoration ${decorationId} not found` });
+
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, tankId, owner)).rejects.toThrow(
+        `Decoration with ID ${decorationId} or tank ${tankId} no longer belongs to owner ${owner}`
+      );
+    });
+
+    it('should throw ConflictError when already placed in that tank', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue({ ...baseDecoration, tankId });
+
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, tankId, owner)).rejects.toThrow(ConflictError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when the tank belongs to another player', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue(baseDecoration);
+      mockSupabase.from.mockReturnValueOnce(createTankQuery('0xother'));
+
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, tankId, owner)).rejects.toThrow(
+        `Tank with ID ${tankId} does not belong to owner ${owner}`
+      );
+    });
+
+    it('should throw NotFoundError when the tank does not exist', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue(baseDecoration);
+      mockSupabase.from.mockReturnValueOnce(createTankQuery(null));
+
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, tankId, owner)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError for invalid tank ID', async () => {
+      // Act & Assert
+      await expect(service.placeDecoration(decorationId, 0, owner)).rejects.toThrow(ValidationError);
     });
   });
-});
 
+  describe('unplaceDecoration', () => {
+    const baseDecoration: Decoration = {
+      id: decorationId,
+      owner,
+      kind: DecorationKind.Plant,
+      xp_multiplier: 1.25,
+      is_active: true,
+      tankId: 5,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    };
+
+    it('should clear the tank of a placed decoration', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById')
+        .mockResolvedValueOnce(baseDecoration)
+        .mockResolvedValueOnce({ ...baseDecoration, tankId: null });
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(updateQuery);
+
+      // Act
+      const result = await service.unplaceDecoration(decorationId, owner);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({
+        tank_id: null,
+        position_x: null,
+        position_y: null,
+        rotation: null,
+        scale: null,
+        z_layer: null,
+      });
+      expect(result.tankId).toBeNull();
+    });
+
+    it('should throw ConflictError when the decoration is not placed', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue({ ...baseDecoration, tankId: null });
+
+      // Act & Assert
+      await expect(service.unplaceDecoration(decorationId, owner)).rejects.toThrow(
+        `Decoration with ID ${decorationId} is not placed in any tank`
+      );
+    });
+
+    it('should throw ValidationError when the decoration belongs to another player', async () => {
+      // Arrange
+      vi.spyOn(service, 'getDecorationById').mockResolvedValue({ ...baseDecoration, owner: '0xother' });
+
+      // Act & Assert
+      await expect(service.unplaceDecoration(decorationId, owner)).rejects.toThrow(ValidationError);
+    });
+  });
+});
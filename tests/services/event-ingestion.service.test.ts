@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Tests for Event Ingestion Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+}));
+
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+  SyncService.prototype.getSyncByTxHash = vi.fn();
+  return { SyncService };
+});
+
+vi.mock('@/services/tank.service', () => {
+  const TankService = vi.fn(function () {});
+  TankService.prototype.getFirstTankIdByOwner = vi.fn();
+  return { TankService };
+});
+
+// Now import after mocks
+import { EventIngestionService } from '@/services/event-ingestion.service';
+import { FileEventSource } from '@/core/utils/file-event-source';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { SyncService } from '@/services/sync.service';
+import { TankService } from '@/services/tank.service';
+
+const fixture = join(__dirname, '../fixtures/events/world-events.jsonl');
+const owner = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+describe('EventIngestionService', () => {
+  let service: EventIngestionService;
+  let mockSupabase: any;
+  let tables: Record<string, any>;
+
+  const setCheckpoint = (cursor: string | null) => {
+    tables.event_checkpoints.single.mockResolvedValue(
+      cursor === null ? { data: null, error: { code: 'PGRST116' } } : { data: { cursor }, error: null }
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    tables = {
+      event_checkpoints: {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn(),
+        upsert: vi.fn().mockResolvedValue({ error: null }),
+      },
+      players: { upsert: vi.fn().mockResolvedValue({ error: null }) },
+      tanks: { upsert: vi.fn().mockResolvedValue({ error: null }) },
+      feed_events: { upsert: vi.fn().mockResolvedValue({ error: null }) },
+      event_dead_letters: { upsert: vi.fn().mockResolvedValue({ error: null }) },
+      decorations: {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockResolvedValue({ data: [{ id: 3 }], error: null }),
+      },
+    };
+    mockSupabase = {
+      from: vi.fn((table: string) => tables[table]),
+      rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+    };
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+
+    setCheckpoint(null);
+    vi.mocked(SyncService.prototype.getSyncByTxHash).mockResolvedValue(null);
+    vi.mocked(TankService.prototype.getFirstTankIdByOwner).mockResolvedValue(7);
+
+    service = new EventIngestionService(new FileEventSource(fixture), {
+      intervalMs: 1000,
+      batchSize: 100,
+      maxAttempts: 3,
+    });
+  });
+
+  afterEach(async () => {
+    await service.stop();
+  });
+
+  describe('ingestOnce', () => {
+    it('should upsert the rows of every event type and save the checkpoint', async () => {
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toEqual({ received: 5, applied: 5, skipped: 0, deadLettered: 0, cursor: '6' });
+      expect(tables.tanks.upsert).toHaveBeenCalledWith({ id: 7, owner }, { onConflict: 'id', ignoreDuplicates: true });
+      expect(tables.players.upsert).toHaveBeenCalledWith({ address: owner }, { onConflict: 'address', ignoreDuplicates: true });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_minted_fish', {
+        p_fish_id: 40,
+        p_owner: owner,
+        p_species: 'Goldfish',
+        p_image_url: '/images/fish/starter-fish.png',
+        p_tank_id: 7,
+      });
+      expect(tables.feed_events.upsert).toHaveBeenCalledWith(
+        {
+          fish_id: 40,
+          owner,
+          food_type: 'Premium',
+          xp_granted: 12,
+          tx_hash: '0x103',
+          created_at: '2026-01-01T00:02:00.000Z',
+        },
+        { onConflict: 'tx_hash,fish_id', ignoreDuplicates: true }
+      );
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_bred_fish', expect.objectContaining({
+        p_fish_id: 42,
+        p_parent1_id: 40,
+        p_parent2_id: 41,
+        p_tank_id: 7,
+      }));
+      expect(tables.decorations.update).toHaveBeenCalledWith({ is_active: true });
+      expect(tables.event_checkpoints.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'file:world-events.jsonl', cursor: '6' }),
+        { onConflict: 'source' }
+      );
+    });
+
+    it('should resume after the checkpoint', async () => {
+      // Arrange
+      setCheckpoint('5');
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toEqual({ received: 1, applied: 1, skipped: 0, deadLettered: 0, cursor: '6' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(tables.decorations.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not save the checkpoint when there is nothing new', async () => {
+      // Arrange
+      setCheckpoint('6');
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toEqual({ received: 0, applied: 0, skipped: 0, deadLettered: 0, cursor: '6' });
+      expect(tables.event_checkpoints.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip events of transactions sent by the API', async () => {
+      // Arrange
+      vi.mocked(SyncService.prototype.getSyncByTxHash).mockImplementation(async (txHash: string) =>
+        txHash === '0x102' ? ({ tx_hash: txHash } as any) : null
+      );
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toMatchObject({ applied: 4, skipped: 1, cursor: '6' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith('save_minted_fish', expect.anything());
+    });
+
+    it('should stop at a failing event and keep the checkpoint of the events before it', async () => {
+      // Arrange
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { code: '40001', message: 'could not serialize access' } });
+
+      // Act
+      const first = await service.ingestOnce();
+
+      // Assert
+      expect(first).toEqual({ received: 5, applied: 1, skipped: 0, deadLettered: 0, cursor: '1' });
+      expect(tables.event_checkpoints.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ cursor: '1' }),
+        { onConflict: 'source' }
+      );
+      expect(tables.feed_events.upsert).not.toHaveBeenCalled();
+
+      // The failed event is retried on the next pass
+      setCheckpoint('1');
+      const second = await service.ingestOnce();
+      expect(second).toEqual({ received: 4, applied: 4, skipped: 0, deadLettered: 0, cursor: '6' });
+    });
+
+    it('should skip feeds of fish unknown to Supabase', async () => {
+      // Arrange
+      tables.feed_events.upsert.mockResolvedValue({
+        error: { code: '23503', message: 'violates foreign key constraint "fk_feed_events_fish"' },
+      });
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toEqual({ received: 5, applied: 4, skipped: 1, deadLettered: 0, cursor: '6' });
+    });
+
+    it('should accept bred fish that already belong to another owner', async () => {
+      // Arrange
+      mockSupabase.rpc.mockImplementation(async (name: string) =>
+        name === 'save_bred_fish'
+          ? { data: null, error: { code: '23505', message: 'save_bred_fish: fish 42 already belongs to another owner' } }
+          : { data: null, error: null }
+      );
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toMatchObject({ applied: 5, cursor: '6' });
+    });
+
+    it('should save bred fish without parents unknown to Supabase', async () => {
+      // Arrange
+      mockSupabase.rpc.mockImplementation(async (name: string, params: Record<string, unknown>) =>
+        name === 'save_bred_fish' && params.p_parent1_id !== null
+          ? { data: null, error: { code: '23503', message: 'violates foreign key constraint "fk_fish_parent2"' } }
+          : { data: null, error: null }
+      );
+
+      // Act
+      const summary = await service.ingestOnce();
+
+      // Assert
+      expect(summary).toMatchObject({ applied: 5, cursor: '6' });
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('save_bred_fish', expect.objectContaining({
+        p_fish_id: 42,
+        p_parent1_id: null,
+        p_parent2_id: null,
+      }));
+    });
+
+    it('should dead-letter an event that fails maxAttempts passes in a row and move past it', async () => {
+      // Arrange
+      mockSupabase.rpc.mockImplementation(async (name: string) =>
+        name === 'save_minted_fish'
+          ? { data: null, error: { code: 'XX000', message: 'internal error' } }
+          : { data: null, error: null }
+      );
+
+      // Act
+      const first = await service.ingestOnce();
+      setCheckpoint('1');
+      const second = await service.ingestOnce();
+      const third = await service.ingestOnce();
+
+      // Assert
+      expect(first).toEqual({ received: 5, applied: 1, skipped: 0, deadLettered: 0, cursor: '1' });
+      expect(second).toEqual({ received: 4, applied: 0, skipped: 0, deadLettered: 0, cursor: '1' });
+      expect(third).toEqual({ received: 4, applied: 3, skipped: 0, deadLettered: 1, cursor: '6' });
+      expect(tables.event_dead_letters.upsert).toHaveBeenCalledTimes(1);
+      expect(tables.event_dead_letters.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'file:world-events.jsonl',
+          cursor: '2',
+          event_type: 'FishMinted',
+          tx_hash: '0x102',
+          error: 'Failed to save minted fish 40: internal error',
+          attempts: 3,
+        }),
+        { onConflict: 'source,cursor', ignoreDuplicates: true }
+      );
+    });
+
+    it('should keep retrying an event that could not be dead-lettered', async () => {
+      // Arrange
+      mockSupabase.rpc.mockImplementation(async (name: string) =>
+        name === 'save_minted_fish'
+          ? { data: null, error: { code: 'XX000', message: 'internal error' } }
+          : { data: null, error: null }
+      );
+      tables.event_dead_letters.upsert.mockResolvedValue({ error: { message: 'connection refused' } });
+      setCheckpoint('1');
+
+      // Act
+      await service.ingestOnce();
+      await service.ingestOnce();
+      const third = await service.ingestOnce();
+
+      // Assert
+      expect(third).toEqual({ received: 4, applied: 0, skipped: 0, deadLettered: 0, cursor: '1' });
+      expect(tables.event_checkpoints.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should run a pass on every interval until stopped', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const ingestSpy = vi.spyOn(service, 'ingestOnce').mockResolvedValue({
+        received: 0,
+        applied: 0,
+        skipped: 0,
+        deadLettered: 0,
+        cursor: null,
+      });
+
+      try {
+        // Act
+        service.start();
+        await vi.advanceTimersByTimeAsync(2500);
+        await service.stop();
+        await vi.advanceTimersByTimeAsync(2000);
+
+        // Assert
+        expect(ingestSpy).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * @fileoverview Tests for Fish Service
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock dependencies BEFORE imports
 vi.mock('@/core/utils/supabase-client', () => ({
@@ -10,35 +10,79 @@ vi.mock('@/core/utils/supabase-client', () => ({
 }));
 
 vi.mock('@/core/utils/dojo-client', () => ({
-  feedFishBatch: vi.fn(),
-  getFishOnChain: vi.fn(),
-  gainFishXp: vi.fn(),
-  gainPlayerXp: vi.fn(),
+  getDojoClient: vi.fn(),
 }));
 
-vi.mock('@/core/utils/xp-calculator', () => ({
+vi.mock('@/core/utils/xp-calculator', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/core/utils/xp-calculator')>()),
   getActiveDecorationsMultiplier: vi.fn(),
   getFeedBaseXp: vi.fn(),
   calculateFishXp: vi.fn(),
 }));
 
+vi.mock('@/core/utils/fish-kinship', () => ({
+  buildFishKinship: vi.fn(),
+}));
+
 vi.mock('@/core/utils/logger', () => ({
   logError: vi.fn(),
 }));
 
+vi.mock('@/services/tank.service', () => {
+  const TankService = vi.fn(function () {});
+
+  TankService.prototype.checkTankCapacity = vi.fn();
+  TankService.prototype.getFirstTankIdByOwner = vi.fn();
+
+  return { TankService };
+});
+
+vi.mock('@/services/food.service', () => {
+  const FoodService = vi.fn(function () {});
+
+  FoodService.prototype.consumeFood = vi.fn();
+  FoodService.prototype.addFood = vi.fn();
+
+  return { FoodService };
+});
+
+vi.mock('@/services/ledger.service', () => {
+  const LedgerService = vi.fn(function () {});
+
+  LedgerService.prototype.rewardFeeding = vi.fn();
+  LedgerService.prototype.rewardBreeding = vi.fn();
+
+  return { LedgerService };
+});
+
 // Now import after mocks
 import { FishService } from '@/services/fish.service';
-import { ValidationError, OnChainError } from '@/core/errors';
+import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
-import { gainFishXp, gainPlayerXp } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
 import { getActiveDecorationsMultiplier, getFeedBaseXp, calculateFishXp } from '@/core/utils/xp-calculator';
+import { FoodService } from '@/services/food.service';
+import { TankService } from '@/services/tank.service';
+import { LedgerService } from '@/services/ledger.service';
+import { SyncService } from '@/services/sync.service';
+import { buildFishKinship } from '@/core/utils/fish-kinship';
+import { FoodType } from '@/models/food.model';
+import { FishState, FishColor, FishRarity } from '@/models/fish.model';
+
+const dojoClient = {
+  feedFishBatch: vi.fn(),
+  getFishOnChain: vi.fn(),
+  gainFishXp: vi.fn(),
+  gainPlayerXp: vi.fn(),
+  transferFish: vi.fn(),
+};
 
 describe('FishService', () => {
   let service: FishService;
   let mockSupabase: any;
 
   beforeEach(() => {
-    service = new FishService();
+    service = new FishService(dojoClient as unknown as DojoClient);
     vi.clearAllMocks();
 
     // Setup default Supabase mock
@@ -59,12 +103,33 @@ describe('FishService', () => {
     const fishIds = [1, 2, 3];
     const tankId = 10;
 
+    const feedEventsQuery = {
+      upsert: vi.fn().mockResolvedValue({ data: null, error: null }),
+      delete: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({ data: null, error: null }),
+    };
+
     beforeEach(() => {
       // Default mocks
+      // claim_feed inserts feed_events row 100 + i for the i-th fish
+      mockSupabase.rpc = vi.fn(async (_name: string, { p_fish_ids }: { p_fish_ids: number[] }) => ({
+        data: p_fish_ids.map((fish_id, i) => ({ id: 100 + i, fish_id })),
+        error: null,
+      }));
       vi.mocked(getFeedBaseXp).mockReturnValue(10);
       // calculateFishXp will be mocked per test as needed
-      vi.mocked(gainFishXp).mockResolvedValue('0xfishTxHash');
-      vi.mocked(gainPlayerXp).mockResolvedValue('0xplayerTxHash');
+      dojoClient.getFishOnChain.mockImplementation(async (id: number) => ({
+        id,
+        xp: 100,
+        state: 'Adult',
+        hunger: 50,
+        lastFedAt: null,
+        isReadyToBreed: true,
+        dna: '0xabc',
+      }));
+      dojoClient.feedFishBatch.mockResolvedValue('0xfeedTxHash');
+      dojoClient.gainFishXp.mockResolvedValue('0xfishTxHash');
+      dojoClient.gainPlayerXp.mockResolvedValue('0xplayerTxHash');
     });
 
     it('should successfully feed fish with decoration multiplier', async () => {
@@ -73,14 +138,6 @@ describe('FishService', () => {
         select: vi.fn().mockReturnThis(),
         in: vi.fn().mockReturnThis(),
       };
-      const tankQuery = {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { id: tankId },
-          error: null,
-        }),
-      };
       const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
@@ -105,16 +162,16 @@ describe('FishService', () => {
 
       mockSupabase.from
         .mockReturnValueOnce(fishQuery) // fish query
-        .mockReturnValueOnce(tankQuery) // tank query
         .mockReturnValueOnce(playerQuery) // player query
         .mockReturnValueOnce(updateQuery) // player update
+        .mockReturnValueOnce(feedEventsQuery) // feed events completion
         .mockReturnValueOnce(insertQuery) // sync queue entries (fish)
         .mockReturnValueOnce(insertQuery) // sync queue entries (fish)
         .mockReturnValueOnce(insertQuery) // sync queue entries (fish)
         .mockReturnValueOnce(insertQuery); // sync queue entry (player)
 
       fishQuery.in.mockResolvedValue({
-        data: fishIds.map((id) => ({ id, owner })),
+        data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
         error: null,
       });
 
@@ -128,31 +185,97 @@ describe('FishService', () => {
       // Assert
       expect(result).toBe('0xplayerTxHash');
       expect(getFeedBaseXp).toHaveBeenCalled();
+      // The multiplier is read once for the tank shared by the batch
+      expect(getActiveDecorationsMultiplier).toHaveBeenCalledTimes(1);
       expect(getActiveDecorationsMultiplier).toHaveBeenCalledWith(tankId);
       expect(calculateFishXp).toHaveBeenCalledWith(10, 15); // baseXp=10, multiplier=15%
       // Should call gainFishXp for each fish
-      expect(gainFishXp).toHaveBeenCalledTimes(3);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledTimes(3);
       fishIds.forEach((fishId) => {
-        expect(gainFishXp).toHaveBeenCalledWith(fishId, 11.5);
+        expect(dojoClient.gainFishXp).toHaveBeenCalledWith(fishId, 11.5);
       });
       // Should call gainPlayerXp with total XP (11.5 * 3 = 34.5)
-      expect(gainPlayerXp).toHaveBeenCalledWith(owner, 34.5);
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 34.5);
+      // Should claim the feed before feeding, then complete one feed event per fish
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_feed', {
+        p_fish_ids: fishIds,
+        p_owner: owner,
+        p_food_type: 'Basic',
+        p_cooldown_seconds: expect.any(Number),
+      });
+      expect(mockSupabase.rpc.mock.invocationCallOrder[0]).toBeLessThan(
+        dojoClient.feedFishBatch.mock.invocationCallOrder[0] as number
+      );
+      expect(feedEventsQuery.upsert).toHaveBeenCalledWith(
+        fishIds.map((fishId, i) => ({
+          id: 100 + i,
+          fish_id: fishId,
+          owner,
+          food_type: 'Basic',
+          xp_granted: 11.5,
+          multiplier: 15,
+          tx_hash: '0xfishTxHash',
+          feed_tx_hash: '0xfeedTxHash',
+        })),
+        { onConflict: 'id' }
+      );
+      // Should reward coins for the fed fish, keyed by the feed transaction
+      expect(LedgerService.prototype.rewardFeeding).toHaveBeenCalledWith(owner, 3, '0xfeedTxHash');
     });
 
-    it('should handle case when owner has no tank (multiplier = 0)', async () => {
+    it('should reject fish that are still on feeding cooldown', async () => {
       // Arrange
       const fishQuery = {
         select: vi.fn().mockReturnThis(),
-        in: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
+          error: null,
+        }),
       };
-      const tankQuery = {
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: '55000',
+          message: 'Fish with IDs [3] were fed recently. Try again after 2026-01-01T00:10:00.000Z',
+        },
+      });
+
+      // Act
+      const error = await service.feedFishBatch(fishIds, owner).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toContain('Fish with IDs [3] were fed recently');
+      expect(FoodService.prototype.consumeFood).not.toHaveBeenCalled();
+      expect(dojoClient.feedFishBatch).not.toHaveBeenCalled();
+      expect(dojoClient.gainFishXp).not.toHaveBeenCalled();
+    });
+
+    it('should not feed when the feed claim cannot be saved', async () => {
+      // Arrange
+      const fishQuery = {
         select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: null,
-          error: { code: 'PGRST116' }, // Not found
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
+          error: null,
         }),
       };
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { code: '08006', message: 'connection failure' } });
+
+      // Act & Assert
+      await expect(service.feedFishBatch(fishIds, owner)).rejects.toThrow('Failed to claim feed: connection failure');
+      expect(FoodService.prototype.consumeFood).not.toHaveBeenCalled();
+      expect(dojoClient.feedFishBatch).not.toHaveBeenCalled();
+    });
+
+    it('should handle case when fish are in no tank (multiplier = 0)', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+      };
       const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
@@ -177,16 +300,16 @@ describe('FishService', () => {
 
       mockSupabase.from
         .mockReturnValueOnce(fishQuery)
-        .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(playerQuery)
         .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery);
 
       fishQuery.in.mockResolvedValue({
-        data: fishIds.map((id) => ({ id, owner })),
+        data: fishIds.map((id) => ({ id, owner, tank_id: null })),
         error: null,
       });
 
@@ -200,11 +323,11 @@ describe('FishService', () => {
       expect(result).toBe('0xplayerTxHash');
       expect(getActiveDecorationsMultiplier).not.toHaveBeenCalled();
       expect(calculateFishXp).toHaveBeenCalledWith(10, 0); // multiplier = 0
-      expect(gainFishXp).toHaveBeenCalledTimes(3);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledTimes(3);
       fishIds.forEach((fishId) => {
-        expect(gainFishXp).toHaveBeenCalledWith(fishId, 10);
+        expect(dojoClient.gainFishXp).toHaveBeenCalledWith(fishId, 10);
       });
-      expect(gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
     });
 
     it('should handle case when no active decorations (multiplier = 0)', async () => {
@@ -213,14 +336,6 @@ describe('FishService', () => {
         select: vi.fn().mockReturnThis(),
         in: vi.fn().mockReturnThis(),
       };
-      const tankQuery = {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { id: tankId },
-          error: null,
-        }),
-      };
       const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
@@ -245,16 +360,16 @@ describe('FishService', () => {
 
       mockSupabase.from
         .mockReturnValueOnce(fishQuery)
-        .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(playerQuery)
         .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery);
 
       fishQuery.in.mockResolvedValue({
-        data: fishIds.map((id) => ({ id, owner })),
+        data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
         error: null,
       });
 
@@ -269,11 +384,11 @@ describe('FishService', () => {
       expect(result).toBe('0xplayerTxHash');
       expect(getActiveDecorationsMultiplier).toHaveBeenCalledWith(tankId);
       expect(calculateFishXp).toHaveBeenCalledWith(10, 0);
-      expect(gainFishXp).toHaveBeenCalledTimes(3);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledTimes(3);
       fishIds.forEach((fishId) => {
-        expect(gainFishXp).toHaveBeenCalledWith(fishId, 10);
+        expect(dojoClient.gainFishXp).toHaveBeenCalledWith(fishId, 10);
       });
-      expect(gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
     });
 
     it('should throw ValidationError for empty fishIds array', async () => {
@@ -322,15 +437,6 @@ describe('FishService', () => {
         select: vi.fn().mockReturnThis(),
         in: vi.fn().mockReturnThis(),
       };
-      const tankQuery = {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { id: tankId },
-          error: null,
-        }),
-      };
-
       const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
@@ -355,16 +461,16 @@ describe('FishService', () => {
 
       mockSupabase.from
         .mockReturnValueOnce(fishQuery)
-        .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(playerQuery)
         .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery);
 
       fishQuery.in.mockResolvedValue({
-        data: fishIds.map((id) => ({ id, owner })),
+        data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
         error: null,
       });
 
@@ -378,11 +484,11 @@ describe('FishService', () => {
       // Assert: Should continue with multiplier = 0
       expect(result).toBe('0xplayerTxHash');
       expect(calculateFishXp).toHaveBeenCalledWith(10, 0);
-      expect(gainFishXp).toHaveBeenCalledTimes(3);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledTimes(3);
       fishIds.forEach((fishId) => {
-        expect(gainFishXp).toHaveBeenCalledWith(fishId, 10);
+        expect(dojoClient.gainFishXp).toHaveBeenCalledWith(fishId, 10);
       });
-      expect(gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 30); // 10 * 3
     });
 
     it('should throw OnChainError when on-chain feed fails', async () => {
@@ -391,48 +497,162 @@ describe('FishService', () => {
         select: vi.fn().mockReturnThis(),
         in: vi.fn().mockReturnThis(),
       };
-      const tankQuery = {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { id: tankId },
-          error: null,
-        }),
-      };
-
-      mockSupabase.from
-        .mockReturnValueOnce(fishQuery)
-        .mockReturnValueOnce(tankQuery);
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
 
       fishQuery.in.mockResolvedValue({
-        data: fishIds.map((id) => ({ id, owner })),
+        data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
         error: null,
       });
 
       vi.mocked(getActiveDecorationsMultiplier).mockResolvedValue(0);
       vi.mocked(calculateFishXp).mockReturnValue(10);
-      vi.mocked(gainFishXp).mockRejectedValue(new Error('On-chain error'));
+      dojoClient.gainFishXp.mockRejectedValue(new Error('On-chain error'));
 
       // Act & Assert
       await expect(service.feedFishBatch(fishIds, owner)).rejects.toThrow(OnChainError);
     });
 
-    it('should apply same multiplier to all fish in batch', async () => {
+    it('should reject the batch when a fish is overfed', async () => {
       // Arrange
-      const multipleFishIds = [1, 2, 3, 4, 5];
       const fishQuery = {
         select: vi.fn().mockReturnThis(),
-        in: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
+          error: null,
+        }),
+      };
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
+
+      dojoClient.getFishOnChain.mockImplementation(async (id: number) => ({
+        id,
+        xp: 100,
+        state: 'Adult',
+        hunger: id === 2 ? 5 : 50,
+        lastFedAt: new Date(),
+        isReadyToBreed: true,
+        dna: '0xabc',
+      }));
+
+      // Act & Assert
+      const error = await service.feedFishBatch(fishIds, owner).catch((e) => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toContain('Fish with IDs [2] are not hungry');
+      expect(dojoClient.feedFishBatch).not.toHaveBeenCalled();
+      expect(dojoClient.gainFishXp).not.toHaveBeenCalled();
+    });
+
+    it('should feed the batch on-chain before granting XP', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
+          error: null,
+        }),
       };
-      const tankQuery = {
+      mockSupabase.from.mockReturnValueOnce(fishQuery).mockReturnValueOnce(feedEventsQuery);
+      dojoClient.feedFishBatch.mockRejectedValue(new Error('Contract reverted'));
+
+      // Act & Assert
+      await expect(service.feedFishBatch(fishIds, owner)).rejects.toThrow(OnChainError);
+      expect(dojoClient.feedFishBatch).toHaveBeenCalledWith(fishIds, FoodType.Basic);
+      expect(dojoClient.gainFishXp).not.toHaveBeenCalled();
+      // The claim is released, so the fish can be fed again
+      expect(feedEventsQuery.delete).toHaveBeenCalled();
+      expect(feedEventsQuery.in).toHaveBeenCalledWith('id', [100, 101, 102]);
+    });
+
+    it('should consume food from inventory and feed with the given food type', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: null })),
+          error: null,
+        }),
+      };
+      const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { id: tankId },
+        single: vi.fn().mockResolvedValue({ data: { total_xp: 0 }, error: null }),
+      };
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(fishQuery)
+        .mockReturnValueOnce(playerQuery)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery);
+      vi.mocked(getFeedBaseXp).mockReturnValue(20);
+      vi.mocked(calculateFishXp).mockReturnValue(20);
+
+      // Act
+      await service.feedFishBatch(fishIds, owner, FoodType.Premium);
+
+      // Assert
+      expect(FoodService.prototype.consumeFood).toHaveBeenCalledWith(owner, FoodType.Premium, 3);
+      expect(dojoClient.feedFishBatch).toHaveBeenCalledWith(fishIds, FoodType.Premium);
+      expect(getFeedBaseXp).toHaveBeenCalledWith(FoodType.Premium);
+      expect(feedEventsQuery.upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ food_type: FoodType.Premium })]),
+        { onConflict: 'id' }
+      );
+    });
+
+    it('should not feed when the inventory has not enough food', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
+          error: null,
+        }),
+      };
+      mockSupabase.from.mockReturnValueOnce(fishQuery).mockReturnValueOnce(feedEventsQuery);
+      vi.mocked(FoodService.prototype.consumeFood).mockRejectedValueOnce(
+        new ConflictError('Not enough Special food: 1 available, 3 required')
+      );
+
+      // Act & Assert
+      await expect(service.feedFishBatch(fishIds, owner, FoodType.Special)).rejects.toThrow(ConflictError);
+      expect(dojoClient.feedFishBatch).not.toHaveBeenCalled();
+      expect(feedEventsQuery.in).toHaveBeenCalledWith('id', [100, 101, 102]);
+    });
+
+    it('should refund consumed food when the on-chain feed fails', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: fishIds.map((id) => ({ id, owner, tank_id: tankId })),
           error: null,
         }),
       };
+      mockSupabase.from.mockReturnValueOnce(fishQuery).mockReturnValueOnce(feedEventsQuery);
+      dojoClient.feedFishBatch.mockRejectedValue(new Error('Contract reverted'));
+
+      // Act & Assert
+      await expect(service.feedFishBatch(fishIds, owner, FoodType.Premium)).rejects.toThrow(OnChainError);
+      expect(FoodService.prototype.addFood).toHaveBeenCalledWith(owner, FoodType.Premium, 3);
+    });
 
+    it('should throw ValidationError for unknown food type', async () => {
+      // Act & Assert
+      await expect(
+        service.feedFishBatch(fishIds, owner, 'Caviar' as FoodType)
+      ).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should apply the same multiplier to all fish of one tank', async () => {
+      // Arrange
+      const multipleFishIds = [1, 2, 3, 4, 5];
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+      };
       const playerQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
@@ -457,9 +677,9 @@ describe('FishService', () => {
 
       mockSupabase.from
         .mockReturnValueOnce(fishQuery)
-        .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(playerQuery)
         .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
         .mockReturnValueOnce(insertQuery)
@@ -468,7 +688,7 @@ describe('FishService', () => {
         .mockReturnValueOnce(insertQuery);
 
       fishQuery.in.mockResolvedValue({
-        data: multipleFishIds.map((id) => ({ id, owner })),
+        data: multipleFishIds.map((id) => ({ id, owner, tank_id: tankId })),
         error: null,
       });
 
@@ -479,12 +699,641 @@ describe('FishService', () => {
       await service.feedFishBatch(multipleFishIds, owner);
 
       // Assert: All fish should get the same XP value
-      expect(gainFishXp).toHaveBeenCalledTimes(5);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledTimes(5);
       multipleFishIds.forEach((fishId) => {
-        expect(gainFishXp).toHaveBeenCalledWith(fishId, 12);
+        expect(dojoClient.gainFishXp).toHaveBeenCalledWith(fishId, 12);
       });
-      expect(gainPlayerXp).toHaveBeenCalledWith(owner, 60); // 12 * 5
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 60); // 12 * 5
+    });
+
+    it('should apply the multiplier of its own tank to each fish', async () => {
+      // Arrange: fish 1 and 2 live in a decorated tank, fish 3 in a plain one
+      const decoratedTankId = 10;
+      const plainTankId = 11;
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({
+          data: [
+            { id: 1, owner, tank_id: decoratedTankId },
+            { id: 2, owner, tank_id: decoratedTankId },
+            { id: 3, owner, tank_id: plainTankId },
+          ],
+          error: null,
+        }),
+      };
+      const playerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { total_xp: 100 }, error: null }),
+      };
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(fishQuery)
+        .mockReturnValueOnce(playerQuery)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(feedEventsQuery);
+
+      vi.mocked(getActiveDecorationsMultiplier).mockImplementation(async (id: number) =>
+        id === decoratedTankId ? 0.25 : 0.05
+      );
+      vi.mocked(calculateFishXp).mockImplementation((baseXp: number, multiplier: number) => baseXp * (1 + multiplier / 100));
+
+      // Act
+      await service.feedFishBatch(fishIds, owner);
+
+      // Assert
+      expect(getActiveDecorationsMultiplier).toHaveBeenCalledTimes(2);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledWith(1, 12.5);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledWith(2, 12.5);
+      expect(dojoClient.gainFishXp).toHaveBeenCalledWith(3, 10.5);
+      expect(dojoClient.gainPlayerXp).toHaveBeenCalledWith(owner, 35.5);
+      expect(feedEventsQuery.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ fish_id: 1, xp_granted: 12.5, multiplier: 25 }),
+          expect.objectContaining({ fish_id: 2, xp_granted: 12.5, multiplier: 25 }),
+          expect.objectContaining({ fish_id: 3, xp_granted: 10.5, multiplier: 5 }),
+        ],
+        { onConflict: 'id' }
+      );
     });
   });
-});
 
+  describe('getFeedHistory', () => {
+    it('should return feed events newest first', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: 1 }, error: null }),
+      };
+      const eventsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({
+          data: [
+            {
+              id: 7,
+              fish_id: 1,
+              owner: '0xabc',
+              food_type: 'Basic',
+              xp_granted: '11.5',
+              multiplier: '15',
+              tx_hash: '0xfishTxHash',
+              created_at: '2026-01-01T12:00:00Z',
+            },
+          ],
+          error: null,
+        }),
+      };
+      mockSupabase.from.mockReturnValueOnce(fishQuery).mockReturnValueOnce(eventsQuery);
+
+      // Act
+      const result = await service.getFeedHistory(1, 10);
+
+      // Assert
+      expect(eventsQuery.order).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(eventsQuery.limit).toHaveBeenCalledWith(10);
+      expect(result).toEqual([
+        {
+          id: 7,
+          fish_id: 1,
+          owner: '0xabc',
+          food_type: 'Basic',
+          xp_granted: 11.5,
+          multiplier: 15,
+          tx_hash: '0xfishTxHash',
+          created_at: new Date('2026-01-01T12:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should throw NotFoundError when fish does not exist', async () => {
+      // Arrange
+      const fishQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      };
+      mockSupabase.from.mockReturnValueOnce(fishQuery);
+
+      // Act & Assert
+      await expect(service.getFeedHistory(99)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError for invalid limit', async () => {
+      // Act & Assert
+      await expect(service.getFeedHistory(1, 500)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('moveFishBatch', () => {
+    const owner = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+    const createFishQuery = (rows: { id: number; owner: string; tank_id: number | null }[]) => ({
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({ data: rows, error: null }),
+    });
+
+    const createTankQuery = (rows: { id: number; owner: string }[]) => ({
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({ data: rows, error: null }),
+    });
+
+    beforeEach(() => {
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+    });
+
+    it('should move fish atomically and return each move', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([
+          { id: 1, owner, tank_id: 10 },
+          { id: 2, owner, tank_id: null },
+        ]))
+        .mockReturnValueOnce(createTankQuery([{ id: 20, owner }]));
+
+      // Act
+      const result = await service.moveFishBatch(
+        [{ fish_id: 1, tank_id: 20 }, { fish_id: 2, tank_id: 20 }],
+        owner
+      );
+
+      // Assert
+      expect(TankService.prototype.checkTankCapacity).toHaveBeenCalledWith(20, 2);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('move_fish_batch', {
+        p_owner: owner,
+        p_moves: [{ fish_id: 1, tank_id: 20 }, { fish_id: 2, tank_id: 20 }],
+      });
+      expect(result).toEqual([
+        { fish_id: 1, from_tank_id: 10, to_tank_id: 20 },
+        { fish_id: 2, from_tank_id: null, to_tank_id: 20 },
+      ]);
+    });
+
+    it('should let full tanks swap fish without a capacity check', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([
+          { id: 1, owner, tank_id: 10 },
+          { id: 2, owner, tank_id: 20 },
+        ]))
+        .mockReturnValueOnce(createTankQuery([{ id: 10, owner }, { id: 20, owner }]));
+
+      // Act
+      await service.moveFishBatch([{ fish_id: 1, tank_id: 20 }, { fish_id: 2, tank_id: 10 }], owner);
+
+      // Assert
+      expect(TankService.prototype.checkTankCapacity).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).toHaveBeenCalled();
+    });
+
+    it('should not move anything when a target tank is full', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([{ id: 1, owner, tank_id: 10 }]))
+        .mockReturnValueOnce(createTankQuery([{ id: 20, owner }]));
+      vi.mocked(TankService.prototype.checkTankCapacity).mockRejectedValueOnce(
+        new ConflictError('Tank 20 is at capacity (10/10). Cannot add 1 more fish.')
+      );
+
+      // Act & Assert
+      await expect(service.moveFish(1, 20, owner)).rejects.toThrow(ConflictError);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject target tanks owned by another player', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([{ id: 1, owner, tank_id: 10 }]))
+        .mockReturnValueOnce(createTankQuery([{ id: 30, owner: '0xother' }]));
+
+      // Act & Assert
+      await expect(service.moveFish(1, 30, owner)).rejects.toThrow(
+        `Tanks with IDs [30] do not belong to owner ${owner}`
+      );
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject fish owned by another player', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createFishQuery([{ id: 1, owner: '0xother', tank_id: 10 }]));
+
+      // Act & Assert
+      await expect(service.moveFish(1, 20, owner)).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw NotFoundError when a target tank does not exist', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([{ id: 1, owner, tank_id: 10 }]))
+        .mockReturnValueOnce(createTankQuery([]));
+
+      // Act & Assert
+      await expect(service.moveFish(1, 99, owner)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when a fish appears twice', async () => {
+      // Act & Assert
+      await expect(
+        service.moveFishBatch([{ fish_id: 1, tank_id: 20 }, { fish_id: 1, tank_id: 30 }], owner)
+      ).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should surface database function errors', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createFishQuery([{ id: 1, owner, tank_id: 10 }]))
+        .mockReturnValueOnce(createTankQuery([{ id: 20, owner }]));
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'deadlock detected' } });
+
+      // Act & Assert
+      await expect(service.moveFish(1, 20, owner)).rejects.toThrow('Failed to move fish: deadlock detected');
+    });
+  });
+
+  describe('transferFish', () => {
+    const from = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    const to = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+
+    const createSingleQuery = (data: unknown, error: unknown = null) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data, error }),
+    });
+
+    const createListingQuery = (data: unknown[]) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue({ data, error: null }),
+    });
+
+    beforeEach(() => {
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+      vi.mocked(TankService.prototype.getFirstTankIdByOwner).mockResolvedValue(20);
+      dojoClient.transferFish.mockResolvedValue('0xtransfer');
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should move the fish into the recipient tank and return it', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      const transferred = { id: 1, owner: to, tankId: 20 } as any;
+      const getFishSpy = vi.spyOn(service, 'getFishById').mockResolvedValue(transferred);
+
+      // Act
+      const result = await service.transferFish(1, from, to);
+
+      // Assert
+      expect(TankService.prototype.getFirstTankIdByOwner).toHaveBeenCalledWith(to);
+      expect(TankService.prototype.checkTankCapacity).toHaveBeenCalledWith(20, 1);
+      expect(dojoClient.transferFish).toHaveBeenCalledWith(1, from, to);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transfer_fish_ownership', {
+        p_fish_id: 1,
+        p_from: from,
+        p_to: to,
+        p_tank_id: 20,
+      });
+      expect(getFishSpy).toHaveBeenCalledWith(1);
+      expect(result).toBe(transferred);
+    });
+
+    it('should not transfer when the recipient tank is full', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      vi.mocked(TankService.prototype.checkTankCapacity).mockRejectedValueOnce(
+        new ConflictError('Tank 20 is at capacity (10/10). Cannot add 1 more fish.')
+      );
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(ConflictError);
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when the recipient is not registered', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery(null, { code: 'PGRST116', message: 'No rows' }));
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(
+        `Player with address ${to} not found`
+      );
+    });
+
+    it('should throw NotFoundError when the recipient has no tank', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      vi.mocked(TankService.prototype.getFirstTankIdByOwner).mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(NotFoundError);
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+    });
+
+    it('should reject fish owned by another player', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createSingleQuery({ id: 1, owner: '0xother' }));
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(
+        `Fish with ID 1 does not belong to owner ${from}`
+      );
+    });
+
+    it('should not give a fish whose listing is reserved by a buyer', async () => {
+      // Arrange
+      const listingQuery = createListingQuery([{ id: 5 }]);
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(listingQuery);
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(
+        'Fish with ID 1 is being bought on the marketplace'
+      );
+      expect(listingQuery.eq).toHaveBeenCalledWith('status', 'reserved');
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject a transfer to the current owner', async () => {
+      // Act & Assert
+      await expect(service.transferFish(1, from, from)).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw OnChainError when the on-chain transfer fails', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      dojoClient.transferFish.mockRejectedValueOnce(new Error('rpc down'));
+
+      // Act & Assert
+      await expect(service.transferFish(1, from, to)).rejects.toThrow(OnChainError);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should flag the transfer for review when saving it fails after the on-chain transfer', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '55000', message: 'not owned' } });
+      const addToSyncQueue = vi.spyOn(SyncService.prototype, 'addToSyncQueue').mockResolvedValue({} as any);
+
+      // Act
+      const error = await service.transferFish(1, from, to).catch((e) => e);
+
+      // Assert: the fish already moved on-chain, so this is not a conflict
+      expect(error).not.toBeInstanceOf(ConflictError);
+      expect(error.message).toContain('flagged for manual review');
+      expect(addToSyncQueue).toHaveBeenCalledWith(
+        '0xtransfer',
+        'fish',
+        '1',
+        'transfer_fish',
+        expect.stringContaining('transfer_fish_ownership failed: not owned')
+      );
+    });
+
+    it('should add a successful transfer to the sync queue without a review flag', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ id: 1, owner: from }))
+        .mockReturnValueOnce(createListingQuery([]))
+        .mockReturnValueOnce(createSingleQuery({ address: to }));
+      vi.spyOn(service, 'getFishById').mockResolvedValue({ id: 1, owner: to } as any);
+      const addToSyncQueue = vi.spyOn(SyncService.prototype, 'addToSyncQueue').mockResolvedValue({} as any);
+
+      // Act
+      await service.transferFish(1, from, to);
+
+      // Assert
+      expect(addToSyncQueue).toHaveBeenCalledWith('0xtransfer', 'fish', '1', 'transfer_fish', undefined);
+    });
+  });
+
+  describe('getFishKinship', () => {
+    it('should delegate to the kinship utility', async () => {
+      const kinship = {
+        fish_id: 1,
+        other_fish_id: 2,
+        relationship_coefficient: 0.5,
+        inbreeding_coefficient: 0.25,
+        common_ancestor_ids: [10, 11],
+        can_breed: false,
+      };
+      vi.mocked(buildFishKinship).mockResolvedValue(kinship);
+
+      await expect(service.getFishKinship(1, 2)).resolves.toEqual(kinship);
+      expect(buildFishKinship).toHaveBeenCalledWith(1, 2, expect.any(Number));
+    });
+
+    it('should throw ValidationError for an invalid other fish ID', async () => {
+      await expect(service.getFishKinship(1, 0)).rejects.toThrow('Invalid other fish ID');
+      expect(buildFishKinship).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('breedFish', () => {
+    const owner = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+    beforeEach(() => {
+      vi.spyOn(service, 'getFishById').mockImplementation(async (id: number) => ({
+        id,
+        owner,
+        state: FishState.Adult,
+        isReadyToBreed: true,
+      }) as any);
+    });
+
+    it('should reject fish that are too closely related', async () => {
+      // Arrange
+      vi.mocked(buildFishKinship).mockResolvedValue({
+        fish_id: 1,
+        other_fish_id: 2,
+        relationship_coefficient: 0.5,
+        inbreeding_coefficient: 0.25,
+        common_ancestor_ids: [10, 11],
+        can_breed: false,
+      });
+
+      // Act & Assert
+      await expect(service.breedFish(1, 2, owner)).rejects.toThrow(
+        'Fish with IDs 1 and 2 are too closely related to breed (relationship 0.5, maximum 0.125)'
+      );
+      expect(TankService.prototype.checkTankCapacity).not.toHaveBeenCalled();
+    });
+
+    it('should check tank capacity once the pair passes the kinship check', async () => {
+      // Arrange
+      vi.mocked(buildFishKinship).mockResolvedValue({
+        fish_id: 1,
+        other_fish_id: 2,
+        relationship_coefficient: 0,
+        inbreeding_coefficient: 0,
+        common_ancestor_ids: [],
+        can_breed: true,
+      });
+      vi.mocked(TankService.prototype.getFirstTankIdByOwner).mockResolvedValue(10);
+      vi.mocked(TankService.prototype.checkTankCapacity).mockRejectedValueOnce(
+        new ConflictError('Tank 10 is at capacity (10/10). Cannot add 1 more fish.')
+      );
+
+      // Act & Assert
+      await expect(service.breedFish(1, 2, owner)).rejects.toThrow(ConflictError);
+      expect(buildFishKinship).toHaveBeenCalledWith(1, 2, expect.any(Number));
+    });
+
+    describe('saving the offspring', () => {
+      beforeEach(() => {
+        vi.mocked(buildFishKinship).mockResolvedValue({
+          fish_id: 1,
+          other_fish_id: 2,
+          relationship_coefficient: 0,
+          inbreeding_coefficient: 0,
+          common_ancestor_ids: [],
+          can_breed: true,
+        });
+        vi.mocked(TankService.prototype.getFirstTankIdByOwner).mockResolvedValue(10);
+        vi.mocked(TankService.prototype.checkTankCapacity).mockResolvedValue(undefined as never);
+        (dojoClient as any).breedFish = vi.fn().mockResolvedValue({ tx_hash: '0xbreedTx', fish_id: 3, dna: '0x1' });
+        vi.spyOn(service, 'getFishById').mockImplementation(async (id: number) => ({
+          id,
+          owner,
+          species: 'Goldfish',
+          imageUrl: '/images/fish/goldfish.png',
+          state: FishState.Adult,
+          isReadyToBreed: true,
+        }) as any);
+      });
+
+      it('should save the fish and the player statistics in one call', async () => {
+        // Arrange
+        mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+
+        // Act
+        const offspring = await service.breedFish(1, 2, owner);
+
+        // Assert
+        expect(offspring.id).toBe(3);
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('save_bred_fish', {
+          p_fish_id: 3,
+          p_owner: owner,
+          p_species: 'Goldfish',
+          p_image_url: '/images/fish/goldfish.png',
+          p_parent1_id: 1,
+          p_parent2_id: 2,
+          p_tank_id: 10,
+        });
+        expect(LedgerService.prototype.rewardBreeding).toHaveBeenCalledWith(owner, 3, '0xbreedTx');
+      });
+
+      it('should throw NotFoundError when the owner has no player row', async () => {
+        // Arrange
+        mockSupabase.rpc = vi.fn().mockResolvedValue({
+          data: null,
+          error: { code: 'P0002', message: 'save_bred_fish: player not found' },
+        });
+
+        // Act & Assert
+        await expect(service.breedFish(1, 2, owner)).rejects.toThrow(NotFoundError);
+        expect(LedgerService.prototype.rewardBreeding).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('getFishById', () => {
+    it('should include the traits decoded from the on-chain DNA', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: 1,
+            owner: '0xabc',
+            species: 'Goldfish',
+            image_url: 'https://example.com/fish.png',
+            sprite_url: null,
+            created_at: '2026-01-01T00:00:00Z',
+          },
+          error: null,
+        }),
+      });
+      dojoClient.getFishOnChain.mockResolvedValue({
+        id: 1,
+        xp: 0,
+        state: 'Baby',
+        hunger: 0,
+        lastFedAt: null,
+        isReadyToBreed: false,
+        dna: '0x0f0e03020101fffe0303000000000000',
+      });
+
+      // Act
+      const fish = await service.getFishById(1);
+
+      // Assert
+      expect(fish.dna).toBe('0x0f0e03020101fffe0303000000000000');
+      expect(fish.traits.color).toBe(FishColor.Black);
+      expect(fish.traits.rarity).toBe(FishRarity.Legendary);
+    });
+
+    it('should throw ValidationError, not OnChainError, when the on-chain DNA cannot be decoded', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: 1,
+            owner: '0xabc',
+            species: 'Goldfish',
+            image_url: 'https://example.com/fish.png',
+            sprite_url: null,
+            created_at: '2026-01-01T00:00:00Z',
+          },
+          error: null,
+        }),
+      });
+      dojoClient.getFishOnChain.mockResolvedValue({
+        id: 1,
+        xp: 0,
+        state: 'Baby',
+        hunger: 0,
+        lastFedAt: null,
+        isReadyToBreed: false,
+        dna: 'not-a-dna',
+      });
+
+      // Act & Assert
+      const result = service.getFishById(1);
+      await expect(result).rejects.toThrow(ValidationError);
+      await expect(result).rejects.toThrow('Invalid DNA: not-a-dna');
+    });
+  });
+});
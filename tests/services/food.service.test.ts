@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Tests for Food Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+}));
+
+// Now import after mocks
+import { FoodService } from '@/services/food.service';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { InMemoryCurrencyLedger, setCurrencyLedger } from '@/core/utils/currency-ledger';
+import { MAX_FOOD_PURCHASE_QUANTITY } from '@/core/config';
+import { FoodType } from '@/models/food.model';
+
+describe('FoodService', () => {
+  let service: FoodService;
+  let mockSupabase: any;
+
+  const address = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+  const createStockQuery = (quantity: number | null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue(
+      quantity === null
+        ? { data: null, error: { code: 'PGRST116' } }
+        : { data: { quantity }, error: null }
+    ),
+  });
+
+  beforeEach(() => {
+    service = new FoodService();
+    vi.clearAllMocks();
+
+    mockSupabase = {
+      from: vi.fn(),
+    };
+
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+  });
+
+  describe('getInventory', () => {
+    it('should list every catalog food with the player stock', async () => {
+      // Arrange
+      const playerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { address }, error: null }),
+      };
+      const inventoryQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({
+          data: [{ food_type: 'Premium', quantity: 4 }],
+          error: null,
+        }),
+      };
+      mockSupabase.from.mockReturnValueOnce(playerQuery).mockReturnValueOnce(inventoryQuery);
+
+      // Act
+      const result = await service.getInventory(address);
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenCalledWith('player_food_inventory');
+      expect(result.address).toBe(address);
+      expect(result.food.map((item) => [item.type, item.quantity])).toEqual([
+        [FoodType.Basic, null],
+        [FoodType.Premium, 4],
+        [FoodType.Special, 0],
+      ]);
+      expect(result.food[1]).toMatchObject({ base_xp: 20, hunger_reduction: 60, unlimited: false });
+    });
+
+    it('should throw NotFoundError when player does not exist', async () => {
+      // Arrange
+      const playerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      };
+      mockSupabase.from.mockReturnValueOnce(playerQuery);
+
+      // Act & Assert
+      await expect(service.getInventory(address)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError for invalid address', async () => {
+      // Act & Assert
+      await expect(service.getInventory('invalid-address')).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purchaseFood', () => {
+    let ledger: InMemoryCurrencyLedger;
+
+    const createPlayerQuery = () => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: { address }, error: null }),
+    });
+
+    const createInventoryQuery = (stock: { food_type: string; quantity: number }[]) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ data: stock, error: null }),
+    });
+
+    beforeEach(() => {
+      ledger = new InMemoryCurrencyLedger(100);
+      setCurrencyLedger(ledger);
+    });
+
+    afterEach(() => {
+      setCurrencyLedger(null);
+    });
+
+    it('should charge the catalog price and add the food to the inventory', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createPlayerQuery())
+        .mockReturnValueOnce(createPlayerQuery())
+        .mockReturnValueOnce(createInventoryQuery([{ food_type: 'Premium', quantity: 3 }]));
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: 3, error: null });
+
+      // Act
+      const result = await service.purchaseFood(address, FoodType.Premium, 3);
+
+      // Assert
+      expect(await ledger.getBalance(address)).toBe(40);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('add_food', {
+        p_player_address: address,
+        p_food_type: FoodType.Premium,
+        p_quantity: 3,
+      });
+      expect(result.food[1]).toMatchObject({ type: FoodType.Premium, price: 20, quantity: 3 });
+      const { entries } = await ledger.getHistory(address, 1, 10);
+      expect(entries[0]).toMatchObject({ type: 'food_purchase', amount: -60 });
+    });
+
+    it('should throw ConflictError and leave the inventory alone when the player cannot afford it', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery());
+      mockSupabase.rpc = vi.fn();
+
+      // Act & Assert
+      await expect(service.purchaseFood(address, FoodType.Special, 3)).rejects.toThrow(ConflictError);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(await ledger.getBalance(address)).toBe(100);
+    });
+
+    it('should refund the coins when the inventory update fails', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery());
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+
+      // Act & Assert
+      await expect(service.purchaseFood(address, FoodType.Special, 2)).rejects.toThrow(
+        'Database error when adding food: connection lost'
+      );
+      expect(await ledger.getBalance(address)).toBe(100);
+      const { entries } = await ledger.getHistory(address, 1, 10);
+      expect(entries.map((entry) => entry.type)).toEqual(['food_refund', 'food_purchase']);
+    });
+
+    it('should not sell unlimited food', async () => {
+      // Act & Assert
+      await expect(service.purchaseFood(address, FoodType.Basic, 1)).rejects.toThrow(
+        'Basic food is unlimited and can\'t be bought'
+      );
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError for invalid food types and quantities', async () => {
+      // Act & Assert
+      await expect(service.purchaseFood(address, 'Caviar' as FoodType, 1)).rejects.toThrow(ValidationError);
+      await expect(service.purchaseFood(address, FoodType.Premium, 0)).rejects.toThrow(ValidationError);
+      await expect(
+        service.purchaseFood(address, FoodType.Premium, MAX_FOOD_PURCHASE_QUANTITY + 1)
+      ).rejects.toThrow(`Cannot buy more than ${MAX_FOOD_PURCHASE_QUANTITY} food items at once`);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeFood', () => {
+    it('should not touch the inventory for unlimited food', async () => {
+      // Act
+      await service.consumeFood(address, FoodType.Basic, 3);
+
+      // Assert
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should decrement stock guarded by the quantity that was read', async () => {
+      // Arrange
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { quantity: 2 }, error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(createStockQuery(5)).mockReturnValueOnce(updateQuery);
+
+      // Act
+      await service.consumeFood(address, FoodType.Premium, 3);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ quantity: 2 });
+      expect(updateQuery.eq).toHaveBeenCalledWith('quantity', 5);
+    });
+
+    it('should throw ConflictError when stock is insufficient', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createStockQuery(null));
+
+      // Act
+      const error = await service.consumeFood(address, FoodType.Special, 1).catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toBe('Not enough Special food: 0 available, 1 required');
+    });
+
+    it('should throw ConflictError when stock changed concurrently', async () => {
+      // Arrange
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      };
+      mockSupabase.from.mockReturnValueOnce(createStockQuery(5)).mockReturnValueOnce(updateQuery);
+
+      // Act & Assert
+      await expect(service.consumeFood(address, FoodType.Premium, 1)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw ValidationError for invalid quantity', async () => {
+      // Act & Assert
+      await expect(service.consumeFood(address, FoodType.Premium, 0)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('addFood', () => {
+    it('should add to the stock with a single atomic upsert', async () => {
+      // Arrange
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: 5, error: null });
+
+      // Act
+      await service.addFood(address, FoodType.Premium, 3);
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('add_food', {
+        p_player_address: address,
+        p_food_type: FoodType.Premium,
+        p_quantity: 3,
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should not store unlimited food', async () => {
+      // Arrange
+      mockSupabase.rpc = vi.fn();
+
+      // Act
+      await service.addFood(address, FoodType.Basic, 3);
+
+      // Assert
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should throw on database errors', async () => {
+      // Arrange
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: { code: '23503', message: 'player not found' } });
+
+      // Act & Assert
+      await expect(service.addFood(address, FoodType.Special, 2)).rejects.toThrow(
+        'Database error when adding food: player not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Tests for Ledger Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+// Now import after mocks
+import { LedgerService } from '@/services/ledger.service';
+import { ValidationError, NotFoundError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { InMemoryCurrencyLedger, setCurrencyLedger } from '@/core/utils/currency-ledger';
+import {
+  STARTING_COIN_BALANCE,
+  FEED_COIN_REWARD,
+  BREED_COIN_REWARD,
+  TOURNAMENT_WIN_COIN_REWARD,
+} from '@/core/config';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let ledger: InMemoryCurrencyLedger;
+  let mockSupabase: any;
+
+  const owner = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+  const createPlayerQuery = (exists: boolean) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue(
+      exists
+        ? { data: { address: owner }, error: null }
+        : { data: null, error: { code: 'PGRST116', message: 'not found' } }
+    ),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new LedgerService();
+    ledger = new InMemoryCurrencyLedger();
+    setCurrencyLedger(ledger);
+
+    mockSupabase = {
+      from: vi.fn(() => createPlayerQuery(true)),
+    };
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+  });
+
+  afterEach(() => {
+    setCurrencyLedger(null);
+  });
+
+  describe('getBalance', () => {
+    it('should return the player balance', async () => {
+      await ledger.credit(owner, 40, { type: 'feed_reward', idempotencyKey: 'k1' });
+
+      const result = await service.getBalance(owner);
+
+      expect(result).toEqual({ address: owner, balance: 40 });
+    });
+
+    it('should throw ValidationError for an invalid address', async () => {
+      await expect(service.getBalance('0x123')).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw NotFoundError when the player does not exist', async () => {
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(false));
+
+      await expect(service.getBalance(owner)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getTransactionHistory', () => {
+    it('should return a page of entries', async () => {
+      await ledger.credit(owner, 40, { type: 'feed_reward', idempotencyKey: 'k1' });
+      await ledger.debit(owner, 10, { type: 'decoration_purchase', idempotencyKey: 'k2' });
+
+      const result = await service.getTransactionHistory(owner, 1, 1);
+
+      expect(result.address).toBe(owner);
+      expect(result.total).toBe(2);
+      expect(result.page).toBe(1);
+      expect(result.limit).toBe(1);
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0]).toMatchObject({ type: 'decoration_purchase', amount: -10, balance_after: 30 });
+    });
+
+    it('should reject invalid pagination', async () => {
+      await expect(service.getTransactionHistory(owner, 0)).rejects.toThrow('Page must be a positive integer');
+      await expect(service.getTransactionHistory(owner, 1, 101)).rejects.toThrow(
+        'Limit must be an integer between 1 and 100'
+      );
+    });
+  });
+
+  describe('rewards', () => {
+    it('should grant the starting balance only once', async () => {
+      await service.grantStartingBalance(owner);
+      await service.grantStartingBalance(owner);
+
+      expect(await ledger.getBalance(owner)).toBe(STARTING_COIN_BALANCE);
+    });
+
+    it('should reward feeding per fish once per transaction', async () => {
+      await service.rewardFeeding(owner, 3, '0xfeed');
+      await service.rewardFeeding(owner, 3, '0xfeed');
+
+      expect(await ledger.getBalance(owner)).toBe(FEED_COIN_REWARD * 3);
+    });
+
+    it('should reward breeding once per transaction', async () => {
+      await service.rewardBreeding(owner, 7, '0xbreed1');
+      await service.rewardBreeding(owner, 7, '0xbreed1');
+      await service.rewardBreeding(owner, 8, '0xbreed2');
+
+      expect(await ledger.getBalance(owner)).toBe(BREED_COIN_REWARD * 2);
+    });
+
+    it('should reward a tournament win once per tournament', async () => {
+      await service.rewardTournamentWin(owner, 'spring-cup');
+      const result = await service.rewardTournamentWin(owner, 'spring-cup');
+
+      expect(result).toEqual({ address: owner, balance: TOURNAMENT_WIN_COIN_REWARD });
+
+      const history = await service.getTransactionHistory(owner);
+      expect(history.entries).toHaveLength(1);
+      expect(history.entries[0]).toMatchObject({
+        type: 'tournament_reward',
+        idempotency_key: `tournament_reward:spring-cup:${owner}`,
+      });
+    });
+
+    it('should require a tournament ID', async () => {
+      await expect(service.rewardTournamentWin(owner, ' ')).rejects.toThrow('Tournament ID is required');
+    });
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * @fileoverview Tests for Marketplace Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/dojo-client', () => ({
+  getDojoClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+}));
+
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+  SyncService.prototype.addToSyncQueue = vi.fn();
+  return { SyncService };
+});
+
+vi.mock('@/services/fish.service', () => {
+  const FishService = vi.fn(function () {});
+  FishService.prototype.getFishById = vi.fn();
+  return { FishService };
+});
+
+vi.mock('@/services/decoration.service', () => {
+  const DecorationService = vi.fn(function () {});
+  DecorationService.prototype.getDecorationById = vi.fn();
+  return { DecorationService };
+});
+
+// Now import after mocks
+import { MarketplaceService } from '@/services/marketplace.service';
+import { ValidationError, NotFoundError, ConflictError, OnChainError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import type { DojoClient } from '@/core/types';
+import {
+  InMemoryCurrencyLedger,
+  setCurrencyLedger,
+  SYSTEM_MARKETPLACE_ACCOUNT,
+} from '@/core/utils/currency-ledger';
+import { SyncService } from '@/services/sync.service';
+import { FishService } from '@/services/fish.service';
+import { DecorationService } from '@/services/decoration.service';
+
+const dojoClient = {
+  transferFish: vi.fn(),
+  transferDecoration: vi.fn(),
+};
+
+describe('MarketplaceService', () => {
+  let service: MarketplaceService;
+  let mockSupabase: any;
+  let ledger: InMemoryCurrencyLedger;
+
+  const seller = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+  const buyer = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+
+  const listingRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    seller,
+    asset_type: 'fish',
+    asset_id: 7,
+    price: 100,
+    status: 'active',
+    buyer: null,
+    created_at: '2026-10-19T10:00:00Z',
+    updated_at: '2026-10-19T10:00:00Z',
+    closed_at: null,
+    ...overrides,
+  });
+
+  const createSingleQuery = (result: { data: unknown; error: unknown }) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue(result),
+  });
+
+  const createPlayerQuery = (exists: boolean) =>
+    createSingleQuery(
+      exists
+        ? { data: { address: buyer }, error: null }
+        : { data: null, error: { code: 'PGRST116', message: 'not found' } }
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new MarketplaceService(dojoClient as unknown as DojoClient);
+    ledger = new InMemoryCurrencyLedger();
+    setCurrencyLedger(ledger);
+
+    mockSupabase = {
+      from: vi.fn(),
+      rpc: vi.fn(),
+    };
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+  });
+
+  afterEach(() => {
+    setCurrencyLedger(null);
+  });
+
+  describe('createListing', () => {
+    const createInsertQuery = (result: { data: unknown; error: unknown }) => ({
+      insert: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(result),
+    });
+
+    it('should list an owned fish', async () => {
+      vi.mocked(FishService.prototype.getFishById).mockResolvedValue({
+        id: 7,
+        owner: seller,
+        state: 'Adult',
+        isReadyToBreed: true,
+      } as any);
+      const insertQuery = createInsertQuery({ data: listingRow(), error: null });
+      mockSupabase.from.mockReturnValueOnce(insertQuery);
+
+      const result = await service.createListing(seller, { asset_type: 'fish', asset_id: 7, price: 100 });
+
+      expect(result.id).toBe(1);
+      expect(result.status).toBe('active');
+      expect(insertQuery.insert).toHaveBeenCalledWith({
+        seller,
+        asset_type: 'fish',
+        asset_id: 7,
+        price: 100,
+      });
+    });
+
+    it('should reject fish in breeding cooldown', async () => {
+      vi.mocked(FishService.prototype.getFishById).mockResolvedValue({
+        id: 7,
+        owner: seller,
+        state: 'Adult',
+        isReadyToBreed: false,
+      } as any);
+
+      await expect(
+        service.createListing(seller, { asset_type: 'fish', asset_id: 7, price: 100 })
+      ).rejects.toThrow('Fish with ID 7 is in breeding cooldown and can\'t be listed');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should reject assets owned by someone else', async () => {
+      vi.mocked(DecorationService.prototype.getDecorationById).mockResolvedValue({
+        id: 3,
+        owner: buyer,
+      } as any);
+
+      await expect(
+        service.createListing(seller, { asset_type: 'decoration', asset_id: 3, price: 50 })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject assets that are already listed', async () => {
+      vi.mocked(DecorationService.prototype.getDecorationById).mockResolvedValue({
+        id: 3,
+        owner: seller,
+      } as any);
+      mockSupabase.from.mockReturnValueOnce(
+        createInsertQuery({ data: null, error: { code: '23505', message: 'duplicate key' } })
+      );
+
+      await expect(
+        service.createListing(seller, { asset_type: 'decoration', asset_id: 3, price: 50 })
+      ).rejects.toThrow('Decoration with ID 3 is already listed');
+    });
+
+    it('should reject invalid prices and asset types', async () => {
+      await expect(
+        service.createListing(seller, { asset_type: 'fish', asset_id: 7, price: 0 })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.createListing(seller, { asset_type: 'tank' as any, asset_id: 7, price: 10 })
+      ).rejects.toThrow('Invalid asset type: tank');
+    });
+  });
+
+  describe('cancelListing', () => {
+    it('should cancel an active listing of the seller', async () => {
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockResolvedValue({
+          data: [listingRow({ status: 'cancelled', closed_at: '2026-10-19T11:00:00Z' })],
+          error: null,
+        }),
+      };
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }))
+        .mockReturnValueOnce(updateQuery);
+
+      const result = await service.cancelListing(1, seller);
+
+      expect(result.status).toBe('cancelled');
+      expect(result.closed_at).toEqual(new Date('2026-10-19T11:00:00Z'));
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'active');
+    });
+
+    it('should reject cancelling another player\'s listing', async () => {
+      mockSupabase.from.mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }));
+
+      await expect(service.cancelListing(1, buyer)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject cancelling a sold listing', async () => {
+      mockSupabase.from.mockReturnValueOnce(
+        createSingleQuery({ data: listingRow({ status: 'sold', buyer }), error: null })
+      );
+
+      await expect(service.cancelListing(1, seller)).rejects.toThrow('Listing with ID 1 is already sold');
+    });
+  });
+
+  describe('buyListing', () => {
+    beforeEach(async () => {
+      await ledger.credit(buyer, 150, { type: 'starting_grant', idempotencyKey: `starting_grant:${buyer}` });
+      dojoClient.transferFish.mockResolvedValue('0xtransferTx');
+      dojoClient.transferDecoration.mockResolvedValue('0xtransferTx');
+    });
+
+    const createReserveQuery = (reserved: boolean) => ({
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      select: vi.fn().mockResolvedValue({
+        data: reserved ? [listingRow({ status: 'reserved', buyer })] : [],
+        error: null,
+      }),
+    });
+
+    const createReleaseQuery = () => {
+      const query: any = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+      };
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: null, error: null });
+      return query;
+    };
+
+    it('should pay the seller, transfer the fish and complete the sale', async () => {
+      const reserveQuery = createReserveQuery(true);
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null })) // Listing
+        .mockReturnValueOnce(createPlayerQuery(true)) // Buyer
+        .mockReturnValueOnce(reserveQuery) // Reservation
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow({ status: 'sold', buyer }), error: null })); // Re-fetch
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: null });
+
+      const result = await service.buyListing(1, buyer);
+
+      expect(result.status).toBe('sold');
+      expect(result.buyer).toBe(buyer);
+      expect(reserveQuery.update).toHaveBeenCalledWith({ status: 'reserved', buyer });
+      expect(reserveQuery.eq).toHaveBeenCalledWith('status', 'active');
+      expect(dojoClient.transferFish).toHaveBeenCalledWith(7, seller, buyer);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('complete_listing_sale', { p_listing_id: 1, p_buyer: buyer });
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xtransferTx',
+        'fish',
+        '7',
+        'transfer_fish',
+        undefined
+      );
+
+      expect(await ledger.getBalance(buyer)).toBe(50);
+      expect(await ledger.getBalance(seller)).toBe(100);
+      expect(await ledger.getBalance(SYSTEM_MARKETPLACE_ACCOUNT)).toBe(0);
+    });
+
+    it('should transfer decorations with transferDecoration', async () => {
+      const decorationListing = listingRow({ asset_type: 'decoration', asset_id: 3 });
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: decorationListing, error: null }))
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(createReserveQuery(true))
+        .mockReturnValueOnce(createSingleQuery({ data: { ...decorationListing, status: 'sold', buyer }, error: null }));
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: null });
+
+      await service.buyListing(1, buyer);
+
+      expect(dojoClient.transferDecoration).toHaveBeenCalledWith(3, seller, buyer);
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xtransferTx',
+        'decoration',
+        '3',
+        'transfer_decoration',
+        undefined
+      );
+    });
+
+    it('should not take payment when the listing was reserved by another buyer', async () => {
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }))
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(createReserveQuery(false));
+
+      await expect(service.buyListing(1, buyer)).rejects.toThrow('Listing with ID 1 is no longer available');
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+      expect(await ledger.getBalance(buyer)).toBe(150);
+    });
+
+    it('should reject buying when the buyer cannot afford it', async () => {
+      const releaseQuery = createReleaseQuery();
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow({ price: 500 }), error: null }))
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(createReserveQuery(true))
+        .mockReturnValueOnce(releaseQuery);
+
+      await expect(service.buyListing(1, buyer)).rejects.toThrow(ConflictError);
+      expect(dojoClient.transferFish).not.toHaveBeenCalled();
+      expect(releaseQuery.update).toHaveBeenCalledWith({ status: 'active', buyer: null });
+      expect(releaseQuery.eq).toHaveBeenCalledWith('buyer', buyer);
+      expect(await ledger.getBalance(buyer)).toBe(150);
+    });
+
+    it('should refund the buyer and release the listing when the on-chain transfer fails', async () => {
+      const releaseQuery = createReleaseQuery();
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }))
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(createReserveQuery(true))
+        .mockReturnValueOnce(releaseQuery);
+      dojoClient.transferFish.mockRejectedValue(new Error('RPC down'));
+
+      await expect(service.buyListing(1, buyer)).rejects.toThrow(OnChainError);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(releaseQuery.update).toHaveBeenCalledWith({ status: 'active', buyer: null });
+      expect(await ledger.getBalance(buyer)).toBe(150);
+      expect(await ledger.getBalance(seller)).toBe(0);
+    });
+
+    it('should keep the payment in escrow and flag the sale when completing it fails after the transfer', async () => {
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }))
+        .mockReturnValueOnce(createPlayerQuery(true))
+        .mockReturnValueOnce(createReserveQuery(true));
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { code: '55000', message: 'fish 7 is no longer owned by the seller' },
+      });
+
+      const error = await service.buyListing(1, buyer).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).not.toBeInstanceOf(ConflictError);
+      expect((error as Error).message).toContain('was transferred on-chain (tx: 0xtransferTx)');
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xtransferTx',
+        'fish',
+        '7',
+        'transfer_fish',
+        expect.stringContaining('complete_listing_sale failed')
+      );
+      expect(mockSupabase.from).toHaveBeenCalledTimes(3); // No reservation release
+      expect(await ledger.getBalance(buyer)).toBe(50);
+      expect(await ledger.getBalance(SYSTEM_MARKETPLACE_ACCOUNT)).toBe(100);
+      expect(await ledger.getBalance(seller)).toBe(0);
+    });
+
+    it('should reject buying your own listing', async () => {
+      mockSupabase.from.mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }));
+
+      await expect(service.buyListing(1, seller)).rejects.toThrow('Cannot buy your own listing');
+    });
+
+    it('should reject buying an inactive listing', async () => {
+      mockSupabase.from.mockReturnValueOnce(
+        createSingleQuery({ data: listingRow({ status: 'cancelled' }), error: null })
+      );
+
+      await expect(service.buyListing(1, buyer)).rejects.toThrow('Listing with ID 1 is already cancelled');
+    });
+
+    it('should throw NotFoundError when the buyer does not exist', async () => {
+      mockSupabase.from
+        .mockReturnValueOnce(createSingleQuery({ data: listingRow(), error: null }))
+        .mockReturnValueOnce(createPlayerQuery(false));
+
+      await expect(service.buyListing(1, buyer)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('listListings', () => {
+    it('should return active listings by default', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        range: vi.fn().mockResolvedValue({ data: [listingRow()], error: null, count: 1 }),
+      };
+      mockSupabase.from.mockReturnValueOnce(query);
+
+      const result = await service.listListings({ asset_type: 'fish' });
+
+      expect(result.total).toBe(1);
+      expect(result.items[0]?.asset_id).toBe(7);
+      expect(query.eq).toHaveBeenCalledWith('status', 'active');
+      expect(query.eq).toHaveBeenCalledWith('asset_type', 'fish');
+      expect(query.range).toHaveBeenCalledWith(0, 19);
+    });
+
+    it('should reject an invalid status', async () => {
+      await expect(service.listListings({ status: 'open' as any })).rejects.toThrow('Invalid status: open');
+    });
+  });
+});
@@ -10,9 +10,7 @@ vi.mock('@/core/utils/supabase-client', () => ({
 }));
 
 vi.mock('@/core/utils/dojo-client', () => ({
-  registerPlayer: vi.fn(),
-  mintTank: vi.fn(),
-  mintFish: vi.fn(),
+  getDojoClient: vi.fn(),
   generateRandomDna: vi.fn(),
 }));
 
@@ -44,11 +42,26 @@ vi.mock('@/services/decoration.service', () => {
   return { DecorationService };
 });
 
+vi.mock('@/services/ledger.service', () => {
+  const LedgerService = vi.fn(function () {});
+  LedgerService.prototype.grantStartingBalance = vi.fn();
+  return { LedgerService };
+});
+
 // Now import after mocks
 import { PlayerService } from '@/services/player.service';
 import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
-import { registerPlayer as registerPlayerOnChain, mintTank, mintFish, generateRandomDna } from '@/core/utils/dojo-client';
+import { LedgerService } from '@/services/ledger.service';
+import { SyncService } from '@/services/sync.service';
+import { generateRandomDna } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+
+const dojoClient = {
+  registerPlayer: vi.fn(),
+  mintTank: vi.fn(),
+  mintFish: vi.fn(),
+};
 
 describe('PlayerService', () => {
   let service: PlayerService;
@@ -58,7 +71,7 @@ describe('PlayerService', () => {
   const validAddress = owner;
 
   beforeEach(() => {
-    service = new PlayerService();
+    service = new PlayerService(dojoClient as unknown as DojoClient);
     vi.clearAllMocks();
 
     // Setup default Supabase mock
@@ -118,9 +131,9 @@ describe('PlayerService', () => {
         .mockReturnValueOnce(selectQuery) // Check if player exists
         .mockReturnValueOnce(insertQuery); // Insert new player
 
-      vi.mocked(registerPlayerOnChain).mockResolvedValue('0xtxhash123');
-      vi.mocked(mintTank).mockResolvedValue({ tank_id: 1, tx_hash: '0xtankTx' });
-      vi.mocked(mintFish)
+      dojoClient.registerPlayer.mockResolvedValue('0xtxhash123');
+      dojoClient.mintTank.mockResolvedValue({ tank_id: 1, tx_hash: '0xtankTx' });
+      dojoClient.mintFish
         .mockResolvedValueOnce({ fish_id: 1, tx_hash: '0xfish1Tx' })
         .mockResolvedValueOnce({ fish_id: 2, tx_hash: '0xfish2Tx' });
       vi.mocked(generateRandomDna).mockReturnValue('0xdna123');
@@ -144,31 +157,6 @@ describe('PlayerService', () => {
         }),
       };
 
-      const tankInsertQuery = {
-        insert: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ id: 1, owner: validAddress, name: 'Starter Tank' }],
-          error: null,
-        }),
-      };
-
-      const fishInsertQuery = {
-        insert: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ id: 1 }, { id: 2 }],
-          error: null,
-        }),
-      };
-
-      const playerUpdateQuery = {
-        update: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ fish_count: 2 }],
-          error: null,
-        }),
-      };
-
       // Mock the re-fetch after starter pack
       const reFetchQuery = {
         select: vi.fn().mockReturnThis(),
@@ -194,11 +182,8 @@ describe('PlayerService', () => {
         .mockReturnValueOnce(insertQuery) // Insert player
         .mockReturnValueOnce(tankSelectQuery) // Check tanks
         .mockReturnValueOnce(fishCountQuery) // Check fish count
-        .mockReturnValueOnce(tankInsertQuery) // Insert tank
-        .mockReturnValueOnce(fishInsertQuery) // Insert fish 1
-        .mockReturnValueOnce(fishInsertQuery) // Insert fish 2
-        .mockReturnValueOnce(playerUpdateQuery) // Update player
         .mockReturnValueOnce(reFetchQuery); // Re-fetch player
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: null }); // Save starter pack
 
       // Act
       const result = await service.registerPlayer(validAddress);
@@ -209,7 +194,8 @@ describe('PlayerService', () => {
       // But if starter pack fails, it returns createdPlayer with fish_count: 0
       // Since we're mocking the starter pack to succeed, we expect 2
       expect(result.fish_count).toBeGreaterThanOrEqual(0);
-      expect(registerPlayerOnChain).toHaveBeenCalledWith(validAddress);
+      expect(dojoClient.registerPlayer).toHaveBeenCalledWith(validAddress);
+      expect(LedgerService.prototype.grantStartingBalance).toHaveBeenCalledWith(validAddress);
     });
 
     it('should return existing player if already registered', async () => {
@@ -243,7 +229,8 @@ describe('PlayerService', () => {
       // Assert
       expect(result.address).toBe(validAddress);
       expect(result.fish_count).toBe(5);
-      expect(registerPlayerOnChain).not.toHaveBeenCalled();
+      expect(dojoClient.registerPlayer).not.toHaveBeenCalled();
+      expect(LedgerService.prototype.grantStartingBalance).not.toHaveBeenCalled();
     });
 
     it('should throw ValidationError for invalid address', async () => {
@@ -286,7 +273,7 @@ describe('PlayerService', () => {
         .mockReturnValueOnce(selectQuery)
         .mockReturnValueOnce(insertQuery);
 
-      vi.mocked(registerPlayerOnChain).mockRejectedValue(new Error('On-chain error'));
+      dojoClient.registerPlayer.mockRejectedValue(new Error('On-chain error'));
 
       // Act & Assert
       await expect(service.registerPlayer(validAddress)).rejects.toThrow(OnChainError);
@@ -323,42 +310,14 @@ describe('PlayerService', () => {
         }),
       };
 
-      const tankInsertQuery = {
-        insert: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ id: 1, owner: validAddress, name: 'Starter Tank' }],
-          error: null,
-        }),
-      };
-
-      const fishInsertQuery = {
-        insert: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ id: 1 }, { id: 2 }],
-          error: null,
-        }),
-      };
-
-      const playerUpdateQuery = {
-        update: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        select: vi.fn().mockResolvedValue({
-          data: [{ fish_count: 2 }],
-          error: null,
-        }),
-      };
-
       mockSupabase.from
         .mockReturnValueOnce(playerQuery)
         .mockReturnValueOnce(tankCheckQuery)
-        .mockReturnValueOnce(fishCountQuery)
-        .mockReturnValueOnce(tankInsertQuery)
-        .mockReturnValueOnce(fishInsertQuery)
-        .mockReturnValueOnce(fishInsertQuery)
-        .mockReturnValueOnce(playerUpdateQuery);
-
-      vi.mocked(mintTank).mockResolvedValue({ tank_id: 1, tx_hash: '0xtankTx' });
-      vi.mocked(mintFish)
+        .mockReturnValueOnce(fishCountQuery);
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+
+      dojoClient.mintTank.mockResolvedValue({ tank_id: 1, tx_hash: '0xtankTx' });
+      dojoClient.mintFish
         .mockResolvedValueOnce({ fish_id: 1, tx_hash: '0xfish1Tx' })
         .mockResolvedValueOnce({ fish_id: 2, tx_hash: '0xfish2Tx' });
       vi.mocked(generateRandomDna).mockReturnValue('0xdna123');
@@ -369,8 +328,57 @@ describe('PlayerService', () => {
       // Assert
       expect(result.tank_id).toBe(1);
       expect(result.fish_ids).toEqual([1, 2]);
-      expect(mintTank).toHaveBeenCalledWith(validAddress, 10);
-      expect(mintFish).toHaveBeenCalledTimes(2);
+      expect(dojoClient.mintTank).toHaveBeenCalledWith(validAddress, 10);
+      expect(dojoClient.mintFish).toHaveBeenCalledTimes(2);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_starter_pack', {
+        p_owner: validAddress,
+        p_tank_id: 1,
+        p_tank_name: 'Starter Tank',
+        p_fish_ids: [1, 2],
+        p_species: 'Starter Fish',
+        p_image_url: '/images/fish/starter-fish.png',
+      });
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledTimes(3);
+    });
+
+    it('should flag the on-chain mints for review when the starter pack cannot be saved', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({ data: { address: validAddress, fish_count: 0 }, error: null }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          limit: vi.fn().mockResolvedValue({ data: [], error: null }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockResolvedValue({ count: 0, error: null }),
+        });
+      mockSupabase.rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { code: '23505', message: 'save_starter_pack: 1 starter pack ID(s) already belong to another owner' },
+      });
+
+      dojoClient.mintTank.mockResolvedValue({ tank_id: 1, tx_hash: '0xtankTx' });
+      dojoClient.mintFish
+        .mockResolvedValueOnce({ fish_id: 1, tx_hash: '0xfish1Tx' })
+        .mockResolvedValueOnce({ fish_id: 2, tx_hash: '0xfish2Tx' });
+
+      // Act & Assert
+      await expect(service.mintStarterPack(validAddress)).rejects.toThrow(
+        /Starter pack minting failed during Supabase save: .*already belong to another owner.*flagged for manual review/
+      );
+      const reviewReason = expect.stringContaining(
+        'was minted but saving it failed: save_starter_pack: 1 starter pack ID(s) already belong to another owner'
+      );
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledTimes(3);
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith('0xtankTx', 'tank', '1', 'mint_tank', reviewReason);
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith('0xfish1Tx', 'fish', '1', 'mint_fish', reviewReason);
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith('0xfish2Tx', 'fish', '2', 'mint_fish', reviewReason);
     });
 
     it('should throw ConflictError when player already has starter pack', async () => {
@@ -440,7 +448,7 @@ describe('PlayerService', () => {
         .mockReturnValueOnce(tankCheckQuery)
         .mockReturnValueOnce(fishCountQuery);
 
-      vi.mocked(mintTank).mockRejectedValue(new Error('On-chain error'));
+      dojoClient.mintTank.mockRejectedValue(new Error('On-chain error'));
 
       // Act & Assert
       await expect(service.mintStarterPack(validAddress)).rejects.toThrow(OnChainError);
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Tests for Sync Compensation Service
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+}));
+
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+}));
+
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+  SyncService.prototype.markCompensated = vi.fn();
+  return { SyncService };
+});
+
+// Now import after mocks
+import { SyncCompensationService } from '@/services/sync-compensation.service';
+import { SyncService, type SyncQueueItem } from '@/services/sync.service';
+import { ValidationError } from '@/core/errors';
+import { getSupabaseClient } from '@/core/utils/supabase-client';
+import { InMemoryCurrencyLedger, setCurrencyLedger } from '@/core/utils/currency-ledger';
+import { logError } from '@/core/utils/logger';
+
+describe('SyncCompensationService', () => {
+  let service: SyncCompensationService;
+  let mockSupabase: any;
+
+  const owner = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+  const createItem = (overrides: Partial<SyncQueueItem> = {}): SyncQueueItem => ({
+    id: 1,
+    tx_hash: '0xabc',
+    entity_type: 'fish',
+    entity_id: '7',
+    operation: 'breed_fish',
+    status: 'failed',
+    retry_count: 3,
+    compensated_at: null,
+    failure_reason: 'rejected',
+    review_reason: null,
+    created_at: new Date('2026-01-01T11:00:00Z'),
+    updated_at: new Date('2026-01-01T12:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SyncCompensationService();
+
+    mockSupabase = {
+      from: vi.fn(),
+      rpc: vi.fn(),
+    };
+
+    vi.mocked(getSupabaseClient).mockReturnValue(mockSupabase);
+    vi.mocked(SyncService.prototype.markCompensated).mockImplementation(async (txHash: string) =>
+      createItem({ tx_hash: txHash, compensated_at: new Date() })
+    );
+  });
+
+  describe('compensate', () => {
+    it('should delete a bred fish and decrement the owner counters', async () => {
+      // Arrange
+      const fetchFishQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: 7, owner }, error: null }),
+      };
+      const deleteFishQuery = {
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      const fetchPlayerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { fish_count: 3, offspring_created: 1 },
+          error: null,
+        }),
+      };
+      const updatePlayerQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+
+      mockSupabase.from
+        .mockReturnValueOnce(fetchFishQuery)
+        .mockReturnValueOnce(deleteFishQuery)
+        .mockReturnValueOnce(fetchPlayerQuery)
+        .mockReturnValueOnce(updatePlayerQuery);
+
+      // Act
+      const result = await service.compensate(createItem());
+
+      // Assert
+      expect(result).toBe(true);
+      expect(deleteFishQuery.eq).toHaveBeenCalledWith('id', 7);
+      expect(updatePlayerQuery.update).toHaveBeenCalledWith({ fish_count: 2, offspring_created: 0 });
+      expect(SyncService.prototype.markCompensated).toHaveBeenCalledWith('0xabc');
+    });
+
+    it('should only flag failed fish XP gains', async () => {
+      // Act
+      const result = await service.compensate(createItem({ operation: 'gain_fish_xp' }));
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(SyncService.prototype.markCompensated).toHaveBeenCalledWith('0xabc');
+    });
+
+    it('should flag failed transfers for review without touching ownership', async () => {
+      // Act
+      const result = await service.compensate(
+        createItem({ entity_type: 'decoration', entity_id: '3', operation: 'transfer_decoration' })
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringContaining('needs manual review'),
+        expect.objectContaining({ operation: 'transfer_decoration' })
+      );
+    });
+
+    it('should unassign fish before deleting a failed tank mint', async () => {
+      // Arrange
+      const unassignQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      const deleteTankQuery = {
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(unassignQuery).mockReturnValueOnce(deleteTankQuery);
+
+      // Act
+      await service.compensate(createItem({ entity_type: 'tank', entity_id: '4', operation: 'mint_tank' }));
+
+      // Assert
+      expect(mockSupabase.from).toHaveBeenNthCalledWith(1, 'fish');
+      expect(unassignQuery.update).toHaveBeenCalledWith({ tank_id: null });
+      expect(unassignQuery.eq).toHaveBeenCalledWith('tank_id', 4);
+      expect(mockSupabase.from).toHaveBeenNthCalledWith(2, 'tanks');
+      expect(deleteTankQuery.eq).toHaveBeenCalledWith('id', 4);
+    });
+
+    it('should revert a failed decoration activation', async () => {
+      // Arrange
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(updateQuery);
+
+      // Act
+      await service.compensate(
+        createItem({ entity_type: 'decoration', entity_id: '2', operation: 'activate_decoration' })
+      );
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ is_active: false });
+      expect(updateQuery.eq).toHaveBeenCalledWith('id', 2);
+    });
+
+    it('should delete a failed decoration purchase and refund its price', async () => {
+      // Arrange
+      const ledger = new InMemoryCurrencyLedger(0);
+      setCurrencyLedger(ledger);
+      const fetchDecorationQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: 2, owner, kind: 'Statue' }, error: null }),
+      };
+      const deleteDecorationQuery = {
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+
+      mockSupabase.from
+        .mockReturnValueOnce(fetchDecorationQuery)
+        .mockReturnValueOnce(deleteDecorationQuery);
+
+      // Act
+      await service.compensate(
+        createItem({ entity_type: 'decoration', entity_id: '2', operation: 'mint_decoration' })
+      );
+
+      // Assert
+      expect(deleteDecorationQuery.eq).toHaveBeenCalledWith('id', 2);
+      expect(await ledger.getBalance(owner)).toBe(300);
+      setCurrencyLedger(null);
+    });
+
+    it('should give back the food and cooldowns of a rejected feed', async () => {
+      // Arrange
+      const feedEventsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({ data: [{ food_type: 'Premium' }], error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(feedEventsQuery);
+      mockSupabase.rpc.mockResolvedValueOnce({ data: 3, error: null });
+
+      // Act
+      const result = await service.compensate(
+        createItem({ entity_type: 'player', entity_id: owner, operation: 'feed_fish', tx_hash: '0xfeed' })
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(feedEventsQuery.eq).toHaveBeenCalledWith('feed_tx_hash', '0xfeed');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('compensate_feed', {
+        p_feed_tx_hash: '0xfeed',
+        p_refund_food: true,
+      });
+      expect(SyncService.prototype.markCompensated).toHaveBeenCalledWith('0xfeed');
+    });
+
+    it('should only give back the cooldowns of a rejected feed with unlimited food', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({ data: [{ food_type: 'Basic' }], error: null }),
+      });
+      mockSupabase.rpc.mockResolvedValueOnce({ data: 2, error: null });
+
+      // Act
+      await service.compensate(
+        createItem({ entity_type: 'player', entity_id: owner, operation: 'feed_fish', tx_hash: '0xfeed' })
+      );
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('compensate_feed', {
+        p_feed_tx_hash: '0xfeed',
+        p_refund_food: false,
+      });
+    });
+
+    it('should not compensate a feed twice', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({ data: [], error: null }),
+      });
+
+      // Act
+      const result = await service.compensate(
+        createItem({ entity_type: 'player', entity_id: owner, operation: 'feed_fish', tx_hash: '0xfeed' })
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should skip entries that were already compensated', async () => {
+      // Act
+      const result = await service.compensate(createItem({ compensated_at: new Date() }));
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(SyncService.prototype.markCompensated).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError for entries that are not failed', async () => {
+      // Act & Assert
+      await expect(service.compensate(createItem({ status: 'pending' }))).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError for entries that timed out', async () => {
+      // Act & Assert
+      await expect(
+        service.compensate(createItem({ failure_reason: 'timed_out', review_reason: 'Not confirmed' }))
+      ).rejects.toThrow('was not rejected on-chain (failure reason: timed_out)');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(SyncService.prototype.markCompensated).not.toHaveBeenCalled();
+    });
+
+    it('should not mark the entry compensated when the handler throws', async () => {
+      // Arrange
+      service.register('fish', vi.fn().mockRejectedValue(new Error('Database unavailable')));
+
+      // Act & Assert
+      await expect(service.compensate(createItem())).rejects.toThrow('Database unavailable');
+      expect(SyncService.prototype.markCompensated).not.toHaveBeenCalled();
+    });
+
+    it('should use handlers registered for an entity type', async () => {
+      // Arrange
+      const handler = vi.fn().mockResolvedValue(undefined);
+      service.register('player', handler);
+      const item = createItem({ entity_type: 'player', entity_id: owner, operation: 'register_player' });
+
+      // Act
+      await service.compensate(item);
+
+      // Assert
+      expect(handler).toHaveBeenCalledWith(item);
+    });
+  });
+});
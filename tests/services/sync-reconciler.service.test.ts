@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Tests for Sync Reconciler Service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock dependencies BEFORE imports
+vi.mock('@/core/utils/logger', () => ({
+  logError: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+}));
+
+vi.mock('@/core/utils/dojo-client', () => ({
+  getDojoClient: vi.fn(),
+}));
+
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+  SyncService.prototype.getPendingSyncs = vi.fn();
+  SyncService.prototype.updateSyncStatus = vi.fn();
+  SyncService.prototype.recordRetry = vi.fn();
+  SyncService.prototype.markFailed = vi.fn();
+  SyncService.prototype.getUncompensatedFailures = vi.fn();
+  return { SyncService };
+});
+
+vi.mock('@/services/sync-compensation.service', () => {
+  const SyncCompensationService = vi.fn(function () {});
+  SyncCompensationService.prototype.compensate = vi.fn();
+  return { SyncCompensationService };
+});
+
+// Now import after mocks
+import { SyncReconcilerService } from '@/services/sync-reconciler.service';
+import { SyncService, type SyncQueueItem } from '@/services/sync.service';
+import { SyncCompensationService } from '@/services/sync-compensation.service';
+import type { DojoClient } from '@/core/types';
+
+const dojoClient = {
+  getTransactionReceipt: vi.fn(),
+};
+
+describe('SyncReconcilerService', () => {
+  let reconciler: SyncReconcilerService;
+
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  const createItem = (overrides: Partial<SyncQueueItem> = {}): SyncQueueItem => ({
+    id: 1,
+    tx_hash: '0xabc',
+    entity_type: 'fish',
+    entity_id: '1',
+    operation: 'mint_fish',
+    status: 'pending',
+    retry_count: 0,
+    compensated_at: null,
+    failure_reason: null,
+    review_reason: null,
+    created_at: new Date('2026-01-01T11:00:00Z'),
+    updated_at: new Date('2026-01-01T11:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(SyncService.prototype.getUncompensatedFailures).mockResolvedValue([]);
+    reconciler = new SyncReconcilerService(
+      { intervalMs: 1000, maxRetries: 3, backoffBaseMs: 1000 },
+      dojoClient as unknown as DojoClient
+    );
+  });
+
+  afterEach(async () => {
+    await reconciler.stop();
+    vi.useRealTimers();
+  });
+
+  describe('reconcileOnce', () => {
+    it('should confirm entries whose transaction was accepted', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([createItem()]);
+      dojoClient.getTransactionReceipt.mockResolvedValue({ tx_hash: '0xabc', status: 'accepted' });
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncService.prototype.updateSyncStatus).toHaveBeenCalledWith('0xabc', 'confirmed');
+      expect(summary).toMatchObject({ checked: 1, confirmed: 1 });
+    });
+
+    it('should fail entries whose transaction was rejected', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([createItem()]);
+      dojoClient.getTransactionReceipt.mockResolvedValue({
+        tx_hash: '0xabc',
+        status: 'rejected',
+        revert_reason: 'Fish not owned',
+      });
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncService.prototype.markFailed).toHaveBeenCalledWith('0xabc', 'rejected');
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should record a retry while the transaction is still pending', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([createItem({ retry_count: 1 })]);
+      dojoClient.getTransactionReceipt.mockResolvedValue({ tx_hash: '0xabc', status: 'pending' });
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncService.prototype.recordRetry).toHaveBeenCalledWith('0xabc');
+      expect(SyncService.prototype.updateSyncStatus).not.toHaveBeenCalled();
+      expect(summary.retried).toBe(1);
+    });
+
+    it('should fail and flag entries for review once the max retry count is reached', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([createItem({ retry_count: 2 })]);
+      dojoClient.getTransactionReceipt.mockResolvedValue({ tx_hash: '0xabc', status: 'not_found' });
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncService.prototype.markFailed).toHaveBeenCalledWith(
+        '0xabc',
+        'timed_out',
+        expect.stringContaining('not confirmed after 3 attempts (last receipt status: not_found)')
+      );
+      expect(SyncService.prototype.recordRetry).not.toHaveBeenCalled();
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should skip entries that are still backing off', async () => {
+      // retry_count 2 → next attempt 4s after the last update
+      const item = createItem({ retry_count: 2, updated_at: new Date(now.getTime() - 3000) });
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([item]);
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(dojoClient.getTransactionReceipt).not.toHaveBeenCalled();
+      expect(summary).toMatchObject({ checked: 0, skipped: 1 });
+      expect(reconciler.getNextAttemptAt(item).getTime()).toBe(now.getTime() + 1000);
+    });
+
+    it('should continue with other entries when one lookup fails', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([
+        createItem({ tx_hash: '0x1' }),
+        createItem({ tx_hash: '0x2' }),
+      ]);
+      dojoClient.getTransactionReceipt
+        .mockRejectedValueOnce(new Error('RPC unavailable'))
+        .mockResolvedValueOnce({ tx_hash: '0x2', status: 'accepted' });
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncService.prototype.updateSyncStatus).toHaveBeenCalledWith('0x2', 'confirmed');
+      expect(summary).toMatchObject({ checked: 2, confirmed: 1 });
+    });
+
+    it('should compensate failed entries that were not compensated yet', async () => {
+      const failedItem = createItem({ tx_hash: '0xfailed', status: 'failed' });
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([]);
+      vi.mocked(SyncService.prototype.getUncompensatedFailures).mockResolvedValue([failedItem]);
+      vi.mocked(SyncCompensationService.prototype.compensate).mockResolvedValue(true);
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncCompensationService.prototype.compensate).toHaveBeenCalledWith(failedItem);
+      expect(summary.compensated).toBe(1);
+    });
+
+    it('should keep going when a compensation fails', async () => {
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([]);
+      vi.mocked(SyncService.prototype.getUncompensatedFailures).mockResolvedValue([
+        createItem({ tx_hash: '0x1', status: 'failed' }),
+        createItem({ tx_hash: '0x2', status: 'failed' }),
+      ]);
+      vi.mocked(SyncCompensationService.prototype.compensate)
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValueOnce(true);
+
+      const summary = await reconciler.reconcileOnce(now);
+
+      expect(SyncCompensationService.prototype.compensate).toHaveBeenCalledTimes(2);
+      expect(summary.compensated).toBe(1);
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should run passes on the configured interval until stopped', async () => {
+      vi.useFakeTimers();
+      vi.mocked(SyncService.prototype.getPendingSyncs).mockResolvedValue([]);
+
+      reconciler.start();
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(SyncService.prototype.getPendingSyncs).toHaveBeenCalledTimes(2);
+
+      await reconciler.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(SyncService.prototype.getPendingSyncs).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -16,7 +16,7 @@ vi.mock('@/core/utils/logger', () => ({
 
 // Now import after mocks
 import { SyncService } from '@/services/sync.service';
-import { ValidationError, NotFoundError } from '@/core/errors';
+import { ValidationError, NotFoundError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
 
 describe('SyncService', () => {
@@ -81,6 +81,38 @@ describe('SyncService', () => {
       expect(result.status).toBe('pending');
     });
 
+    it('should save the review reason of an entry that needs manual review', async () => {
+      // Arrange
+      const reason = 'On-chain transfer succeeded but transfer_fish_ownership failed';
+      const insertQuery = {
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: 1,
+            tx_hash: txHash,
+            entity_type: 'fish',
+            entity_id: '7',
+            operation: 'transfer_fish',
+            status: 'pending',
+            retry_count: 0,
+            review_reason: reason,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+          error: null,
+        }),
+      };
+      mockSupabase.from.mockReturnValueOnce(insertQuery);
+
+      // Act
+      const result = await service.addToSyncQueue(txHash, 'fish', '7', 'transfer_fish', reason);
+
+      // Assert
+      expect(insertQuery.insert).toHaveBeenCalledWith(expect.objectContaining({ review_reason: reason }));
+      expect(result.review_reason).toBe(reason);
+    });
+
     it('should throw ValidationError for empty tx_hash', async () => {
       // Act & Assert
       await expect(service.addToSyncQueue('', entityType, entityId)).rejects.toThrow(ValidationError);
@@ -244,6 +276,213 @@ describe('SyncService', () => {
     });
   });
 
+  describe('recordRetry', () => {
+    it('should increment retry_count and keep status pending', async () => {
+      // Arrange
+      const existingItem = {
+        id: 1,
+        tx_hash: txHash,
+        entity_type: entityType,
+        entity_id: entityId,
+        status: 'pending',
+        retry_count: 1,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      const selectQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: existingItem,
+          error: null,
+        }),
+      };
+
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { ...existingItem, retry_count: 2 },
+          error: null,
+        }),
+      };
+
+      mockSupabase.from
+        .mockReturnValueOnce(selectQuery)
+        .mockReturnValueOnce(updateQuery);
+
+      // Act
+      const result = await service.recordRetry(txHash);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ retry_count: 2 });
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(result.status).toBe('pending');
+      expect(result.retry_count).toBe(2);
+    });
+
+    it('should throw NotFoundError if entry does not exist', async () => {
+      // Arrange
+      const selectQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: null,
+          error: { code: 'PGRST116' },
+        }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(selectQuery);
+
+      // Act & Assert
+      await expect(service.recordRetry(txHash)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('markFailed', () => {
+    const existingItem = {
+      id: 1,
+      tx_hash: txHash,
+      entity_type: entityType,
+      entity_id: entityId,
+      operation: 'mint_fish',
+      status: 'pending',
+      retry_count: 2,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    const createQueries = (updated: Record<string, unknown>) => {
+      const selectQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: existingItem, error: null }),
+      };
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { ...existingItem, ...updated }, error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(selectQuery).mockReturnValueOnce(updateQuery);
+      return updateQuery;
+    };
+
+    it('should mark a rejected entry failed', async () => {
+      // Arrange
+      const updateQuery = createQueries({ status: 'failed', retry_count: 3, failure_reason: 'rejected' });
+
+      // Act
+      const result = await service.markFailed(txHash, 'rejected');
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({
+        status: 'failed',
+        retry_count: 3,
+        failure_reason: 'rejected',
+      });
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(result.failure_reason).toBe('rejected');
+      expect(result.review_reason).toBeNull();
+    });
+
+    it('should flag a timed-out entry for review', async () => {
+      // Arrange
+      const reviewReason = 'Transaction not confirmed after 3 attempts';
+      const updateQuery = createQueries({
+        status: 'failed',
+        retry_count: 3,
+        failure_reason: 'timed_out',
+        review_reason: reviewReason,
+      });
+
+      // Act
+      const result = await service.markFailed(txHash, 'timed_out', reviewReason);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({
+        status: 'failed',
+        retry_count: 3,
+        failure_reason: 'timed_out',
+        review_reason: reviewReason,
+      });
+      expect(result.failure_reason).toBe('timed_out');
+      expect(result.review_reason).toBe(reviewReason);
+    });
+
+    it('should throw NotFoundError if entry does not exist', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      });
+
+      // Act & Assert
+      await expect(service.markFailed(txHash, 'rejected')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('markCompensated', () => {
+    it('should set compensated_at on a failed entry', async () => {
+      // Arrange
+      const compensatedAt = new Date().toISOString();
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: 1,
+            tx_hash: txHash,
+            entity_type: entityType,
+            entity_id: entityId,
+            operation: 'mint_fish',
+            status: 'failed',
+            retry_count: 3,
+            compensated_at: compensatedAt,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+          error: null,
+        }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(updateQuery);
+
+      // Act
+      const result = await service.markCompensated(txHash);
+
+      // Assert
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'failed');
+      expect(updateQuery.is).toHaveBeenCalledWith('compensated_at', null);
+      expect(result?.operation).toBe('mint_fish');
+      expect(result?.compensated_at).toEqual(new Date(compensatedAt));
+    });
+
+    it('should return null if no failed uncompensated entry matches', async () => {
+      // Arrange
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: null,
+          error: { code: 'PGRST116' },
+        }),
+      };
+
+      mockSupabase.from.mockReturnValueOnce(updateQuery);
+
+      // Act & Assert
+      await expect(service.markCompensated(txHash)).resolves.toBeNull();
+    });
+  });
+
   describe('getPendingSyncs', () => {
     it('should return pending sync entries', async () => {
       // Arrange
@@ -369,5 +608,211 @@ describe('SyncService', () => {
       await expect(service.getSyncByTxHash('')).rejects.toThrow(ValidationError);
     });
   });
-});
 
+  describe('listSyncs', () => {
+    const createListQuery = (result: { data: any[] | null; error: any; count: number | null }) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      gte: vi.fn().mockReturnThis(),
+      lte: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      range: vi.fn().mockResolvedValue(result),
+    });
+
+    it('should apply filters and pagination', async () => {
+      // Arrange
+      const listQuery = createListQuery({
+        data: [
+          {
+            id: 3,
+            tx_hash: txHash,
+            entity_type: 'tank',
+            entity_id: '2',
+            operation: 'mint_tank',
+            status: 'failed',
+            retry_count: 8,
+            compensated_at: null,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ],
+        error: null,
+        count: 41,
+      });
+      mockSupabase.from.mockReturnValueOnce(listQuery);
+      const from = new Date('2026-01-01T00:00:00Z');
+      const to = new Date('2026-01-31T00:00:00Z');
+
+      // Act
+      const result = await service.listSyncs({
+        status: 'failed',
+        entity_type: 'tank',
+        from,
+        to,
+        page: 3,
+        limit: 20,
+      });
+
+      // Assert
+      expect(listQuery.select).toHaveBeenCalledWith('*', { count: 'exact' });
+      expect(listQuery.eq).toHaveBeenCalledWith('status', 'failed');
+      expect(listQuery.eq).toHaveBeenCalledWith('entity_type', 'tank');
+      expect(listQuery.gte).toHaveBeenCalledWith('created_at', from.toISOString());
+      expect(listQuery.lte).toHaveBeenCalledWith('created_at', to.toISOString());
+      expect(listQuery.range).toHaveBeenCalledWith(40, 59);
+      expect(result.total).toBe(41);
+      expect(result.page).toBe(3);
+      expect(result.items[0]?.operation).toBe('mint_tank');
+    });
+
+    it('should filter entries flagged for manual review', async () => {
+      // Arrange
+      const listQuery = { ...createListQuery({ data: [], error: null, count: 0 }), not: vi.fn().mockReturnThis() };
+      mockSupabase.from.mockReturnValueOnce(listQuery);
+
+      // Act
+      await service.listSyncs({ needs_review: true });
+
+      // Assert
+      expect(listQuery.not).toHaveBeenCalledWith('review_reason', 'is', null);
+    });
+
+    it('should use default pagination without filters', async () => {
+      // Arrange
+      const listQuery = createListQuery({ data: [], error: null, count: 0 });
+      mockSupabase.from.mockReturnValueOnce(listQuery);
+
+      // Act
+      const result = await service.listSyncs();
+
+      // Assert
+      expect(listQuery.eq).not.toHaveBeenCalled();
+      expect(listQuery.range).toHaveBeenCalledWith(0, 19);
+      expect(result).toEqual({ items: [], total: 0, page: 1, limit: 20 });
+    });
+
+    it('should throw ValidationError for invalid filters', async () => {
+      await expect(service.listSyncs({ status: 'stuck' as any })).rejects.toThrow(ValidationError);
+      await expect(service.listSyncs({ limit: 500 })).rejects.toThrow(ValidationError);
+      await expect(service.listSyncs({ page: 0 })).rejects.toThrow(ValidationError);
+      await expect(
+        service.listSyncs({ from: new Date('2026-02-01'), to: new Date('2026-01-01') })
+      ).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retrySync / cancelSync', () => {
+    const createRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 1,
+      tx_hash: txHash,
+      entity_type: entityType,
+      entity_id: entityId,
+      operation: 'mint_fish',
+      status: 'failed',
+      retry_count: 8,
+      compensated_at: null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      ...overrides,
+    });
+
+    const createSelectQuery = (row: Record<string, unknown> | null) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        row ? { data: row, error: null } : { data: null, error: { code: 'PGRST116' } }
+      ),
+    });
+
+    const createUpdateQuery = (result: { data: any; error: any }) => ({
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(result),
+    });
+
+    it('should requeue a failed entry with a fresh retry count', async () => {
+      // Arrange
+      const updateQuery = createUpdateQuery({
+        data: createRow({ status: 'pending', retry_count: 0 }),
+        error: null,
+      });
+      mockSupabase.from
+        .mockReturnValueOnce(createSelectQuery(createRow()))
+        .mockReturnValueOnce(updateQuery);
+
+      // Act
+      const result = await service.retrySync(txHash);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ status: 'pending', retry_count: 0, failure_reason: null });
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'failed');
+      expect(result.status).toBe('pending');
+      expect(result.retry_count).toBe(0);
+    });
+
+    it('should not retry entries that were already compensated', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(
+        createSelectQuery(createRow({ compensated_at: new Date().toISOString() }))
+      );
+
+      // Act & Assert
+      await expect(service.retrySync(txHash)).rejects.toThrow(ConflictError);
+    });
+
+    it('should not retry confirmed entries', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createSelectQuery(createRow({ status: 'confirmed' })));
+
+      // Act & Assert
+      await expect(service.retrySync(txHash)).rejects.toThrow(ConflictError);
+    });
+
+    it('should cancel a pending entry', async () => {
+      // Arrange
+      const updateQuery = createUpdateQuery({
+        data: createRow({ status: 'cancelled', retry_count: 2 }),
+        error: null,
+      });
+      mockSupabase.from
+        .mockReturnValueOnce(createSelectQuery(createRow({ status: 'pending', retry_count: 2 })))
+        .mockReturnValueOnce(updateQuery);
+
+      // Act
+      const result = await service.cancelSync(txHash);
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ status: 'cancelled' });
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(result.status).toBe('cancelled');
+    });
+
+    it('should not cancel entries that are no longer pending', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createSelectQuery(createRow({ status: 'failed' })));
+
+      // Act & Assert
+      await expect(service.cancelSync(txHash)).rejects.toThrow(ConflictError);
+    });
+
+    it('should report a concurrent status change as a conflict', async () => {
+      // Arrange
+      mockSupabase.from
+        .mockReturnValueOnce(createSelectQuery(createRow({ status: 'pending' })))
+        .mockReturnValueOnce(createUpdateQuery({ data: null, error: { code: 'PGRST116' } }));
+
+      // Act & Assert
+      await expect(service.cancelSync(txHash)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError if entry does not exist', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createSelectQuery(null));
+
+      // Act & Assert
+      await expect(service.cancelSync(txHash)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -10,9 +10,17 @@ vi.mock('@/core/utils/supabase-client', () => ({
 }));
 
 vi.mock('@/core/utils/dojo-client', () => ({
-  getTankOnChain: vi.fn(),
+  getDojoClient: vi.fn(),
 }));
 
+vi.mock('@/services/sync.service', () => {
+  const SyncService = vi.fn(function () {});
+
+  SyncService.prototype.addToSyncQueue = vi.fn();
+
+  return { SyncService };
+});
+
 vi.mock('@/core/utils/logger', () => ({
   logError: vi.fn(),
 }));
@@ -21,7 +29,16 @@ vi.mock('@/core/utils/logger', () => ({
 import { TankService } from '@/services/tank.service';
 import { ValidationError, NotFoundError, OnChainError, ConflictError } from '@/core/errors';
 import { getSupabaseClient } from '@/core/utils/supabase-client';
-import { getTankOnChain } from '@/core/utils/dojo-client';
+import type { DojoClient } from '@/core/types';
+import { SyncService } from '@/services/sync.service';
+import { MAX_TANKS_PER_PLAYER } from '@/core/config';
+import { DecorationKind } from '@/models/decoration.model';
+import { TankTier, type UpdateTankLayoutDto } from '@/models/tank.model';
+
+const dojoClient = {
+  getTankOnChain: vi.fn(),
+  mintTank: vi.fn(),
+};
 
 describe('TankService', () => {
   let service: TankService;
@@ -31,7 +48,7 @@ describe('TankService', () => {
   const tankId = 1;
 
   beforeEach(() => {
-    service = new TankService();
+    service = new TankService(dojoClient as unknown as DojoClient);
     vi.clearAllMocks();
 
     // Setup default Supabase mock
@@ -85,7 +102,7 @@ describe('TankService', () => {
         .mockReturnValueOnce(selectQuery) // Tank query
         .mockReturnValueOnce(fishQuery); // Fish query
 
-      vi.mocked(getTankOnChain).mockResolvedValue(tankOnChain);
+      dojoClient.getTankOnChain.mockResolvedValue(tankOnChain);
 
       // Act
       const result = await service.getTankById(tankId);
@@ -141,7 +158,7 @@ describe('TankService', () => {
       };
 
       mockSupabase.from.mockReturnValueOnce(selectQuery);
-      vi.mocked(getTankOnChain).mockRejectedValue(new Error('On-chain error'));
+      dojoClient.getTankOnChain.mockRejectedValue(new Error('On-chain error'));
 
       // Act & Assert
       await expect(service.getTankById(tankId)).rejects.toThrow(OnChainError);
@@ -200,7 +217,7 @@ describe('TankService', () => {
         .mockReturnValueOnce(tanksQuery)
         .mockReturnValueOnce(fishQuery);
 
-      vi.mocked(getTankOnChain)
+      dojoClient.getTankOnChain
         .mockResolvedValueOnce({ id: 1, capacity: 10 })
         .mockResolvedValueOnce({ id: 2, capacity: 20 });
 
@@ -298,7 +315,7 @@ describe('TankService', () => {
         .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(fishCountQuery);
 
-      vi.mocked(getTankOnChain).mockResolvedValue(tankOnChain);
+      dojoClient.getTankOnChain.mockResolvedValue(tankOnChain);
 
       // Act & Assert
       await expect(service.checkTankCapacity(tankId, 1)).resolves.not.toThrow();
@@ -330,7 +347,7 @@ describe('TankService', () => {
         .mockReturnValueOnce(tankQuery)
         .mockReturnValueOnce(fishCountQuery);
 
-      vi.mocked(getTankOnChain).mockResolvedValue(tankOnChain);
+      dojoClient.getTankOnChain.mockResolvedValue(tankOnChain);
 
       // Act & Assert
       await expect(service.checkTankCapacity(tankId, 1)).rejects.toThrow(ConflictError);
@@ -411,5 +428,494 @@ describe('TankService', () => {
       await expect(service.getFirstTankIdByOwner('')).rejects.toThrow(ValidationError);
     });
   });
-});
 
+  describe('mintTank', () => {
+    const createPlayerQuery = (exists: boolean = true) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        exists
+          ? { data: { address: owner }, error: null }
+          : { data: null, error: { code: 'PGRST116' } }
+      ),
+    });
+
+    const tankRow = { id: 7, owner, name: 'Reef', sprite_url: null, created_at: '2026-01-01T00:00:00Z' };
+
+    const mockRpc = (results: Record<string, { data: unknown; error: unknown }>) => {
+      mockSupabase.rpc = vi.fn(async (fn: string) => results[fn] ?? { data: null, error: null });
+    };
+
+    const createReleaseQuery = () => ({
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ error: null }),
+    });
+
+    it('should claim a slot, mint, save and track a new tank', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery());
+      mockRpc({
+        claim_tank_mint: { data: 31, error: null },
+        save_claimed_tank: { data: tankRow, error: null },
+      });
+      dojoClient.mintTank.mockResolvedValue({ tx_hash: '0xtankTx', tank_id: 7 });
+
+      // Act
+      const result = await service.mintTank(owner, '  Reef ');
+
+      // Assert
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_tank_mint', {
+        p_owner: owner,
+        p_max_tanks: MAX_TANKS_PER_PLAYER,
+        p_claim_ttl_seconds: 600,
+      });
+      expect(dojoClient.mintTank).toHaveBeenCalledWith(owner, 10);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_claimed_tank', {
+        p_claim_id: 31,
+        p_tank_id: 7,
+        p_owner: owner,
+        p_name: 'Reef',
+      });
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xtankTx',
+        'tank',
+        '7',
+        'mint_tank',
+        undefined
+      );
+      expect(result).toEqual({
+        id: 7,
+        owner,
+        capacity: 10,
+        name: 'Reef',
+        sprite_url: null,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should throw ConflictError when player is at the tank limit', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery());
+      mockRpc({
+        claim_tank_mint: { data: null, error: { code: '55000', message: 'maximum of tanks' } },
+      });
+
+      // Act & Assert
+      await expect(service.mintTank(owner)).rejects.toThrow(ConflictError);
+      expect(dojoClient.mintTank).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when player does not exist', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery(false));
+
+      // Act & Assert
+      await expect(service.mintTank(owner)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should release the claimed slot and throw OnChainError when on-chain mint fails', async () => {
+      // Arrange
+      const releaseQuery = createReleaseQuery();
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery()).mockReturnValueOnce(releaseQuery);
+      mockRpc({ claim_tank_mint: { data: 31, error: null } });
+      dojoClient.mintTank.mockRejectedValue(new Error('Contract reverted'));
+
+      // Act & Assert
+      await expect(service.mintTank(owner)).rejects.toThrow(OnChainError);
+      expect(mockSupabase.from).toHaveBeenCalledWith('tank_mint_claims');
+      expect(releaseQuery.eq).toHaveBeenCalledWith('id', 31);
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith('save_claimed_tank', expect.anything());
+    });
+
+    it('should flag the mint for review when saving the tank fails after the on-chain mint', async () => {
+      // Arrange
+      mockSupabase.from.mockReturnValueOnce(createPlayerQuery());
+      mockRpc({
+        claim_tank_mint: { data: 31, error: null },
+        save_claimed_tank: { data: null, error: { code: '23505', message: 'duplicate key' } },
+      });
+      dojoClient.mintTank.mockResolvedValue({ tx_hash: '0xtankTx', tank_id: 7 });
+
+      // Act & Assert
+      await expect(service.mintTank(owner)).rejects.toThrow('flagged for manual review');
+      expect(SyncService.prototype.addToSyncQueue).toHaveBeenCalledWith(
+        '0xtankTx',
+        'tank',
+        '7',
+        'mint_tank',
+        expect.stringContaining('saving it failed: duplicate key')
+      );
+    });
+
+    it('should throw ValidationError for a name that is too long', async () => {
+      // Act & Assert
+      await expect(service.mintTank(owner, 'x'.repeat(51))).rejects.toThrow(ValidationError);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameTank', () => {
+    it('should update the name and return the tank', async () => {
+      // Arrange
+      const ownerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: tankId, owner }, error: null }),
+      };
+      const updateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(ownerQuery).mockReturnValueOnce(updateQuery);
+      const renamed = { id: tankId, owner, capacity: 10, name: 'Deep Blue', createdAt: new Date(), fish: [] };
+      const getTankSpy = vi.spyOn(service, 'getTankById').mockResolvedValue(renamed);
+
+      // Act
+      const result = await service.renameTank(tankId, owner, 'Deep Blue');
+
+      // Assert
+      expect(updateQuery.update).toHaveBeenCalledWith({ name: 'Deep Blue' });
+      expect(getTankSpy).toHaveBeenCalledWith(tankId);
+      expect(result).toEqual(renamed);
+    });
+
+    it('should throw ValidationError when tank belongs to another player', async () => {
+      // Arrange
+      const ownerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: tankId, owner: '0xother' }, error: null }),
+      };
+      mockSupabase.from.mockReturnValueOnce(ownerQuery);
+
+      // Act & Assert
+      await expect(service.renameTank(tankId, owner, 'Mine now')).rejects.toThrow(
+        `Tank with ID ${tankId} does not belong to owner ${owner}`
+      );
+    });
+
+    it('should throw NotFoundError when tank does not exist', async () => {
+      // Arrange
+      const ownerQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      };
+      mockSupabase.from.mockReturnValueOnce(ownerQuery);
+
+      // Act & Assert
+      await expect(service.renameTank(999, owner, 'Ghost')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError for an empty name', async () => {
+      // Act & Assert
+      await expect(service.renameTank(tankId, owner, '   ')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('tank layout', () => {
+    const createOwnerQuery = (tankOwner: string | null) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        tankOwner === null
+          ? { data: null, error: { code: 'PGRST116' } }
+          : { data: { id: tankId, owner: tankOwner }, error: null }
+      ),
+    });
+
+    const createPlacedQuery = (rows: { id: number; kind: DecorationKind }[]) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ data: rows, error: null }),
+    });
+
+    const baseLayout = (overrides: Partial<UpdateTankLayoutDto> = {}): UpdateTankLayoutDto => ({
+      version: 2,
+      background: { decoration_id: null },
+      decorations: [],
+      spawn_zones: [],
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockSupabase.rpc = vi.fn();
+      dojoClient.getTankOnChain.mockResolvedValue({ id: tankId, owner, capacity: 10 });
+    });
+
+    describe('getTankLayout', () => {
+      it('should combine the stored layout with placed decorations', async () => {
+        // Arrange
+        const layoutQuery = {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: {
+              tank_id: tankId,
+              version: 3,
+              background_decoration_id: 7,
+              spawn_zones: [{ x: 0, y: 0, width: 200, height: 100 }],
+              updated_at: '2026-10-01T00:00:00Z',
+            },
+            error: null,
+          }),
+        };
+        const decorationsQuery = {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({
+            data: [
+              {
+                id: 4,
+                kind: DecorationKind.Plant,
+                image_url: 'plant.png',
+                position_x: 100,
+                position_y: 200,
+                rotation: 0,
+                scale: 1,
+                z_layer: 1,
+              },
+              { id: 5, kind: DecorationKind.Statue, image_url: null, position_x: null },
+              { id: 7, kind: DecorationKind.Background, image_url: 'reef.png' },
+            ],
+            error: null,
+          }),
+        };
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(layoutQuery)
+          .mockReturnValueOnce(decorationsQuery);
+
+        // Act
+        const result = await service.getTankLayout(tankId);
+
+        // Assert
+        expect(result).toEqual({
+          tank_id: tankId,
+          version: 3,
+          tier: TankTier.Small,
+          width: 1280,
+          height: 720,
+          background: { decoration_id: 7, sprite_url: 'reef.png' },
+          decorations: [
+            {
+              decoration_id: 4,
+              kind: DecorationKind.Plant,
+              sprite_url: 'plant.png',
+              transform: { x: 100, y: 200, rotation: 0, scale: 1, z_layer: 1 },
+            },
+            { decoration_id: 5, kind: DecorationKind.Statue, sprite_url: null, transform: null },
+          ],
+          spawn_zones: [{ x: 0, y: 0, width: 200, height: 100 }],
+          updated_at: new Date('2026-10-01T00:00:00Z'),
+        });
+      });
+
+      it('should return version 0 for a tank without a saved layout', async () => {
+        // Arrange
+        dojoClient.getTankOnChain.mockResolvedValue({ id: tankId, owner, capacity: 30 });
+        const layoutQuery = {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+        };
+        const decorationsQuery = {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({ data: [], error: null }),
+        };
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(layoutQuery)
+          .mockReturnValueOnce(decorationsQuery);
+
+        // Act
+        const result = await service.getTankLayout(tankId);
+
+        // Assert
+        expect(result).toMatchObject({
+          version: 0,
+          tier: TankTier.Large,
+          background: { decoration_id: null, sprite_url: null },
+          decorations: [],
+          spawn_zones: [],
+          updated_at: null,
+        });
+      });
+
+      it('should throw NotFoundError when tank does not exist', async () => {
+        // Arrange
+        mockSupabase.from.mockReturnValueOnce(createOwnerQuery(null));
+
+        // Act & Assert
+        await expect(service.getTankLayout(999)).rejects.toThrow(NotFoundError);
+      });
+    });
+
+    describe('updateTankLayout', () => {
+      it('should save a valid layout and return the new version', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(
+            createPlacedQuery([
+              { id: 4, kind: DecorationKind.Plant },
+              { id: 5, kind: DecorationKind.Statue },
+              { id: 7, kind: DecorationKind.Background },
+            ])
+          );
+        mockSupabase.rpc.mockResolvedValue({ data: 3, error: null });
+        const saved = { tank_id: tankId, version: 3 } as any;
+        const getLayoutSpy = vi.spyOn(service, 'getTankLayout').mockResolvedValue(saved);
+
+        const layout = baseLayout({
+          background: { decoration_id: 7 },
+          decorations: [
+            { decoration_id: 4, transform: { x: 100, y: 200, rotation: 0, scale: 1, z_layer: 0 } },
+            // Overlaps decoration 4, but on another z-layer
+            { decoration_id: 5, transform: { x: 120, y: 200, rotation: 90, scale: 1, z_layer: 1 } },
+          ],
+          spawn_zones: [{ x: 600, y: 300, width: 200, height: 100 }],
+        });
+
+        // Act
+        const result = await service.updateTankLayout(tankId, owner, layout);
+
+        // Assert
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('save_tank_layout', {
+          p_tank_id: tankId,
+          p_owner: owner,
+          p_expected_version: 2,
+          p_background_decoration_id: 7,
+          p_decorations: [
+            { decoration_id: 4, x: 100, y: 200, rotation: 0, scale: 1, z_layer: 0 },
+            { decoration_id: 5, x: 120, y: 200, rotation: 90, scale: 1, z_layer: 1 },
+          ],
+          p_spawn_zones: [{ x: 600, y: 300, width: 200, height: 100 }],
+        });
+        expect(getLayoutSpy).toHaveBeenCalledWith(tankId);
+        expect(result).toBe(saved);
+      });
+
+      it('should reject decorations that overlap on the same z-layer', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(
+            createPlacedQuery([
+              { id: 4, kind: DecorationKind.Plant },
+              { id: 5, kind: DecorationKind.Ornament },
+            ])
+          );
+
+        const layout = baseLayout({
+          decorations: [
+            { decoration_id: 4, transform: { x: 100, y: 200, rotation: 0, scale: 1, z_layer: 2 } },
+            { decoration_id: 5, transform: { x: 150, y: 250, rotation: 0, scale: 1, z_layer: 2 } },
+          ],
+        });
+
+        // Act
+        const error = await service.updateTankLayout(tankId, owner, layout).catch((e) => e);
+
+        // Assert
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toBe('Decoration with ID 5 overlaps decoration 4 on z-layer 2');
+        expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      });
+
+      it('should reject decorations outside the bounds of the tank tier', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(createPlacedQuery([{ id: 4, kind: DecorationKind.Plant }]));
+
+        // Plant is 120x200 at scale 1: its bottom edge would be at 720 + 100
+        const layout = baseLayout({
+          decorations: [
+            { decoration_id: 4, transform: { x: 100, y: 720, rotation: 0, scale: 1, z_layer: 0 } },
+          ],
+        });
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, layout)).rejects.toThrow(
+          `Decoration with ID 4 is out of bounds of tank ${tankId} (1280x720)`
+        );
+      });
+
+      it('should reject decorations that are not placed in the tank', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(createPlacedQuery([]));
+
+        const layout = baseLayout({
+          decorations: [
+            { decoration_id: 9, transform: { x: 100, y: 200, rotation: 0, scale: 1, z_layer: 0 } },
+          ],
+        });
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, layout)).rejects.toThrow(
+          `Decoration with ID 9 is not placed in tank ${tankId}`
+        );
+      });
+
+      it('should reject an out of range scale', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(createPlacedQuery([{ id: 4, kind: DecorationKind.Plant }]));
+
+        const layout = baseLayout({
+          decorations: [
+            { decoration_id: 4, transform: { x: 300, y: 300, rotation: 0, scale: 5, z_layer: 0 } },
+          ],
+        });
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, layout)).rejects.toThrow(ValidationError);
+      });
+
+      it('should reject spawn zones outside the tank', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(createPlacedQuery([]));
+
+        const layout = baseLayout({
+          spawn_zones: [{ x: 1200, y: 0, width: 200, height: 100 }],
+        });
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, layout)).rejects.toThrow(
+          `Spawn zone 0 is out of bounds of tank ${tankId} (1280x720)`
+        );
+      });
+
+      it('should throw ConflictError when the layout version changed', async () => {
+        // Arrange
+        mockSupabase.from
+          .mockReturnValueOnce(createOwnerQuery(owner))
+          .mockReturnValueOnce(createPlacedQuery([]));
+        mockSupabase.rpc.mockResolvedValue({
+          data: null,
+          error: { code: '40001', message: 'tank 1 layout is at version 3, expected 2' },
+        });
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, baseLayout())).rejects.toThrow(ConflictError);
+      });
+
+      it('should throw ValidationError when tank belongs to another player', async () => {
+        // Arrange
+        mockSupabase.from.mockReturnValueOnce(createOwnerQuery('0xother'));
+
+        // Act & Assert
+        await expect(service.updateTankLayout(tankId, owner, baseLayout())).rejects.toThrow(
+          `Tank with ID ${tankId} does not belong to owner ${owner}`
+        );
+        expect(dojoClient.getTankOnChain).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -6,6 +6,14 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    // Placeholders for the variables config requires, so tests run without a .env
+    env: {
+      SUPABASE_URL: 'http://localhost:54321',
+      SUPABASE_KEY: 'test-key',
+      STARKNET_RPC: 'http://localhost:5050',
+      CARTRIDGE_AUTH_URL: 'http://localhost:8080/auth',
+      SESSION_SECRET: 'test-session-secret',
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],